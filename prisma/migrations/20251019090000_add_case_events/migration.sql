@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."CaseEventType" AS ENUM ('CASE_CREATED', 'CASE_UPDATED', 'STATUS_CHANGED', 'REASSIGNED', 'DOCUMENT_UPLOADED', 'NOTE_ADDED', 'HEARING');
+
+-- CreateTable
+CREATE TABLE "public"."case_events" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "case_id" TEXT NOT NULL,
+    "event_type" "public"."CaseEventType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "metadata" JSONB,
+    "actor_id" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "case_events_case_id_occurredAt_idx" ON "public"."case_events"("case_id", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."case_events" ADD CONSTRAINT "case_events_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "public"."cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."case_events" ADD CONSTRAINT "case_events_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
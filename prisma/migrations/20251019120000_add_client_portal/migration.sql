@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."clients" ADD COLUMN     "user_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."documents" ADD COLUMN     "shared_at" TIMESTAMP(3),
+ADD COLUMN     "shared_with_client" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clients_user_id_key" ON "public"."clients"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."clients" ADD CONSTRAINT "clients_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "public"."CalendarEventType" AS ENUM ('HEARING', 'APPOINTMENT', 'DEADLINE');
+
+-- CreateEnum
+CREATE TYPE "public"."ReminderStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."calendar_events" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "case_id" TEXT,
+    "client_id" TEXT,
+    "assigned_user_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "event_type" "public"."CalendarEventType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "court_name" TEXT,
+    "judge_name" TEXT,
+    "start_time" TIMESTAMP(3) NOT NULL,
+    "end_time" TIMESTAMP(3),
+    "all_day" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."calendar_reminders" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "send_at" TIMESTAMP(3) NOT NULL,
+    "status" "public"."ReminderStatus" NOT NULL DEFAULT 'PENDING',
+    "sent_at" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "calendar_events_law_firm_id_start_time_idx" ON "public"."calendar_events"("law_firm_id", "start_time");
+
+-- CreateIndex
+CREATE INDEX "calendar_events_assigned_user_id_start_time_idx" ON "public"."calendar_events"("assigned_user_id", "start_time");
+
+-- CreateIndex
+CREATE INDEX "calendar_reminders_status_send_at_idx" ON "public"."calendar_reminders"("status", "send_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_events" ADD CONSTRAINT "calendar_events_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "public"."cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_events" ADD CONSTRAINT "calendar_events_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_events" ADD CONSTRAINT "calendar_events_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_reminders" ADD CONSTRAINT "calendar_reminders_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "public"."calendar_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_reminders" ADD CONSTRAINT "calendar_reminders_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
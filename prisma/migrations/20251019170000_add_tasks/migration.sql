@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "public"."TaskPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- CreateEnum
+CREATE TYPE "public"."TaskStatus" AS ENUM ('TODO', 'IN_PROGRESS', 'BLOCKED', 'DONE', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."tasks" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "case_id" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" "public"."TaskPriority" NOT NULL DEFAULT 'MEDIUM',
+    "status" "public"."TaskStatus" NOT NULL DEFAULT 'TODO',
+    "due_date" TIMESTAMP(3),
+    "assigned_user_id" TEXT,
+    "created_by" TEXT NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tasks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."task_comments" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "author_id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."task_checklist_items" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "is_done" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_checklist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tasks_law_firm_id_status_idx" ON "public"."tasks"("law_firm_id", "status");
+
+-- CreateIndex
+CREATE INDEX "tasks_assigned_user_id_status_idx" ON "public"."tasks"("assigned_user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "task_comments_task_id_createdAt_idx" ON "public"."task_comments"("task_id", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "task_checklist_items_task_id_position_idx" ON "public"."task_checklist_items"("task_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "public"."cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_comments" ADD CONSTRAINT "task_comments_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_comments" ADD CONSTRAINT "task_comments_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_checklist_items" ADD CONSTRAINT "task_checklist_items_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_checklist_items" ADD CONSTRAINT "task_checklist_items_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
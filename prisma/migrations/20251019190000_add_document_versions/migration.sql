@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "public"."documents" ADD COLUMN "current_version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."document_versions" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "version_number" INTEGER NOT NULL,
+    "file_path" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "file_size" BIGINT NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "uploaded_by" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_versions_file_path_key" ON "public"."document_versions"("file_path");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_versions_document_id_version_number_key" ON "public"."document_versions"("document_id", "version_number");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_versions" ADD CONSTRAINT "document_versions_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_versions" ADD CONSTRAINT "document_versions_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing document becomes version 1 of itself
+INSERT INTO "public"."document_versions" ("id", "law_firm_id", "document_id", "version_number", "file_path", "file_name", "file_size", "mime_type", "uploaded_by", "createdAt")
+SELECT gen_random_uuid()::text, "law_firm_id", "id", 1, "file_path", "name", "file_size", "mime_type", "uploaded_by", "createdAt"
+FROM "public"."documents";
+
+-- Versions are immutable once written; only cascading deletes may remove them
+CREATE OR REPLACE FUNCTION "public"."prevent_document_version_update"()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'document_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "document_versions_immutable"
+  BEFORE UPDATE ON "public"."document_versions"
+  FOR EACH ROW EXECUTE FUNCTION "public"."prevent_document_version_update"();
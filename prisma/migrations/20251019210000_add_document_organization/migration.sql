@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "public"."documents" ADD COLUMN     "category_id" TEXT,
+ADD COLUMN     "folder_id" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."document_categories" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."document_folders" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "case_id" TEXT NOT NULL,
+    "parent_id" TEXT,
+    "name" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_folders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "documents_law_firm_id_category_id_idx" ON "public"."documents"("law_firm_id", "category_id");
+
+-- CreateIndex
+CREATE INDEX "documents_folder_id_idx" ON "public"."documents"("folder_id");
+
+-- CreateIndex
+CREATE INDEX "documents_tags_idx" ON "public"."documents" USING GIN ("tags");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_categories_law_firm_id_name_key" ON "public"."document_categories"("law_firm_id", "name");
+
+-- CreateIndex
+CREATE INDEX "document_folders_case_id_parent_id_idx" ON "public"."document_folders"("case_id", "parent_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."documents" ADD CONSTRAINT "documents_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "public"."document_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."documents" ADD CONSTRAINT "documents_folder_id_fkey" FOREIGN KEY ("folder_id") REFERENCES "public"."document_folders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_categories" ADD CONSTRAINT "document_categories_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_folders" ADD CONSTRAINT "document_folders_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_folders" ADD CONSTRAINT "document_folders_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "public"."cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_folders" ADD CONSTRAINT "document_folders_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."document_folders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the default categories for every existing firm
+INSERT INTO "public"."document_categories" ("id", "law_firm_id", "name", "position", "updatedAt")
+SELECT gen_random_uuid()::text, f."id", c."name", c."position", CURRENT_TIMESTAMP
+FROM "public"."law_firms" f
+CROSS JOIN (VALUES
+    ('Pleadings', 0),
+    ('Evidence', 1),
+    ('Contracts', 2),
+    ('Correspondence', 3),
+    ('Court Orders', 4),
+    ('Discovery', 5)
+) AS c("name", "position");
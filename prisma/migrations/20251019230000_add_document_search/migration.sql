@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."DocumentIndexStatus" AS ENUM ('PENDING', 'INDEXED', 'UNSUPPORTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."document_text_index" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "version_number" INTEGER NOT NULL,
+    "status" "public"."DocumentIndexStatus" NOT NULL DEFAULT 'PENDING',
+    "content" TEXT,
+    "error" TEXT,
+    "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce("content", ''))) STORED,
+    "indexed_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_text_index_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_text_index_document_id_key" ON "public"."document_text_index"("document_id");
+
+-- CreateIndex
+CREATE INDEX "document_text_index_law_firm_id_status_idx" ON "public"."document_text_index"("law_firm_id", "status");
+
+-- CreateIndex
+CREATE INDEX "document_text_index_search_vector_idx" ON "public"."document_text_index" USING GIN ("search_vector");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_text_index" ADD CONSTRAINT "document_text_index_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_text_index" ADD CONSTRAINT "document_text_index_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Queue every existing document for extraction
+INSERT INTO "public"."document_text_index" ("id", "law_firm_id", "document_id", "version_number", "updatedAt")
+SELECT gen_random_uuid()::text, "law_firm_id", "id", "current_version", CURRENT_TIMESTAMP
+FROM "public"."documents";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."roles" ADD COLUMN "base_role" TEXT;
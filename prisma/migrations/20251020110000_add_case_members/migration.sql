@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."CaseAccessType" AS ENUM ('MEMBER', 'DENIED');
+
+-- CreateTable
+CREATE TABLE "public"."case_members" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "case_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "access" "public"."CaseAccessType" NOT NULL DEFAULT 'MEMBER',
+    "matter_role" TEXT,
+    "reason" TEXT,
+    "added_by" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "case_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "case_members_case_id_user_id_key" ON "public"."case_members"("case_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "case_members_law_firm_id_user_id_idx" ON "public"."case_members"("law_firm_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."case_members" ADD CONSTRAINT "case_members_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "public"."cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."case_members" ADD CONSTRAINT "case_members_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."case_members" ADD CONSTRAINT "case_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "public"."DocumentGranteeType" AS ENUM ('USER', 'ROLE', 'CLIENT');
+
+-- CreateTable
+CREATE TABLE "public"."document_permissions" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "grantee_type" "public"."DocumentGranteeType" NOT NULL,
+    "user_id" TEXT,
+    "role_id" TEXT,
+    "client_id" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "granted_by" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "document_permissions_document_id_idx" ON "public"."document_permissions"("document_id");
+
+-- CreateIndex
+CREATE INDEX "document_permissions_law_firm_id_user_id_idx" ON "public"."document_permissions"("law_firm_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "document_permissions_role_id_idx" ON "public"."document_permissions"("role_id");
+
+-- CreateIndex
+CREATE INDEX "document_permissions_client_id_idx" ON "public"."document_permissions"("client_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_permissions" ADD CONSTRAINT "document_permissions_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_permissions" ADD CONSTRAINT "document_permissions_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_permissions" ADD CONSTRAINT "document_permissions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_permissions" ADD CONSTRAINT "document_permissions_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_permissions" ADD CONSTRAINT "document_permissions_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
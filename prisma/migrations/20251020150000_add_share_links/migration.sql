@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "public"."ShareLinkAccessAction" AS ENUM ('VIEW', 'DOWNLOAD', 'DENIED');
+
+-- CreateTable
+CREATE TABLE "public"."share_links" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "label" TEXT,
+    "recipient_email" TEXT,
+    "password_hash" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "max_downloads" INTEGER,
+    "download_count" INTEGER NOT NULL DEFAULT 0,
+    "watermark" BOOLEAN NOT NULL DEFAULT false,
+    "revoked_at" TIMESTAMP(3),
+    "created_by" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."share_link_documents" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "share_link_id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_link_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."share_link_access_logs" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "share_link_id" TEXT NOT NULL,
+    "document_id" TEXT,
+    "action" "public"."ShareLinkAccessAction" NOT NULL,
+    "reason" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_link_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_links_token_hash_key" ON "public"."share_links"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "share_links_law_firm_id_created_by_idx" ON "public"."share_links"("law_firm_id", "created_by");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_link_documents_share_link_id_document_id_key" ON "public"."share_link_documents"("share_link_id", "document_id");
+
+-- CreateIndex
+CREATE INDEX "share_link_documents_document_id_idx" ON "public"."share_link_documents"("document_id");
+
+-- CreateIndex
+CREATE INDEX "share_link_access_logs_share_link_id_createdAt_idx" ON "public"."share_link_access_logs"("share_link_id", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "share_link_access_logs_law_firm_id_idx" ON "public"."share_link_access_logs"("law_firm_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."share_links" ADD CONSTRAINT "share_links_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_link_documents" ADD CONSTRAINT "share_link_documents_share_link_id_fkey" FOREIGN KEY ("share_link_id") REFERENCES "public"."share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_link_documents" ADD CONSTRAINT "share_link_documents_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_link_documents" ADD CONSTRAINT "share_link_documents_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_link_access_logs" ADD CONSTRAINT "share_link_access_logs_share_link_id_fkey" FOREIGN KEY ("share_link_id") REFERENCES "public"."share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_link_access_logs" ADD CONSTRAINT "share_link_access_logs_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."audit_logs" (
+    "id" TEXT NOT NULL,
+    "law_firm_id" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "action" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT,
+    "old_values" JSONB,
+    "new_values" JSONB,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "request_id" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_law_firm_id_createdAt_idx" ON "public"."audit_logs"("law_firm_id", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_law_firm_id_entity_type_entity_id_idx" ON "public"."audit_logs"("law_firm_id", "entity_type", "entity_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_law_firm_id_actor_id_idx" ON "public"."audit_logs"("law_firm_id", "actor_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."audit_logs" ADD CONSTRAINT "audit_logs_law_firm_id_fkey" FOREIGN KEY ("law_firm_id") REFERENCES "public"."law_firms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- platform_audit_logs was created by hand on existing deployments. Create it
+-- where it is missing and align its column types with the schema.
+CREATE TABLE IF NOT EXISTS "public"."platform_audit_logs" (
+    "id" TEXT NOT NULL,
+    "platform_user_id" TEXT,
+    "law_firm_id" TEXT,
+    "action" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT,
+    "old_values" JSONB,
+    "new_values" JSONB,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "platform_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "public"."platform_audit_logs"
+    ALTER COLUMN "id" TYPE TEXT USING "id"::text,
+    ALTER COLUMN "platform_user_id" TYPE TEXT USING "platform_user_id"::text,
+    ALTER COLUMN "law_firm_id" TYPE TEXT USING "law_firm_id"::text,
+    ALTER COLUMN "entity_id" TYPE TEXT USING "entity_id"::text,
+    ALTER COLUMN "ip_address" TYPE TEXT USING "ip_address"::text,
+    ALTER COLUMN "created_at" TYPE TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."platform_audit_logs"
+    ADD COLUMN "sequence" INTEGER,
+    ADD COLUMN "previous_hash" TEXT,
+    ADD COLUMN "hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."audit_logs"
+    ADD COLUMN "sequence" INTEGER,
+    ADD COLUMN "previous_hash" TEXT,
+    ADD COLUMN "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platform_audit_logs_sequence_key" ON "public"."platform_audit_logs"("sequence");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "platform_audit_logs_law_firm_id_created_at_idx" ON "public"."platform_audit_logs"("law_firm_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_law_firm_id_sequence_key" ON "public"."audit_logs"("law_firm_id", "sequence");
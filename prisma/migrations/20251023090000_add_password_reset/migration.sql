@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."platform_users" ADD COLUMN "sessions_revoked_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."password_reset_tokens" (
+    "id" TEXT NOT NULL,
+    "platform_user_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "requested_ip" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "password_reset_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "password_reset_tokens_token_hash_key" ON "public"."password_reset_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "password_reset_tokens_platform_user_id_idx" ON "public"."password_reset_tokens"("platform_user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_platform_user_id_fkey" FOREIGN KEY ("platform_user_id") REFERENCES "public"."platform_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."platform_users" ADD COLUMN "mfa_secret" TEXT,
+ADD COLUMN "mfa_enabled_at" TIMESTAMP(3),
+ADD COLUMN "mfa_last_used_step" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."mfa_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "platform_user_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mfa_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mfa_recovery_codes_platform_user_id_idx" ON "public"."mfa_recovery_codes"("platform_user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."mfa_recovery_codes" ADD CONSTRAINT "mfa_recovery_codes_platform_user_id_fkey" FOREIGN KEY ("platform_user_id") REFERENCES "public"."platform_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
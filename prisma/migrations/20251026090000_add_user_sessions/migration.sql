@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."user_sessions" (
+    "id" TEXT NOT NULL,
+    "platform_user_id" TEXT NOT NULL,
+    "law_firm_id" TEXT,
+    "device" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_sessions_platform_user_id_idx" ON "public"."user_sessions"("platform_user_id");
+
+-- CreateIndex
+CREATE INDEX "user_sessions_law_firm_id_idx" ON "public"."user_sessions"("law_firm_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_sessions" ADD CONSTRAINT "user_sessions_platform_user_id_fkey" FOREIGN KEY ("platform_user_id") REFERENCES "public"."platform_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Backfill: built-in Client roles created before the client portal still
+-- store firm-wide view permissions. Clients only get portal access.
+UPDATE "public"."roles"
+SET "permissions" = '["portal.access"]'::jsonb,
+    "updatedAt" = CURRENT_TIMESTAMP
+WHERE lower(regexp_replace("name", '\s+', '_', 'g')) = 'client';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."platform_users" ADD COLUMN "mfa_failed_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "mfa_locked_until" TIMESTAMP(3);
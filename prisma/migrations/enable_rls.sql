@@ -9,6 +9,23 @@ ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_text_index ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE share_link_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE share_link_access_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for law_firms table
 -- Super admins can see all firms, others can only see their own
@@ -62,6 +79,85 @@ CREATE POLICY documents_tenant_policy ON documents
   FOR ALL
   USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
 
+-- Create policies for document_versions table
+CREATE POLICY document_versions_tenant_policy ON document_versions
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for case_events table
+CREATE POLICY case_events_tenant_policy ON case_events
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for calendar tables
+CREATE POLICY calendar_events_tenant_policy ON calendar_events
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+CREATE POLICY calendar_reminders_tenant_policy ON calendar_reminders
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for task tables
+CREATE POLICY tasks_tenant_policy ON tasks
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+CREATE POLICY task_comments_tenant_policy ON task_comments
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+CREATE POLICY task_checklist_items_tenant_policy ON task_checklist_items
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for document organization tables
+CREATE POLICY document_categories_tenant_policy ON document_categories
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+CREATE POLICY document_folders_tenant_policy ON document_folders
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for the document search index
+CREATE POLICY document_text_index_tenant_policy ON document_text_index
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for case team members and ethical walls
+CREATE POLICY case_members_tenant_policy ON case_members
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for document access grants
+CREATE POLICY document_permissions_tenant_policy ON document_permissions
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for external share links and their access logs
+CREATE POLICY share_links_tenant_policy ON share_links
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+CREATE POLICY share_link_documents_tenant_policy ON share_link_documents
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+CREATE POLICY share_link_access_logs_tenant_policy ON share_link_access_logs
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for the firm audit trail
+CREATE POLICY audit_logs_tenant_policy ON audit_logs
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
+-- Create policies for pending firm invitations
+CREATE POLICY user_invitations_tenant_policy ON user_invitations
+  FOR ALL
+  USING (law_firm_id = current_setting('app.current_law_firm_id', true)::text);
+
 -- Create a function to set tenant context
 CREATE OR REPLACE FUNCTION set_tenant_context(
   p_law_firm_id text,
@@ -81,4 +177,21 @@ BEGIN
   PERFORM set_config('app.current_law_firm_id', '', false);
   PERFORM set_config('app.current_user_role', '', false);
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Role that tenant-scoped transactions switch to (set_config('role', ..., true)).
+-- The application connects as the table owner, which bypasses RLS; inside a
+-- tenant transaction it drops to this role so the policies above apply.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'app_tenant') THEN
+    CREATE ROLE app_tenant NOLOGIN;
+  END IF;
+END
+$$;
+
+GRANT app_tenant TO CURRENT_USER;
+GRANT USAGE ON SCHEMA public TO app_tenant;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO app_tenant;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+  GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO app_tenant;
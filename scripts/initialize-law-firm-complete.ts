@@ -3,6 +3,7 @@
 
 import { randomUUID } from 'crypto'
 import { prisma } from '../src/lib/prisma'
+import { createDefaultDocumentCategories } from '../src/lib/document-organization'
 import { hashPassword } from '../src/lib/auth'
 import {
   sendLawFirmCreatedEmail,
@@ -55,6 +56,10 @@ export async function initializeLawFirmComplete(
             calendarIntegration: true,
             emailNotifications: true,
           },
+          calendar: {
+            conflictMode: 'warn',
+            travelBufferMinutes: 30,
+          },
         },
         updatedAt: new Date(),
       },
@@ -161,6 +166,10 @@ export async function initializeLawFirmComplete(
       })
     }
 
+    // 6. Create default document categories
+    console.log('📄 Creating document categories...')
+    await createDefaultDocumentCategories(lawFirm.id)
+
     console.log('✅ Law firm initialization completed successfully!')
     console.log(`📧 Owner: ${params.ownerEmail}`)
     console.log(`🆔 Law Firm ID: ${lawFirm.id}`)
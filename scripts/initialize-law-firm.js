@@ -34,6 +34,10 @@ const ROLE_PERMISSIONS = {
     'users.edit',
     'users.delete',
     'users.manage_roles',
+    'clients.view',
+    'clients.create',
+    'clients.edit',
+    'clients.delete',
     'cases.view',
     'cases.view_all',
     'cases.create',
@@ -45,6 +49,7 @@ const ROLE_PERMISSIONS = {
     'documents.edit',
     'documents.delete',
     'documents.manage_permissions',
+    'documents.share_external',
     'calendar.view',
     'calendar.view_all',
     'calendar.create',
@@ -60,6 +65,9 @@ const ROLE_PERMISSIONS = {
     'admin.audit_logs',
   ],
   senior_lawyer: [
+    'clients.view',
+    'clients.create',
+    'clients.edit',
     'cases.view_all',
     'cases.create',
     'cases.edit',
@@ -77,6 +85,7 @@ const ROLE_PERMISSIONS = {
     'users.view',
   ],
   junior_lawyer: [
+    'clients.view',
     'cases.view',
     'cases.edit',
     'documents.view',
@@ -90,9 +99,13 @@ const ROLE_PERMISSIONS = {
     'tasks.edit',
   ],
   assistant: [
+    'clients.view',
+    'clients.create',
+    'clients.edit',
     'cases.view',
     'documents.view',
     'documents.upload',
+    'documents.edit',
     'calendar.view',
     'calendar.create',
     'calendar.edit',
@@ -100,13 +113,15 @@ const ROLE_PERMISSIONS = {
     'tasks.edit',
   ],
   secretary: [
+    'clients.view',
+    'clients.create',
     'cases.view',
     'documents.view',
     'calendar.view',
     'calendar.create',
     'tasks.view',
   ],
-  client: ['cases.view', 'documents.view', 'calendar.view'],
+  client: ['portal.access'],
 }
 
 // Main initialization function
@@ -144,6 +159,10 @@ async function initializeLawFirm(params) {
               calendarIntegration: true,
               emailNotifications: true,
             },
+            calendar: {
+              conflictMode: 'warn',
+              travelBufferMinutes: 30,
+            },
           },
         },
       })
@@ -254,7 +273,7 @@ async function createDefaultRoles(tx, lawFirmId) {
     },
     {
       name: 'Client',
-      description: 'Client with limited read-only access',
+      description: 'Client with access to their own matters via the portal',
       permissions: ROLE_PERMISSIONS.client,
       isSystem: true,
     },
@@ -9,6 +9,7 @@ import {
   LawFirmCreatedEmailVariables,
 } from '../src/lib/email'
 import { prisma } from '../src/lib/prisma'
+import { createDefaultDocumentCategories } from '../src/lib/document-organization'
 
 console.log('🔍 INIT SCRIPT DEBUG: Script loaded')
 console.log('🔍 INIT SCRIPT DEBUG: prisma object =', typeof prisma)
@@ -104,6 +105,10 @@ export async function initializeLawFirm(params: InitializeLawFirmParams) {
               calendarIntegration: true,
               emailNotifications: true,
             },
+            calendar: {
+              conflictMode: 'warn',
+              travelBufferMinutes: 30,
+            },
           },
           updatedAt: new Date(),
         },
@@ -171,7 +176,7 @@ export async function initializeLawFirm(params: InitializeLawFirmParams) {
 
       // 8. Create default document categories
       console.log('📄 Creating document categories...')
-      // Note: This would need document_categories table from your schema
+      await createDefaultDocumentCategories(lawFirm.id, tx)
 
       // 9. Create default settings and preferences
       console.log('⚙️ Setting up default configurations...')
@@ -0,0 +1,951 @@
+#!/usr/bin/env node
+// Cross-Tenant Isolation Test Harness
+// Purpose: Prove no read, update or delete can cross law_firm_id
+//
+// Seeds two throwaway firms, then attacks firm B's rows as firm A through:
+//   1. Tenant-scoped database access (the same transaction-scoped RLS
+//      context TenantAwarePrisma applies in src/lib/db.ts)
+//   2. The API handlers of a running app server, signed in as firm A's owner
+//
+// Requirements:
+//   - DATABASE_URL pointing at a local Postgres with migrations applied
+//     and prisma/migrations/enable_rls.sql run (npm run db:setup-rls)
+//   - The app running at TEST_BASE_URL (default http://localhost:3000)
+//
+// Usage:
+//   npm run test:tenant-context
+//   npm run test:tenant-context -- --db-only   (skip the API suite)
+//
+// Exits non-zero when any check fails, so releases can be gated on it.
+
+import { PrismaClient } from '@prisma/client'
+import { createHash, randomUUID } from 'crypto'
+import bcrypt from 'bcryptjs'
+
+const prisma = new PrismaClient()
+
+const BASE_URL = (process.env.TEST_BASE_URL || 'http://localhost:3000').replace(
+  /\/$/,
+  ''
+)
+const TENANT_ROLE = process.env.DATABASE_TENANT_ROLE || 'app_tenant'
+const DB_ONLY = process.argv.includes('--db-only')
+const OWNER_PASSWORD = `Isolation-${randomUUID()}`
+const TAMPERED = 'TAMPERED'
+
+// Models under test with a harmless column to attempt writes on
+const MODELS = [
+  { model: 'audit_logs', column: 'action' },
+  { model: 'cases', column: 'title' },
+  { model: 'clients', column: 'first_name' },
+  { model: 'documents', column: 'name' },
+  { model: 'roles', column: 'description' },
+  { model: 'share_links', column: 'label' },
+  { model: 'user_invitations', column: 'invited_by' },
+  { model: 'user_roles', column: 'assigned_by' },
+  { model: 'users', column: 'isActive', value: false },
+]
+
+const results = []
+
+function record(suite, description, passed, detail) {
+  results.push({ suite, description, passed, detail })
+  console.log(
+    `  ${passed ? '✅' : '❌'} ${description}${!passed && detail ? ` (${detail})` : ''}`
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Seeding
+// ---------------------------------------------------------------------------
+
+async function seedFirm(label, passwordHash) {
+  const now = new Date()
+  const ids = {
+    lawFirmId: randomUUID(),
+    platformUserId: randomUUID(),
+    userId: randomUUID(),
+    roleId: randomUUID(),
+    userRoleId: randomUUID(),
+    clientId: randomUUID(),
+    caseId: randomUUID(),
+    documentId: randomUUID(),
+    shareLinkId: randomUUID(),
+    auditLogId: randomUUID(),
+    invitationId: randomUUID(),
+    sessionId: randomUUID(),
+  }
+  const email = `owner-${label.toLowerCase()}-${ids.lawFirmId}@isolation.test`
+
+  await prisma.law_firms.create({
+    data: {
+      id: ids.lawFirmId,
+      name: `Isolation Test ${label}`,
+      slug: `isolation-test-${ids.lawFirmId}`,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.platform_users.create({
+    data: {
+      id: ids.platformUserId,
+      email,
+      password: passwordHash,
+      name: `Isolation Owner ${label}`,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.users.create({
+    data: {
+      id: ids.userId,
+      law_firm_id: ids.lawFirmId,
+      platform_user_id: ids.platformUserId,
+      joinedAt: now,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.roles.create({
+    data: {
+      id: ids.roleId,
+      law_firm_id: ids.lawFirmId,
+      name: 'owner',
+      description: 'Law firm owner',
+      permissions: [],
+      isSystem: true,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.user_roles.create({
+    data: {
+      id: ids.userRoleId,
+      law_firm_id: ids.lawFirmId,
+      user_id: ids.userId,
+      role_id: ids.roleId,
+      assigned_by: ids.userId,
+    },
+  })
+
+  await prisma.clients.create({
+    data: {
+      id: ids.clientId,
+      law_firm_id: ids.lawFirmId,
+      email: `client-${label.toLowerCase()}@isolation.test`,
+      first_name: 'Isolation',
+      last_name: `Client ${label}`,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.cases.create({
+    data: {
+      id: ids.caseId,
+      law_firm_id: ids.lawFirmId,
+      client_id: ids.clientId,
+      title: `Isolation Case ${label}`,
+      assigned_lawyer_id: ids.userId,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.documents.create({
+    data: {
+      id: ids.documentId,
+      law_firm_id: ids.lawFirmId,
+      case_id: ids.caseId,
+      client_id: ids.clientId,
+      name: `isolation-${label.toLowerCase()}.txt`,
+      file_path: `${ids.lawFirmId}/documents/${ids.caseId}/isolation-${label.toLowerCase()}.txt`,
+      file_size: 1,
+      mime_type: 'text/plain',
+      uploaded_by: ids.userId,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.share_links.create({
+    data: {
+      id: ids.shareLinkId,
+      law_firm_id: ids.lawFirmId,
+      token_hash: createHash('sha256').update(randomUUID()).digest('hex'),
+      label: `Isolation Link ${label}`,
+      expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      created_by: ids.userId,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.audit_logs.create({
+    data: {
+      id: ids.auditLogId,
+      law_firm_id: ids.lawFirmId,
+      actor_id: ids.userId,
+      action: 'CREATE',
+      entity_type: 'case',
+      entity_id: ids.caseId,
+    },
+  })
+
+  await prisma.user_invitations.create({
+    data: {
+      id: ids.invitationId,
+      law_firm_id: ids.lawFirmId,
+      user_id: ids.userId,
+      token_hash: createHash('sha256').update(randomUUID()).digest('hex'),
+      expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      // Old enough that a resend would pass the cooldown
+      last_sent_at: new Date(now.getTime() - 60 * 60 * 1000),
+      invited_by: ids.userId,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.user_sessions.create({
+    data: {
+      id: ids.sessionId,
+      platform_user_id: ids.platformUserId,
+      law_firm_id: ids.lawFirmId,
+      device: 'Isolation test',
+      updatedAt: now,
+    },
+  })
+
+  return { ...ids, email, label }
+}
+
+// A junior lawyer in the firm with CASES.VIEW only, on no case team, to
+// check the in-firm visibility scope
+async function seedJuniorLawyer(firm, passwordHash) {
+  const now = new Date()
+  const ids = {
+    platformUserId: randomUUID(),
+    userId: randomUUID(),
+    roleId: randomUUID(),
+  }
+  const email = `junior-${firm.label.toLowerCase()}-${ids.platformUserId}@isolation.test`
+
+  await prisma.platform_users.create({
+    data: {
+      id: ids.platformUserId,
+      email,
+      password: passwordHash,
+      name: `Isolation Junior ${firm.label}`,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.users.create({
+    data: {
+      id: ids.userId,
+      law_firm_id: firm.lawFirmId,
+      platform_user_id: ids.platformUserId,
+      joinedAt: now,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.roles.create({
+    data: {
+      id: ids.roleId,
+      law_firm_id: firm.lawFirmId,
+      name: 'junior_lawyer',
+      description: 'Junior lawyer',
+      permissions: [],
+      isSystem: true,
+      updatedAt: now,
+    },
+  })
+
+  await prisma.user_roles.create({
+    data: {
+      id: randomUUID(),
+      law_firm_id: firm.lawFirmId,
+      user_id: ids.userId,
+      role_id: ids.roleId,
+      assigned_by: firm.userId,
+    },
+  })
+
+  return { ...ids, email }
+}
+
+// Primary key of the seeded row for each model
+function seededId(firm, model) {
+  return {
+    audit_logs: firm.auditLogId,
+    cases: firm.caseId,
+    clients: firm.clientId,
+    documents: firm.documentId,
+    roles: firm.roleId,
+    share_links: firm.shareLinkId,
+    user_invitations: firm.invitationId,
+    user_roles: firm.userRoleId,
+    users: firm.userId,
+  }[model]
+}
+
+// Snapshot of firm B's rows, read outside RLS, to detect any tampering
+async function snapshotFirm(firm) {
+  const snapshot = {}
+  for (const { model } of MODELS) {
+    snapshot[model] = await prisma[model].findUnique({
+      where: { id: seededId(firm, model) },
+    })
+  }
+  return snapshot
+}
+
+async function cleanup(firms, platformUserIds = []) {
+  // Everything firm-scoped cascades from the firm; platform users do not
+  await prisma.law_firms.deleteMany({
+    where: { id: { in: firms.map(firm => firm.lawFirmId) } },
+  })
+  await prisma.platform_users.deleteMany({
+    where: {
+      id: {
+        in: [...firms.map(firm => firm.platformUserId), ...platformUserIds],
+      },
+    },
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Database layer
+// ---------------------------------------------------------------------------
+
+// Mirrors TenantAwarePrisma.transaction (src/lib/db.ts): tenant settings are
+// applied with set_config(..., true) inside the transaction and the role drops
+// to the non-owner tenant role so the RLS policies apply
+function asTenant(lawFirmId, fn, userRole = 'owner') {
+  return prisma.$transaction(async tx => {
+    await tx.$executeRaw`
+      SELECT
+        set_config('app.current_law_firm_id', ${lawFirmId}, true),
+        set_config('app.current_user_role', ${userRole}, true),
+        set_config('role', ${TENANT_ROLE}, true)
+    `
+    return fn(tx)
+  })
+}
+
+async function runDatabaseSuite(firmA, firmB) {
+  console.log('\n🗄️  Tenant-scoped database access')
+
+  for (const { model, column, value } of MODELS) {
+    const ownId = seededId(firmA, model)
+    const otherId = seededId(firmB, model)
+
+    const visible = await asTenant(firmA.lawFirmId, tx =>
+      tx[model].findMany({ select: { id: true, law_firm_id: true } })
+    )
+    record(
+      'database',
+      `${model}: list sees own rows only`,
+      visible.some(row => row.id === ownId) &&
+        visible.every(row => row.law_firm_id === firmA.lawFirmId),
+      `${visible.length} rows visible`
+    )
+
+    const direct = await asTenant(firmA.lawFirmId, tx =>
+      tx[model].findUnique({ where: { id: otherId } })
+    )
+    record('database', `${model}: read by id is blocked`, direct === null)
+
+    const filtered = await asTenant(firmA.lawFirmId, tx =>
+      tx[model].count({ where: { law_firm_id: firmB.lawFirmId } })
+    )
+    record(
+      'database',
+      `${model}: explicit other-firm filter finds nothing`,
+      filtered === 0,
+      `${filtered} rows`
+    )
+
+    const updated = await asTenant(firmA.lawFirmId, tx =>
+      tx[model].updateMany({
+        where: { id: otherId },
+        data: { [column]: value ?? TAMPERED },
+      })
+    )
+    record(
+      'database',
+      `${model}: update is blocked`,
+      updated.count === 0,
+      `${updated.count} rows updated`
+    )
+
+    const deleted = await asTenant(firmA.lawFirmId, tx =>
+      tx[model].deleteMany({ where: { id: otherId } })
+    )
+    record(
+      'database',
+      `${model}: delete is blocked`,
+      deleted.count === 0,
+      `${deleted.count} rows deleted`
+    )
+  }
+
+  // Moving an own row into the other firm must be rejected by the policy
+  let moved = false
+  try {
+    await asTenant(firmA.lawFirmId, tx =>
+      tx.clients.update({
+        where: { id: firmA.clientId },
+        data: { law_firm_id: firmB.lawFirmId },
+      })
+    )
+    moved = true
+  } catch {
+    // Expected: new row violates the row-level security policy
+  }
+  record(
+    'database',
+    'clients: re-parenting into other firm is rejected',
+    !moved
+  )
+
+  let inserted = false
+  try {
+    await asTenant(firmA.lawFirmId, tx =>
+      tx.clients.create({
+        data: {
+          id: randomUUID(),
+          law_firm_id: firmB.lawFirmId,
+          email: 'injected@isolation.test',
+          first_name: 'Injected',
+          last_name: 'Client',
+          updatedAt: new Date(),
+        },
+      })
+    )
+    inserted = true
+  } catch {
+    // Expected: insert violates the row-level security policy
+  }
+  record('database', 'clients: insert into other firm is rejected', !inserted)
+
+  // Settings are transaction-local and must not stick to pooled connections
+  await asTenant(firmA.lawFirmId, tx => tx.clients.count())
+  const [setting] = await prisma.$queryRaw`
+    SELECT current_setting('app.current_law_firm_id', true) AS law_firm_id
+  `
+  record(
+    'database',
+    'tenant context does not leak past the transaction',
+    !setting?.law_firm_id,
+    `leaked ${setting?.law_firm_id}`
+  )
+}
+
+// ---------------------------------------------------------------------------
+// API layer
+// ---------------------------------------------------------------------------
+
+function collectCookies(response, jar) {
+  for (const cookie of response.headers.getSetCookie()) {
+    const [pair] = cookie.split(';')
+    const index = pair.indexOf('=')
+    jar.set(pair.slice(0, index), pair.slice(index + 1))
+  }
+}
+
+function cookieHeader(jar) {
+  return [...jar.entries()]
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ')
+}
+
+// Sign in through NextAuth's credentials callback and return the cookie jar
+async function signIn(email, password) {
+  const jar = new Map()
+
+  const csrfResponse = await fetch(`${BASE_URL}/api/auth/csrf`)
+  collectCookies(csrfResponse, jar)
+  const { csrfToken } = await csrfResponse.json()
+
+  const response = await fetch(`${BASE_URL}/api/auth/callback/credentials`, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Cookie: cookieHeader(jar),
+    },
+    body: new URLSearchParams({ csrfToken, email, password, json: 'true' }),
+  })
+  collectCookies(response, jar)
+
+  const hasSession = [...jar.keys()].some(name =>
+    name.endsWith('next-auth.session-token')
+  )
+  if (!hasSession) {
+    throw new Error(`Sign-in failed for ${email} (status ${response.status})`)
+  }
+
+  return jar
+}
+
+async function callApi(jar, method, path, body) {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method,
+    redirect: 'manual',
+    headers: {
+      Cookie: cookieHeader(jar),
+      ...(body && { 'Content-Type': 'application/json' }),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  let data = null
+  try {
+    data = await response.json()
+  } catch {
+    // Non-JSON responses (redirects, HTML error pages) carry no data
+  }
+
+  return { status: response.status, data }
+}
+
+// Any 2xx on another firm's resource is a leak
+function expectBlocked(description, response) {
+  record(
+    'api',
+    description,
+    response.status < 200 || response.status >= 300,
+    `status ${response.status}`
+  )
+}
+
+function expectListExcludes(description, response, key, forbiddenIds) {
+  const items = response.data?.[key]
+  record(
+    'api',
+    description,
+    response.status === 200 &&
+      Array.isArray(items) &&
+      !items.some(item => forbiddenIds.includes(item.id)),
+    `status ${response.status}`
+  )
+}
+
+async function runApiSuite(firmA, firmB, junior) {
+  console.log(`\n🌐 API handlers (${BASE_URL})`)
+
+  const jar = await signIn(firmA.email, OWNER_PASSWORD)
+
+  const me = await callApi(jar, 'GET', '/api/auth/me')
+  record(
+    'api',
+    'session is scoped to firm A',
+    me.status === 200 && me.data?.lawFirmId === firmA.lawFirmId,
+    `status ${me.status}`
+  )
+
+  // Within the firm, searching must not widen CASES.VIEW past the user's
+  // own cases
+  const juniorJar = await signIn(junior.email, OWNER_PASSWORD)
+  expectListExcludes(
+    'GET /api/cases?search= as junior lawyer excludes cases they are not on',
+    await callApi(juniorJar, 'GET', '/api/cases?search=Isolation&limit=100'),
+    'cases',
+    [firmA.caseId]
+  )
+
+  // Deleting a case with documents would unfile them firm-wide, so it is
+  // refused and the document stays on the case
+  const filedDelete = await callApi(jar, 'DELETE', `/api/cases/${firmA.caseId}`)
+  const filedDocument = await prisma.documents.findUnique({
+    where: { id: firmA.documentId },
+  })
+  record(
+    'api',
+    'DELETE case with documents is refused',
+    filedDelete.status === 409 && filedDocument?.case_id === firmA.caseId,
+    `status ${filedDelete.status}, case_id ${filedDocument?.case_id}`
+  )
+
+  // Lists and filters must never surface firm B rows
+  expectListExcludes(
+    'GET /api/cases excludes other firm',
+    await callApi(jar, 'GET', '/api/cases?limit=100'),
+    'cases',
+    [firmB.caseId]
+  )
+  expectListExcludes(
+    'GET /api/cases?clientId=<B> excludes other firm',
+    await callApi(jar, 'GET', `/api/cases?clientId=${firmB.clientId}`),
+    'cases',
+    [firmB.caseId]
+  )
+  expectListExcludes(
+    'GET /api/clients excludes other firm',
+    await callApi(jar, 'GET', '/api/clients?limit=100'),
+    'clients',
+    [firmB.clientId]
+  )
+  expectListExcludes(
+    'GET /api/documents excludes other firm',
+    await callApi(jar, 'GET', '/api/documents'),
+    'documents',
+    [firmB.documentId]
+  )
+  expectListExcludes(
+    'GET /api/documents?caseId=<B> excludes other firm',
+    await callApi(jar, 'GET', `/api/documents?caseId=${firmB.caseId}`),
+    'documents',
+    [firmB.documentId]
+  )
+
+  expectListExcludes(
+    'GET /api/roles excludes other firm',
+    await callApi(jar, 'GET', '/api/roles'),
+    'roles',
+    [firmB.roleId]
+  )
+
+  // Roles
+  const rolePath = `/api/roles/${firmB.roleId}`
+  expectBlocked('GET role', await callApi(jar, 'GET', rolePath))
+  expectBlocked(
+    'PATCH role',
+    await callApi(jar, 'PATCH', rolePath, { description: TAMPERED })
+  )
+  expectBlocked(
+    'POST role cloned from other firm',
+    await callApi(jar, 'POST', '/api/roles', {
+      name: TAMPERED,
+      cloneFromId: firmB.roleId,
+      baseRole: 'assistant',
+    })
+  )
+  expectBlocked('DELETE role', await callApi(jar, 'DELETE', rolePath))
+
+  // Cases
+  const casePath = `/api/cases/${firmB.caseId}`
+  expectBlocked('GET case', await callApi(jar, 'GET', casePath))
+  expectBlocked(
+    'PATCH case',
+    await callApi(jar, 'PATCH', casePath, { title: TAMPERED })
+  )
+  expectBlocked(
+    'GET case timeline',
+    await callApi(jar, 'GET', `${casePath}/timeline`)
+  )
+  expectBlocked(
+    'POST case timeline note',
+    await callApi(jar, 'POST', `${casePath}/timeline`, { title: TAMPERED })
+  )
+  expectBlocked(
+    'GET case folders',
+    await callApi(jar, 'GET', `${casePath}/folders`)
+  )
+  expectBlocked(
+    'POST case folder',
+    await callApi(jar, 'POST', `${casePath}/folders`, { name: TAMPERED })
+  )
+  expectBlocked(
+    'GET case team',
+    await callApi(jar, 'GET', `${casePath}/members`)
+  )
+  expectBlocked(
+    'POST case team member',
+    await callApi(jar, 'POST', `${casePath}/members`, {
+      userId: firmA.userId,
+      access: 'MEMBER',
+    })
+  )
+  expectBlocked(
+    'POST case in other firm client',
+    await callApi(jar, 'POST', '/api/cases', {
+      title: TAMPERED,
+      clientId: firmB.clientId,
+    })
+  )
+  expectBlocked('DELETE case', await callApi(jar, 'DELETE', casePath))
+
+  // Clients
+  const clientPath = `/api/clients/${firmB.clientId}`
+  expectBlocked('GET client', await callApi(jar, 'GET', clientPath))
+  expectBlocked(
+    'PATCH client',
+    await callApi(jar, 'PATCH', clientPath, { firstName: TAMPERED })
+  )
+  expectBlocked(
+    'PATCH own client to link other firm user',
+    await callApi(jar, 'PATCH', `/api/clients/${firmA.clientId}`, {
+      portalUserId: firmB.userId,
+    })
+  )
+  expectBlocked('DELETE client', await callApi(jar, 'DELETE', clientPath))
+
+  // Documents
+  const documentPath = `/api/documents/${firmB.documentId}`
+  const documentKey = encodeURIComponent(
+    (await prisma.documents.findUnique({ where: { id: firmB.documentId } }))
+      .file_path
+  )
+  expectBlocked(
+    'PATCH document',
+    await callApi(jar, 'PATCH', documentPath, { name: TAMPERED })
+  )
+  expectBlocked(
+    'GET document versions',
+    await callApi(jar, 'GET', `${documentPath}/versions`)
+  )
+  expectBlocked(
+    'POST document client share',
+    await callApi(jar, 'POST', `${documentPath}/client-share`)
+  )
+  expectBlocked(
+    'GET document permissions',
+    await callApi(jar, 'GET', `${documentPath}/permissions`)
+  )
+  expectBlocked(
+    'POST document permission grant',
+    await callApi(jar, 'POST', `${documentPath}/permissions`, {
+      granteeType: 'USER',
+      granteeId: firmA.userId,
+    })
+  )
+  expectBlocked(
+    'POST share link for other firm document',
+    await callApi(jar, 'POST', '/api/share-links', {
+      documentIds: [firmB.documentId],
+    })
+  )
+  expectBlocked(
+    'GET document download URL',
+    await callApi(jar, 'GET', `/api/documents/download/${documentKey}`)
+  )
+  expectBlocked(
+    'DELETE document',
+    await callApi(jar, 'DELETE', `/api/documents?id=${firmB.documentId}`)
+  )
+
+  // Share links
+  const shareLinkPath = `/api/share-links/${firmB.shareLinkId}`
+  expectListExcludes(
+    'GET /api/share-links excludes other firm',
+    await callApi(jar, 'GET', '/api/share-links'),
+    'links',
+    [firmB.shareLinkId]
+  )
+  expectBlocked('GET share link', await callApi(jar, 'GET', shareLinkPath))
+  expectBlocked(
+    'DELETE share link',
+    await callApi(jar, 'DELETE', shareLinkPath)
+  )
+
+  // Firm switching
+  expectListExcludes(
+    'GET /api/auth/firms excludes other firm',
+    await callApi(jar, 'GET', '/api/auth/firms'),
+    'firms',
+    [firmB.lawFirmId]
+  )
+  const csrfCookie = [...jar.keys()].find(name =>
+    name.endsWith('next-auth.csrf-token')
+  )
+  const switched = await callApi(jar, 'POST', '/api/auth/session', {
+    csrfToken: decodeURIComponent(jar.get(csrfCookie)).split('|')[0],
+    data: { lawFirmId: firmB.lawFirmId },
+  })
+  record(
+    'api',
+    'session update cannot switch to other firm',
+    switched.data?.user?.lawFirmId !== firmB.lawFirmId,
+    `switched to ${switched.data?.user?.lawFirmId}`
+  )
+
+  // Sessions
+  expectListExcludes(
+    'GET /api/auth/sessions excludes other firm',
+    await callApi(jar, 'GET', '/api/auth/sessions'),
+    'sessions',
+    [firmB.sessionId]
+  )
+  expectBlocked(
+    'DELETE other firm session',
+    await callApi(jar, 'DELETE', `/api/auth/sessions/${firmB.sessionId}`)
+  )
+  expectBlocked(
+    'DELETE user sessions',
+    await callApi(jar, 'DELETE', `/api/users/${firmB.userId}/sessions`)
+  )
+  const firmBSession = await prisma.user_sessions.findUnique({
+    where: { id: firmB.sessionId },
+  })
+  record(
+    'api',
+    'other firm session is still active',
+    firmBSession?.revoked_at === null,
+    `revoked at ${firmBSession?.revoked_at?.toISOString()}`
+  )
+
+  // Members
+  const userPath = `/api/users/${firmB.userId}`
+  expectListExcludes(
+    'GET /api/users excludes other firm',
+    await callApi(jar, 'GET', '/api/users'),
+    'users',
+    [firmB.userId]
+  )
+  expectBlocked('GET user', await callApi(jar, 'GET', userPath))
+  expectBlocked(
+    'PATCH user to deactivate',
+    await callApi(jar, 'PATCH', userPath, { isActive: false })
+  )
+  expectBlocked(
+    'POST user role',
+    await callApi(jar, 'POST', `${userPath}/roles`, { roleId: firmA.roleId })
+  )
+  expectBlocked(
+    'DELETE user role',
+    await callApi(jar, 'DELETE', `${userPath}/roles/${firmB.roleId}`)
+  )
+  expectBlocked(
+    'POST own user role from other firm',
+    await callApi(jar, 'POST', `/api/users/${firmA.userId}/roles`, {
+      roleId: firmB.roleId,
+    })
+  )
+
+  // Invitations
+  const invitationPath = `/api/users/invitations/${firmB.invitationId}`
+  expectListExcludes(
+    'GET /api/users/invitations excludes other firm',
+    await callApi(jar, 'GET', '/api/users/invitations'),
+    'invitations',
+    [firmB.invitationId]
+  )
+  expectBlocked(
+    'POST invitation resend',
+    await callApi(jar, 'POST', `${invitationPath}/resend`)
+  )
+  expectBlocked(
+    'DELETE invitation',
+    await callApi(jar, 'DELETE', invitationPath)
+  )
+  expectBlocked(
+    'POST invitation with other firm role',
+    await callApi(jar, 'POST', '/api/users/invitations', {
+      email: `invitee-${randomUUID()}@isolation.test`,
+      roleId: firmB.roleId,
+    })
+  )
+
+  // Audit trail
+  expectListExcludes(
+    'GET /api/audit excludes other firm',
+    await callApi(jar, 'GET', '/api/audit'),
+    'auditLogs',
+    [firmB.auditLogId]
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+async function verifyUntouched(firmB, before) {
+  console.log('\n🔎 Firm B data after all attempts')
+
+  const after = await snapshotFirm(firmB)
+  for (const { model } of MODELS) {
+    record(
+      'integrity',
+      `${model}: row unchanged`,
+      JSON.stringify(after[model], (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      ) ===
+        JSON.stringify(before[model], (_, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        ),
+      after[model] ? 'modified' : 'deleted'
+    )
+  }
+
+  const events = await prisma.case_events.count({
+    where: { case_id: firmB.caseId },
+  })
+  const folders = await prisma.document_folders.count({
+    where: { case_id: firmB.caseId },
+  })
+  const members = await prisma.case_members.count({
+    where: { case_id: firmB.caseId },
+  })
+  const grants = await prisma.document_permissions.count({
+    where: { document_id: firmB.documentId },
+  })
+  const shared = await prisma.share_link_documents.count({
+    where: { document_id: firmB.documentId },
+  })
+  record(
+    'integrity',
+    'no timeline entries, folders, team members, grants or share links were added',
+    events === 0 &&
+      folders === 0 &&
+      members === 0 &&
+      grants === 0 &&
+      shared === 0,
+    `${events} events, ${folders} folders, ${members} members, ${grants} grants, ${shared} shared`
+  )
+}
+
+async function runTenantIsolationTests() {
+  console.log('🏢 Running cross-tenant isolation tests...')
+
+  const passwordHash = await bcrypt.hash(OWNER_PASSWORD, 12)
+  const firms = []
+  const platformUserIds = []
+
+  try {
+    firms.push(await seedFirm('A', passwordHash))
+    firms.push(await seedFirm('B', passwordHash))
+    const [firmA, firmB] = firms
+    const junior = await seedJuniorLawyer(firmA, passwordHash)
+    platformUserIds.push(junior.platformUserId)
+    console.log(`🌱 Seeded firms ${firmA.lawFirmId} and ${firmB.lawFirmId}`)
+
+    const before = await snapshotFirm(firmB)
+
+    await runDatabaseSuite(firmA, firmB)
+
+    if (DB_ONLY) {
+      console.log('\n⏭️  Skipping API handlers (--db-only)')
+    } else {
+      try {
+        await runApiSuite(firmA, firmB, junior)
+      } catch (error) {
+        record('api', 'API suite ran', false, error.message)
+      }
+    }
+
+    await verifyUntouched(firmB, before)
+  } catch (error) {
+    record('harness', 'Harness completed', false, error.message)
+  } finally {
+    try {
+      await cleanup(firms, platformUserIds)
+    } catch (error) {
+      console.error('⚠️ Cleanup failed:', error.message)
+    }
+    await prisma.$disconnect()
+  }
+
+  const failed = results.filter(result => !result.passed)
+  console.log(
+    `\n📈 Isolation Tests: ${results.length - failed.length}/${results.length} passed`
+  )
+  console.log(
+    `\n${failed.length === 0 ? '✅' : '❌'} Overall: ${failed.length === 0 ? 'ALL TESTS PASSED' : 'SOME TESTS FAILED'}`
+  )
+
+  process.exit(failed.length === 0 ? 0 : 1)
+}
+
+runTenantIsolationTests().catch(error => {
+  console.error('💥 Isolation harness crashed:', error.message)
+  process.exit(1)
+})
@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+// Audit Chain Verification
+// Purpose: Check the hash-chained audit trails for edited or deleted rows
+//
+// Walks the platform-wide chain (platform_audit_logs) and each firm's chain
+// (audit_logs) in sequence order and reports the first broken link per chain.
+// Hashing mirrors src/lib/audit-chain.ts; keep the two in step.
+//
+// Requirements:
+//   - DATABASE_URL pointing at the database to check
+//
+// Usage:
+//   npm run audit:verify
+//   npm run audit:verify -- --firm <lawFirmId>   (one firm's chain only)
+//   npm run audit:verify -- --platform           (platform chain only)
+//
+// Exits non-zero when any chain is broken.
+
+import { PrismaClient } from '@prisma/client'
+import { createHash } from 'crypto'
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 500
+
+const firmIndex = process.argv.indexOf('--firm')
+const FIRM_ID = firmIndex > -1 ? process.argv[firmIndex + 1] : null
+const PLATFORM_ONLY = process.argv.includes('--platform')
+
+function canonicalJson(value) {
+  if (value === null || value === undefined) return 'null'
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, nested]) => nested !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries
+      .map(([key, nested]) => `${JSON.stringify(key)}:${canonicalJson(nested)}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+function computeAuditHash(previousHash, fields) {
+  return createHash('sha256')
+    .update(`${previousHash ?? ''}|${canonicalJson(fields)}`)
+    .digest('hex')
+}
+
+function firmHashFields(row) {
+  return {
+    id: row.id,
+    law_firm_id: row.law_firm_id,
+    sequence: row.sequence,
+    actor_id: row.actor_id,
+    action: row.action,
+    entity_type: row.entity_type,
+    entity_id: row.entity_id,
+    old_values: row.old_values,
+    new_values: row.new_values,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    request_id: row.request_id,
+    created_at: row.createdAt,
+  }
+}
+
+function platformHashFields(row) {
+  return {
+    id: row.id,
+    sequence: row.sequence,
+    platform_user_id: row.platform_user_id,
+    law_firm_id: row.law_firm_id,
+    action: row.action,
+    entity_type: row.entity_type,
+    entity_id: row.entity_id,
+    old_values: row.old_values,
+    new_values: row.new_values,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    created_at: row.created_at,
+  }
+}
+
+// Returns the first broken link, or null when the chain is intact
+async function verifyChain(label, fetchBatch, hashFields) {
+  let expectedSequence = 1
+  let previousHash = null
+
+  for (;;) {
+    const rows = await fetchBatch(expectedSequence - 1)
+
+    for (const row of rows) {
+      const reason =
+        row.sequence !== expectedSequence
+          ? 'MISSING_ENTRY'
+          : row.previous_hash !== previousHash
+            ? 'PREVIOUS_HASH_MISMATCH'
+            : row.hash !== computeAuditHash(row.previous_hash, hashFields(row))
+              ? 'HASH_MISMATCH'
+              : null
+
+      if (reason) {
+        console.log(
+          `  ❌ ${label}: broken at sequence ${expectedSequence} (${reason}, entry ${row.id})`
+        )
+        return { sequence: expectedSequence, entryId: row.id, reason }
+      }
+
+      previousHash = row.hash
+      expectedSequence += 1
+    }
+
+    if (rows.length < BATCH_SIZE) break
+  }
+
+  console.log(`  ✅ ${label}: ${expectedSequence - 1} entries verified`)
+  return null
+}
+
+function verifyPlatformChain() {
+  return verifyChain(
+    'platform',
+    afterSequence =>
+      prisma.platform_audit_logs.findMany({
+        where: { sequence: { gt: afterSequence } },
+        orderBy: { sequence: 'asc' },
+        take: BATCH_SIZE,
+      }),
+    platformHashFields
+  )
+}
+
+function verifyFirmChain(firm) {
+  return verifyChain(
+    `${firm.name} (${firm.id})`,
+    afterSequence =>
+      prisma.audit_logs.findMany({
+        where: { law_firm_id: firm.id, sequence: { gt: afterSequence } },
+        orderBy: { sequence: 'asc' },
+        take: BATCH_SIZE,
+      }),
+    firmHashFields
+  )
+}
+
+async function main() {
+  console.log('🔗 Verifying audit chains')
+  const broken = []
+
+  if (!FIRM_ID) {
+    if (await verifyPlatformChain()) broken.push('platform')
+  }
+
+  if (!PLATFORM_ONLY) {
+    const firms = await prisma.law_firms.findMany({
+      where: FIRM_ID ? { id: FIRM_ID } : {},
+      select: { id: true, name: true },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    if (FIRM_ID && firms.length === 0) {
+      throw new Error(`Law firm not found: ${FIRM_ID}`)
+    }
+
+    for (const firm of firms) {
+      if (await verifyFirmChain(firm)) broken.push(firm.id)
+    }
+  }
+
+  console.log(
+    broken.length === 0
+      ? '\n✅ All audit chains intact'
+      : `\n❌ ${broken.length} broken chain(s)`
+  )
+  return broken.length === 0
+}
+
+main()
+  .then(intact => {
+    process.exitCode = intact ? 0 : 1
+  })
+  .catch(error => {
+    console.error('❌ Audit chain verification failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
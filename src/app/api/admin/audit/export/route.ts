@@ -0,0 +1,152 @@
+// Super-Admin Audit Log Export API
+// Purpose: Download filtered platform audit logs for external auditors
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { withRole } from '@/lib/auth-guards'
+import { ROLES } from '@/lib/rbac'
+import {
+  AUDIT_EXPORT_CONTENT_TYPES,
+  AUDIT_EXPORT_FORMATS,
+  createAuditExportStream,
+  isAuditExportFormat,
+} from '@/lib/audit-export'
+
+const EXPORT_BATCH_SIZE = 1000
+
+const EXPORT_COLUMNS = [
+  'id',
+  'sequence',
+  'created_at',
+  'action',
+  'entity_type',
+  'entity_id',
+  'law_firm_id',
+  'law_firm_name',
+  'platform_user_id',
+  'admin_email',
+  'admin_name',
+  'ip_address',
+  'user_agent',
+  'old_values',
+  'new_values',
+  'previous_hash',
+  'hash',
+] as const
+
+// GET /api/admin/audit/export - Stream platform audit logs, oldest first,
+// with the same filters as GET /api/admin/audit
+export const GET = withRole(ROLES.SUPER_ADMIN, async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'csv'
+    const lawFirmId = searchParams.get('lawFirmId')
+    const action = searchParams.get('action')
+    const entityType = searchParams.get('entityType')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    if (!isAuditExportFormat(format)) {
+      return NextResponse.json(
+        {
+          error: `Invalid format. Must be one of: ${AUDIT_EXPORT_FORMATS.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const start = startDate ? new Date(startDate) : null
+    const end = endDate ? new Date(endDate) : null
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const where: Prisma.platform_audit_logsWhereInput = {
+      ...(lawFirmId && { law_firm_id: lawFirmId }),
+      ...(action && { action }),
+      ...(entityType && { entity_type: entityType }),
+      ...((start || end) && {
+        created_at: {
+          ...(start && { gte: start }),
+          ...(end && { lte: end }),
+        },
+      }),
+    }
+
+    // Names are looked up per batch and remembered for later batches
+    const admins = new Map<string, { email: string; name: string | null }>()
+    const firms = new Map<string, string>()
+    let cursor: string | null = null
+    let finished = false
+
+    const nextBatch = async () => {
+      if (finished) return []
+
+      const rows = await prisma.platform_audit_logs.findMany({
+        where,
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      })
+      finished = rows.length < EXPORT_BATCH_SIZE
+      cursor = rows.at(-1)?.id ?? cursor
+
+      const adminIds = [
+        ...new Set(rows.map(row => row.platform_user_id)),
+      ].filter((id): id is string => !!id && !admins.has(id))
+      const firmIds = [...new Set(rows.map(row => row.law_firm_id))].filter(
+        (id): id is string => !!id && !firms.has(id)
+      )
+
+      const [newAdmins, newFirms] = await Promise.all([
+        adminIds.length > 0
+          ? prisma.platform_users.findMany({
+              where: { id: { in: adminIds } },
+              select: { id: true, email: true, name: true },
+            })
+          : [],
+        firmIds.length > 0
+          ? prisma.law_firms.findMany({
+              where: { id: { in: firmIds } },
+              select: { id: true, name: true },
+            })
+          : [],
+      ])
+      newAdmins.forEach(admin => admins.set(admin.id, admin))
+      newFirms.forEach(firm => firms.set(firm.id, firm.name))
+
+      return rows.map(row => {
+        const admin = row.platform_user_id
+          ? admins.get(row.platform_user_id)
+          : undefined
+        return {
+          ...row,
+          created_at: row.created_at.toISOString(),
+          law_firm_name: row.law_firm_id ? firms.get(row.law_firm_id) : null,
+          admin_email: admin?.email,
+          admin_name: admin?.name,
+        }
+      })
+    }
+
+    const fileName = `platform-audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    return new NextResponse(
+      createAuditExportStream(format, EXPORT_COLUMNS, nextBatch),
+      {
+        headers: {
+          'Content-Type': AUDIT_EXPORT_CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store',
+        },
+      }
+    )
+  } catch (error) {
+    console.error('Error exporting audit logs:', error)
+    return NextResponse.json(
+      { error: 'Failed to export audit logs' },
+      { status: 500 }
+    )
+  }
+})
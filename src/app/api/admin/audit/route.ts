@@ -60,13 +60,14 @@ export const GET = withRole(ROLES.SUPER_ADMIN, async (request: NextRequest) => {
         pal.ip_address,
         pal.user_agent,
         pal.created_at,
+        pal.sequence,
         pu.email as admin_email,
         pu.name as admin_name,
         lf.name as law_firm_name
       FROM platform_audit_logs pal
       LEFT JOIN platform_users pu ON pal.platform_user_id = pu.id
       LEFT JOIN law_firms lf ON pal.law_firm_id = lf.id
-      WHERE (${lawFirmId}::uuid IS NULL OR pal.law_firm_id = ${lawFirmId}::uuid)
+      WHERE (${lawFirmId}::text IS NULL OR pal.law_firm_id = ${lawFirmId})
         AND (${action}::text IS NULL OR pal.action = ${action})
         AND (${entityType}::text IS NULL OR pal.entity_type = ${entityType})
         AND (${startDate}::timestamp IS NULL OR pal.created_at >= ${startDate}::timestamp)
@@ -80,7 +81,7 @@ export const GET = withRole(ROLES.SUPER_ADMIN, async (request: NextRequest) => {
     const totalCount = (await prisma.$queryRaw`
       SELECT COUNT(*) as count
       FROM platform_audit_logs pal
-      WHERE (${lawFirmId}::uuid IS NULL OR pal.law_firm_id = ${lawFirmId}::uuid)
+      WHERE (${lawFirmId}::text IS NULL OR pal.law_firm_id = ${lawFirmId})
         AND (${action}::text IS NULL OR pal.action = ${action})
         AND (${entityType}::text IS NULL OR pal.entity_type = ${entityType})
         AND (${startDate}::timestamp IS NULL OR pal.created_at >= ${startDate}::timestamp)
@@ -0,0 +1,34 @@
+// Super-Admin Audit Chain Verification API
+// Purpose: Check the platform audit trail, or one firm's, for tampering
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withRole } from '@/lib/auth-guards'
+import { ROLES } from '@/lib/rbac'
+import {
+  verifyFirmAuditChain,
+  verifyPlatformAuditChain,
+} from '@/lib/audit-chain'
+
+// GET /api/admin/audit/verify - Verify the platform audit chain, or a firm's
+// chain when lawFirmId is given, and report the first broken link
+export const GET = withRole(ROLES.SUPER_ADMIN, async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lawFirmId = searchParams.get('lawFirmId')
+
+    const integrity = lawFirmId
+      ? await verifyFirmAuditChain(lawFirmId)
+      : await verifyPlatformAuditChain()
+
+    return NextResponse.json({
+      chain: lawFirmId ? 'firm' : 'platform',
+      integrity,
+    })
+  } catch (error) {
+    console.error('Error verifying audit chain:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify audit logs' },
+      { status: 500 }
+    )
+  }
+})
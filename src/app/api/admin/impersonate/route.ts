@@ -5,7 +5,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { withRole } from '@/lib/auth-guards'
 import { ROLES } from '@/lib/rbac'
-import { generateToken } from '@/lib/auth'
+import { TOKEN_MAX_AGE_SECONDS, generateToken } from '@/lib/auth'
+import { recordPlatformAuditLog } from '@/lib/audit'
+import { APIMiddleware } from '@/lib/api-middleware'
+import { createUserSession } from '@/lib/sessions'
 
 // POST /api/admin/impersonate - Start impersonation session
 export const POST = withRole(
@@ -63,46 +66,43 @@ export const POST = withRole(
       }
 
       // Create audit log entry for impersonation start
-      await prisma.$executeRaw`
-      INSERT INTO platform_audit_logs (
-        platform_user_id,
-        law_firm_id,
-        action,
-        entity_type,
-        entity_id,
-        old_values,
-        new_values,
-        ip_address,
-        user_agent
-      ) VALUES (
-        ${userContext.id}::uuid,
-        ${lawFirmId}::uuid,
-        'IMPERSONATION_START',
-        'user',
-        ${userId}::uuid,
-        NULL,
-        ${JSON.stringify({
+      await recordPlatformAuditLog(request, userContext.id, {
+        action: 'IMPERSONATION_START',
+        entityType: 'user',
+        entityId: userId,
+        lawFirmId,
+        after: {
           reason,
           ticketNumber,
           targetUser: {
             email: targetUser.platform_users.email,
             name: targetUser.platform_users.name,
           },
-        })}::jsonb,
-        ${request.headers.get('x-forwarded-for') || 'unknown'}::inet,
-        ${request.headers.get('user-agent') || 'unknown'}
-      )
-    `
+        },
+      })
 
       // Get the primary role for the target user
       const primaryRole = targetUser.user_roles[0]?.roles?.name || 'client'
 
+      // Register the session under the target, so it shows on their
+      // Sessions page and is revoked along with their other sessions
+      const context = APIMiddleware.createRequestContext(request)
+      const sessionId = await createUserSession({
+        platformUserId: targetUser.platform_user_id,
+        lawFirmId: targetUser.law_firm_id,
+        device: 'Support impersonation',
+        ipAddress: context.ip,
+        userAgent: context.userAgent,
+        expiresAt: new Date(Date.now() + TOKEN_MAX_AGE_SECONDS * 1000),
+      })
+
       // Generate impersonation token
       const impersonationToken = generateToken({
         userId: targetUser.id,
         platformUserId: targetUser.platform_user_id,
         lawFirmId: targetUser.law_firm_id,
         role: primaryRole.toLowerCase(),
+        sessionId,
         isImpersonating: true,
         originalAdminId: userContext.id,
         impersonationReason: reason,
@@ -147,32 +147,16 @@ export const DELETE = withRole(
       const { lawFirmId, userId, sessionDuration } = body
 
       // Create audit log entry for impersonation end
-      await prisma.$executeRaw`
-      INSERT INTO platform_audit_logs (
-        platform_user_id,
-        law_firm_id,
-        action,
-        entity_type,
-        entity_id,
-        old_values,
-        new_values,
-        ip_address,
-        user_agent
-      ) VALUES (
-        ${userContext.id}::uuid,
-        ${lawFirmId}::uuid,
-        'IMPERSONATION_END',
-        'user',
-        ${userId}::uuid,
-        NULL,
-        ${JSON.stringify({
+      await recordPlatformAuditLog(request, userContext.id, {
+        action: 'IMPERSONATION_END',
+        entityType: 'user',
+        entityId: userId,
+        lawFirmId,
+        after: {
           sessionDuration,
           endedAt: new Date().toISOString(),
-        })}::jsonb,
-        ${request.headers.get('x-forwarded-for') || 'unknown'}::inet,
-        ${request.headers.get('user-agent') || 'unknown'}
-      )
-    `
+        },
+      })
 
       return NextResponse.json({
         message: 'Impersonation session ended',
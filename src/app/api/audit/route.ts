@@ -0,0 +1,85 @@
+// Firm Audit Log API
+// Purpose: Page through the firm's audit trail with filtering
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getFirmUserSummaries } from '@/lib/cases'
+import { formatAuditLog } from '@/lib/audit'
+
+// GET /api/audit - Get audit logs for the caller's firm
+export const GET = withPermission(
+  PERMISSIONS.ADMIN.AUDIT_LOGS,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get('limit') || '50'), 1),
+        200
+      )
+      const action = searchParams.get('action')
+      const entityType = searchParams.get('entityType')
+      const entityId = searchParams.get('entityId')
+      const actorId = searchParams.get('actorId')
+      const startDate = searchParams.get('startDate')
+      const endDate = searchParams.get('endDate')
+
+      const start = startDate ? new Date(startDate) : null
+      const end = endDate ? new Date(endDate) : null
+      if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+        return NextResponse.json(
+          { error: 'Invalid date range' },
+          { status: 400 }
+        )
+      }
+
+      const where: Prisma.audit_logsWhereInput = {
+        law_firm_id: userContext.lawFirmId,
+        ...(action && { action }),
+        ...(entityType && { entity_type: entityType }),
+        ...(entityId && { entity_id: entityId }),
+        ...(actorId && { actor_id: actorId }),
+        ...((start || end) && {
+          createdAt: {
+            ...(start && { gte: start }),
+            ...(end && { lte: end }),
+          },
+        }),
+      }
+
+      const [auditLogs, total] = await Promise.all([
+        prisma.audit_logs.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.audit_logs.count({ where }),
+      ])
+
+      const actors = await getFirmUserSummaries(
+        userContext.lawFirmId,
+        auditLogs.map(log => log.actor_id || '')
+      )
+
+      return NextResponse.json({
+        auditLogs: auditLogs.map(log => formatAuditLog(log, actors)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching firm audit logs:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch audit logs' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,25 @@
+// Firm Audit Chain Verification API
+// Purpose: Check the firm's audit trail hash chain for tampering
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { verifyFirmAuditChain } from '@/lib/audit-chain'
+
+// GET /api/audit/verify - Verify the caller's firm audit chain and report the
+// first broken link, if any
+export const GET = withPermission(
+  PERMISSIONS.ADMIN.AUDIT_LOGS,
+  async (request: NextRequest, userContext) => {
+    try {
+      const integrity = await verifyFirmAuditChain(userContext.lawFirmId)
+      return NextResponse.json({ integrity })
+    } catch (error) {
+      console.error('Error verifying firm audit chain:', error)
+      return NextResponse.json(
+        { error: 'Failed to verify audit logs' },
+        { status: 500 }
+      )
+    }
+  }
+)
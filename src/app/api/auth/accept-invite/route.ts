@@ -0,0 +1,166 @@
+// Accept Invitation API
+// Purpose: Look up an emailed firm invitation and join the firm with it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import { env } from '@/lib/env'
+import { hashPassword, verifyPassword } from '@/lib/auth'
+import { sendWelcomeEmail } from '@/lib/email'
+import { validateNewPassword } from '@/lib/password-reset'
+import {
+  acceptInvitation,
+  findUsableInvitation,
+  needsNewPassword,
+} from '@/lib/invitations'
+import { getUserWithPermissions } from '@/lib/user-context'
+import { recordAuditLog } from '@/lib/audit'
+
+const INVALID_INVITATION_MESSAGE =
+  'This invitation is invalid, has expired or was revoked'
+
+const MAX_NAME_LENGTH = 200
+
+// GET /api/auth/accept-invite?token= - Describe an invitation before it is
+// accepted
+export const GET = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    const invitation = token ? await findUsableInvitation(token) : null
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: INVALID_INVITATION_MESSAGE },
+        { status: 410 }
+      )
+    }
+
+    const { platform_users: platformUser, user_roles: userRoles } =
+      invitation.users
+
+    return NextResponse.json({
+      invitation: {
+        email: platformUser.email,
+        name: platformUser.name,
+        firmName: invitation.law_firms.name,
+        roles: userRoles.map(userRole => userRole.roles.name),
+        expiresAt: invitation.expires_at.toISOString(),
+        needsPassword: needsNewPassword(invitation),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch invitation' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/auth/accept-invite - Join the firm. New accounts choose their
+// password here; existing accounts confirm their current one.
+export const POST = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const { token, password, name } = await request.json().catch(() => ({}))
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { error: 'Missing required field: token' },
+        { status: 400 }
+      )
+    }
+
+    const invitation = await findUsableInvitation(token)
+    if (!invitation) {
+      return NextResponse.json(
+        { error: INVALID_INVITATION_MESSAGE },
+        { status: 410 }
+      )
+    }
+
+    const platformUser = invitation.users.platform_users
+    const newAccount = needsNewPassword(invitation)
+    const displayName =
+      typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : ''
+
+    if (newAccount) {
+      const passwordError = validateNewPassword(password)
+      if (passwordError) {
+        return NextResponse.json({ error: passwordError }, { status: 400 })
+      }
+    } else if (
+      typeof password !== 'string' ||
+      !(await verifyPassword(password, platformUser.password))
+    ) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+    }
+
+    const accepted = await acceptInvitation(
+      {
+        id: invitation.id,
+        user_id: invitation.user_id,
+        platform_user_id: platformUser.id,
+      },
+      newAccount
+        ? {
+            passwordHash: await hashPassword(password),
+            name: displayName || undefined,
+          }
+        : {}
+    )
+
+    if (!accepted) {
+      return NextResponse.json(
+        { error: INVALID_INVITATION_MESSAGE },
+        { status: 410 }
+      )
+    }
+
+    const userContext = await getUserWithPermissions(
+      invitation.user_id,
+      invitation.law_firm_id
+    )
+    if (userContext) {
+      await recordAuditLog(request, userContext, {
+        action: 'UPDATE',
+        entityType: 'invitation',
+        entityId: invitation.id,
+        before: { accepted_at: null },
+        after: { accepted_at: new Date() },
+      })
+    }
+
+    const welcome = await sendWelcomeEmail(
+      {
+        email: platformUser.email,
+        name: displayName || platformUser.name || undefined,
+      },
+      {
+        userName: displayName || platformUser.name || platformUser.email,
+        userEmail: platformUser.email,
+        userRole: invitation.users.user_roles
+          .map(userRole => userRole.roles.name)
+          .join(', '),
+        firmName: invitation.law_firms.name,
+        loginUrl: `${env.NEXTAUTH_URL}/auth/login`,
+      }
+    )
+    if (!welcome.success) {
+      console.error('Error sending welcome email:', welcome.error)
+    }
+
+    return NextResponse.json({
+      message: `You have joined ${invitation.law_firms.name}. Please sign in.`,
+    })
+  } catch (error) {
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to accept invitation' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,33 @@
+// Accessible Firms API
+// Purpose: List the firms the signed-in account can switch between
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-guards'
+import {
+  getPlatformUserId,
+  getUserAccessibleLawFirms,
+} from '@/lib/user-context'
+
+// GET /api/auth/firms - Firms where the caller is an active member. The
+// switch itself happens through the NextAuth session update.
+export const GET = withAuth(async (request: NextRequest, userContext) => {
+  try {
+    const platformUserId = await getPlatformUserId(userContext)
+    if (!platformUserId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const firms = await getUserAccessibleLawFirms(platformUserId)
+
+    return NextResponse.json({
+      firms,
+      currentLawFirmId: userContext.lawFirmId,
+    })
+  } catch (error) {
+    console.error('Error fetching accessible firms:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch firms' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,74 @@
+// Forgot Password API
+// Purpose: Email a password reset link to a platform user
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import { prisma } from '@/lib/prisma'
+import { isValidEmail } from '@/lib/clients'
+import { sendPasswordReset } from '@/lib/email'
+import {
+  createPasswordResetToken,
+  getPasswordResetUrl,
+} from '@/lib/password-reset'
+
+// Same reply whether or not the address has an account, so the endpoint
+// cannot be used to discover who is registered
+const RESET_REQUESTED_MESSAGE =
+  'If an account exists for that email, a password reset link has been sent'
+
+// POST /api/auth/forgot-password - Request a password reset email
+export const POST = withLogging(async (request: NextRequest, context) => {
+  await authRateLimit(request)
+
+  try {
+    const { email } = await request.json().catch(() => ({}))
+
+    if (typeof email !== 'string' || !isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      )
+    }
+
+    const platformUser = await prisma.platform_users.findUnique({
+      where: { email: email.trim() },
+      include: {
+        users: {
+          where: { isActive: true, law_firms: { isActive: true } },
+          include: { law_firms: { select: { name: true } } },
+          take: 1,
+        },
+      },
+    })
+
+    if (platformUser?.isActive) {
+      const token = await createPasswordResetToken(
+        platformUser.id,
+        context.ip === 'unknown' ? null : context.ip
+      )
+
+      const result = await sendPasswordReset(
+        { email: platformUser.email, name: platformUser.name || undefined },
+        {
+          userName: platformUser.name || platformUser.email,
+          resetUrl: getPasswordResetUrl(token),
+          firmName:
+            platformUser.users[0]?.law_firms.name || 'Platform Administration',
+        }
+      )
+
+      if (!result.success) {
+        console.error('Error sending password reset email:', result.error)
+      }
+    }
+
+    return NextResponse.json({ message: RESET_REQUESTED_MESSAGE })
+  } catch (error) {
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { error: 'Failed to request password reset' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,97 @@
+// Two-Factor Disable API
+// Purpose: Turn MFA off where firm policy allows it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import { getSessionClient } from '@/lib/sessions'
+import { prisma } from '@/lib/prisma'
+import {
+  findPlatformUserByCredentials,
+  isMfaLocked,
+  isMfaRequired,
+  verifyMfaCode,
+} from '@/lib/mfa'
+
+// POST /api/auth/mfa/disable - Remove the secret and recovery codes. Needs
+// the password and a current code or recovery code.
+export const POST = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const { email, password, code } = await request.json().catch(() => ({}))
+
+    const platformUser = await findPlatformUserByCredentials(email, password)
+    if (!platformUser) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    if (!platformUser.mfa_enabled_at) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 409 }
+      )
+    }
+
+    if (isMfaRequired(platformUser)) {
+      return NextResponse.json(
+        {
+          error:
+            'Two-factor authentication is required for your account and cannot be turned off',
+        },
+        { status: 403 }
+      )
+    }
+
+    if (isMfaLocked(platformUser)) {
+      return NextResponse.json(
+        { error: 'Too many invalid codes. Try again later.' },
+        { status: 429 }
+      )
+    }
+
+    if (
+      typeof code !== 'string' ||
+      !(await verifyMfaCode(
+        platformUser,
+        code,
+        getSessionClient(Object.fromEntries(request.headers))
+      ))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.$transaction([
+      prisma.mfa_recovery_codes.deleteMany({
+        where: { platform_user_id: platformUser.id },
+      }),
+      prisma.platform_users.update({
+        where: { id: platformUser.id },
+        data: {
+          mfa_secret: null,
+          mfa_enabled_at: null,
+          mfa_last_used_step: null,
+          mfa_failed_attempts: 0,
+          mfa_locked_until: null,
+          updatedAt: new Date(),
+        },
+      }),
+    ])
+
+    return NextResponse.json({
+      message: 'Two-factor authentication disabled',
+    })
+  } catch (error) {
+    console.error('Error disabling MFA:', error)
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,76 @@
+// Two-Factor Enable API
+// Purpose: Confirm TOTP enrollment and issue recovery codes
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import { prisma } from '@/lib/prisma'
+import {
+  decryptMfaSecret,
+  findPlatformUserByCredentials,
+  regenerateRecoveryCodes,
+  verifyTotp,
+} from '@/lib/mfa'
+
+// POST /api/auth/mfa/enable - Turn MFA on once the user proves their app
+// produces valid codes. Recovery codes are returned here only.
+export const POST = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const { email, password, code } = await request.json().catch(() => ({}))
+
+    const platformUser = await findPlatformUserByCredentials(email, password)
+    if (!platformUser) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    if (platformUser.mfa_enabled_at) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      )
+    }
+
+    if (!platformUser.mfa_secret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      typeof code !== 'string' ||
+      verifyTotp(decryptMfaSecret(platformUser.mfa_secret), code) === null
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      )
+    }
+
+    // The confirming code is left unused so it can complete the sign-in
+    const recoveryCodes = await prisma.$transaction(async tx => {
+      const now = new Date()
+      await tx.platform_users.update({
+        where: { id: platformUser.id },
+        data: { mfa_enabled_at: now, updatedAt: now },
+      })
+      return regenerateRecoveryCodes(platformUser.id, tx)
+    })
+
+    return NextResponse.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    })
+  } catch (error) {
+    console.error('Error enabling MFA:', error)
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    )
+  }
+})
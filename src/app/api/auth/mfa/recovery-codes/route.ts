@@ -0,0 +1,70 @@
+// Two-Factor Recovery Codes API
+// Purpose: Replace a user's recovery codes
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import { getSessionClient } from '@/lib/sessions'
+import {
+  findPlatformUserByCredentials,
+  isMfaLocked,
+  regenerateRecoveryCodes,
+  verifyMfaCode,
+} from '@/lib/mfa'
+
+// POST /api/auth/mfa/recovery-codes - Issue a new set of recovery codes. The
+// old set stops working.
+export const POST = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const { email, password, code } = await request.json().catch(() => ({}))
+
+    const platformUser = await findPlatformUserByCredentials(email, password)
+    if (!platformUser) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    if (!platformUser.mfa_enabled_at) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 409 }
+      )
+    }
+
+    if (isMfaLocked(platformUser)) {
+      return NextResponse.json(
+        { error: 'Too many invalid codes. Try again later.' },
+        { status: 429 }
+      )
+    }
+
+    if (
+      typeof code !== 'string' ||
+      !(await verifyMfaCode(
+        platformUser,
+        code,
+        getSessionClient(Object.fromEntries(request.headers))
+      ))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Recovery codes regenerated',
+      recoveryCodes: await regenerateRecoveryCodes(platformUser.id),
+    })
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { error: 'Failed to regenerate recovery codes' },
+      { status: 500 }
+    )
+  }
+})
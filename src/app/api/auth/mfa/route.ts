@@ -0,0 +1,50 @@
+// Two-Factor Status API
+// Purpose: Show the signed-in user's MFA enrollment
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-guards'
+import { prisma } from '@/lib/prisma'
+import { getPlatformUserId } from '@/lib/user-context'
+import { isMfaRequired } from '@/lib/mfa'
+
+// GET /api/auth/mfa - Get MFA status for the caller
+export const GET = withAuth(async (request: NextRequest, userContext) => {
+  try {
+    const platformUserId = await getPlatformUserId(userContext)
+    const platformUser = platformUserId
+      ? await prisma.platform_users.findUnique({
+          where: { id: platformUserId },
+          include: {
+            users: {
+              select: {
+                isActive: true,
+                law_firms: { select: { isActive: true, settings: true } },
+              },
+            },
+            _count: {
+              select: { mfa_recovery_codes: { where: { used_at: null } } },
+            },
+          },
+        })
+      : null
+
+    if (!platformUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      mfa: {
+        enabled: !!platformUser.mfa_enabled_at,
+        enabledAt: platformUser.mfa_enabled_at?.toISOString() ?? null,
+        required: isMfaRequired(platformUser),
+        recoveryCodesRemaining: platformUser._count.mfa_recovery_codes,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching MFA status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch MFA status' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,64 @@
+// Two-Factor Setup API
+// Purpose: Start TOTP enrollment with a new secret and QR code
+
+import { NextRequest, NextResponse } from 'next/server'
+import QRCode from 'qrcode'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import { prisma } from '@/lib/prisma'
+import {
+  encryptMfaSecret,
+  findPlatformUserByCredentials,
+  generateMfaSecret,
+  getOtpAuthUrl,
+} from '@/lib/mfa'
+
+// POST /api/auth/mfa/setup - Issue a pending secret for the user. Takes the
+// email and password so enrollment also works mid sign-in, before a session
+// exists. MFA stays off until the first code is confirmed.
+export const POST = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const { email, password } = await request.json().catch(() => ({}))
+
+    const platformUser = await findPlatformUserByCredentials(email, password)
+    if (!platformUser) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    if (platformUser.mfa_enabled_at) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      )
+    }
+
+    const secret = generateMfaSecret()
+    await prisma.platform_users.update({
+      where: { id: platformUser.id },
+      data: {
+        mfa_secret: encryptMfaSecret(secret),
+        mfa_last_used_step: null,
+        updatedAt: new Date(),
+      },
+    })
+
+    const otpauthUrl = getOtpAuthUrl(secret, platformUser.email)
+
+    return NextResponse.json({
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    })
+  } catch (error) {
+    console.error('Error starting MFA setup:', error)
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    )
+  }
+})
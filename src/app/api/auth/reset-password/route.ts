@@ -0,0 +1,51 @@
+// Reset Password API
+// Purpose: Set a new password from an emailed reset link
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withLogging } from '@/lib/api-middleware'
+import { authRateLimit } from '@/lib/rate-limiter'
+import {
+  resetPasswordWithToken,
+  validateNewPassword,
+} from '@/lib/password-reset'
+
+// POST /api/auth/reset-password - Use a reset token to set a new password.
+// Existing sessions are signed out.
+export const POST = withLogging(async (request: NextRequest) => {
+  await authRateLimit(request)
+
+  try {
+    const { token, password } = await request.json().catch(() => ({}))
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { error: 'Missing required field: token' },
+        { status: 400 }
+      )
+    }
+
+    const passwordError = validateNewPassword(password)
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 })
+    }
+
+    const platformUserId = await resetPasswordWithToken(token, password)
+
+    if (!platformUserId) {
+      return NextResponse.json(
+        { error: 'This reset link is invalid or has expired' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Password reset successfully. Please sign in again.',
+    })
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+})
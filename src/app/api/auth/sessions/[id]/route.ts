@@ -0,0 +1,40 @@
+// Own Session API
+// Purpose: Sign out one of the signed-in account's sessions
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-guards'
+import { getPlatformUserId } from '@/lib/user-context'
+import { revokeSession } from '@/lib/sessions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// DELETE /api/auth/sessions/[id] - Revoke a session. Revoking the current one
+// signs this device out.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuth(async (request: NextRequest, userContext) => {
+    try {
+      const { id } = await params
+
+      const platformUserId = await getPlatformUserId(userContext)
+      if (!platformUserId || !(await revokeSession(platformUserId, id))) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        message: 'Session signed out',
+        current: id === userContext.sessionId,
+      })
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      return NextResponse.json(
+        { error: 'Failed to sign out session' },
+        { status: 500 }
+      )
+    }
+  })(request)
+}
@@ -0,0 +1,61 @@
+// Own Sessions API
+// Purpose: List the signed-in account's sessions and sign out other devices
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-guards'
+import { getPlatformUserId } from '@/lib/user-context'
+import {
+  formatSession,
+  listActiveSessions,
+  revokeUserSessions,
+} from '@/lib/sessions'
+
+// GET /api/auth/sessions - Active sessions, most recently seen first. The one
+// making the request is flagged as current.
+export const GET = withAuth(async (request: NextRequest, userContext) => {
+  try {
+    const platformUserId = await getPlatformUserId(userContext)
+    if (!platformUserId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const sessions = await listActiveSessions(platformUserId)
+
+    return NextResponse.json({
+      sessions: sessions.map(session =>
+        formatSession(session, userContext.sessionId)
+      ),
+    })
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/auth/sessions - Sign out every session except this one
+export const DELETE = withAuth(async (request: NextRequest, userContext) => {
+  try {
+    const platformUserId = await getPlatformUserId(userContext)
+    if (!platformUserId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const revoked = await revokeUserSessions(platformUserId, undefined, {
+      exceptSessionId: userContext.sessionId,
+    })
+
+    return NextResponse.json({
+      message: 'Other sessions signed out',
+      revoked,
+    })
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out other sessions' },
+      { status: 500 }
+    )
+  }
+})
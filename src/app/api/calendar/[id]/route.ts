@@ -0,0 +1,330 @@
+// Individual Calendar Event API
+// Purpose: Get, reschedule and delete a calendar event
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withAnyPermission, withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  getFirmUserSummaries,
+  getLinkedCaseWallFilter,
+  isActiveFirmUser,
+} from '@/lib/cases'
+import {
+  canViewEvent,
+  isValidEventType,
+  resolveEventLinks,
+  scheduleCourtReminders,
+  formatCalendarEvent,
+  calendarEventInclude,
+  CALENDAR_EVENT_TYPES,
+} from '@/lib/calendar'
+import {
+  CalendarConflict,
+  findCalendarConflicts,
+  getConflictSettings,
+} from '@/lib/calendar-conflicts'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/calendar/[id] - Get event details
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAnyPermission(
+    [PERMISSIONS.CALENDAR.VIEW, PERMISSIONS.CALENDAR.VIEW_ALL],
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const event = await prisma.calendar_events.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+          include: calendarEventInclude,
+        })
+
+        if (!event || !canViewEvent(userContext, event)) {
+          return NextResponse.json(
+            { error: 'Event not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          event.assigned_user_id || '',
+        ])
+
+        return NextResponse.json({ event: formatCalendarEvent(event, users) })
+      } catch (error) {
+        console.error('Error fetching calendar event:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch calendar event' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// PATCH /api/calendar/[id] - Update or reschedule event
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CALENDAR.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+
+        const existing = await prisma.calendar_events.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+        })
+
+        if (!existing || !canViewEvent(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'Event not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.calendar_eventsUncheckedUpdateInput = {
+          updatedAt: new Date(),
+        }
+
+        if (body.type !== undefined) {
+          if (!isValidEventType(body.type)) {
+            return NextResponse.json(
+              {
+                error: `Invalid type. Expected one of: ${CALENDAR_EVENT_TYPES.join(', ')}`,
+              },
+              { status: 400 }
+            )
+          }
+          data.event_type = body.type
+        }
+
+        if (body.title !== undefined) {
+          if (!String(body.title).trim()) {
+            return NextResponse.json(
+              { error: 'Title cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.title = String(body.title).trim()
+        }
+
+        if (body.description !== undefined) {
+          data.description = body.description || null
+        }
+        if (body.location !== undefined) {
+          data.location = body.location || null
+        }
+        if (body.courtName !== undefined) {
+          data.court_name = body.courtName || null
+        }
+        if (body.judgeName !== undefined) {
+          data.judge_name = body.judgeName || null
+        }
+        if (body.allDay !== undefined) {
+          data.all_day = Boolean(body.allDay)
+        }
+
+        const startTime =
+          body.start !== undefined ? new Date(body.start) : existing.start_time
+        const endTime =
+          body.end !== undefined
+            ? body.end
+              ? new Date(body.end)
+              : null
+            : existing.end_time
+
+        if (
+          isNaN(startTime.getTime()) ||
+          (endTime && (isNaN(endTime.getTime()) || endTime < startTime))
+        ) {
+          return NextResponse.json(
+            { error: 'Invalid start or end time' },
+            { status: 400 }
+          )
+        }
+        data.start_time = startTime
+        data.end_time = endTime
+
+        if (body.caseId !== undefined || body.clientId !== undefined) {
+          const links = await resolveEventLinks(
+            userContext,
+            body.caseId !== undefined ? body.caseId : existing.case_id,
+            body.clientId !== undefined ? body.clientId : existing.client_id
+          )
+
+          if (!links) {
+            return NextResponse.json(
+              { error: 'Case or client not found' },
+              { status: 404 }
+            )
+          }
+          data.case_id = links.caseId
+          data.client_id = links.clientId
+        }
+
+        if (body.assignedUserId !== undefined) {
+          if (
+            body.assignedUserId &&
+            !(await isActiveFirmUser(
+              userContext.lawFirmId,
+              body.assignedUserId
+            ))
+          ) {
+            return NextResponse.json(
+              { error: 'Assigned user not found or inactive' },
+              { status: 400 }
+            )
+          }
+          data.assigned_user_id = body.assignedUserId || null
+        }
+
+        // Only re-check conflicts when the event was moved or reassigned
+        let conflicts: CalendarConflict[] = []
+        const rescheduled = [
+          'type',
+          'start',
+          'end',
+          'allDay',
+          'location',
+          'courtName',
+          'assignedUserId',
+        ].some(field => body[field] !== undefined)
+
+        if (rescheduled) {
+          const conflictSettings = await getConflictSettings(
+            userContext.lawFirmId
+          )
+          conflicts = await findCalendarConflicts(
+            userContext,
+            {
+              id,
+              eventType:
+                body.type !== undefined ? body.type : existing.event_type,
+              start: startTime,
+              end: endTime,
+              allDay:
+                body.allDay !== undefined
+                  ? Boolean(body.allDay)
+                  : existing.all_day,
+              assignedUserId:
+                body.assignedUserId !== undefined
+                  ? body.assignedUserId || null
+                  : existing.assigned_user_id,
+              location:
+                body.location !== undefined
+                  ? body.location || null
+                  : existing.location,
+              courtName:
+                body.courtName !== undefined
+                  ? body.courtName || null
+                  : existing.court_name,
+            },
+            conflictSettings
+          )
+
+          if (
+            conflicts.length > 0 &&
+            conflictSettings.conflictMode === 'block'
+          ) {
+            return NextResponse.json(
+              { error: 'Event conflicts with existing bookings', conflicts },
+              { status: 409 }
+            )
+          }
+        }
+
+        const updated = await prisma.$transaction(async tx => {
+          const result = await tx.calendar_events.update({
+            where: { id },
+            data,
+            include: calendarEventInclude,
+          })
+
+          // Reschedule reminders when the date or type changed
+          if (
+            result.start_time.getTime() !== existing.start_time.getTime() ||
+            result.event_type !== existing.event_type
+          ) {
+            await scheduleCourtReminders(result, tx)
+          }
+
+          return result
+        })
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          updated.assigned_user_id || '',
+        ])
+
+        return NextResponse.json({
+          message: 'Event updated successfully',
+          event: formatCalendarEvent(updated, users),
+          conflicts,
+        })
+      } catch (error) {
+        console.error('Error updating calendar event:', error)
+        return NextResponse.json(
+          { error: 'Failed to update calendar event' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/calendar/[id] - Delete event (pending reminders go with it)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CALENDAR.DELETE,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.calendar_events.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+          select: {
+            id: true,
+            law_firm_id: true,
+            assigned_user_id: true,
+            created_by: true,
+          },
+        })
+
+        if (!existing || !canViewEvent(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'Event not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        await prisma.calendar_events.delete({ where: { id } })
+
+        return NextResponse.json({
+          message: 'Event deleted successfully',
+          eventId: id,
+        })
+      } catch (error) {
+        console.error('Error deleting calendar event:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete calendar event' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,30 @@
+// Court Reminder Dispatch API
+// Purpose: Send due court-date reminder emails (invoked by the cron runner)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { env } from '@/lib/env'
+import { processDueReminders } from '@/lib/calendar'
+
+// GET /api/calendar/reminders - Send all due reminders
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get('authorization')
+
+  if (!env.CRON_SECRET || authorization !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await processDueReminders()
+
+    return NextResponse.json({
+      message: 'Reminders processed',
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error processing court reminders:', error)
+    return NextResponse.json(
+      { error: 'Failed to process reminders' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,296 @@
+// Calendar API
+// Purpose: List and create hearings, appointments and deadlines
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { withAnyPermission, withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getFirmUserSummaries, isActiveFirmUser } from '@/lib/cases'
+import { recordCaseEvent } from '@/lib/case-events'
+import {
+  getCalendarAccessFilter,
+  isValidEventType,
+  resolveEventLinks,
+  scheduleCourtReminders,
+  formatCalendarEvent,
+  calendarEventInclude,
+  CALENDAR_EVENT_TYPES,
+} from '@/lib/calendar'
+import {
+  findCalendarConflicts,
+  getConflictSettings,
+} from '@/lib/calendar-conflicts'
+
+// GET /api/calendar - List events in a date range
+export const GET = withAnyPermission(
+  [PERMISSIONS.CALENDAR.VIEW, PERMISSIONS.CALENDAR.VIEW_ALL],
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const startParam = searchParams.get('start')
+      const endParam = searchParams.get('end')
+      const type = searchParams.get('type')
+      const caseId = searchParams.get('caseId')
+      const clientId = searchParams.get('clientId')
+      const userId = searchParams.get('userId')
+
+      // Default to the current month
+      const now = new Date()
+      const start = startParam
+        ? new Date(startParam)
+        : new Date(now.getFullYear(), now.getMonth(), 1)
+      const end = endParam
+        ? new Date(endParam)
+        : new Date(now.getFullYear(), now.getMonth() + 1, 1)
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        return NextResponse.json(
+          { error: 'Invalid date range' },
+          { status: 400 }
+        )
+      }
+
+      if (type && !isValidEventType(type)) {
+        return NextResponse.json(
+          {
+            error: `Invalid type. Expected one of: ${CALENDAR_EVENT_TYPES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      // Other people's calendars require CALENDAR.VIEW_ALL
+      if (
+        userId &&
+        userId !== userContext.id &&
+        !hasPermission(userContext, PERMISSIONS.CALENDAR.VIEW_ALL)
+      ) {
+        return NextResponse.json(
+          {
+            error: `Access denied. Required permission: ${PERMISSIONS.CALENDAR.VIEW_ALL}`,
+            permission: PERMISSIONS.CALENDAR.VIEW_ALL,
+          },
+          { status: 403 }
+        )
+      }
+
+      const access = getCalendarAccessFilter(userContext)
+      const where: Prisma.calendar_eventsWhereInput = {
+        ...access,
+        // Events overlapping the range (open-ended events use their start)
+        start_time: { lt: end },
+        AND: [
+          ...[access.AND ?? []].flat(),
+          {
+            OR: [
+              { end_time: { gte: start } },
+              { end_time: null, start_time: { gte: start } },
+            ],
+          },
+        ],
+      }
+
+      if (type && isValidEventType(type)) {
+        where.event_type = type
+      }
+
+      if (caseId) {
+        where.case_id = caseId
+      }
+
+      if (clientId) {
+        where.client_id = clientId
+      }
+
+      if (userId) {
+        where.assigned_user_id = userId
+      }
+
+      const events = await prisma.calendar_events.findMany({
+        where,
+        include: calendarEventInclude,
+        orderBy: { start_time: 'asc' },
+        take: 500,
+      })
+
+      const users = await getFirmUserSummaries(
+        userContext.lawFirmId,
+        events.map(event => event.assigned_user_id || '')
+      )
+
+      return NextResponse.json({
+        events: events.map(event => formatCalendarEvent(event, users)),
+        range: { start: start.toISOString(), end: end.toISOString() },
+      })
+    } catch (error) {
+      console.error('Error fetching calendar events:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch calendar events' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/calendar - Create an event
+export const POST = withPermission(
+  PERMISSIONS.CALENDAR.CREATE,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const {
+        type,
+        title,
+        description,
+        location,
+        courtName,
+        judgeName,
+        start,
+        end,
+        allDay = false,
+        caseId,
+        clientId,
+        assignedUserId = userContext.id,
+      } = body
+
+      // Validate required fields
+      if (!type || !title || !start) {
+        return NextResponse.json(
+          { error: 'Missing required fields: type, title, start' },
+          { status: 400 }
+        )
+      }
+
+      if (!isValidEventType(type)) {
+        return NextResponse.json(
+          {
+            error: `Invalid type. Expected one of: ${CALENDAR_EVENT_TYPES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      const startTime = new Date(start)
+      const endTime = end ? new Date(end) : null
+
+      if (
+        isNaN(startTime.getTime()) ||
+        (endTime && (isNaN(endTime.getTime()) || endTime < startTime))
+      ) {
+        return NextResponse.json(
+          { error: 'Invalid start or end time' },
+          { status: 400 }
+        )
+      }
+
+      const links = await resolveEventLinks(userContext, caseId, clientId)
+
+      if (!links) {
+        return NextResponse.json(
+          { error: 'Case or client not found' },
+          { status: 404 }
+        )
+      }
+
+      if (
+        assignedUserId &&
+        !(await isActiveFirmUser(userContext.lawFirmId, assignedUserId))
+      ) {
+        return NextResponse.json(
+          { error: 'Assigned user not found or inactive' },
+          { status: 400 }
+        )
+      }
+
+      // Double-bookings are warnings unless the firm has made them blocking
+      const conflictSettings = await getConflictSettings(userContext.lawFirmId)
+      const conflicts = await findCalendarConflicts(
+        userContext,
+        {
+          eventType: type,
+          start: startTime,
+          end: endTime,
+          allDay: Boolean(allDay),
+          assignedUserId: assignedUserId || null,
+          location: location || null,
+          courtName: courtName || null,
+        },
+        conflictSettings
+      )
+
+      if (conflicts.length > 0 && conflictSettings.conflictMode === 'block') {
+        return NextResponse.json(
+          { error: 'Event conflicts with existing bookings', conflicts },
+          { status: 409 }
+        )
+      }
+
+      const event = await prisma.$transaction(async tx => {
+        const created = await tx.calendar_events.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            case_id: links.caseId,
+            client_id: links.clientId,
+            assigned_user_id: assignedUserId || null,
+            created_by: userContext.id,
+            event_type: type,
+            title: String(title).trim(),
+            description: description || null,
+            location: location || null,
+            court_name: courtName || null,
+            judge_name: judgeName || null,
+            start_time: startTime,
+            end_time: endTime,
+            all_day: Boolean(allDay),
+            updatedAt: new Date(),
+          },
+          include: calendarEventInclude,
+        })
+
+        await scheduleCourtReminders(created, tx)
+
+        if (created.case_id && created.event_type === 'HEARING') {
+          await recordCaseEvent(
+            {
+              lawFirmId: userContext.lawFirmId,
+              caseId: created.case_id,
+              eventType: 'HEARING',
+              title: `Hearing scheduled: ${created.title}`,
+              description: `Scheduled for ${startTime.toLocaleString('en-US')}`,
+              metadata: {
+                calendarEventId: created.id,
+                startTime: startTime.toISOString(),
+              },
+              actorId: userContext.id,
+            },
+            tx
+          )
+        }
+
+        return created
+      })
+
+      const users = await getFirmUserSummaries(userContext.lawFirmId, [
+        event.assigned_user_id || '',
+      ])
+
+      return NextResponse.json(
+        {
+          message: 'Event created successfully',
+          event: formatCalendarEvent(event, users),
+          conflicts,
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating calendar event:', error)
+      return NextResponse.json(
+        { error: 'Failed to create calendar event' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,178 @@
+// Individual Case Folder API
+// Purpose: Rename, move and delete a case folder
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getCaseAccessFilter } from '@/lib/cases'
+import {
+  getCaseFolders,
+  getDescendantFolderIds,
+  getFolderDepth,
+  hasSiblingNamed,
+  MAX_FOLDER_DEPTH,
+} from '@/lib/document-organization'
+
+interface RouteParams {
+  params: Promise<{ id: string; folderId: string }>
+}
+
+// PATCH /api/cases/[id]/folders/[folderId] - Rename or move a folder
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, folderId } = await params
+        const body = await request.json()
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json({ error: 'Case not found' }, { status: 404 })
+        }
+
+        const folders = await getCaseFolders(userContext.lawFirmId, id)
+        const existing = folders.find(folder => folder.id === folderId)
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Folder not found' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.document_foldersUncheckedUpdateInput = {
+          updatedAt: new Date(),
+        }
+        let name = existing.name
+        let parentId = existing.parent_id
+
+        if (body.name !== undefined) {
+          name = String(body.name).trim()
+          if (!name) {
+            return NextResponse.json(
+              { error: 'Name cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.name = name
+        }
+
+        if (body.parentId !== undefined) {
+          parentId = body.parentId || null
+
+          if (parentId) {
+            // A folder cannot move into itself or one of its own subfolders
+            const subtree = getDescendantFolderIds(folders, folderId)
+            if (subtree.includes(parentId)) {
+              return NextResponse.json(
+                { error: 'A folder cannot be moved into itself' },
+                { status: 400 }
+              )
+            }
+
+            if (!folders.some(folder => folder.id === parentId)) {
+              return NextResponse.json(
+                { error: 'Parent folder not found' },
+                { status: 404 }
+              )
+            }
+
+            const ownDepth = getFolderDepth(folders, folderId)
+            const subtreeHeight = Math.max(
+              ...subtree.map(
+                descendantId =>
+                  getFolderDepth(folders, descendantId) - ownDepth + 1
+              )
+            )
+            if (
+              getFolderDepth(folders, parentId) + subtreeHeight >
+              MAX_FOLDER_DEPTH
+            ) {
+              return NextResponse.json(
+                {
+                  error: `Folders cannot be nested more than ${MAX_FOLDER_DEPTH} levels deep`,
+                },
+                { status: 400 }
+              )
+            }
+          }
+          data.parent_id = parentId
+        }
+
+        if (hasSiblingNamed(folders, parentId, name, folderId)) {
+          return NextResponse.json(
+            { error: 'A folder with this name already exists here' },
+            { status: 409 }
+          )
+        }
+
+        const folder = await prisma.document_folders.update({
+          where: { id: folderId },
+          data,
+        })
+
+        return NextResponse.json({
+          message: 'Folder updated successfully',
+          folder: {
+            id: folder.id,
+            name: folder.name,
+            parentId: folder.parent_id,
+          },
+        })
+      } catch (error) {
+        console.error('Error updating case folder:', error)
+        return NextResponse.json(
+          { error: 'Failed to update case folder' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/cases/[id]/folders/[folderId] - Delete a folder and its subfolders
+// Documents inside are kept and move back to the top level of the case.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, folderId } = await params
+
+        const existing = await prisma.document_folders.findFirst({
+          where: {
+            id: folderId,
+            case_id: id,
+            law_firm_id: userContext.lawFirmId,
+            cases: getCaseAccessFilter(userContext),
+          },
+          select: { id: true },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Folder not found' },
+            { status: 404 }
+          )
+        }
+
+        await prisma.document_folders.delete({ where: { id: folderId } })
+
+        return NextResponse.json({ message: 'Folder deleted successfully' })
+      } catch (error) {
+        console.error('Error deleting case folder:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete case folder' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
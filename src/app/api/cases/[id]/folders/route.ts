@@ -0,0 +1,165 @@
+// Case Folders API
+// Purpose: Read a case's virtual folder tree and add folders to it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getCaseAccessFilter } from '@/lib/cases'
+import {
+  buildFolderTree,
+  getCaseFolders,
+  getFolderDepth,
+  hasSiblingNamed,
+  MAX_FOLDER_DEPTH,
+} from '@/lib/document-organization'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/cases/[id]/folders - Get the folder tree with document counts
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json({ error: 'Case not found' }, { status: 404 })
+        }
+
+        const [folders, counts] = await Promise.all([
+          getCaseFolders(userContext.lawFirmId, id),
+          prisma.documents.groupBy({
+            by: ['folder_id'],
+            where: { law_firm_id: userContext.lawFirmId, case_id: id },
+            _count: { _all: true },
+          }),
+        ])
+
+        const documentCounts = new Map<string, number>()
+        let unfiledCount = 0
+        let totalCount = 0
+        counts.forEach(row => {
+          totalCount += row._count._all
+          if (row.folder_id) {
+            documentCounts.set(row.folder_id, row._count._all)
+          } else {
+            unfiledCount = row._count._all
+          }
+        })
+
+        return NextResponse.json({
+          caseId: id,
+          folders: buildFolderTree(folders, documentCounts),
+          unfiledCount,
+          totalCount,
+        })
+      } catch (error) {
+        console.error('Error fetching case folders:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch case folders' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// POST /api/cases/[id]/folders - Create a folder (optionally inside another)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+        const name = typeof body.name === 'string' ? body.name.trim() : ''
+        const parentId: string | null = body.parentId || null
+
+        if (!name) {
+          return NextResponse.json(
+            { error: 'Missing required field: name' },
+            { status: 400 }
+          )
+        }
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json({ error: 'Case not found' }, { status: 404 })
+        }
+
+        const folders = await getCaseFolders(userContext.lawFirmId, id)
+
+        if (parentId) {
+          if (!folders.some(folder => folder.id === parentId)) {
+            return NextResponse.json(
+              { error: 'Parent folder not found' },
+              { status: 404 }
+            )
+          }
+
+          if (getFolderDepth(folders, parentId) >= MAX_FOLDER_DEPTH) {
+            return NextResponse.json(
+              {
+                error: `Folders cannot be nested more than ${MAX_FOLDER_DEPTH} levels deep`,
+              },
+              { status: 400 }
+            )
+          }
+        }
+
+        if (hasSiblingNamed(folders, parentId, name)) {
+          return NextResponse.json(
+            { error: 'A folder with this name already exists here' },
+            { status: 409 }
+          )
+        }
+
+        const folder = await prisma.document_folders.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            case_id: id,
+            parent_id: parentId,
+            name,
+            created_by: userContext.id,
+            updatedAt: new Date(),
+          },
+        })
+
+        return NextResponse.json(
+          {
+            message: 'Folder created successfully',
+            folder: {
+              id: folder.id,
+              name: folder.name,
+              parentId: folder.parent_id,
+              documentCount: 0,
+              children: [],
+            },
+          },
+          { status: 201 }
+        )
+      } catch (error) {
+        console.error('Error creating case folder:', error)
+        return NextResponse.json(
+          { error: 'Failed to create case folder' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
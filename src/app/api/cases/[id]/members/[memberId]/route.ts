@@ -0,0 +1,95 @@
+// Case Team Member API
+// Purpose: Remove someone from a case team or lift an ethical wall
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAnyPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  CASE_MEMBER_AUDIT_FIELDS,
+  getCaseAccessFilter,
+  getCaseAccessPermission,
+  getFirmUserSummaries,
+} from '@/lib/cases'
+import { recordCaseEvent } from '@/lib/case-events'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string; memberId: string }>
+}
+
+// DELETE /api/cases/[id]/members/[memberId] - Remove a team entry or wall
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAnyPermission(
+    [PERMISSIONS.CASES.ASSIGN, PERMISSIONS.ADMIN.FIRM_SETTINGS],
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, memberId } = await params
+
+        const member = await prisma.case_members.findFirst({
+          where: {
+            id: memberId,
+            case_id: id,
+            cases: getCaseAccessFilter(userContext),
+          },
+        })
+
+        if (!member) {
+          return NextResponse.json(
+            { error: 'Team member not found' },
+            { status: 404 }
+          )
+        }
+
+        const required = getCaseAccessPermission(member.access)
+        if (!hasPermission(userContext, required)) {
+          return NextResponse.json(
+            {
+              error: `Access denied. Required permission: ${required}`,
+              permission: required,
+            },
+            { status: 403 }
+          )
+        }
+
+        await prisma.case_members.delete({ where: { id: memberId } })
+
+        await recordAuditLog(request, userContext, {
+          action: 'DELETE',
+          entityType: 'case_member',
+          entityId: memberId,
+          before: pickAuditFields(member, CASE_MEMBER_AUDIT_FIELDS),
+        })
+
+        if (member.access === 'MEMBER') {
+          const users = await getFirmUserSummaries(userContext.lawFirmId, [
+            member.user_id,
+          ])
+          const user = users.get(member.user_id)
+          await recordCaseEvent({
+            lawFirmId: userContext.lawFirmId,
+            caseId: id,
+            eventType: 'REASSIGNED',
+            title: `${user?.name || user?.email || 'A user'} left the case team`,
+            metadata: { memberUserId: member.user_id },
+            actorId: userContext.id,
+          })
+        }
+
+        return NextResponse.json({
+          message:
+            member.access === 'DENIED'
+              ? 'Ethical wall lifted'
+              : 'Team member removed',
+          removedMember: { id: member.id, userId: member.user_id },
+        })
+      } catch (error) {
+        console.error('Error removing case team member:', error)
+        return NextResponse.json(
+          { error: 'Failed to remove case team member' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,284 @@
+// Case Team API
+// Purpose: List a case's team and ethical walls, and add people to either
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withAnyPermission, withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  CASE_MEMBER_AUDIT_FIELDS,
+  MAX_MATTER_ROLE_LENGTH,
+  MAX_WALL_REASON_LENGTH,
+  formatCaseMember,
+  getCaseAccessFilter,
+  getCaseAccessPermission,
+  getFirmUserSummaries,
+  isActiveFirmUser,
+  isValidCaseAccess,
+} from '@/lib/cases'
+import { recordCaseEvent } from '@/lib/case-events'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/cases/[id]/members - Get the case team (and walls for admins)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CASES.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true, assigned_lawyer_id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const canManageTeam = hasPermission(
+          userContext,
+          PERMISSIONS.CASES.ASSIGN
+        )
+        // Who is screened from a matter is itself confidential
+        const canManageWalls = hasPermission(
+          userContext,
+          PERMISSIONS.ADMIN.FIRM_SETTINGS
+        )
+
+        const [members, firmUsers] = await Promise.all([
+          prisma.case_members.findMany({
+            where: {
+              case_id: id,
+              law_firm_id: userContext.lawFirmId,
+              ...(canManageWalls ? {} : { access: 'MEMBER' as const }),
+            },
+            orderBy: { createdAt: 'asc' },
+          }),
+          canManageTeam || canManageWalls
+            ? prisma.users.findMany({
+                where: { law_firm_id: userContext.lawFirmId, isActive: true },
+                select: {
+                  id: true,
+                  platform_users: { select: { name: true, email: true } },
+                },
+              })
+            : Promise.resolve([]),
+        ])
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          ...members.flatMap(member => [member.user_id, member.added_by]),
+          caseRecord.assigned_lawyer_id || '',
+        ])
+
+        const lawyer = caseRecord.assigned_lawyer_id
+          ? users.get(caseRecord.assigned_lawyer_id)
+          : undefined
+
+        return NextResponse.json({
+          assignedLawyer: lawyer
+            ? { id: lawyer.id, name: lawyer.name || lawyer.email }
+            : null,
+          members: members
+            .filter(member => member.access === 'MEMBER')
+            .map(member => formatCaseMember(member, users)),
+          walls: canManageWalls
+            ? members
+                .filter(member => member.access === 'DENIED')
+                .map(member => formatCaseMember(member, users))
+            : [],
+          firmUsers: firmUsers
+            .map(user => ({
+              id: user.id,
+              name: user.platform_users.name || user.platform_users.email,
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+          canManageTeam,
+          canManageWalls,
+        })
+      } catch (error) {
+        console.error('Error fetching case team:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch case team' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// POST /api/cases/[id]/members - Add a team member or wall a user off.
+// Re-posting an existing user updates their entry.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAnyPermission(
+    [PERMISSIONS.CASES.ASSIGN, PERMISSIONS.ADMIN.FIRM_SETTINGS],
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+        const { userId, access = 'MEMBER' } = body
+        const matterRole =
+          typeof body.matterRole === 'string' ? body.matterRole.trim() : ''
+        const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+        if (!userId) {
+          return NextResponse.json(
+            { error: 'Missing required field: userId' },
+            { status: 400 }
+          )
+        }
+
+        if (!isValidCaseAccess(access)) {
+          return NextResponse.json(
+            { error: 'Invalid access. Expected one of: MEMBER, DENIED' },
+            { status: 400 }
+          )
+        }
+
+        if (matterRole.length > MAX_MATTER_ROLE_LENGTH) {
+          return NextResponse.json(
+            {
+              error: `Matter role must be at most ${MAX_MATTER_ROLE_LENGTH} characters`,
+            },
+            { status: 400 }
+          )
+        }
+
+        if (reason.length > MAX_WALL_REASON_LENGTH) {
+          return NextResponse.json(
+            {
+              error: `Reason must be at most ${MAX_WALL_REASON_LENGTH} characters`,
+            },
+            { status: 400 }
+          )
+        }
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true, assigned_lawyer_id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        if (!(await isActiveFirmUser(userContext.lawFirmId, userId))) {
+          return NextResponse.json(
+            { error: 'User not found in this firm' },
+            { status: 400 }
+          )
+        }
+
+        const existing = await prisma.case_members.findUnique({
+          where: { case_id_user_id: { case_id: id, user_id: userId } },
+        })
+
+        // Changing a walled entry lifts the wall, so it needs the same
+        // permission as putting one up
+        for (const required of new Set([
+          getCaseAccessPermission(access),
+          ...(existing ? [getCaseAccessPermission(existing.access)] : []),
+        ])) {
+          if (!hasPermission(userContext, required)) {
+            return NextResponse.json(
+              {
+                error: `Access denied. Required permission: ${required}`,
+                permission: required,
+              },
+              { status: 403 }
+            )
+          }
+        }
+
+        if (access === 'DENIED' && caseRecord.assigned_lawyer_id === userId) {
+          return NextResponse.json(
+            {
+              error:
+                'The assigned lawyer cannot be walled off. Reassign the case first.',
+            },
+            { status: 409 }
+          )
+        }
+
+        const member = await prisma.case_members.upsert({
+          where: { case_id_user_id: { case_id: id, user_id: userId } },
+          create: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            case_id: id,
+            user_id: userId,
+            access,
+            matter_role: matterRole || null,
+            reason: reason || null,
+            added_by: userContext.id,
+            updatedAt: new Date(),
+          },
+          update: {
+            access,
+            matter_role: matterRole || null,
+            reason: reason || null,
+            added_by: userContext.id,
+            updatedAt: new Date(),
+          },
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: existing ? 'UPDATE' : 'CREATE',
+          entityType: 'case_member',
+          entityId: member.id,
+          before: existing
+            ? pickAuditFields(existing, CASE_MEMBER_AUDIT_FIELDS)
+            : null,
+          after: pickAuditFields(member, CASE_MEMBER_AUDIT_FIELDS),
+        })
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          member.user_id,
+          member.added_by,
+        ])
+
+        // Walls stay off the case timeline; the team it shows is not secret
+        if (access === 'MEMBER' && existing?.access !== 'MEMBER') {
+          const user = users.get(userId)
+          await recordCaseEvent({
+            lawFirmId: userContext.lawFirmId,
+            caseId: id,
+            eventType: 'REASSIGNED',
+            title: `${user?.name || user?.email || 'A user'} joined the case team`,
+            description: matterRole || null,
+            metadata: { memberUserId: userId },
+            actorId: userContext.id,
+          })
+        }
+
+        return NextResponse.json(
+          {
+            message:
+              access === 'DENIED'
+                ? 'User walled off from case'
+                : 'Team member saved',
+            member: formatCaseMember(member, users),
+          },
+          { status: existing ? 200 : 201 }
+        )
+      } catch (error) {
+        console.error('Error saving case team member:', error)
+        return NextResponse.json(
+          { error: 'Failed to save case team member' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,299 @@
+// Individual Case API
+// Purpose: Get, update and delete a specific case
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withAnyPermission, withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  getCaseAccessFilter,
+  getFirmUserSummaries,
+  isActiveFirmUser,
+  isValidCaseStatus,
+  isWalledOff,
+  formatCase,
+  CASE_AUDIT_FIELDS,
+  CASE_STATUSES,
+} from '@/lib/cases'
+import { recordCaseUpdateEvents } from '@/lib/case-events'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const caseInclude = {
+  clients: {
+    select: {
+      first_name: true,
+      last_name: true,
+      email: true,
+    },
+  },
+  _count: {
+    select: { documents: true },
+  },
+} satisfies Prisma.casesInclude
+
+// GET /api/cases/[id] - Get case details
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAnyPermission(
+    [PERMISSIONS.CASES.VIEW, PERMISSIONS.CASES.VIEW_ALL],
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          include: caseInclude,
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const lawyers = await getFirmUserSummaries(userContext.lawFirmId, [
+          caseRecord.assigned_lawyer_id || '',
+        ])
+
+        return NextResponse.json({ case: formatCase(caseRecord, lawyers) })
+      } catch (error) {
+        console.error('Error fetching case:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch case' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// PATCH /api/cases/[id] - Update case
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CASES.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+        const {
+          title,
+          description,
+          clientId,
+          status,
+          practiceArea,
+          assignedLawyerId,
+        } = body
+
+        const existing = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        // Build update data
+        const updateData: Prisma.casesUncheckedUpdateInput = {
+          updatedAt: new Date(),
+        }
+
+        if (title !== undefined) {
+          if (!title || !String(title).trim()) {
+            return NextResponse.json(
+              { error: 'Title cannot be empty' },
+              { status: 400 }
+            )
+          }
+          updateData.title = String(title).trim()
+        }
+
+        if (description !== undefined) updateData.description = description
+
+        if (practiceArea !== undefined) {
+          updateData.practice_area = practiceArea || null
+        }
+
+        if (status !== undefined) {
+          if (!isValidCaseStatus(status)) {
+            return NextResponse.json(
+              {
+                error: `Invalid status. Expected one of: ${CASE_STATUSES.join(', ')}`,
+              },
+              { status: 400 }
+            )
+          }
+          updateData.status = status
+        }
+
+        if (clientId !== undefined && clientId !== existing.client_id) {
+          const client = await prisma.clients.findFirst({
+            where: {
+              id: clientId,
+              law_firm_id: userContext.lawFirmId,
+            },
+            select: { id: true },
+          })
+
+          if (!client) {
+            return NextResponse.json(
+              { error: 'Client not found' },
+              { status: 404 }
+            )
+          }
+          updateData.client_id = clientId
+        }
+
+        if (
+          assignedLawyerId !== undefined &&
+          (assignedLawyerId || null) !== existing.assigned_lawyer_id
+        ) {
+          // Reassignment requires CASES.ASSIGN
+          if (!hasPermission(userContext, PERMISSIONS.CASES.ASSIGN)) {
+            return NextResponse.json(
+              {
+                error: `Access denied. Required permission: ${PERMISSIONS.CASES.ASSIGN}`,
+                permission: PERMISSIONS.CASES.ASSIGN,
+              },
+              { status: 403 }
+            )
+          }
+
+          if (
+            assignedLawyerId &&
+            !(await isActiveFirmUser(userContext.lawFirmId, assignedLawyerId))
+          ) {
+            return NextResponse.json(
+              { error: 'Assigned lawyer not found or inactive' },
+              { status: 400 }
+            )
+          }
+
+          if (assignedLawyerId && (await isWalledOff(id, assignedLawyerId))) {
+            return NextResponse.json(
+              { error: 'Assigned lawyer is screened from this case' },
+              { status: 409 }
+            )
+          }
+          updateData.assigned_lawyer_id = assignedLawyerId || null
+        }
+
+        // Apply the update and write the matching timeline events
+        const updated = await prisma.$transaction(async tx => {
+          const result = await tx.cases.update({
+            where: { id },
+            data: updateData,
+            include: caseInclude,
+          })
+
+          await recordCaseUpdateEvents(existing, result, userContext.id, tx)
+
+          return result
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'UPDATE',
+          entityType: 'case',
+          entityId: id,
+          before: pickAuditFields(existing, CASE_AUDIT_FIELDS),
+          after: pickAuditFields(updated, CASE_AUDIT_FIELDS),
+        })
+
+        const lawyers = await getFirmUserSummaries(userContext.lawFirmId, [
+          updated.assigned_lawyer_id || '',
+        ])
+
+        return NextResponse.json({
+          message: 'Case updated successfully',
+          case: formatCase(updated, lawyers),
+        })
+      } catch (error) {
+        console.error('Error updating case:', error)
+        return NextResponse.json(
+          { error: 'Failed to update case' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/cases/[id] - Delete case
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CASES.DELETE,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            status: true,
+            practice_area: true,
+            assigned_lawyer_id: true,
+            client_id: true,
+          },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        // Deleting would unfile the documents (ON DELETE SET NULL), making
+        // them visible firm-wide, even to lawyers walled off from the matter
+        const documentCount = await prisma.documents.count({
+          where: { case_id: id, law_firm_id: userContext.lawFirmId },
+        })
+        if (documentCount > 0) {
+          return NextResponse.json(
+            {
+              error:
+                'This case still has documents. Move or delete them before deleting the case.',
+              documentCount,
+            },
+            { status: 409 }
+          )
+        }
+
+        await prisma.cases.delete({
+          where: { id },
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'DELETE',
+          entityType: 'case',
+          entityId: id,
+          before: pickAuditFields(existing, CASE_AUDIT_FIELDS),
+        })
+
+        return NextResponse.json({
+          message: 'Case deleted successfully',
+          deletedCase: {
+            id: existing.id,
+            title: existing.title,
+          },
+        })
+      } catch (error) {
+        console.error('Error deleting case:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete case' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
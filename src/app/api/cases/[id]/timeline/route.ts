@@ -0,0 +1,151 @@
+// Case Timeline API
+// Purpose: Read a case history and add notes or hearings to it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CaseEventType } from '@prisma/client'
+import { withAnyPermission, withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getCaseAccessFilter } from '@/lib/cases'
+import {
+  getCaseTimeline,
+  recordCaseEvent,
+  MANUAL_CASE_EVENT_TYPES,
+} from '@/lib/case-events'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/cases/[id]/timeline - Get case timeline
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAnyPermission(
+    [PERMISSIONS.CASES.VIEW, PERMISSIONS.CASES.VIEW_ALL],
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const { searchParams } = new URL(request.url)
+        const limit = Math.min(
+          Math.max(parseInt(searchParams.get('limit') || '100'), 1),
+          500
+        )
+        const before = searchParams.get('before')
+        const types = searchParams.get('type')?.split(',').filter(Boolean) as
+          | CaseEventType[]
+          | undefined
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true, title: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const events = await getCaseTimeline(userContext.lawFirmId, id, {
+          limit,
+          before: before ? new Date(before) : undefined,
+          types,
+        })
+
+        return NextResponse.json({
+          caseId: caseRecord.id,
+          caseTitle: caseRecord.title,
+          events,
+        })
+      } catch (error) {
+        console.error('Error fetching case timeline:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch case timeline' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// POST /api/cases/[id]/timeline - Add a note or hearing to the timeline
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CASES.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+        const { type = 'NOTE_ADDED', title, description, occurredAt } = body
+
+        if (!MANUAL_CASE_EVENT_TYPES.includes(type)) {
+          return NextResponse.json(
+            {
+              error: `Invalid event type. Expected one of: ${MANUAL_CASE_EVENT_TYPES.join(', ')}`,
+            },
+            { status: 400 }
+          )
+        }
+
+        if (!title || !String(title).trim()) {
+          return NextResponse.json(
+            { error: 'Missing required field: title' },
+            { status: 400 }
+          )
+        }
+
+        const eventDate = occurredAt ? new Date(occurredAt) : new Date()
+        if (isNaN(eventDate.getTime())) {
+          return NextResponse.json(
+            { error: 'Invalid occurredAt date' },
+            { status: 400 }
+          )
+        }
+
+        const caseRecord = await prisma.cases.findFirst({
+          where: { id, ...getCaseAccessFilter(userContext) },
+          select: { id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json(
+            { error: 'Case not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const event = await recordCaseEvent({
+          lawFirmId: userContext.lawFirmId,
+          caseId: id,
+          eventType: type,
+          title: String(title).trim(),
+          description: description || null,
+          actorId: userContext.id,
+          occurredAt: eventDate,
+        })
+
+        return NextResponse.json(
+          {
+            message: 'Timeline event added successfully',
+            event: {
+              id: event.id,
+              type: event.event_type,
+              title: event.title,
+              description: event.description,
+              actorId: event.actor_id,
+              occurredAt: event.occurredAt.toISOString(),
+              createdAt: event.createdAt.toISOString(),
+            },
+          },
+          { status: 201 }
+        )
+      } catch (error) {
+        console.error('Error adding timeline event:', error)
+        return NextResponse.json(
+          { error: 'Failed to add timeline event' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,264 @@
+// Cases API
+// Purpose: List and create cases for the law firm
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { withAnyPermission, withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  getCaseAccessFilter,
+  getFirmUserSummaries,
+  isActiveFirmUser,
+  isValidCaseStatus,
+  formatCase,
+  CASE_AUDIT_FIELDS,
+  CASE_STATUSES,
+} from '@/lib/cases'
+import { recordCaseEvent } from '@/lib/case-events'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+// GET /api/cases - List cases visible to the current user
+export const GET = withAnyPermission(
+  [PERMISSIONS.CASES.VIEW, PERMISSIONS.CASES.VIEW_ALL],
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get('limit') || '20'), 1),
+        100
+      )
+      const status = searchParams.get('status')
+      const practiceArea = searchParams.get('practiceArea')
+      const assignedLawyerId = searchParams.get('assignedLawyerId')
+      const clientId = searchParams.get('clientId')
+      const search = searchParams.get('search')
+
+      const skip = (page - 1) * limit
+
+      if (status && !isValidCaseStatus(status)) {
+        return NextResponse.json(
+          {
+            error: `Invalid status. Expected one of: ${CASE_STATUSES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      // Build where clause on top of the user's visibility scope
+      const where: Prisma.casesWhereInput = getCaseAccessFilter(userContext)
+
+      if (status && isValidCaseStatus(status)) {
+        where.status = status
+      }
+
+      if (practiceArea) {
+        where.practice_area = { equals: practiceArea, mode: 'insensitive' }
+      }
+
+      if (assignedLawyerId) {
+        where.assigned_lawyer_id = assignedLawyerId
+      }
+
+      if (clientId) {
+        where.client_id = clientId
+      }
+
+      // Under AND so the visibility scope's OR stays in force
+      if (search) {
+        where.AND = [
+          ...[where.AND ?? []].flat(),
+          {
+            OR: [
+              { title: { contains: search, mode: 'insensitive' } },
+              { description: { contains: search, mode: 'insensitive' } },
+            ],
+          },
+        ]
+      }
+
+      const [cases, total] = await Promise.all([
+        prisma.cases.findMany({
+          where,
+          include: {
+            clients: {
+              select: {
+                first_name: true,
+                last_name: true,
+                email: true,
+              },
+            },
+            _count: {
+              select: { documents: true },
+            },
+          },
+          orderBy: { updatedAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+        prisma.cases.count({ where }),
+      ])
+
+      const lawyers = await getFirmUserSummaries(
+        userContext.lawFirmId,
+        cases.map(c => c.assigned_lawyer_id || '')
+      )
+
+      return NextResponse.json({
+        cases: cases.map(c => formatCase(c, lawyers)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching cases:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch cases' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/cases - Create a new case
+export const POST = withPermission(
+  PERMISSIONS.CASES.CREATE,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const {
+        title,
+        description,
+        clientId,
+        status = 'OPEN',
+        practiceArea,
+        assignedLawyerId,
+      } = body
+
+      // Validate required fields
+      if (!title || !clientId) {
+        return NextResponse.json(
+          { error: 'Missing required fields: title, clientId' },
+          { status: 400 }
+        )
+      }
+
+      if (!isValidCaseStatus(status)) {
+        return NextResponse.json(
+          {
+            error: `Invalid status. Expected one of: ${CASE_STATUSES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      // Client must belong to the same firm
+      const client = await prisma.clients.findFirst({
+        where: {
+          id: clientId,
+          law_firm_id: userContext.lawFirmId,
+        },
+        select: { id: true },
+      })
+
+      if (!client) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+      }
+
+      // Assigning someone else requires CASES.ASSIGN
+      if (assignedLawyerId) {
+        if (
+          assignedLawyerId !== userContext.id &&
+          !hasPermission(userContext, PERMISSIONS.CASES.ASSIGN)
+        ) {
+          return NextResponse.json(
+            {
+              error: `Access denied. Required permission: ${PERMISSIONS.CASES.ASSIGN}`,
+              permission: PERMISSIONS.CASES.ASSIGN,
+            },
+            { status: 403 }
+          )
+        }
+
+        if (
+          !(await isActiveFirmUser(userContext.lawFirmId, assignedLawyerId))
+        ) {
+          return NextResponse.json(
+            { error: 'Assigned lawyer not found or inactive' },
+            { status: 400 }
+          )
+        }
+      }
+
+      const newCase = await prisma.$transaction(async tx => {
+        const created = await tx.cases.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            client_id: clientId,
+            title: String(title).trim(),
+            description: description || null,
+            status,
+            practice_area: practiceArea || null,
+            assigned_lawyer_id: assignedLawyerId || null,
+            updatedAt: new Date(),
+          },
+          include: {
+            clients: {
+              select: {
+                first_name: true,
+                last_name: true,
+                email: true,
+              },
+            },
+          },
+        })
+
+        await recordCaseEvent(
+          {
+            lawFirmId: userContext.lawFirmId,
+            caseId: created.id,
+            eventType: 'CASE_CREATED',
+            title: `Case opened: ${created.title}`,
+            description: created.description,
+            metadata: { status: created.status },
+            actorId: userContext.id,
+          },
+          tx
+        )
+
+        return created
+      })
+
+      await recordAuditLog(request, userContext, {
+        action: 'CREATE',
+        entityType: 'case',
+        entityId: newCase.id,
+        after: pickAuditFields(newCase, CASE_AUDIT_FIELDS),
+      })
+
+      const lawyers = await getFirmUserSummaries(userContext.lawFirmId, [
+        newCase.assigned_lawyer_id || '',
+      ])
+
+      return NextResponse.json(
+        {
+          message: 'Case created successfully',
+          case: formatCase(newCase, lawyers),
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating case:', error)
+      return NextResponse.json(
+        { error: 'Failed to create case' },
+        { status: 500 }
+      )
+    }
+  }
+)
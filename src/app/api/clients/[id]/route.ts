@@ -0,0 +1,301 @@
+// Individual Client API
+// Purpose: Get, update and deactivate a specific client
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasAnyPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  getCaseAccessFilter,
+  getFirmUserSummaries,
+  isActiveFirmUser,
+  formatCase,
+} from '@/lib/cases'
+import {
+  CLIENT_AUDIT_FIELDS,
+  formatClient,
+  isValidEmail,
+  toAddressInput,
+} from '@/lib/clients'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const clientInclude = {
+  _count: {
+    select: { cases: true, documents: true },
+  },
+} satisfies Prisma.clientsInclude
+
+// GET /api/clients/[id] - Get client details with their cases
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CLIENTS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const client = await prisma.clients.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+          },
+          include: clientInclude,
+        })
+
+        if (!client) {
+          return NextResponse.json(
+            { error: 'Client not found' },
+            { status: 404 }
+          )
+        }
+
+        // Only list the cases the caller could open directly;
+        // documents are listed via GET /api/documents?clientId=
+        const cases = hasAnyPermission(userContext, [
+          PERMISSIONS.CASES.VIEW,
+          PERMISSIONS.CASES.VIEW_ALL,
+        ])
+          ? await prisma.cases.findMany({
+              where: { ...getCaseAccessFilter(userContext), client_id: id },
+              include: { _count: { select: { documents: true } } },
+              orderBy: { updatedAt: 'desc' },
+            })
+          : []
+
+        const lawyers = await getFirmUserSummaries(
+          userContext.lawFirmId,
+          cases.map(c => c.assigned_lawyer_id || '')
+        )
+
+        return NextResponse.json({
+          client: formatClient(client),
+          cases: cases.map(c => formatCase(c, lawyers)),
+        })
+      } catch (error) {
+        console.error('Error fetching client:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch client' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// PATCH /api/clients/[id] - Update client (including reactivation)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CLIENTS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+        const {
+          email,
+          firstName,
+          lastName,
+          phone,
+          address,
+          isActive,
+          portalUserId,
+        } = body
+
+        const existing = await prisma.clients.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+          },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Client not found' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.clientsUpdateInput = { updatedAt: new Date() }
+
+        if (email !== undefined) {
+          if (!isValidEmail(email)) {
+            return NextResponse.json(
+              { error: 'Invalid email address' },
+              { status: 400 }
+            )
+          }
+
+          const normalizedEmail = email.trim().toLowerCase()
+          if (normalizedEmail !== existing.email) {
+            const duplicate = await prisma.clients.findFirst({
+              where: {
+                law_firm_id: userContext.lawFirmId,
+                email: normalizedEmail,
+                NOT: { id },
+              },
+              select: { id: true },
+            })
+
+            if (duplicate) {
+              return NextResponse.json(
+                { error: 'A client with this email already exists' },
+                { status: 409 }
+              )
+            }
+          }
+          data.email = normalizedEmail
+        }
+
+        if (firstName !== undefined) {
+          if (!String(firstName).trim()) {
+            return NextResponse.json(
+              { error: 'First name cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.first_name = String(firstName).trim()
+        }
+
+        if (lastName !== undefined) {
+          if (!String(lastName).trim()) {
+            return NextResponse.json(
+              { error: 'Last name cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.last_name = String(lastName).trim()
+        }
+
+        if (phone !== undefined) {
+          data.phone = phone ? String(phone).trim() : null
+        }
+
+        if (address !== undefined) {
+          data.address = toAddressInput(address)
+        }
+
+        if (isActive !== undefined) {
+          if (typeof isActive !== 'boolean') {
+            return NextResponse.json(
+              { error: 'isActive must be a boolean' },
+              { status: 400 }
+            )
+          }
+          data.isActive = isActive
+        }
+
+        // Link (or unlink) the firm user account the client signs in with
+        if (portalUserId !== undefined) {
+          if (portalUserId === null) {
+            data.users = { disconnect: true }
+          } else {
+            if (
+              !(await isActiveFirmUser(userContext.lawFirmId, portalUserId))
+            ) {
+              return NextResponse.json(
+                { error: 'Portal user not found or inactive' },
+                { status: 400 }
+              )
+            }
+
+            const linkedClient = await prisma.clients.findFirst({
+              where: { user_id: portalUserId, NOT: { id } },
+              select: { id: true },
+            })
+
+            if (linkedClient) {
+              return NextResponse.json(
+                { error: 'This user is already linked to another client' },
+                { status: 409 }
+              )
+            }
+
+            data.users = { connect: { id: portalUserId } }
+          }
+        }
+
+        const updated = await prisma.clients.update({
+          where: { id },
+          data,
+          include: clientInclude,
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'UPDATE',
+          entityType: 'client',
+          entityId: id,
+          before: pickAuditFields(existing, CLIENT_AUDIT_FIELDS),
+          after: pickAuditFields(updated, CLIENT_AUDIT_FIELDS),
+        })
+
+        return NextResponse.json({
+          message: 'Client updated successfully',
+          client: formatClient(updated),
+        })
+      } catch (error) {
+        console.error('Error updating client:', error)
+        return NextResponse.json(
+          { error: 'Failed to update client' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/clients/[id] - Deactivate client
+// Clients are never hard-deleted so their cases and documents stay intact
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.CLIENTS.DELETE,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.clients.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+          },
+          select: { id: true, isActive: true },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Client not found' },
+            { status: 404 }
+          )
+        }
+
+        if (existing.isActive) {
+          await prisma.clients.update({
+            where: { id },
+            data: { isActive: false, updatedAt: new Date() },
+          })
+
+          await recordAuditLog(request, userContext, {
+            action: 'UPDATE',
+            entityType: 'client',
+            entityId: id,
+            before: { isActive: true },
+            after: { isActive: false },
+          })
+        }
+
+        return NextResponse.json({
+          message: 'Client deactivated successfully',
+          clientId: id,
+        })
+      } catch (error) {
+        console.error('Error deactivating client:', error)
+        return NextResponse.json(
+          { error: 'Failed to deactivate client' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
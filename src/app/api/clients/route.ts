@@ -0,0 +1,169 @@
+// Clients API
+// Purpose: Search and create clients in the law firm directory
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  CLIENT_AUDIT_FIELDS,
+  buildClientSearchFilter,
+  formatClient,
+  isValidEmail,
+  toAddressInput,
+} from '@/lib/clients'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+// GET /api/clients - List clients for the law firm
+export const GET = withPermission(
+  PERMISSIONS.CLIENTS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get('limit') || '20'), 1),
+        100
+      )
+      const search = searchParams.get('search')
+      const status = searchParams.get('status') || 'active'
+
+      const skip = (page - 1) * limit
+
+      if (!['active', 'inactive', 'all'].includes(status)) {
+        return NextResponse.json(
+          { error: 'Invalid status. Expected one of: active, inactive, all' },
+          { status: 400 }
+        )
+      }
+
+      const where: Prisma.clientsWhereInput = {
+        law_firm_id: userContext.lawFirmId,
+      }
+
+      if (status !== 'all') {
+        where.isActive = status === 'active'
+      }
+
+      if (search && search.trim()) {
+        Object.assign(where, buildClientSearchFilter(search))
+      }
+
+      const [clients, total] = await Promise.all([
+        prisma.clients.findMany({
+          where,
+          include: {
+            _count: {
+              select: { cases: true, documents: true },
+            },
+          },
+          orderBy: [{ last_name: 'asc' }, { first_name: 'asc' }],
+          skip,
+          take: limit,
+        }),
+        prisma.clients.count({ where }),
+      ])
+
+      return NextResponse.json({
+        clients: clients.map(formatClient),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching clients:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch clients' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/clients - Create a new client
+export const POST = withPermission(
+  PERMISSIONS.CLIENTS.CREATE,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const { email, firstName, lastName, phone, address } = body
+
+      // Validate required fields
+      if (!email || !firstName || !lastName) {
+        return NextResponse.json(
+          { error: 'Missing required fields: email, firstName, lastName' },
+          { status: 400 }
+        )
+      }
+
+      if (!isValidEmail(email)) {
+        return NextResponse.json(
+          { error: 'Invalid email address' },
+          { status: 400 }
+        )
+      }
+
+      const normalizedEmail = email.trim().toLowerCase()
+
+      // Email is unique per law firm
+      const existing = await prisma.clients.findFirst({
+        where: {
+          law_firm_id: userContext.lawFirmId,
+          email: normalizedEmail,
+        },
+        select: { id: true },
+      })
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A client with this email already exists' },
+          { status: 409 }
+        )
+      }
+
+      const newClient = await prisma.clients.create({
+        data: {
+          id: randomUUID(),
+          law_firm_id: userContext.lawFirmId,
+          email: normalizedEmail,
+          first_name: String(firstName).trim(),
+          last_name: String(lastName).trim(),
+          phone: phone ? String(phone).trim() : null,
+          address: toAddressInput(address),
+          updatedAt: new Date(),
+        },
+        include: {
+          _count: {
+            select: { cases: true, documents: true },
+          },
+        },
+      })
+
+      await recordAuditLog(request, userContext, {
+        action: 'CREATE',
+        entityType: 'client',
+        entityId: newClient.id,
+        after: pickAuditFields(newClient, CLIENT_AUDIT_FIELDS),
+      })
+
+      return NextResponse.json(
+        {
+          message: 'Client created successfully',
+          client: formatClient(newClient),
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating client:', error)
+      return NextResponse.json(
+        { error: 'Failed to create client' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,116 @@
+// Document Client Sharing API
+// Purpose: Share a document with (or withdraw it from) the client portal
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, UserContext } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter } from '@/lib/cases'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Set the client-sharing flag on a firm document
+async function setClientShare(
+  request: NextRequest,
+  userContext: UserContext,
+  documentId: string,
+  shared: boolean
+): Promise<NextResponse> {
+  const document = await prisma.documents.findFirst({
+    where: {
+      id: documentId,
+      ...getDocumentAccessFilter(userContext),
+    },
+    select: {
+      id: true,
+      client_id: true,
+      shared_with_client: true,
+      cases: { select: { client_id: true } },
+    },
+  })
+
+  if (!document) {
+    return NextResponse.json(
+      { error: 'Document not found or access denied' },
+      { status: 404 }
+    )
+  }
+
+  // Only documents tied to a client (directly or via a case) can be shared
+  if (shared && !document.client_id && !document.cases?.client_id) {
+    return NextResponse.json(
+      { error: 'Document is not linked to a client or case' },
+      { status: 400 }
+    )
+  }
+
+  const updated = await prisma.documents.update({
+    where: { id: documentId },
+    data: {
+      shared_with_client: shared,
+      shared_at: shared ? new Date() : null,
+      updatedAt: new Date(),
+    },
+    select: { id: true, shared_with_client: true, shared_at: true },
+  })
+
+  await recordAuditLog(request, userContext, {
+    action: shared ? 'SHARE' : 'UNSHARE',
+    entityType: 'document',
+    entityId: documentId,
+    before: { shared_with_client: document.shared_with_client },
+    after: { shared_with_client: updated.shared_with_client },
+  })
+
+  return NextResponse.json({
+    message: shared
+      ? 'Document shared with client'
+      : 'Document no longer shared with client',
+    document: {
+      id: updated.id,
+      sharedWithClient: updated.shared_with_client,
+      sharedAt: updated.shared_at?.toISOString() ?? null,
+    },
+  })
+}
+
+// POST /api/documents/[id]/client-share - Share document with the client
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        return await setClientShare(request, userContext, id, true)
+      } catch (error) {
+        console.error('Error sharing document with client:', error)
+        return NextResponse.json(
+          { error: 'Failed to share document' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/documents/[id]/client-share - Stop sharing document
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        return await setClientShare(request, userContext, id, false)
+      } catch (error) {
+        console.error('Error unsharing document:', error)
+        return NextResponse.json(
+          { error: 'Failed to update document sharing' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
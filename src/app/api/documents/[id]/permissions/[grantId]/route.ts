@@ -0,0 +1,73 @@
+// Document Permission API
+// Purpose: Revoke a single per-document access grant
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter } from '@/lib/cases'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string; grantId: string }>
+}
+
+// DELETE /api/documents/[id]/permissions/[grantId] - Revoke a grant
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, grantId } = await params
+
+        const grant = await prisma.document_permissions.findFirst({
+          where: {
+            id: grantId,
+            document_id: id,
+            documents: getDocumentAccessFilter(userContext),
+          },
+          select: {
+            id: true,
+            grantee_type: true,
+            user_id: true,
+            role_id: true,
+            client_id: true,
+            expires_at: true,
+          },
+        })
+
+        if (!grant) {
+          return NextResponse.json(
+            { error: 'Grant not found' },
+            { status: 404 }
+          )
+        }
+
+        await prisma.document_permissions.delete({ where: { id: grantId } })
+
+        await recordAuditLog(request, userContext, {
+          action: 'REVOKE_ACCESS',
+          entityType: 'document_permission',
+          entityId: grantId,
+          before: {
+            document_id: id,
+            grantee_type: grant.grantee_type,
+            grantee_id: grant.user_id ?? grant.role_id ?? grant.client_id,
+            expires_at: grant.expires_at,
+          },
+        })
+
+        return NextResponse.json({
+          message: 'Document access revoked',
+          revokedGrant: { id: grant.id, granteeType: grant.grantee_type },
+        })
+      } catch (error) {
+        console.error('Error revoking document access:', error)
+        return NextResponse.json(
+          { error: 'Failed to revoke document access' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
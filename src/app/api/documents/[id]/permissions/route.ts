@@ -0,0 +1,238 @@
+// Document Permissions API
+// Purpose: List and grant per-document access to users, roles and clients
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter, getFirmUserSummaries } from '@/lib/cases'
+import {
+  DOCUMENT_GRANTEE_TYPES,
+  documentPermissionInclude,
+  formatDocumentPermission,
+  isValidGranteeType,
+  resolveGranteeName,
+} from '@/lib/document-permissions'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/documents/[id]/permissions - Get grants and possible grantees
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const document = await prisma.documents.findFirst({
+          where: { id, ...getDocumentAccessFilter(userContext) },
+          select: { id: true, name: true },
+        })
+
+        if (!document) {
+          return NextResponse.json(
+            { error: 'Document not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const [grants, users, roles, clients] = await Promise.all([
+          prisma.document_permissions.findMany({
+            where: { document_id: id, law_firm_id: userContext.lawFirmId },
+            include: documentPermissionInclude,
+            orderBy: { createdAt: 'asc' },
+          }),
+          prisma.users.findMany({
+            where: { law_firm_id: userContext.lawFirmId, isActive: true },
+            select: {
+              id: true,
+              platform_users: { select: { name: true, email: true } },
+            },
+          }),
+          prisma.roles.findMany({
+            where: { law_firm_id: userContext.lawFirmId },
+            select: { id: true, name: true },
+            orderBy: { name: 'asc' },
+          }),
+          prisma.clients.findMany({
+            where: { law_firm_id: userContext.lawFirmId, isActive: true },
+            select: { id: true, first_name: true, last_name: true },
+            orderBy: [{ last_name: 'asc' }, { first_name: 'asc' }],
+          }),
+        ])
+
+        const grantors = await getFirmUserSummaries(
+          userContext.lawFirmId,
+          grants.map(grant => grant.granted_by)
+        )
+
+        return NextResponse.json({
+          document: { id: document.id, fileName: document.name },
+          grants: grants.map(grant =>
+            formatDocumentPermission(grant, grantors)
+          ),
+          grantees: {
+            users: users
+              .map(user => ({
+                id: user.id,
+                name: user.platform_users.name || user.platform_users.email,
+              }))
+              .sort((a, b) => a.name.localeCompare(b.name)),
+            roles,
+            clients: clients.map(client => ({
+              id: client.id,
+              name: `${client.first_name} ${client.last_name}`,
+            })),
+          },
+        })
+      } catch (error) {
+        console.error('Error fetching document permissions:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch document permissions' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// POST /api/documents/[id]/permissions - Grant access to a user, role or
+// client. Granting again to the same grantee updates the expiry.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+        const { granteeType, granteeId, expiresAt } = body
+
+        if (!granteeType || !granteeId) {
+          return NextResponse.json(
+            { error: 'Missing required fields: granteeType, granteeId' },
+            { status: 400 }
+          )
+        }
+
+        if (!isValidGranteeType(granteeType)) {
+          return NextResponse.json(
+            {
+              error: `Invalid granteeType. Expected one of: ${DOCUMENT_GRANTEE_TYPES.join(', ')}`,
+            },
+            { status: 400 }
+          )
+        }
+
+        const expiry = expiresAt ? new Date(expiresAt) : null
+        if (expiry && isNaN(expiry.getTime())) {
+          return NextResponse.json(
+            { error: 'Invalid expiry date' },
+            { status: 400 }
+          )
+        }
+
+        if (expiry && expiry <= new Date()) {
+          return NextResponse.json(
+            { error: 'Expiry must be in the future' },
+            { status: 400 }
+          )
+        }
+
+        const document = await prisma.documents.findFirst({
+          where: { id, ...getDocumentAccessFilter(userContext) },
+          select: { id: true },
+        })
+
+        if (!document) {
+          return NextResponse.json(
+            { error: 'Document not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const granteeName = await resolveGranteeName(
+          userContext.lawFirmId,
+          granteeType,
+          granteeId
+        )
+
+        if (!granteeName) {
+          return NextResponse.json(
+            { error: 'Grantee not found in this firm' },
+            { status: 400 }
+          )
+        }
+
+        const grantee = {
+          user_id: granteeType === 'USER' ? granteeId : null,
+          role_id: granteeType === 'ROLE' ? granteeId : null,
+          client_id: granteeType === 'CLIENT' ? granteeId : null,
+        }
+
+        const existing = await prisma.document_permissions.findFirst({
+          where: { document_id: id, grantee_type: granteeType, ...grantee },
+          select: { id: true, expires_at: true },
+        })
+
+        const grant = existing
+          ? await prisma.document_permissions.update({
+              where: { id: existing.id },
+              data: {
+                expires_at: expiry,
+                granted_by: userContext.id,
+                updatedAt: new Date(),
+              },
+              include: documentPermissionInclude,
+            })
+          : await prisma.document_permissions.create({
+              data: {
+                id: randomUUID(),
+                law_firm_id: userContext.lawFirmId,
+                document_id: id,
+                grantee_type: granteeType,
+                ...grantee,
+                expires_at: expiry,
+                granted_by: userContext.id,
+                updatedAt: new Date(),
+              },
+              include: documentPermissionInclude,
+            })
+
+        await recordAuditLog(request, userContext, {
+          action: 'GRANT_ACCESS',
+          entityType: 'document_permission',
+          entityId: grant.id,
+          before: existing ? { expires_at: existing.expires_at } : null,
+          after: {
+            document_id: id,
+            grantee_type: granteeType,
+            grantee_id: granteeId,
+            expires_at: grant.expires_at,
+          },
+        })
+
+        const grantors = await getFirmUserSummaries(userContext.lawFirmId, [
+          grant.granted_by,
+        ])
+
+        return NextResponse.json(
+          {
+            message: `Document shared with ${granteeName}`,
+            grant: formatDocumentPermission(grant, grantors),
+          },
+          { status: existing ? 200 : 201 }
+        )
+      } catch (error) {
+        console.error('Error granting document access:', error)
+        return NextResponse.json(
+          { error: 'Failed to grant document access' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,170 @@
+// Individual Document API
+// Purpose: Rename, categorize, tag and file a document into a case folder
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter } from '@/lib/cases'
+import { recordAuditLog } from '@/lib/audit'
+import {
+  normalizeTags,
+  validateDocumentPlacement,
+  MAX_TAGS_PER_DOCUMENT,
+} from '@/lib/document-organization'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PATCH /api/documents/[id] - Update document details and organization
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+
+        const existing = await prisma.documents.findFirst({
+          where: {
+            id,
+            ...getDocumentAccessFilter(userContext),
+          },
+          select: {
+            id: true,
+            case_id: true,
+            name: true,
+            description: true,
+            tags: true,
+            category_id: true,
+            folder_id: true,
+          },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Document not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.documentsUncheckedUpdateInput = {
+          updatedAt: new Date(),
+        }
+
+        if (body.name !== undefined) {
+          if (!String(body.name).trim()) {
+            return NextResponse.json(
+              { error: 'Name cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.name = String(body.name).trim()
+        }
+
+        if (body.description !== undefined) {
+          data.description = body.description || null
+        }
+
+        if (body.tags !== undefined) {
+          const tags = normalizeTags(body.tags)
+          if (!tags) {
+            return NextResponse.json(
+              { error: 'Tags must be a list of strings' },
+              { status: 400 }
+            )
+          }
+          if (tags.length > MAX_TAGS_PER_DOCUMENT) {
+            return NextResponse.json(
+              {
+                error: `A document can have at most ${MAX_TAGS_PER_DOCUMENT} tags`,
+              },
+              { status: 400 }
+            )
+          }
+          data.tags = tags
+        }
+
+        if (body.categoryId !== undefined || body.folderId !== undefined) {
+          const placementError = await validateDocumentPlacement(
+            userContext.lawFirmId,
+            existing.case_id,
+            {
+              categoryId: body.categoryId,
+              folderId: body.folderId,
+            }
+          )
+
+          if (placementError) {
+            return NextResponse.json({ error: placementError }, { status: 400 })
+          }
+
+          if (body.categoryId !== undefined) {
+            data.category_id = body.categoryId || null
+          }
+          if (body.folderId !== undefined) {
+            data.folder_id = body.folderId || null
+          }
+        }
+
+        const updated = await prisma.documents.update({
+          where: { id },
+          data,
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            case_id: true,
+            category_id: true,
+            folder_id: true,
+            tags: true,
+            document_categories: {
+              select: { id: true, name: true, color: true },
+            },
+          },
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'UPDATE',
+          entityType: 'document',
+          entityId: id,
+          before: {
+            name: existing.name,
+            description: existing.description,
+            tags: existing.tags,
+            category_id: existing.category_id,
+            folder_id: existing.folder_id,
+          },
+          after: {
+            name: updated.name,
+            description: updated.description,
+            tags: updated.tags,
+            category_id: updated.category_id,
+            folder_id: updated.folder_id,
+          },
+        })
+
+        return NextResponse.json({
+          message: 'Document updated successfully',
+          document: {
+            id: updated.id,
+            fileName: updated.name,
+            description: updated.description,
+            caseId: updated.case_id,
+            folderId: updated.folder_id,
+            tags: updated.tags,
+            category: updated.document_categories,
+          },
+        })
+      } catch (error) {
+        console.error('Error updating document:', error)
+        return NextResponse.json(
+          { error: 'Failed to update document' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,197 @@
+// Document Versions API
+// Purpose: List a document's version history and register new versions
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter } from '@/lib/cases'
+import { storageService } from '@/lib/storage'
+import { getFirmUserSummaries } from '@/lib/cases'
+import { recordCaseEvent } from '@/lib/case-events'
+import {
+  addDocumentVersion,
+  formatDocumentVersion,
+} from '@/lib/document-versions'
+import { indexDocumentText } from '@/lib/document-search'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/documents/[id]/versions - Version history, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const document = await prisma.documents.findFirst({
+          where: {
+            id,
+            ...getDocumentAccessFilter(userContext),
+          },
+          select: {
+            id: true,
+            name: true,
+            current_version: true,
+            document_versions: { orderBy: { version_number: 'desc' } },
+          },
+        })
+
+        if (!document) {
+          return NextResponse.json(
+            { error: 'Document not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const users = await getFirmUserSummaries(
+          userContext.lawFirmId,
+          document.document_versions.map(version => version.uploaded_by)
+        )
+
+        return NextResponse.json({
+          documentId: document.id,
+          fileName: document.name,
+          currentVersion: document.current_version,
+          versions: document.document_versions.map(version =>
+            formatDocumentVersion(version, document.current_version, users)
+          ),
+        })
+      } catch (error) {
+        console.error('Error fetching document versions:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch document versions' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// POST /api/documents/[id]/versions - Register a file uploaded via presign
+// as the document's next version
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.UPLOAD,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const { key, fileName } = await request.json()
+
+        if (!key) {
+          return NextResponse.json(
+            { error: 'Missing required field: key' },
+            { status: 400 }
+          )
+        }
+
+        const document = await prisma.documents.findFirst({
+          where: {
+            id,
+            ...getDocumentAccessFilter(userContext),
+          },
+          select: {
+            id: true,
+            law_firm_id: true,
+            name: true,
+            case_id: true,
+          },
+        })
+
+        if (!document) {
+          return NextResponse.json(
+            { error: 'Document not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        // The object must exist and have been uploaded for this firm
+        let metadata
+        try {
+          metadata = await storageService.getFileMetadata(key)
+        } catch {
+          return NextResponse.json(
+            { error: 'Uploaded file not found in storage' },
+            { status: 400 }
+          )
+        }
+
+        if (metadata.lawFirmId !== userContext.lawFirmId) {
+          return NextResponse.json(
+            { error: 'Uploaded file not found in storage' },
+            { status: 400 }
+          )
+        }
+
+        const existingVersion = await prisma.document_versions.findUnique({
+          where: { file_path: key },
+          select: { id: true },
+        })
+
+        if (existingVersion) {
+          return NextResponse.json(
+            { error: 'This file is already registered as a version' },
+            { status: 409 }
+          )
+        }
+
+        const { version } = await prisma.$transaction(tx =>
+          addDocumentVersion(
+            document,
+            {
+              key,
+              fileName: fileName || metadata.fileName || document.name,
+              fileSize: metadata.fileSize,
+              mimeType: metadata.mimeType,
+              uploadedBy: userContext.id,
+            },
+            tx
+          )
+        )
+
+        if (document.case_id) {
+          await recordCaseEvent({
+            lawFirmId: userContext.lawFirmId,
+            caseId: document.case_id,
+            eventType: 'DOCUMENT_UPLOADED',
+            title: `New version uploaded: ${document.name} (v${version.version_number})`,
+            metadata: {
+              documentId: document.id,
+              fileName: version.file_name,
+              version: version.version_number,
+            },
+            actorId: userContext.id,
+          })
+        }
+
+        // Re-extract search text for the new current version
+        after(() => indexDocumentText(document.id))
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          userContext.id,
+        ])
+
+        return NextResponse.json(
+          {
+            message: 'Version added successfully',
+            version: formatDocumentVersion(
+              version,
+              version.version_number,
+              users
+            ),
+          },
+          { status: 201 }
+        )
+      } catch (error) {
+        console.error('Error adding document version:', error)
+        return NextResponse.json(
+          { error: 'Failed to add document version' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
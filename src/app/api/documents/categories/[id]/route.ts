@@ -0,0 +1,133 @@
+// Individual Document Category API
+// Purpose: Rename, recolor, reorder and delete a document category
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { formatDocumentCategory } from '@/lib/document-organization'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PATCH /api/documents/categories/[id] - Update category
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.ADMIN.FIRM_SETTINGS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+
+        const existing = await prisma.document_categories.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Category not found' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.document_categoriesUpdateInput = {
+          updatedAt: new Date(),
+        }
+
+        if (body.name !== undefined) {
+          const name = String(body.name).trim()
+          if (!name) {
+            return NextResponse.json(
+              { error: 'Name cannot be empty' },
+              { status: 400 }
+            )
+          }
+
+          const duplicate = await prisma.document_categories.findFirst({
+            where: {
+              law_firm_id: userContext.lawFirmId,
+              name: { equals: name, mode: 'insensitive' },
+              id: { not: id },
+            },
+            select: { id: true },
+          })
+
+          if (duplicate) {
+            return NextResponse.json(
+              { error: 'A category with this name already exists' },
+              { status: 409 }
+            )
+          }
+          data.name = name
+        }
+
+        if (body.color !== undefined) {
+          data.color = body.color || null
+        }
+
+        if (body.position !== undefined) {
+          if (!Number.isInteger(body.position)) {
+            return NextResponse.json(
+              { error: 'Position must be an integer' },
+              { status: 400 }
+            )
+          }
+          data.position = body.position
+        }
+
+        const category = await prisma.document_categories.update({
+          where: { id },
+          data,
+        })
+
+        return NextResponse.json({
+          message: 'Category updated successfully',
+          category: formatDocumentCategory(category),
+        })
+      } catch (error) {
+        console.error('Error updating document category:', error)
+        return NextResponse.json(
+          { error: 'Failed to update document category' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/documents/categories/[id] - Delete category
+// Documents in the category are kept and become uncategorized.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.ADMIN.FIRM_SETTINGS,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.document_categories.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+          select: { id: true },
+        })
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Category not found' },
+            { status: 404 }
+          )
+        }
+
+        await prisma.document_categories.delete({ where: { id } })
+
+        return NextResponse.json({ message: 'Category deleted successfully' })
+      } catch (error) {
+        console.error('Error deleting document category:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete document category' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
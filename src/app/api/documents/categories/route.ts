@@ -0,0 +1,102 @@
+// Document Categories API
+// Purpose: List and create the firm's document categories
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { formatDocumentCategory } from '@/lib/document-organization'
+
+// GET /api/documents/categories - List categories with document counts
+export const GET = withPermission(
+  PERMISSIONS.DOCUMENTS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const categories = await prisma.document_categories.findMany({
+        where: { law_firm_id: userContext.lawFirmId },
+        orderBy: [{ position: 'asc' }, { name: 'asc' }],
+        include: { _count: { select: { documents: true } } },
+      })
+
+      return NextResponse.json({
+        categories: categories.map(category =>
+          formatDocumentCategory(category, category._count.documents)
+        ),
+      })
+    } catch (error) {
+      console.error('Error fetching document categories:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch document categories' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/documents/categories - Add a category to the firm
+export const POST = withPermission(
+  PERMISSIONS.ADMIN.FIRM_SETTINGS,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+      if (!name) {
+        return NextResponse.json(
+          { error: 'Missing required field: name' },
+          { status: 400 }
+        )
+      }
+
+      const existing = await prisma.document_categories.findFirst({
+        where: {
+          law_firm_id: userContext.lawFirmId,
+          name: { equals: name, mode: 'insensitive' },
+        },
+        select: { id: true },
+      })
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A category with this name already exists' },
+          { status: 409 }
+        )
+      }
+
+      // New categories go to the end unless a position is given
+      const last = await prisma.document_categories.findFirst({
+        where: { law_firm_id: userContext.lawFirmId },
+        orderBy: { position: 'desc' },
+        select: { position: true },
+      })
+
+      const category = await prisma.document_categories.create({
+        data: {
+          id: randomUUID(),
+          law_firm_id: userContext.lawFirmId,
+          name,
+          color: body.color || null,
+          position: Number.isInteger(body.position)
+            ? body.position
+            : (last?.position ?? -1) + 1,
+          updatedAt: new Date(),
+        },
+      })
+
+      return NextResponse.json(
+        {
+          message: 'Category created successfully',
+          category: formatDocumentCategory(category, 0),
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating document category:', error)
+      return NextResponse.json(
+        { error: 'Failed to create document category' },
+        { status: 500 }
+      )
+    }
+  }
+)
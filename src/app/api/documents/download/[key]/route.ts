@@ -5,7 +5,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withAuth } from '@/lib/auth-guards'
 import { PERMISSIONS } from '@/lib/rbac'
 import { requirePermission } from '@/lib/rbac'
-import { prisma } from '@/lib/prisma'
+import { findDocumentByKey } from '@/lib/document-versions'
+import { getDocumentAccessFilter } from '@/lib/cases'
 
 interface RouteParams {
   params: Promise<{ key: string }>
@@ -26,27 +27,22 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       const { key: rawKey } = await params
       const key = decodeURIComponent(rawKey)
 
-      // Find document in database to verify access
-      const document = await prisma.documents.findFirst({
-        where: {
-          file_path: key, // file_path stores the R2 key
-          law_firm_id: userContext.lawFirmId,
-        },
-        select: {
-          id: true,
-          name: true,
-          file_path: true,
-          law_firm_id: true,
-        },
-      })
+      // Find the document (current or earlier version) to verify access
+      const match = await findDocumentByKey(
+        getDocumentAccessFilter(userContext),
+        key
+      )
 
-      if (!document) {
+      if (!match) {
         return NextResponse.json(
           { error: 'Document not found or access denied' },
           { status: 404 }
         )
       }
 
+      const { document, version } = match
+      const versionFileName = version?.file_name || document.name
+
       // Create a proper presigned download URL using AWS SDK
       const { S3Client, GetObjectCommand } = await import('@aws-sdk/client-s3')
       const { getSignedUrl } = await import('@aws-sdk/s3-request-presigner')
@@ -64,10 +60,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
       const command = new GetObjectCommand({
         Bucket: process.env.R2_BUCKET_NAME,
-        Key: document.file_path,
+        Key: key,
         ResponseContentDisposition:
           download && fileName
-            ? `attachment; filename="${fileName || document.name}"`
+            ? `attachment; filename="${fileName || versionFileName}"`
             : undefined,
       })
 
@@ -82,8 +78,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           expiresAt: new Date(Date.now() + 3600000).toISOString(),
         },
         metadata: {
-          fileName: document.name,
-          key: document.file_path,
+          fileName: versionFileName,
+          key,
+          documentId: document.id,
+          version: version?.version_number ?? document.current_version,
+          isCurrent: key === document.file_path,
         },
       })
     } catch (error) {
@@ -6,6 +6,8 @@ import { withAuth } from '@/lib/auth-guards'
 import { createUploadUrl, FileValidation } from '@/lib/storage'
 import { PERMISSIONS } from '@/lib/rbac'
 import { requirePermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter } from '@/lib/cases'
 
 // POST /api/documents/presign - Generate presigned upload URL
 export const POST = withAuth(async (request: NextRequest, userContext) => {
@@ -20,7 +22,8 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       mimeType,
       caseId,
       clientId,
-      folder = 'documents'
+      documentId,
+      folder = 'documents',
     } = body
 
     // Validate required fields
@@ -40,6 +43,27 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       )
     }
 
+    // A new version of an existing document keeps its case and client.
+    // Register the uploaded file with POST /api/documents/[id]/versions.
+    const existingDocument = documentId
+      ? await prisma.documents.findFirst({
+          where: {
+            id: documentId,
+            ...getDocumentAccessFilter(userContext),
+          },
+          select: {
+            id: true,
+            case_id: true,
+            client_id: true,
+            current_version: true,
+          },
+        })
+      : null
+
+    if (documentId && !existingDocument) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
     // Generate upload URL
     const uploadResult = await createUploadUrl({
       lawFirmId: userContext.lawFirmId,
@@ -48,8 +72,10 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       mimeType,
       fileSize,
       uploadedBy: userContext.id,
-      caseId,
-      clientId
+      caseId: existingDocument ? existingDocument.case_id || undefined : caseId,
+      clientId: existingDocument
+        ? existingDocument.client_id || undefined
+        : clientId,
     })
 
     // Return upload details
@@ -58,19 +84,25 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       upload: {
         key: uploadResult.key,
         uploadUrl: uploadResult.uploadUrl,
-        expiresAt: uploadResult.expiresAt.toISOString()
+        expiresAt: uploadResult.expiresAt.toISOString(),
       },
       metadata: uploadResult.metadata,
+      ...(existingDocument && {
+        version: {
+          documentId: existingDocument.id,
+          nextVersion: existingDocument.current_version + 1,
+          commitUrl: `/api/documents/${existingDocument.id}/versions`,
+        },
+      }),
       instructions: {
         method: 'PUT',
         headers: {
           'Content-Type': mimeType,
-          'Content-Length': fileSize.toString()
+          'Content-Length': fileSize.toString(),
         },
-        note: 'Upload the file using PUT request to the uploadUrl'
-      }
+        note: 'Upload the file using PUT request to the uploadUrl',
+      },
     })
-
   } catch (error) {
     console.error('Error generating presigned upload URL:', error)
     return NextResponse.json(
@@ -78,4 +110,4 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       { status: 500 }
     )
   }
-})
\ No newline at end of file
+})
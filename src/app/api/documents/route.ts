@@ -2,10 +2,19 @@
 // Purpose: List uploaded documents for the law firm
 
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { withAuth } from '@/lib/auth-guards'
 import { PERMISSIONS } from '@/lib/rbac'
 import { requirePermission } from '@/lib/rbac'
 import { prisma } from '@/lib/prisma'
+import { getDocumentAccessFilter } from '@/lib/cases'
+import { RESTRICTING_GRANT_FILTER } from '@/lib/document-permissions'
+import { recordAuditLog } from '@/lib/audit'
+import {
+  getCaseFolders,
+  getDescendantFolderIds,
+  normalizeTags,
+} from '@/lib/document-organization'
 
 // GET /api/documents - List documents
 export const GET = withAuth(async (request: NextRequest, userContext) => {
@@ -19,15 +28,14 @@ export const GET = withAuth(async (request: NextRequest, userContext) => {
     const offset = parseInt(searchParams.get('offset') || '0')
     const caseId = searchParams.get('caseId')
     const clientId = searchParams.get('clientId')
+    const categoryId = searchParams.get('categoryId')
+    const folderId = searchParams.get('folderId')
+    const includeSubfolders = searchParams.get('includeSubfolders') === 'true'
+    const tags = normalizeTags(searchParams.getAll('tag')) || []
 
-    // Build where clause
-    const where: {
-      law_firm_id: string
-      case_id?: string
-      client_id?: string
-    } = {
-      law_firm_id: userContext.lawFirmId,
-    }
+    // Build where clause; documents filed to a case follow its access rules
+    const where: Prisma.documentsWhereInput =
+      getDocumentAccessFilter(userContext)
 
     if (caseId) {
       where.case_id = caseId
@@ -37,6 +45,38 @@ export const GET = withAuth(async (request: NextRequest, userContext) => {
       where.client_id = clientId
     }
 
+    // categoryId=none lists uncategorized documents
+    if (categoryId) {
+      where.category_id = categoryId === 'none' ? null : categoryId
+    }
+
+    // folderId=none lists documents not filed into any folder
+    if (folderId === 'none') {
+      where.folder_id = null
+    } else if (folderId) {
+      const folder = includeSubfolders
+        ? await prisma.document_folders.findFirst({
+            where: { id: folderId, law_firm_id: userContext.lawFirmId },
+            select: { case_id: true },
+          })
+        : null
+
+      if (folder) {
+        const folders = await getCaseFolders(
+          userContext.lawFirmId,
+          folder.case_id
+        )
+        where.folder_id = { in: getDescendantFolderIds(folders, folderId) }
+      } else {
+        where.folder_id = folderId
+      }
+    }
+
+    // Every requested tag must be present
+    if (tags.length > 0) {
+      where.tags = { hasEvery: tags }
+    }
+
     // Query documents with pagination
     const [documents, total] = await Promise.all([
       prisma.documents.findMany({
@@ -54,6 +94,10 @@ export const GET = withAuth(async (request: NextRequest, userContext) => {
           file_size: true,
           mime_type: true,
           uploaded_by: true,
+          shared_with_client: true,
+          current_version: true,
+          folder_id: true,
+          tags: true,
           createdAt: true,
           updatedAt: true,
           case_id: true,
@@ -69,6 +113,18 @@ export const GET = withAuth(async (request: NextRequest, userContext) => {
               last_name: true,
             },
           },
+          document_categories: {
+            select: {
+              id: true,
+              name: true,
+              color: true,
+            },
+          },
+          document_permissions: {
+            where: RESTRICTING_GRANT_FILTER,
+            select: { id: true },
+            take: 1,
+          },
         },
       }),
       prisma.documents.count({ where }),
@@ -87,6 +143,12 @@ export const GET = withAuth(async (request: NextRequest, userContext) => {
       updatedAt: doc.updatedAt.toISOString(),
       caseId: doc.case_id,
       clientId: doc.client_id,
+      sharedWithClient: doc.shared_with_client,
+      restricted: doc.document_permissions.length > 0,
+      version: doc.current_version,
+      category: doc.document_categories,
+      folderId: doc.folder_id,
+      tags: doc.tags,
       caseTitle: doc.cases?.title,
       clientName: doc.clients
         ? `${doc.clients.first_name} ${doc.clients.last_name}`
@@ -132,13 +194,16 @@ export const DELETE = withAuth(async (request: NextRequest, userContext) => {
     const document = await prisma.documents.findFirst({
       where: {
         id: documentId,
-        law_firm_id: userContext.lawFirmId,
+        ...getDocumentAccessFilter(userContext),
       },
       select: {
         id: true,
         name: true,
         file_path: true,
         law_firm_id: true,
+        case_id: true,
+        client_id: true,
+        document_versions: { select: { file_path: true } },
       },
     })
 
@@ -162,12 +227,20 @@ export const DELETE = withAuth(async (request: NextRequest, userContext) => {
       forcePathStyle: true,
     })
 
-    const deleteCommand = new DeleteObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME,
-      Key: document.file_path,
-    })
+    // Every stored version goes with the document
+    const keys = new Set([
+      document.file_path,
+      ...document.document_versions.map(version => version.file_path),
+    ])
 
-    await s3Client.send(deleteCommand)
+    for (const key of keys) {
+      await s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: process.env.R2_BUCKET_NAME,
+          Key: key,
+        })
+      )
+    }
 
     // Delete from database
     await prisma.documents.delete({
@@ -176,6 +249,19 @@ export const DELETE = withAuth(async (request: NextRequest, userContext) => {
       },
     })
 
+    await recordAuditLog(request, userContext, {
+      action: 'DELETE',
+      entityType: 'document',
+      entityId: document.id,
+      before: {
+        name: document.name,
+        file_path: document.file_path,
+        case_id: document.case_id,
+        client_id: document.client_id,
+        versions: keys.size,
+      },
+    })
+
     return NextResponse.json({
       message: 'Document deleted successfully',
       deletedDocument: {
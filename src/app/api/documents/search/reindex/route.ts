@@ -0,0 +1,35 @@
+// Document Search Reindex API
+// Purpose: Extract text for documents that were never indexed or failed
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { indexPendingDocuments } from '@/lib/document-search'
+
+// POST /api/documents/search/reindex - Index the next batch of documents
+export const POST = withPermission(
+  PERMISSIONS.ADMIN.FIRM_SETTINGS,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json().catch(() => ({}))
+      const limit = Math.min(Math.max(parseInt(body.limit) || 25, 1), 100)
+
+      const { processed, remaining } = await indexPendingDocuments(
+        userContext.lawFirmId,
+        limit
+      )
+
+      return NextResponse.json({
+        message: `Indexed ${processed} document${processed === 1 ? '' : 's'}`,
+        processed,
+        remaining,
+      })
+    } catch (error) {
+      console.error('Error reindexing documents:', error)
+      return NextResponse.json(
+        { error: 'Failed to reindex documents' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,69 @@
+// Document Search API
+// Purpose: Full-text search over extracted document text and file names
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import {
+  searchDocuments,
+  MAX_SEARCH_QUERY_LENGTH,
+  MIN_SEARCH_QUERY_LENGTH,
+} from '@/lib/document-search'
+
+// GET /api/documents/search?q=... - Ranked hits with highlighted snippets
+export const GET = withPermission(
+  PERMISSIONS.DOCUMENTS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const query = (searchParams.get('q') || '').trim()
+      const caseId = searchParams.get('caseId')
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get('limit') || '20'), 1),
+        50
+      )
+      const offset = Math.max(parseInt(searchParams.get('offset') || '0'), 0)
+
+      if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+        return NextResponse.json(
+          {
+            error: `Search query must be at least ${MIN_SEARCH_QUERY_LENGTH} characters`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+        return NextResponse.json(
+          {
+            error: `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`,
+          },
+          { status: 400 }
+        )
+      }
+
+      const { results, total } = await searchDocuments(userContext, query, {
+        caseId,
+        limit,
+        offset,
+      })
+
+      return NextResponse.json({
+        query,
+        results,
+        total,
+        pagination: {
+          limit,
+          offset,
+          hasMore: offset + limit < total,
+        },
+      })
+    } catch (error) {
+      console.error('Error searching documents:', error)
+      return NextResponse.json(
+        { error: 'Failed to search documents' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -1,12 +1,21 @@
 // Server-side Upload API
 // Purpose: Upload files through server to R2 (bypasses CORS issues)
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { randomUUID } from 'crypto'
 import { withAuth } from '@/lib/auth-guards'
 import { storageService, FileValidation } from '@/lib/storage'
 import { PERMISSIONS, requirePermission } from '@/lib/rbac'
 import { prisma } from '@/lib/prisma'
+import { getCaseAccessFilter, getDocumentAccessFilter } from '@/lib/cases'
+import { recordCaseEvent } from '@/lib/case-events'
+import {
+  addDocumentVersion,
+  recordInitialVersion,
+} from '@/lib/document-versions'
+import { validateDocumentPlacement } from '@/lib/document-organization'
+import { indexDocumentText } from '@/lib/document-search'
+import { recordAuditLog } from '@/lib/audit'
 
 export const POST = withAuth(async (request: NextRequest, userContext) => {
   try {
@@ -15,11 +24,70 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
 
     const formData = await request.formData()
     const file = formData.get('file') as File
+    const caseId = (formData.get('caseId') as string | null) || undefined
+    // Uploading against an existing document adds a new version of it
+    const documentId =
+      (formData.get('documentId') as string | null) || undefined
+    // New documents can be filed straight into a category and case folder
+    const categoryId = (formData.get('categoryId') as string | null) || null
+    const folderId = (formData.get('folderId') as string | null) || null
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
+    const existingDocument = documentId
+      ? await prisma.documents.findFirst({
+          where: {
+            id: documentId,
+            ...getDocumentAccessFilter(userContext),
+          },
+          select: {
+            id: true,
+            law_firm_id: true,
+            name: true,
+            case_id: true,
+            client_id: true,
+          },
+        })
+      : null
+
+    if (documentId && !existingDocument) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Linked case must belong to the same firm and be visible to the uploader
+    // (new versions stay linked to the document's existing case and client)
+    let linkedCase: { id: string; client_id: string } | null = null
+    if (caseId && !existingDocument) {
+      linkedCase = await prisma.cases.findFirst({
+        where: {
+          id: caseId,
+          ...getCaseAccessFilter(userContext),
+        },
+        select: {
+          id: true,
+          client_id: true,
+        },
+      })
+
+      if (!linkedCase) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 })
+      }
+    }
+
+    if (!existingDocument && (categoryId || folderId)) {
+      const placementError = await validateDocumentPlacement(
+        userContext.lawFirmId,
+        linkedCase?.id || null,
+        { categoryId, folderId }
+      )
+
+      if (placementError) {
+        return NextResponse.json({ error: placementError }, { status: 400 })
+      }
+    }
+
     // Validate file
     const validation = FileValidation.validateFile(
       file.name,
@@ -41,6 +109,12 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       mimeType: file.type,
       fileSize: file.size,
       uploadedBy: userContext.id,
+      caseId: existingDocument
+        ? existingDocument.case_id || undefined
+        : linkedCase?.id,
+      clientId: existingDocument
+        ? existingDocument.client_id || undefined
+        : linkedCase?.client_id,
     })
 
     // Upload file to R2 from server
@@ -62,33 +136,101 @@ export const POST = withAuth(async (request: NextRequest, userContext) => {
       throw new Error('Failed to upload to storage')
     }
 
-    // Save document metadata to database
-    const document = await prisma.documents.create({
-      data: {
-        id: randomUUID(),
-        law_firm_id: userContext.lawFirmId,
-        name: file.name,
-        description: `Uploaded via dashboard`,
-        file_path: uploadResult.key, // Store the R2 key as file path
-        file_size: BigInt(file.size),
-        mime_type: file.type,
-        uploaded_by: userContext.id,
-        updatedAt: new Date(),
-        // case_id and client_id can be null for general documents
+    const versionInput = {
+      key: uploadResult.key,
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type,
+      uploadedBy: userContext.id,
+    }
+
+    // Save document metadata and its version to database
+    const { document, versionNumber } = await prisma.$transaction(async tx => {
+      if (existingDocument) {
+        const result = await addDocumentVersion(
+          existingDocument,
+          versionInput,
+          tx
+        )
+        return {
+          document: result.document,
+          versionNumber: result.version.version_number,
+        }
+      }
+
+      const created = await tx.documents.create({
+        data: {
+          id: randomUUID(),
+          law_firm_id: userContext.lawFirmId,
+          name: file.name,
+          description: `Uploaded via dashboard`,
+          file_path: uploadResult.key, // Store the R2 key as file path
+          file_size: BigInt(file.size),
+          mime_type: file.type,
+          uploaded_by: userContext.id,
+          updatedAt: new Date(),
+          // case_id and client_id can be null for general documents
+          case_id: linkedCase?.id,
+          client_id: linkedCase?.client_id,
+          category_id: categoryId,
+          folder_id: folderId,
+        },
+      })
+      await recordInitialVersion(created, versionInput, tx)
+
+      return { document: created, versionNumber: 1 }
+    })
+
+    // Record the upload on the case timeline
+    if (document.case_id) {
+      await recordCaseEvent({
+        lawFirmId: userContext.lawFirmId,
+        caseId: document.case_id,
+        eventType: 'DOCUMENT_UPLOADED',
+        title:
+          versionNumber > 1
+            ? `New version uploaded: ${document.name} (v${versionNumber})`
+            : `Document uploaded: ${file.name}`,
+        metadata: {
+          documentId: document.id,
+          fileName: file.name,
+          mimeType: file.type,
+          fileSize: file.size,
+          version: versionNumber,
+        },
+        actorId: userContext.id,
+      })
+    }
+
+    await recordAuditLog(request, userContext, {
+      action: versionNumber > 1 ? 'UPDATE' : 'CREATE',
+      entityType: 'document',
+      entityId: document.id,
+      after: {
+        name: document.name,
+        file_path: uploadResult.key,
+        case_id: document.case_id,
+        client_id: document.client_id,
+        version: versionNumber,
       },
     })
 
+    // Extract text for search once the response has been sent
+    after(() => indexDocumentText(document.id))
+
     // Return success
     return NextResponse.json({
       message: 'File uploaded successfully',
       file: {
         id: document.id,
         key: uploadResult.key,
-        fileName: file.name,
+        fileName: document.name,
+        version: versionNumber,
         file_size: file.size,
         mime_type: file.type,
         uploadedAt: document.createdAt.toISOString(),
         uploaded_by: userContext.id,
+        caseId: document.case_id,
       },
       metadata: uploadResult.metadata,
     })
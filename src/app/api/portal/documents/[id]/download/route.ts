@@ -0,0 +1,51 @@
+// Client Portal Document Download API
+// Purpose: Generate presigned URLs for documents shared with the client
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPortalClient, findSharedDocument } from '@/lib/client-portal'
+import { storageService } from '@/lib/storage'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/portal/documents/[id]/download - Generate presigned download URL
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPortalClient(async (request: NextRequest, userContext, client) => {
+    try {
+      const { id } = await params
+
+      const document = await findSharedDocument(client, id)
+
+      if (!document) {
+        return NextResponse.json(
+          { error: 'Document not found or access denied' },
+          { status: 404 }
+        )
+      }
+
+      const result = await storageService.generateDownloadUrl({
+        key: document.file_path,
+        lawFirmId: client.law_firm_id,
+        responseContentDisposition: `attachment; filename="${document.name}"`,
+      })
+
+      return NextResponse.json({
+        message: 'Download URL generated successfully',
+        download: {
+          downloadUrl: result.downloadUrl,
+          expiresAt: result.expiresAt.toISOString(),
+        },
+        metadata: {
+          fileName: document.name,
+        },
+      })
+    } catch (error) {
+      console.error('Error generating portal download URL:', error)
+      return NextResponse.json(
+        { error: 'Failed to generate download URL' },
+        { status: 500 }
+      )
+    }
+  })(request)
+}
@@ -0,0 +1,28 @@
+// Client Portal Documents API
+// Purpose: List the documents the firm has shared with the client
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPortalClient, getSharedDocuments } from '@/lib/client-portal'
+
+// GET /api/portal/documents - List shared documents
+export const GET = withPortalClient(
+  async (request: NextRequest, userContext, client) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const caseId = searchParams.get('caseId') || undefined
+
+      const documents = await getSharedDocuments(client, { caseId })
+
+      return NextResponse.json({
+        documents,
+        total: documents.length,
+      })
+    } catch (error) {
+      console.error('Error retrieving shared documents:', error)
+      return NextResponse.json(
+        { error: 'Failed to retrieve documents' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,43 @@
+// Client Portal API
+// Purpose: Overview of a client's own cases and upcoming court dates
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import {
+  withPortalClient,
+  getPortalCases,
+  getUpcomingCourtDates,
+} from '@/lib/client-portal'
+
+// GET /api/portal - Client portal overview
+export const GET = withPortalClient(
+  async (request: NextRequest, userContext, client) => {
+    try {
+      const [lawFirm, cases, courtDates] = await Promise.all([
+        prisma.law_firms.findUnique({
+          where: { id: client.law_firm_id },
+          select: { name: true },
+        }),
+        getPortalCases(client),
+        getUpcomingCourtDates(client),
+      ])
+
+      return NextResponse.json({
+        client: {
+          id: client.id,
+          fullName: `${client.first_name} ${client.last_name}`,
+          email: client.email,
+          lawFirmName: lawFirm?.name ?? null,
+        },
+        cases,
+        courtDates,
+      })
+    } catch (error) {
+      console.error('Error loading client portal:', error)
+      return NextResponse.json(
+        { error: 'Failed to load client portal' },
+        { status: 500 }
+      )
+    }
+  }
+)
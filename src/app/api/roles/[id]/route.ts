@@ -0,0 +1,260 @@
+// Individual Firm Role API
+// Purpose: View, edit and delete a custom role; built-in roles are read-only
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  CUSTOM_ROLE_BASES,
+  MAX_ROLE_DESCRIPTION_LENGTH,
+  MAX_ROLE_NAME_LENGTH,
+  ROLE_AUDIT_FIELDS,
+  formatRole,
+  getUngrantablePermissions,
+  isReservedRoleName,
+  normalizePermissions,
+} from '@/lib/roles'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/roles/[id] - Get a role
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const role = await prisma.roles.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+          include: { _count: { select: { user_roles: true } } },
+        })
+
+        if (!role) {
+          return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({
+          role: formatRole(role, role._count.user_roles),
+        })
+      } catch (error) {
+        console.error('Error fetching role:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch role' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// PATCH /api/roles/[id] - Update a custom role
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.MANAGE_ROLES,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+
+        const existing = await prisma.roles.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+          include: { _count: { select: { user_roles: true } } },
+        })
+
+        if (!existing) {
+          return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+        }
+
+        if (existing.isSystem) {
+          return NextResponse.json(
+            { error: 'Built-in roles cannot be modified' },
+            { status: 403 }
+          )
+        }
+
+        const data: Prisma.rolesUpdateInput = { updatedAt: new Date() }
+
+        if (body.name !== undefined) {
+          const name = String(body.name).trim()
+          if (!name) {
+            return NextResponse.json(
+              { error: 'Name cannot be empty' },
+              { status: 400 }
+            )
+          }
+
+          if (name.length > MAX_ROLE_NAME_LENGTH) {
+            return NextResponse.json(
+              {
+                error: `Name must be at most ${MAX_ROLE_NAME_LENGTH} characters`,
+              },
+              { status: 400 }
+            )
+          }
+
+          if (isReservedRoleName(name)) {
+            return NextResponse.json(
+              { error: 'This name is reserved for a built-in role' },
+              { status: 400 }
+            )
+          }
+
+          const duplicate = await prisma.roles.findFirst({
+            where: {
+              law_firm_id: userContext.lawFirmId,
+              name: { equals: name, mode: 'insensitive' },
+              id: { not: id },
+            },
+            select: { id: true },
+          })
+
+          if (duplicate) {
+            return NextResponse.json(
+              { error: 'A role with this name already exists' },
+              { status: 409 }
+            )
+          }
+          data.name = name
+        }
+
+        if (body.description !== undefined) {
+          const description = String(body.description || '').trim()
+          if (description.length > MAX_ROLE_DESCRIPTION_LENGTH) {
+            return NextResponse.json(
+              {
+                error: `Description must be at most ${MAX_ROLE_DESCRIPTION_LENGTH} characters`,
+              },
+              { status: 400 }
+            )
+          }
+          data.description = description || null
+        }
+
+        if (body.permissions !== undefined) {
+          const permissions = normalizePermissions(body.permissions)
+          if (!permissions) {
+            return NextResponse.json(
+              { error: 'Permissions must be a list of firm permissions' },
+              { status: 400 }
+            )
+          }
+
+          const ungrantable = getUngrantablePermissions(
+            userContext,
+            permissions
+          )
+          if (ungrantable.length > 0) {
+            return NextResponse.json(
+              {
+                error: 'You cannot grant permissions you do not have',
+                permissions: ungrantable,
+              },
+              { status: 403 }
+            )
+          }
+          data.permissions = permissions
+        }
+
+        if (body.baseRole !== undefined) {
+          if (!CUSTOM_ROLE_BASES.includes(body.baseRole)) {
+            return NextResponse.json(
+              {
+                error: `baseRole must be one of: ${CUSTOM_ROLE_BASES.join(', ')}`,
+              },
+              { status: 400 }
+            )
+          }
+          data.base_role = body.baseRole
+        }
+
+        const role = await prisma.roles.update({
+          where: { id },
+          data,
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'UPDATE',
+          entityType: 'role',
+          entityId: id,
+          before: pickAuditFields(existing, ROLE_AUDIT_FIELDS),
+          after: pickAuditFields(role, ROLE_AUDIT_FIELDS),
+        })
+
+        return NextResponse.json({
+          message: 'Role updated successfully',
+          role: formatRole(role, existing._count.user_roles),
+        })
+      } catch (error) {
+        console.error('Error updating role:', error)
+        return NextResponse.json(
+          { error: 'Failed to update role' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/roles/[id] - Delete an unused custom role
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.MANAGE_ROLES,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.roles.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+          include: { _count: { select: { user_roles: true } } },
+        })
+
+        if (!existing) {
+          return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+        }
+
+        if (existing.isSystem) {
+          return NextResponse.json(
+            { error: 'Built-in roles cannot be deleted' },
+            { status: 403 }
+          )
+        }
+
+        // Removing a role in use would silently strip people's access
+        if (existing._count.user_roles > 0) {
+          return NextResponse.json(
+            {
+              error: `Role is assigned to ${existing._count.user_roles} user(s). Reassign them first.`,
+            },
+            { status: 409 }
+          )
+        }
+
+        await prisma.roles.delete({ where: { id } })
+
+        await recordAuditLog(request, userContext, {
+          action: 'DELETE',
+          entityType: 'role',
+          entityId: id,
+          before: pickAuditFields(existing, ROLE_AUDIT_FIELDS),
+        })
+
+        return NextResponse.json({
+          message: 'Role deleted successfully',
+          deletedRole: { id: existing.id, name: existing.name },
+        })
+      } catch (error) {
+        console.error('Error deleting role:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete role' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,200 @@
+// Firm Roles API
+// Purpose: List the firm's roles and create or clone custom roles
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { FIRM_PERMISSIONS, PERMISSIONS, Role } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  CUSTOM_ROLE_BASES,
+  MAX_ROLE_DESCRIPTION_LENGTH,
+  MAX_ROLE_NAME_LENGTH,
+  ROLE_AUDIT_FIELDS,
+  formatRole,
+  getRolePermissions,
+  getUngrantablePermissions,
+  isReservedRoleName,
+  normalizePermissions,
+  resolveRoleKey,
+} from '@/lib/roles'
+import { pickAuditFields, recordAuditLog } from '@/lib/audit'
+
+// GET /api/roles - List roles with the number of users holding each
+export const GET = withPermission(
+  PERMISSIONS.USERS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const roles = await prisma.roles.findMany({
+        where: { law_firm_id: userContext.lawFirmId },
+        orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+        include: { _count: { select: { user_roles: true } } },
+      })
+
+      return NextResponse.json({
+        roles: roles.map(role => formatRole(role, role._count.user_roles)),
+      })
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch roles' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/roles - Create a custom role, optionally cloned from another
+export const POST = withPermission(
+  PERMISSIONS.USERS.MANAGE_ROLES,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const { cloneFromId } = body
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      const description =
+        typeof body.description === 'string' ? body.description.trim() : ''
+
+      if (!name) {
+        return NextResponse.json(
+          { error: 'Missing required field: name' },
+          { status: 400 }
+        )
+      }
+
+      if (name.length > MAX_ROLE_NAME_LENGTH) {
+        return NextResponse.json(
+          {
+            error: `Name must be at most ${MAX_ROLE_NAME_LENGTH} characters`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (description.length > MAX_ROLE_DESCRIPTION_LENGTH) {
+        return NextResponse.json(
+          {
+            error: `Description must be at most ${MAX_ROLE_DESCRIPTION_LENGTH} characters`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (isReservedRoleName(name)) {
+        return NextResponse.json(
+          { error: 'This name is reserved for a built-in role' },
+          { status: 400 }
+        )
+      }
+
+      // A clone starts from the source role's permissions and rank
+      let sourcePermissions: string[] = []
+      let sourceBase: Role | null = null
+
+      if (cloneFromId) {
+        const source = await prisma.roles.findFirst({
+          where: { id: cloneFromId, law_firm_id: userContext.lawFirmId },
+        })
+
+        if (!source) {
+          return NextResponse.json(
+            { error: 'Role to clone not found' },
+            { status: 404 }
+          )
+        }
+
+        sourcePermissions = getRolePermissions(source).filter(permission =>
+          FIRM_PERMISSIONS.includes(permission)
+        )
+        sourceBase = resolveRoleKey(source)
+      }
+
+      const permissions =
+        body.permissions !== undefined
+          ? normalizePermissions(body.permissions)
+          : sourcePermissions
+
+      if (!permissions) {
+        return NextResponse.json(
+          { error: 'Permissions must be a list of firm permissions' },
+          { status: 400 }
+        )
+      }
+
+      const baseRole =
+        body.baseRole ??
+        (sourceBase && CUSTOM_ROLE_BASES.includes(sourceBase)
+          ? sourceBase
+          : null)
+
+      if (!baseRole || !CUSTOM_ROLE_BASES.includes(baseRole)) {
+        return NextResponse.json(
+          {
+            error: `baseRole must be one of: ${CUSTOM_ROLE_BASES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      const ungrantable = getUngrantablePermissions(userContext, permissions)
+      if (ungrantable.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'You cannot grant permissions you do not have',
+            permissions: ungrantable,
+          },
+          { status: 403 }
+        )
+      }
+
+      const existing = await prisma.roles.findFirst({
+        where: {
+          law_firm_id: userContext.lawFirmId,
+          name: { equals: name, mode: 'insensitive' },
+        },
+        select: { id: true },
+      })
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A role with this name already exists' },
+          { status: 409 }
+        )
+      }
+
+      const role = await prisma.roles.create({
+        data: {
+          id: randomUUID(),
+          law_firm_id: userContext.lawFirmId,
+          name,
+          description: description || null,
+          permissions,
+          base_role: baseRole,
+          isSystem: false,
+          updatedAt: new Date(),
+        },
+      })
+
+      await recordAuditLog(request, userContext, {
+        action: 'CREATE',
+        entityType: 'role',
+        entityId: role.id,
+        after: pickAuditFields(role, ROLE_AUDIT_FIELDS),
+      })
+
+      return NextResponse.json(
+        {
+          message: 'Role created successfully',
+          role: formatRole(role, 0),
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating role:', error)
+      return NextResponse.json(
+        { error: 'Failed to create role' },
+        { status: 500 }
+      )
+    }
+  }
+)
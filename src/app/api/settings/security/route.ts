@@ -0,0 +1,87 @@
+// Firm Security Settings API
+// Purpose: View and change the firm's sign-in policy
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getFirmSecuritySettings } from '@/lib/mfa'
+import { recordAuditLog } from '@/lib/audit'
+
+// GET /api/settings/security - Get the firm's security settings
+export const GET = withPermission(
+  PERMISSIONS.ADMIN.FIRM_SETTINGS,
+  async (request: NextRequest, userContext) => {
+    try {
+      const firm = await prisma.law_firms.findUnique({
+        where: { id: userContext.lawFirmId },
+        select: { settings: true },
+      })
+
+      return NextResponse.json({
+        security: getFirmSecuritySettings(firm?.settings ?? null),
+      })
+    } catch (error) {
+      console.error('Error fetching security settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch security settings' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// PATCH /api/settings/security - Update the firm's security settings. With
+// requireMfa on, members without MFA are asked to enroll at their next
+// sign-in.
+export const PATCH = withPermission(
+  PERMISSIONS.ADMIN.FIRM_SETTINGS,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { requireMfa } = await request.json()
+
+      if (typeof requireMfa !== 'boolean') {
+        return NextResponse.json(
+          { error: 'requireMfa must be true or false' },
+          { status: 400 }
+        )
+      }
+
+      const firm = await prisma.law_firms.findUnique({
+        where: { id: userContext.lawFirmId },
+        select: { settings: true },
+      })
+      const settings = (firm?.settings ?? {}) as Prisma.JsonObject
+      const before = getFirmSecuritySettings(firm?.settings ?? null)
+      const security = { ...before, requireMfa }
+
+      await prisma.law_firms.update({
+        where: { id: userContext.lawFirmId },
+        data: {
+          settings: { ...settings, security },
+          updatedAt: new Date(),
+        },
+      })
+
+      await recordAuditLog(request, userContext, {
+        action: 'UPDATE',
+        entityType: 'firm_settings',
+        entityId: userContext.lawFirmId,
+        before: { ...before },
+        after: { ...security },
+      })
+
+      return NextResponse.json({
+        message: 'Security settings updated',
+        security,
+      })
+    } catch (error) {
+      console.error('Error updating security settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to update security settings' },
+        { status: 500 }
+      )
+    }
+  }
+)
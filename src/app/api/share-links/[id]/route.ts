@@ -0,0 +1,145 @@
+// Share Link API
+// Purpose: Inspect a share link's access log and revoke it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, UserContext, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getFirmUserSummaries } from '@/lib/cases'
+import { formatShareLink, shareLinkInclude } from '@/lib/share-links'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const ACCESS_LOG_LIMIT = 200
+
+// Links are visible to their creator and to document permission managers
+function getShareLinkOwnerFilter(userContext: UserContext) {
+  return {
+    law_firm_id: userContext.lawFirmId,
+    ...(hasPermission(userContext, PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS)
+      ? {}
+      : { created_by: userContext.id }),
+  }
+}
+
+// GET /api/share-links/[id] - Get a link with its recent access log
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const link = await prisma.share_links.findFirst({
+          where: { id, ...getShareLinkOwnerFilter(userContext) },
+          include: {
+            ...shareLinkInclude,
+            share_link_access_logs: {
+              orderBy: { createdAt: 'desc' },
+              take: ACCESS_LOG_LIMIT,
+            },
+          },
+        })
+
+        if (!link) {
+          return NextResponse.json(
+            { error: 'Share link not found' },
+            { status: 404 }
+          )
+        }
+
+        const creators = await getFirmUserSummaries(userContext.lawFirmId, [
+          link.created_by,
+        ])
+        const documentNames = new Map(
+          link.share_link_documents.map(({ documents: document }) => [
+            document.id,
+            document.name,
+          ])
+        )
+
+        return NextResponse.json({
+          link: formatShareLink(link, creators),
+          accessLog: link.share_link_access_logs.map(entry => ({
+            id: entry.id,
+            action: entry.action,
+            reason: entry.reason,
+            documentId: entry.document_id,
+            fileName: entry.document_id
+              ? (documentNames.get(entry.document_id) ?? null)
+              : null,
+            ipAddress: entry.ip_address,
+            userAgent: entry.user_agent,
+            createdAt: entry.createdAt.toISOString(),
+          })),
+        })
+      } catch (error) {
+        console.error('Error fetching share link:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch share link' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/share-links/[id] - Revoke a link. The row and its access log
+// are kept for the record.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const link = await prisma.share_links.findFirst({
+          where: { id, ...getShareLinkOwnerFilter(userContext) },
+          select: { id: true, revoked_at: true },
+        })
+
+        if (!link) {
+          return NextResponse.json(
+            { error: 'Share link not found' },
+            { status: 404 }
+          )
+        }
+
+        if (link.revoked_at) {
+          return NextResponse.json(
+            { error: 'Share link is already revoked' },
+            { status: 409 }
+          )
+        }
+
+        const now = new Date()
+        await prisma.share_links.update({
+          where: { id },
+          data: { revoked_at: now, updatedAt: now },
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'REVOKE_ACCESS',
+          entityType: 'share_link',
+          entityId: id,
+          before: { revoked_at: null },
+          after: { revoked_at: now },
+        })
+
+        return NextResponse.json({
+          message: 'Share link revoked',
+          revokedLink: { id, revokedAt: now.toISOString() },
+        })
+      } catch (error) {
+        console.error('Error revoking share link:', error)
+        return NextResponse.json(
+          { error: 'Failed to revoke share link' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,269 @@
+// Share Links API
+// Purpose: List and create expiring external links to documents
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { hashPassword } from '@/lib/auth'
+import { isValidEmail } from '@/lib/clients'
+import { getDocumentAccessFilter, getFirmUserSummaries } from '@/lib/cases'
+import {
+  DEFAULT_SHARE_LINK_DAYS,
+  MAX_SHARE_LINK_DAYS,
+  MAX_SHARE_LINK_DOCUMENTS,
+  MAX_SHARE_LINK_LABEL_LENGTH,
+  MIN_SHARE_LINK_PASSWORD_LENGTH,
+  formatShareLink,
+  generateShareToken,
+  getShareLinkUrl,
+  hashShareToken,
+  shareLinkInclude,
+} from '@/lib/share-links'
+import { recordAuditLog } from '@/lib/audit'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/share-links - List share links (all firm links for document
+// permission managers, otherwise the caller's own)
+export const GET = withPermission(
+  PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const documentId = searchParams.get('documentId')
+
+      const links = await prisma.share_links.findMany({
+        where: {
+          law_firm_id: userContext.lawFirmId,
+          ...(hasPermission(
+            userContext,
+            PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS
+          )
+            ? {}
+            : { created_by: userContext.id }),
+          ...(documentId && {
+            share_link_documents: { some: { document_id: documentId } },
+          }),
+        },
+        include: {
+          ...shareLinkInclude,
+          _count: { select: { share_link_access_logs: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      const creators = await getFirmUserSummaries(
+        userContext.lawFirmId,
+        links.map(link => link.created_by)
+      )
+
+      return NextResponse.json({
+        links: links.map(link => formatShareLink(link, creators)),
+      })
+    } catch (error) {
+      console.error('Error fetching share links:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch share links' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/share-links - Create a link to one or more documents. The token
+// is only returned here; the database keeps its hash.
+export const POST = withPermission(
+  PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const {
+        documentIds,
+        label,
+        recipientEmail,
+        password,
+        expiresAt,
+        maxDownloads,
+        watermark,
+      } = body
+
+      if (
+        !Array.isArray(documentIds) ||
+        documentIds.length === 0 ||
+        documentIds.some(id => typeof id !== 'string')
+      ) {
+        return NextResponse.json(
+          { error: 'Missing required field: documentIds' },
+          { status: 400 }
+        )
+      }
+
+      const uniqueDocumentIds = [...new Set<string>(documentIds)]
+      if (uniqueDocumentIds.length > MAX_SHARE_LINK_DOCUMENTS) {
+        return NextResponse.json(
+          {
+            error: `A link can share at most ${MAX_SHARE_LINK_DOCUMENTS} documents`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (
+        label !== undefined &&
+        label !== null &&
+        (typeof label !== 'string' ||
+          label.length > MAX_SHARE_LINK_LABEL_LENGTH)
+      ) {
+        return NextResponse.json(
+          {
+            error: `Label must be at most ${MAX_SHARE_LINK_LABEL_LENGTH} characters`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (recipientEmail && !isValidEmail(recipientEmail)) {
+        return NextResponse.json(
+          { error: 'Invalid recipient email' },
+          { status: 400 }
+        )
+      }
+
+      if (watermark && !recipientEmail) {
+        return NextResponse.json(
+          { error: 'A recipient email is required to watermark downloads' },
+          { status: 400 }
+        )
+      }
+
+      if (
+        password &&
+        (typeof password !== 'string' ||
+          password.length < MIN_SHARE_LINK_PASSWORD_LENGTH)
+      ) {
+        return NextResponse.json(
+          {
+            error: `Password must be at least ${MIN_SHARE_LINK_PASSWORD_LENGTH} characters`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (
+        maxDownloads !== undefined &&
+        maxDownloads !== null &&
+        (!Number.isInteger(maxDownloads) || maxDownloads < 1)
+      ) {
+        return NextResponse.json(
+          { error: 'Max downloads must be a positive whole number' },
+          { status: 400 }
+        )
+      }
+
+      const now = new Date()
+      const expiry = expiresAt
+        ? new Date(expiresAt)
+        : new Date(now.getTime() + DEFAULT_SHARE_LINK_DAYS * DAY_MS)
+
+      if (isNaN(expiry.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid expiry date' },
+          { status: 400 }
+        )
+      }
+
+      if (expiry <= now) {
+        return NextResponse.json(
+          { error: 'Expiry must be in the future' },
+          { status: 400 }
+        )
+      }
+
+      if (expiry.getTime() - now.getTime() > MAX_SHARE_LINK_DAYS * DAY_MS) {
+        return NextResponse.json(
+          {
+            error: `Links can last at most ${MAX_SHARE_LINK_DAYS} days`,
+          },
+          { status: 400 }
+        )
+      }
+
+      const documents = await prisma.documents.findMany({
+        where: {
+          id: { in: uniqueDocumentIds },
+          ...getDocumentAccessFilter(userContext),
+        },
+        select: { id: true },
+      })
+
+      if (documents.length !== uniqueDocumentIds.length) {
+        return NextResponse.json(
+          { error: 'Document not found or access denied' },
+          { status: 404 }
+        )
+      }
+
+      const token = generateShareToken()
+      const linkId = randomUUID()
+
+      const link = await prisma.share_links.create({
+        data: {
+          id: linkId,
+          law_firm_id: userContext.lawFirmId,
+          token_hash: hashShareToken(token),
+          label: label?.trim() || null,
+          recipient_email: recipientEmail || null,
+          password_hash: password ? await hashPassword(password) : null,
+          expires_at: expiry,
+          max_downloads: maxDownloads ?? null,
+          watermark: !!watermark,
+          created_by: userContext.id,
+          updatedAt: now,
+          share_link_documents: {
+            create: uniqueDocumentIds.map(documentId => ({
+              id: randomUUID(),
+              law_firm_id: userContext.lawFirmId,
+              document_id: documentId,
+            })),
+          },
+        },
+        include: shareLinkInclude,
+      })
+
+      await recordAuditLog(request, userContext, {
+        action: 'SHARE',
+        entityType: 'share_link',
+        entityId: link.id,
+        after: {
+          document_ids: uniqueDocumentIds,
+          recipient_email: link.recipient_email,
+          password_protected: !!link.password_hash,
+          expires_at: link.expires_at,
+          max_downloads: link.max_downloads,
+          watermark: link.watermark,
+        },
+      })
+
+      const creators = await getFirmUserSummaries(userContext.lawFirmId, [
+        link.created_by,
+      ])
+
+      return NextResponse.json(
+        {
+          message: 'Share link created successfully',
+          link: formatShareLink(link, creators),
+          url: getShareLinkUrl(token),
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating share link:', error)
+      return NextResponse.json(
+        { error: 'Failed to create share link' },
+        { status: 500 }
+      )
+    }
+  }
+)
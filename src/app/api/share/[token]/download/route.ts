@@ -0,0 +1,131 @@
+// Public Share Link Download API
+// Purpose: Serve documents behind a share link, watermarked where possible
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withRateLimit } from '@/lib/api-middleware'
+import { storageService } from '@/lib/storage'
+import {
+  SHARE_DOWNLOAD_URL_TTL,
+  checkShareLinkAccess,
+  claimShareLinkDownload,
+  findShareLinkByToken,
+  getWatermarkText,
+  recordShareLinkAccess,
+} from '@/lib/share-links'
+import { watermarkFile } from '@/lib/watermark'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+// POST /api/share/[token]/download - Count a download of one of the link's
+// documents. Watermarked PDFs and images are stamped with the recipient's
+// email and returned as the response body; anything else gets a short-lived
+// URL to the unaltered file, flagged as watermarked: false.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withRateLimit('publicAPI', async (request: NextRequest, context) => {
+    try {
+      const { token } = await params
+      const { documentId, password } = await request.json().catch(() => ({}))
+
+      const link = await findShareLinkByToken(token)
+
+      if (!link) {
+        return NextResponse.json(
+          { error: 'Share link not found' },
+          { status: 404 }
+        )
+      }
+
+      const denial = await checkShareLinkAccess(link, password)
+
+      if (denial) {
+        await recordShareLinkAccess(link, context, 'DENIED', {
+          documentId: typeof documentId === 'string' ? documentId : undefined,
+          reason: denial.reason,
+        })
+        return NextResponse.json(
+          { error: denial.error, passwordRequired: denial.passwordRequired },
+          { status: denial.status }
+        )
+      }
+
+      const document = link.share_link_documents.find(
+        entry => entry.documents.id === documentId
+      )?.documents
+
+      if (!document) {
+        await recordShareLinkAccess(link, context, 'DENIED', {
+          reason: 'unknown_document',
+        })
+        return NextResponse.json(
+          { error: 'Document not found' },
+          { status: 404 }
+        )
+      }
+
+      // Stamp before counting, so a file that cannot be marked does not use
+      // up a download
+      const watermarkText = getWatermarkText(link, document.mime_type)
+      const watermarked = watermarkText
+        ? await watermarkFile(
+            await storageService.getFileContent(
+              document.file_path,
+              link.law_firm_id
+            ),
+            document.mime_type,
+            watermarkText
+          )
+        : null
+
+      if (!(await claimShareLinkDownload(link.id))) {
+        await recordShareLinkAccess(link, context, 'DENIED', {
+          documentId: document.id,
+          reason: 'exhausted',
+        })
+        return NextResponse.json(
+          { error: 'This link has reached its download limit' },
+          { status: 410 }
+        )
+      }
+
+      await recordShareLinkAccess(link, context, 'DOWNLOAD', {
+        documentId: document.id,
+      })
+
+      const disposition = `attachment; filename*=UTF-8''${encodeURIComponent(document.name)}`
+
+      if (watermarked) {
+        return new NextResponse(new Uint8Array(watermarked), {
+          headers: {
+            'Content-Type': document.mime_type,
+            'Content-Disposition': disposition,
+            'Cache-Control': 'no-store',
+          },
+        })
+      }
+
+      const result = await storageService.generateDownloadUrl({
+        key: document.file_path,
+        lawFirmId: link.law_firm_id,
+        expiresIn: SHARE_DOWNLOAD_URL_TTL,
+        responseContentDisposition: disposition,
+      })
+
+      return NextResponse.json({
+        message: 'Download URL generated successfully',
+        download: {
+          downloadUrl: result.downloadUrl,
+          expiresAt: result.expiresAt.toISOString(),
+        },
+        metadata: { fileName: document.name, watermarked: false },
+      })
+    } catch (error) {
+      console.error('Error generating share link download URL:', error)
+      return NextResponse.json(
+        { error: 'Failed to generate download URL' },
+        { status: 500 }
+      )
+    }
+  })(request)
+}
@@ -0,0 +1,75 @@
+// Public Share Link API
+// Purpose: Open an external share link and list its documents
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withRateLimit } from '@/lib/api-middleware'
+import {
+  checkShareLinkAccess,
+  findShareLinkByToken,
+  formatSharedDocuments,
+  getShareLinkStatus,
+  recordShareLinkAccess,
+} from '@/lib/share-links'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+// POST /api/share/[token] - Open a link, with its password when it has one.
+// POST keeps passwords out of URLs and server logs.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withRateLimit('publicAPI', async (request: NextRequest, context) => {
+    try {
+      const { token } = await params
+      const { password } = await request.json().catch(() => ({}))
+
+      const link = await findShareLinkByToken(token)
+
+      if (!link) {
+        return NextResponse.json(
+          { error: 'Share link not found' },
+          { status: 404 }
+        )
+      }
+
+      const denial = await checkShareLinkAccess(link, password, {
+        allowExhausted: true,
+      })
+
+      if (denial) {
+        await recordShareLinkAccess(link, context, 'DENIED', {
+          reason: denial.reason,
+        })
+        return NextResponse.json(
+          { error: denial.error, passwordRequired: denial.passwordRequired },
+          { status: denial.status }
+        )
+      }
+
+      await recordShareLinkAccess(link, context, 'VIEW')
+
+      const status = getShareLinkStatus(link)
+
+      return NextResponse.json({
+        share: {
+          label: link.label,
+          recipientEmail: link.recipient_email,
+          watermark: link.watermark,
+          expiresAt: link.expires_at.toISOString(),
+          downloadsRemaining:
+            link.max_downloads === null
+              ? null
+              : Math.max(link.max_downloads - link.download_count, 0),
+          canDownload: status === 'ACTIVE',
+        },
+        documents: formatSharedDocuments(link),
+      })
+    } catch (error) {
+      console.error('Error opening share link:', error)
+      return NextResponse.json(
+        { error: 'Failed to open share link' },
+        { status: 500 }
+      )
+    }
+  })(request)
+}
@@ -0,0 +1,125 @@
+// Task Checklist Item API
+// Purpose: Tick off, rename and remove checklist items
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getLinkedCaseWallFilter } from '@/lib/cases'
+import { canViewTask } from '@/lib/tasks'
+
+interface RouteParams {
+  params: Promise<{ id: string; itemId: string }>
+}
+
+// PATCH /api/tasks/[id]/checklist/[itemId] - Update a checklist item
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, itemId } = await params
+        const body = await request.json()
+
+        const item = await prisma.task_checklist_items.findFirst({
+          where: {
+            id: itemId,
+            task_id: id,
+            law_firm_id: userContext.lawFirmId,
+            tasks: getLinkedCaseWallFilter(userContext),
+          },
+          include: { tasks: true },
+        })
+
+        if (!item || !canViewTask(userContext, item.tasks)) {
+          return NextResponse.json(
+            { error: 'Checklist item not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.task_checklist_itemsUpdateInput = {
+          updatedAt: new Date(),
+        }
+
+        if (body.title !== undefined) {
+          if (!String(body.title).trim()) {
+            return NextResponse.json(
+              { error: 'Title cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.title = String(body.title).trim()
+        }
+
+        if (body.done !== undefined) {
+          data.is_done = Boolean(body.done)
+          data.completed_at = body.done ? new Date() : null
+        }
+
+        const updated = await prisma.task_checklist_items.update({
+          where: { id: itemId },
+          data,
+        })
+
+        return NextResponse.json({
+          message: 'Checklist item updated successfully',
+          item: {
+            id: updated.id,
+            title: updated.title,
+            done: updated.is_done,
+            position: updated.position,
+          },
+        })
+      } catch (error) {
+        console.error('Error updating checklist item:', error)
+        return NextResponse.json(
+          { error: 'Failed to update checklist item' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/tasks/[id]/checklist/[itemId] - Remove a checklist item
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, itemId } = await params
+
+        const item = await prisma.task_checklist_items.findFirst({
+          where: {
+            id: itemId,
+            task_id: id,
+            law_firm_id: userContext.lawFirmId,
+            tasks: getLinkedCaseWallFilter(userContext),
+          },
+          include: { tasks: true },
+        })
+
+        if (!item || !canViewTask(userContext, item.tasks)) {
+          return NextResponse.json(
+            { error: 'Checklist item not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        await prisma.task_checklist_items.delete({ where: { id: itemId } })
+
+        return NextResponse.json({
+          message: 'Checklist item deleted successfully',
+        })
+      } catch (error) {
+        console.error('Error deleting checklist item:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete checklist item' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,85 @@
+// Task Checklist API
+// Purpose: Add items to a task checklist
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getLinkedCaseWallFilter } from '@/lib/cases'
+import { canViewTask } from '@/lib/tasks'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/tasks/[id]/checklist - Append a checklist item
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const { title } = await request.json()
+
+        if (!title || !String(title).trim()) {
+          return NextResponse.json(
+            { error: 'Missing required field: title' },
+            { status: 400 }
+          )
+        }
+
+        const task = await prisma.tasks.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+        })
+
+        if (!task || !canViewTask(userContext, task)) {
+          return NextResponse.json(
+            { error: 'Task not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const last = await prisma.task_checklist_items.findFirst({
+          where: { task_id: id },
+          orderBy: { position: 'desc' },
+          select: { position: true },
+        })
+
+        const item = await prisma.task_checklist_items.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            task_id: id,
+            title: String(title).trim(),
+            position: last ? last.position + 1 : 0,
+            updatedAt: new Date(),
+          },
+        })
+
+        return NextResponse.json(
+          {
+            message: 'Checklist item added successfully',
+            item: {
+              id: item.id,
+              title: item.title,
+              done: item.is_done,
+              position: item.position,
+            },
+          },
+          { status: 201 }
+        )
+      } catch (error) {
+        console.error('Error adding checklist item:', error)
+        return NextResponse.json(
+          { error: 'Failed to add checklist item' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
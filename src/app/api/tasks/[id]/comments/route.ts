@@ -0,0 +1,128 @@
+// Task Comments API
+// Purpose: Read and add discussion on a task
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { getLinkedCaseWallFilter } from '@/lib/cases'
+import { getFirmUserSummaries } from '@/lib/cases'
+import { canViewTask, formatTaskComment } from '@/lib/tasks'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/tasks/[id]/comments - List comments, oldest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const task = await prisma.tasks.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+        })
+
+        if (!task || !canViewTask(userContext, task)) {
+          return NextResponse.json(
+            { error: 'Task not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const comments = await prisma.task_comments.findMany({
+          where: {
+            task_id: id,
+            law_firm_id: userContext.lawFirmId,
+          },
+          orderBy: { createdAt: 'asc' },
+        })
+
+        const users = await getFirmUserSummaries(
+          userContext.lawFirmId,
+          comments.map(comment => comment.author_id)
+        )
+
+        return NextResponse.json({
+          comments: comments.map(comment => formatTaskComment(comment, users)),
+        })
+      } catch (error) {
+        console.error('Error fetching task comments:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch task comments' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// POST /api/tasks/[id]/comments - Add a comment
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const { body } = await request.json()
+
+        if (!body || !String(body).trim()) {
+          return NextResponse.json(
+            { error: 'Missing required field: body' },
+            { status: 400 }
+          )
+        }
+
+        const task = await prisma.tasks.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+        })
+
+        if (!task || !canViewTask(userContext, task)) {
+          return NextResponse.json(
+            { error: 'Task not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const comment = await prisma.task_comments.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            task_id: id,
+            author_id: userContext.id,
+            body: String(body).trim(),
+          },
+        })
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          userContext.id,
+        ])
+
+        return NextResponse.json(
+          {
+            message: 'Comment added successfully',
+            comment: formatTaskComment(comment, users),
+          },
+          { status: 201 }
+        )
+      } catch (error) {
+        console.error('Error adding task comment:', error)
+        return NextResponse.json(
+          { error: 'Failed to add task comment' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,271 @@
+// Individual Task API
+// Purpose: Get, update, reassign and delete a task
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  getCaseWallFilter,
+  getFirmUserSummaries,
+  getLinkedCaseWallFilter,
+  isActiveFirmUser,
+} from '@/lib/cases'
+import {
+  canViewTask,
+  isValidTaskPriority,
+  isValidTaskStatus,
+  notifyTaskAssignment,
+  formatTask,
+  taskInclude,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+} from '@/lib/tasks'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/tasks/[id] - Get task details
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const task = await prisma.tasks.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+          include: taskInclude,
+        })
+
+        if (!task || !canViewTask(userContext, task)) {
+          return NextResponse.json(
+            { error: 'Task not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          task.assigned_user_id || '',
+          task.created_by,
+        ])
+
+        return NextResponse.json({ task: formatTask(task, users) })
+      } catch (error) {
+        console.error('Error fetching task:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch task' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// PATCH /api/tasks/[id] - Update task
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const body = await request.json()
+
+        const existing = await prisma.tasks.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+        })
+
+        if (!existing || !canViewTask(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'Task not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        const data: Prisma.tasksUncheckedUpdateInput = {
+          updatedAt: new Date(),
+        }
+
+        if (body.title !== undefined) {
+          if (!String(body.title).trim()) {
+            return NextResponse.json(
+              { error: 'Title cannot be empty' },
+              { status: 400 }
+            )
+          }
+          data.title = String(body.title).trim()
+        }
+
+        if (body.description !== undefined) {
+          data.description = body.description || null
+        }
+
+        if (body.priority !== undefined) {
+          if (!isValidTaskPriority(body.priority)) {
+            return NextResponse.json(
+              {
+                error: `Invalid priority. Expected one of: ${TASK_PRIORITIES.join(', ')}`,
+              },
+              { status: 400 }
+            )
+          }
+          data.priority = body.priority
+        }
+
+        if (body.status !== undefined) {
+          if (!isValidTaskStatus(body.status)) {
+            return NextResponse.json(
+              {
+                error: `Invalid status. Expected one of: ${TASK_STATUSES.join(', ')}`,
+              },
+              { status: 400 }
+            )
+          }
+          data.status = body.status
+          if (body.status !== existing.status) {
+            data.completed_at = body.status === 'DONE' ? new Date() : null
+          }
+        }
+
+        if (body.dueDate !== undefined) {
+          const dueAt = body.dueDate ? new Date(body.dueDate) : null
+          if (dueAt && isNaN(dueAt.getTime())) {
+            return NextResponse.json(
+              { error: 'Invalid due date' },
+              { status: 400 }
+            )
+          }
+          data.due_date = dueAt
+        }
+
+        if (body.caseId !== undefined) {
+          if (body.caseId) {
+            const caseRecord = await prisma.cases.findFirst({
+              where: {
+                id: body.caseId,
+                law_firm_id: userContext.lawFirmId,
+                ...getCaseWallFilter(userContext),
+              },
+              select: { id: true },
+            })
+
+            if (!caseRecord) {
+              return NextResponse.json(
+                { error: 'Case not found' },
+                { status: 404 }
+              )
+            }
+          }
+          data.case_id = body.caseId || null
+        }
+
+        const reassigned =
+          body.assignedUserId !== undefined &&
+          (body.assignedUserId || null) !== existing.assigned_user_id
+
+        // Handing a task to someone else requires TASKS.ASSIGN
+        if (reassigned) {
+          if (
+            body.assignedUserId !== userContext.id &&
+            !hasPermission(userContext, PERMISSIONS.TASKS.ASSIGN)
+          ) {
+            return NextResponse.json(
+              {
+                error: `Access denied. Required permission: ${PERMISSIONS.TASKS.ASSIGN}`,
+                permission: PERMISSIONS.TASKS.ASSIGN,
+              },
+              { status: 403 }
+            )
+          }
+
+          if (
+            body.assignedUserId &&
+            !(await isActiveFirmUser(
+              userContext.lawFirmId,
+              body.assignedUserId
+            ))
+          ) {
+            return NextResponse.json(
+              { error: 'Assigned user not found or inactive' },
+              { status: 400 }
+            )
+          }
+          data.assigned_user_id = body.assignedUserId || null
+        }
+
+        const updated = await prisma.tasks.update({
+          where: { id },
+          data,
+          include: taskInclude,
+        })
+
+        if (reassigned) {
+          await notifyTaskAssignment(updated, userContext.id)
+        }
+
+        const users = await getFirmUserSummaries(userContext.lawFirmId, [
+          updated.assigned_user_id || '',
+          updated.created_by,
+        ])
+
+        return NextResponse.json({
+          message: 'Task updated successfully',
+          task: formatTask(updated, users),
+        })
+      } catch (error) {
+        console.error('Error updating task:', error)
+        return NextResponse.json(
+          { error: 'Failed to update task' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// DELETE /api/tasks/[id] - Delete task with its comments and checklist
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.TASKS.DELETE,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.tasks.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...getLinkedCaseWallFilter(userContext),
+          },
+        })
+
+        if (!existing || !canViewTask(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'Task not found or access denied' },
+            { status: 404 }
+          )
+        }
+
+        await prisma.tasks.delete({ where: { id } })
+
+        return NextResponse.json({ message: 'Task deleted successfully' })
+      } catch (error) {
+        console.error('Error deleting task:', error)
+        return NextResponse.json(
+          { error: 'Failed to delete task' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,283 @@
+// Tasks API
+// Purpose: List and create tasks for the law firm
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, hasPermission } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  getCaseWallFilter,
+  getFirmUserSummaries,
+  isActiveFirmUser,
+} from '@/lib/cases'
+import {
+  getTaskAccessFilter,
+  isValidTaskPriority,
+  isValidTaskStatus,
+  notifyTaskAssignment,
+  formatTask,
+  taskInclude,
+  OPEN_TASK_STATUSES,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+} from '@/lib/tasks'
+
+// GET /api/tasks - List tasks visible to the current user
+export const GET = withPermission(
+  PERMISSIONS.TASKS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get('limit') || '20'), 1),
+        100
+      )
+      const status = searchParams.get('status')
+      const priority = searchParams.get('priority')
+      const assignee = searchParams.get('assignee')
+      const caseId = searchParams.get('caseId')
+      const search = searchParams.get('search')
+
+      const skip = (page - 1) * limit
+
+      // "open" is shorthand for every status that still needs work
+      if (status && status !== 'open' && !isValidTaskStatus(status)) {
+        return NextResponse.json(
+          {
+            error: `Invalid status. Expected open or one of: ${TASK_STATUSES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (priority && !isValidTaskPriority(priority)) {
+        return NextResponse.json(
+          {
+            error: `Invalid priority. Expected one of: ${TASK_PRIORITIES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      // Build where clause on top of the user's visibility scope
+      const where: Prisma.tasksWhereInput = getTaskAccessFilter(userContext)
+
+      if (status === 'open') {
+        where.status = { in: OPEN_TASK_STATUSES }
+      } else if (status && isValidTaskStatus(status)) {
+        where.status = status
+      }
+
+      if (priority && isValidTaskPriority(priority)) {
+        where.priority = priority
+      }
+
+      if (assignee) {
+        where.assigned_user_id = assignee === 'me' ? userContext.id : assignee
+      }
+
+      if (caseId) {
+        where.case_id = caseId
+      }
+
+      if (search) {
+        where.AND = [
+          ...[where.AND ?? []].flat(),
+          {
+            OR: [
+              { title: { contains: search, mode: 'insensitive' } },
+              { description: { contains: search, mode: 'insensitive' } },
+            ],
+          },
+        ]
+      }
+
+      const [tasks, total] = await Promise.all([
+        prisma.tasks.findMany({
+          where,
+          include: taskInclude,
+          orderBy: [
+            { due_date: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'desc' },
+          ],
+          skip,
+          take: limit,
+        }),
+        prisma.tasks.count({ where }),
+      ])
+
+      const users = await getFirmUserSummaries(
+        userContext.lawFirmId,
+        tasks.flatMap(task => [task.assigned_user_id || '', task.created_by])
+      )
+
+      return NextResponse.json({
+        tasks: tasks.map(task => formatTask(task, users)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching tasks:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch tasks' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/tasks - Create a task
+export const POST = withPermission(
+  PERMISSIONS.TASKS.CREATE,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const {
+        title,
+        description,
+        priority = 'MEDIUM',
+        status = 'TODO',
+        dueDate,
+        caseId,
+        assignedUserId = userContext.id,
+        checklist = [],
+      } = body
+
+      // Validate required fields
+      if (!title || !String(title).trim()) {
+        return NextResponse.json(
+          { error: 'Missing required field: title' },
+          { status: 400 }
+        )
+      }
+
+      if (!isValidTaskPriority(priority)) {
+        return NextResponse.json(
+          {
+            error: `Invalid priority. Expected one of: ${TASK_PRIORITIES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      if (!isValidTaskStatus(status)) {
+        return NextResponse.json(
+          {
+            error: `Invalid status. Expected one of: ${TASK_STATUSES.join(', ')}`,
+          },
+          { status: 400 }
+        )
+      }
+
+      const dueAt = dueDate ? new Date(dueDate) : null
+      if (dueAt && isNaN(dueAt.getTime())) {
+        return NextResponse.json({ error: 'Invalid due date' }, { status: 400 })
+      }
+
+      if (
+        !Array.isArray(checklist) ||
+        checklist.some(item => typeof item !== 'string' || !item.trim())
+      ) {
+        return NextResponse.json(
+          { error: 'Checklist must be a list of item titles' },
+          { status: 400 }
+        )
+      }
+
+      // Case must belong to the same firm and not be walled off
+      if (caseId) {
+        const caseRecord = await prisma.cases.findFirst({
+          where: {
+            id: caseId,
+            law_firm_id: userContext.lawFirmId,
+            ...getCaseWallFilter(userContext),
+          },
+          select: { id: true },
+        })
+
+        if (!caseRecord) {
+          return NextResponse.json({ error: 'Case not found' }, { status: 404 })
+        }
+      }
+
+      // Assigning someone else requires TASKS.ASSIGN
+      if (assignedUserId) {
+        if (
+          assignedUserId !== userContext.id &&
+          !hasPermission(userContext, PERMISSIONS.TASKS.ASSIGN)
+        ) {
+          return NextResponse.json(
+            {
+              error: `Access denied. Required permission: ${PERMISSIONS.TASKS.ASSIGN}`,
+              permission: PERMISSIONS.TASKS.ASSIGN,
+            },
+            { status: 403 }
+          )
+        }
+
+        if (!(await isActiveFirmUser(userContext.lawFirmId, assignedUserId))) {
+          return NextResponse.json(
+            { error: 'Assigned user not found or inactive' },
+            { status: 400 }
+          )
+        }
+      }
+
+      const now = new Date()
+      const task = await prisma.tasks.create({
+        data: {
+          id: randomUUID(),
+          law_firm_id: userContext.lawFirmId,
+          case_id: caseId || null,
+          title: String(title).trim(),
+          description: description || null,
+          priority,
+          status,
+          due_date: dueAt,
+          assigned_user_id: assignedUserId || null,
+          created_by: userContext.id,
+          completed_at: status === 'DONE' ? now : null,
+          updatedAt: now,
+          task_checklist_items: {
+            create: (checklist as string[]).map((item, index) => ({
+              id: randomUUID(),
+              law_firm_id: userContext.lawFirmId,
+              title: item.trim(),
+              position: index,
+              updatedAt: now,
+            })),
+          },
+        },
+        include: taskInclude,
+      })
+
+      await notifyTaskAssignment(task, userContext.id)
+
+      const users = await getFirmUserSummaries(userContext.lawFirmId, [
+        task.assigned_user_id || '',
+        task.created_by,
+      ])
+
+      return NextResponse.json(
+        {
+          message: 'Task created successfully',
+          task: formatTask(task, users),
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating task:', error)
+      return NextResponse.json(
+        { error: 'Failed to create task' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,130 @@
+// Firm User Role API
+// Purpose: Remove a role from a member
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, ROLES } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { canAssignRole, resolveRoleKey } from '@/lib/roles'
+import {
+  canManageUser,
+  countActiveOwners,
+  firmUserInclude,
+  formatFirmUser,
+  joinedMemberFilter,
+  lockFirmOwners,
+} from '@/lib/firm-users'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string; roleId: string }>
+}
+
+// DELETE /api/users/[id]/roles/[roleId] - Remove a role. Members keep at
+// least one role, and the firm keeps at least one active owner.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.MANAGE_ROLES,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id, roleId } = await params
+
+        const existing = await prisma.users.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...joinedMemberFilter,
+          },
+          include: firmUserInclude,
+        })
+
+        if (!existing) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        const assignment = existing.user_roles.find(
+          userRole => userRole.roles.id === roleId
+        )
+
+        if (!assignment) {
+          return NextResponse.json(
+            { error: 'The user does not have this role' },
+            { status: 404 }
+          )
+        }
+
+        const role = await prisma.roles.findFirstOrThrow({
+          where: { id: roleId, law_firm_id: userContext.lawFirmId },
+        })
+
+        if (
+          !canManageUser(userContext, existing) ||
+          !canAssignRole(userContext, role)
+        ) {
+          return NextResponse.json(
+            { error: 'You cannot remove a role above your own' },
+            { status: 403 }
+          )
+        }
+
+        if (existing.user_roles.length === 1) {
+          return NextResponse.json(
+            { error: 'Members need at least one role. Assign another first.' },
+            { status: 409 }
+          )
+        }
+
+        const removed = await prisma.$transaction(async tx => {
+          if (resolveRoleKey(role) === ROLES.OWNER) {
+            await lockFirmOwners(tx, userContext.lawFirmId)
+            const remaining = await countActiveOwners(
+              userContext.lawFirmId,
+              { userId: id, roleId },
+              tx
+            )
+            if (remaining === 0) return false
+          }
+
+          await tx.user_roles.deleteMany({
+            where: {
+              law_firm_id: userContext.lawFirmId,
+              user_id: id,
+              role_id: roleId,
+            },
+          })
+          return true
+        })
+
+        if (!removed) {
+          return NextResponse.json(
+            { error: 'The firm must keep at least one active owner' },
+            { status: 409 }
+          )
+        }
+
+        await recordAuditLog(request, userContext, {
+          action: 'REVOKE_ACCESS',
+          entityType: 'user_role',
+          entityId: id,
+          before: { role_id: roleId, role: role.name },
+        })
+
+        const user = await prisma.users.findUniqueOrThrow({
+          where: { id },
+          include: firmUserInclude,
+        })
+
+        return NextResponse.json({
+          message: 'Role removed successfully',
+          user: formatFirmUser(user),
+        })
+      } catch (error) {
+        console.error('Error removing role:', error)
+        return NextResponse.json(
+          { error: 'Failed to remove role' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
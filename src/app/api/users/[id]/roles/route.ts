@@ -0,0 +1,122 @@
+// Firm User Roles API
+// Purpose: Assign a role to a member
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { canAssignRole } from '@/lib/roles'
+import {
+  canManageUser,
+  firmUserInclude,
+  formatFirmUser,
+  joinedMemberFilter,
+} from '@/lib/firm-users'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/users/[id]/roles - Assign a role with { roleId }. Nobody can
+// grant a role ranked above their own.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.MANAGE_ROLES,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const { roleId } = await request.json()
+
+        if (!roleId) {
+          return NextResponse.json(
+            { error: 'Missing required field: roleId' },
+            { status: 400 }
+          )
+        }
+
+        const [existing, role] = await Promise.all([
+          prisma.users.findFirst({
+            where: {
+              id,
+              law_firm_id: userContext.lawFirmId,
+              ...joinedMemberFilter,
+            },
+            include: firmUserInclude,
+          }),
+          prisma.roles.findFirst({
+            where: { id: roleId, law_firm_id: userContext.lawFirmId },
+          }),
+        ])
+
+        if (!existing) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        if (!role) {
+          return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+        }
+
+        if (!canManageUser(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'You cannot change a member ranked above you' },
+            { status: 403 }
+          )
+        }
+
+        if (!canAssignRole(userContext, role)) {
+          return NextResponse.json(
+            { error: 'You cannot grant a role above your own' },
+            { status: 403 }
+          )
+        }
+
+        if (
+          existing.user_roles.some(userRole => userRole.roles.id === roleId)
+        ) {
+          return NextResponse.json(
+            { error: 'The user already has this role' },
+            { status: 409 }
+          )
+        }
+
+        await prisma.user_roles.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            user_id: id,
+            role_id: roleId,
+            assigned_by: userContext.id,
+          },
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'GRANT_ACCESS',
+          entityType: 'user_role',
+          entityId: id,
+          after: { role_id: roleId, role: role.name },
+        })
+
+        const user = await prisma.users.findUniqueOrThrow({
+          where: { id },
+          include: firmUserInclude,
+        })
+
+        return NextResponse.json(
+          {
+            message: 'Role assigned successfully',
+            user: formatFirmUser(user),
+          },
+          { status: 201 }
+        )
+      } catch (error) {
+        console.error('Error assigning role:', error)
+        return NextResponse.json(
+          { error: 'Failed to assign role' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
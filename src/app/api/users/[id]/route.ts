@@ -0,0 +1,171 @@
+// Individual Firm User API
+// Purpose: View a member and deactivate or reactivate them
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS, ROLES } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  canManageUser,
+  countActiveOwners,
+  firmUserInclude,
+  formatFirmUser,
+  getHighestRole,
+  joinedMemberFilter,
+  lockFirmOwners,
+} from '@/lib/firm-users'
+import { recordAuditLog } from '@/lib/audit'
+import { revokeUserSessions } from '@/lib/sessions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/users/[id] - Get a member with their roles
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.VIEW,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const user = await prisma.users.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...joinedMemberFilter,
+          },
+          include: firmUserInclude,
+        })
+
+        if (!user) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ user: formatFirmUser(user) })
+      } catch (error) {
+        console.error('Error fetching user:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch user' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
+
+// PATCH /api/users/[id] - Deactivate or reactivate a member with
+// { isActive }. The firm always keeps at least one active owner, and
+// deactivation revokes the member's sessions in this firm.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+        const { isActive } = await request.json()
+
+        if (typeof isActive !== 'boolean') {
+          return NextResponse.json(
+            { error: 'isActive must be true or false' },
+            { status: 400 }
+          )
+        }
+
+        const existing = await prisma.users.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...joinedMemberFilter,
+          },
+          include: firmUserInclude,
+        })
+
+        if (!existing) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        if (!canManageUser(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'You cannot change a member ranked above you' },
+            { status: 403 }
+          )
+        }
+
+        if (!isActive && id === userContext.id) {
+          return NextResponse.json(
+            { error: 'You cannot deactivate your own account' },
+            { status: 400 }
+          )
+        }
+
+        if (isActive && !existing.joinedAt) {
+          return NextResponse.json(
+            { error: 'This person has not accepted their invitation yet' },
+            { status: 409 }
+          )
+        }
+
+        const isOwner =
+          getHighestRole(
+            existing.user_roles.map(userRole => userRole.roles)
+          ) === ROLES.OWNER
+
+        const user = await prisma.$transaction(async tx => {
+          if (!isActive && isOwner) {
+            await lockFirmOwners(tx, userContext.lawFirmId)
+            const remaining = await countActiveOwners(
+              userContext.lawFirmId,
+              { userId: id },
+              tx
+            )
+            if (remaining === 0) return null
+          }
+
+          // Deactivated members are signed out of this firm everywhere
+          if (!isActive) {
+            await revokeUserSessions(existing.platform_user_id, tx, {
+              lawFirmId: userContext.lawFirmId,
+            })
+          }
+
+          return tx.users.update({
+            where: { id },
+            data: { isActive, updatedAt: new Date() },
+            include: firmUserInclude,
+          })
+        })
+
+        if (!user) {
+          return NextResponse.json(
+            { error: 'The firm must keep at least one active owner' },
+            { status: 409 }
+          )
+        }
+
+        if (existing.isActive !== isActive) {
+          await recordAuditLog(request, userContext, {
+            action: 'UPDATE',
+            entityType: 'user',
+            entityId: id,
+            before: { isActive: existing.isActive },
+            after: { isActive },
+          })
+        }
+
+        return NextResponse.json({
+          message: isActive
+            ? 'User reactivated successfully'
+            : 'User deactivated successfully',
+          user: formatFirmUser(user),
+        })
+      } catch (error) {
+        console.error('Error updating user:', error)
+        return NextResponse.json(
+          { error: 'Failed to update user' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
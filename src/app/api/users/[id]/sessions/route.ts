@@ -0,0 +1,75 @@
+// Firm User Sessions API
+// Purpose: Sign a member out of every device
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  canManageUser,
+  firmUserInclude,
+  joinedMemberFilter,
+} from '@/lib/firm-users'
+import { revokeUserSessions } from '@/lib/sessions'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// DELETE /api/users/[id]/sessions - Revoke all of a member's sessions in this
+// firm. Sessions working in their other firms are left alone.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.EDIT,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const existing = await prisma.users.findFirst({
+          where: {
+            id,
+            law_firm_id: userContext.lawFirmId,
+            ...joinedMemberFilter,
+          },
+          include: firmUserInclude,
+        })
+
+        if (!existing) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 })
+        }
+
+        if (!canManageUser(userContext, existing)) {
+          return NextResponse.json(
+            { error: 'You cannot change a member ranked above you' },
+            { status: 403 }
+          )
+        }
+
+        const revoked = await revokeUserSessions(
+          existing.platform_user_id,
+          prisma,
+          { lawFirmId: userContext.lawFirmId }
+        )
+
+        await recordAuditLog(request, userContext, {
+          action: 'REVOKE_ACCESS',
+          entityType: 'user_session',
+          entityId: id,
+          after: { revokedSessions: revoked },
+        })
+
+        return NextResponse.json({
+          message: 'Sessions revoked successfully',
+          revoked,
+        })
+      } catch (error) {
+        console.error('Error revoking user sessions:', error)
+        return NextResponse.json(
+          { error: 'Failed to revoke sessions' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
@@ -0,0 +1,105 @@
+// Resend Firm Invitation API
+// Purpose: Email a fresh link for a pending or expired invitation
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  INVITATION_RESEND_COOLDOWN_SECONDS,
+  formatInvitation,
+  generateInvitationToken,
+  getInvitationExpiry,
+  getInvitationSender,
+  getInvitationStatus,
+  hashInvitationToken,
+  invitationInclude,
+  sendInvitationEmail,
+} from '@/lib/invitations'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/users/invitations/[id]/resend - Issue a new link with a full
+// expiry period. The previously emailed link stops working.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.CREATE,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const invitation = await prisma.user_invitations.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+        })
+
+        if (!invitation) {
+          return NextResponse.json(
+            { error: 'Invitation not found' },
+            { status: 404 }
+          )
+        }
+
+        const status = getInvitationStatus(invitation)
+        if (status === 'ACCEPTED' || status === 'REVOKED') {
+          return NextResponse.json(
+            { error: `This invitation was already ${status.toLowerCase()}` },
+            { status: 409 }
+          )
+        }
+
+        const now = new Date()
+        const secondsSinceSent =
+          (now.getTime() - invitation.last_sent_at.getTime()) / 1000
+        if (secondsSinceSent < INVITATION_RESEND_COOLDOWN_SECONDS) {
+          return NextResponse.json(
+            { error: 'This invitation was just sent; try again in a minute' },
+            { status: 429 }
+          )
+        }
+
+        const token = generateInvitationToken()
+        const resent = await prisma.user_invitations.update({
+          where: { id },
+          data: {
+            token_hash: hashInvitationToken(token),
+            expires_at: getInvitationExpiry(now),
+            last_sent_at: now,
+            updatedAt: now,
+          },
+          include: invitationInclude,
+        })
+
+        const emailSent = await sendInvitationEmail(
+          resent,
+          token,
+          await getInvitationSender(userContext)
+        )
+
+        await recordAuditLog(request, userContext, {
+          action: 'UPDATE',
+          entityType: 'invitation',
+          entityId: id,
+          before: { expires_at: invitation.expires_at },
+          after: { expires_at: resent.expires_at },
+        })
+
+        return NextResponse.json({
+          message: emailSent
+            ? 'Invitation resent successfully'
+            : 'Invitation renewed, but the email could not be sent',
+          invitation: formatInvitation(resent),
+          emailSent,
+        })
+      } catch (error) {
+        console.error('Error resending invitation:', error)
+        return NextResponse.json(
+          { error: 'Failed to resend invitation' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
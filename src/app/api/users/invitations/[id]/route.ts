@@ -0,0 +1,76 @@
+// Firm Invitation API
+// Purpose: Revoke a pending invitation
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  formatInvitation,
+  getInvitationStatus,
+  invitationInclude,
+} from '@/lib/invitations'
+import { recordAuditLog } from '@/lib/audit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// DELETE /api/users/invitations/[id] - Revoke an invitation. The link stops
+// working and the membership stays inactive; inviting the same email again
+// reuses it.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withPermission(
+    PERMISSIONS.USERS.CREATE,
+    async (request: NextRequest, userContext) => {
+      try {
+        const { id } = await params
+
+        const invitation = await prisma.user_invitations.findFirst({
+          where: { id, law_firm_id: userContext.lawFirmId },
+        })
+
+        if (!invitation) {
+          return NextResponse.json(
+            { error: 'Invitation not found' },
+            { status: 404 }
+          )
+        }
+
+        const status = getInvitationStatus(invitation)
+        if (status === 'ACCEPTED' || status === 'REVOKED') {
+          return NextResponse.json(
+            { error: `This invitation was already ${status.toLowerCase()}` },
+            { status: 409 }
+          )
+        }
+
+        const now = new Date()
+        const revoked = await prisma.user_invitations.update({
+          where: { id },
+          data: { revoked_at: now, updatedAt: now },
+          include: invitationInclude,
+        })
+
+        await recordAuditLog(request, userContext, {
+          action: 'REVOKE_ACCESS',
+          entityType: 'invitation',
+          entityId: id,
+          before: { revoked_at: null },
+          after: { revoked_at: now },
+        })
+
+        return NextResponse.json({
+          message: 'Invitation revoked successfully',
+          invitation: formatInvitation(revoked),
+        })
+      } catch (error) {
+        console.error('Error revoking invitation:', error)
+        return NextResponse.json(
+          { error: 'Failed to revoke invitation' },
+          { status: 500 }
+        )
+      }
+    }
+  )(request)
+}
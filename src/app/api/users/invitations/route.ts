@@ -0,0 +1,258 @@
+// Firm Invitations API
+// Purpose: List pending invitations and invite a colleague to join the firm
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomBytes, randomUUID } from 'crypto'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { hashPassword } from '@/lib/auth'
+import { isValidEmail } from '@/lib/clients'
+import { canAssignRole } from '@/lib/roles'
+import {
+  formatInvitation,
+  generateInvitationToken,
+  getInvitationExpiry,
+  getInvitationSender,
+  hashInvitationToken,
+  invitationInclude,
+  sendInvitationEmail,
+} from '@/lib/invitations'
+import { recordAuditLog } from '@/lib/audit'
+
+// GET /api/users/invitations - List invitations that were not accepted or
+// revoked, including expired ones that can still be resent
+export const GET = withPermission(
+  PERMISSIONS.USERS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const invitations = await prisma.user_invitations.findMany({
+        where: {
+          law_firm_id: userContext.lawFirmId,
+          accepted_at: null,
+          revoked_at: null,
+        },
+        include: invitationInclude,
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return NextResponse.json({
+        invitations: invitations.map(formatInvitation),
+      })
+    } catch (error) {
+      console.error('Error fetching invitations:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch invitations' },
+        { status: 500 }
+      )
+    }
+  }
+)
+
+// POST /api/users/invitations - Invite someone by email with a role. New
+// addresses get an account that stays unusable until the invite is accepted;
+// existing accounts are linked to the firm.
+export const POST = withPermission(
+  PERMISSIONS.USERS.CREATE,
+  async (request: NextRequest, userContext) => {
+    try {
+      const body = await request.json()
+      const email = typeof body.email === 'string' ? body.email.trim() : ''
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      const { roleId } = body
+
+      if (!email || !roleId) {
+        return NextResponse.json(
+          { error: 'Missing required fields: email, roleId' },
+          { status: 400 }
+        )
+      }
+
+      if (!isValidEmail(email)) {
+        return NextResponse.json(
+          { error: 'Invalid email address' },
+          { status: 400 }
+        )
+      }
+
+      const role = await prisma.roles.findFirst({
+        where: { id: roleId, law_firm_id: userContext.lawFirmId },
+      })
+
+      if (!role) {
+        return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+      }
+
+      if (!canAssignRole(userContext, role)) {
+        return NextResponse.json(
+          { error: 'You cannot invite someone with a role above your own' },
+          { status: 403 }
+        )
+      }
+
+      const platformUser = await prisma.platform_users.findUnique({
+        where: { email },
+        include: {
+          users: {
+            select: {
+              id: true,
+              law_firm_id: true,
+              joinedAt: true,
+              user_invitations: {
+                where: { accepted_at: null, revoked_at: null },
+                select: { expires_at: true },
+              },
+            },
+          },
+        },
+      })
+
+      // Platform users without firm memberships are super admins; joining a
+      // firm would turn them into ordinary members
+      if (platformUser && platformUser.users.length === 0) {
+        return NextResponse.json(
+          { error: 'This email belongs to a platform administrator' },
+          { status: 409 }
+        )
+      }
+
+      if (platformUser && !platformUser.isActive) {
+        return NextResponse.json(
+          { error: 'This account has been disabled' },
+          { status: 409 }
+        )
+      }
+
+      const membership = platformUser?.users.find(
+        user => user.law_firm_id === userContext.lawFirmId
+      )
+
+      if (membership?.joinedAt) {
+        return NextResponse.json(
+          { error: 'This person is already a member of the firm' },
+          { status: 409 }
+        )
+      }
+
+      const now = new Date()
+      if (
+        membership?.user_invitations.some(
+          invitation => invitation.expires_at > now
+        )
+      ) {
+        return NextResponse.json(
+          { error: 'An invitation is already pending; resend it instead' },
+          { status: 409 }
+        )
+      }
+
+      const token = generateInvitationToken()
+      const platformUserId = platformUser?.id ?? randomUUID()
+
+      const invitation = await prisma.$transaction(async tx => {
+        if (!platformUser) {
+          await tx.platform_users.create({
+            data: {
+              id: platformUserId,
+              email,
+              name: name || null,
+              // Unknown to anyone, so the account cannot sign in before the
+              // invitation is accepted
+              password: await hashPassword(
+                randomBytes(32).toString('base64url')
+              ),
+              updatedAt: now,
+            },
+          })
+        }
+
+        // A previously revoked or expired invite leaves an inactive
+        // membership behind, which is reused with the new role
+        const userId = membership?.id ?? randomUUID()
+        if (membership) {
+          await tx.users.update({
+            where: { id: userId },
+            data: { isActive: false, invitedAt: now, updatedAt: now },
+          })
+          await tx.user_roles.deleteMany({
+            where: { law_firm_id: userContext.lawFirmId, user_id: userId },
+          })
+          await tx.user_invitations.updateMany({
+            where: { user_id: userId, accepted_at: null, revoked_at: null },
+            data: { revoked_at: now, updatedAt: now },
+          })
+        } else {
+          await tx.users.create({
+            data: {
+              id: userId,
+              law_firm_id: userContext.lawFirmId,
+              platform_user_id: platformUserId,
+              isActive: false,
+              invitedAt: now,
+              updatedAt: now,
+            },
+          })
+        }
+
+        await tx.user_roles.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            user_id: userId,
+            role_id: role.id,
+            assigned_by: userContext.id,
+          },
+        })
+
+        return tx.user_invitations.create({
+          data: {
+            id: randomUUID(),
+            law_firm_id: userContext.lawFirmId,
+            user_id: userId,
+            token_hash: hashInvitationToken(token),
+            expires_at: getInvitationExpiry(now),
+            invited_by: userContext.id,
+            last_sent_at: now,
+            updatedAt: now,
+          },
+          include: invitationInclude,
+        })
+      })
+
+      const emailSent = await sendInvitationEmail(
+        invitation,
+        token,
+        await getInvitationSender(userContext)
+      )
+
+      await recordAuditLog(request, userContext, {
+        action: 'CREATE',
+        entityType: 'invitation',
+        entityId: invitation.id,
+        after: {
+          email,
+          user_id: invitation.user_id,
+          role: role.name,
+          expires_at: invitation.expires_at,
+        },
+      })
+
+      return NextResponse.json(
+        {
+          message: emailSent
+            ? 'Invitation sent successfully'
+            : 'Invitation created, but the email could not be sent',
+          invitation: formatInvitation(invitation),
+          emailSent,
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Error creating invitation:', error)
+      return NextResponse.json(
+        { error: 'Failed to create invitation' },
+        { status: 500 }
+      )
+    }
+  }
+)
@@ -0,0 +1,58 @@
+// Firm Users API
+// Purpose: List the firm's members with their roles
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withPermission } from '@/lib/auth-guards'
+import { PERMISSIONS } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import {
+  firmUserInclude,
+  formatFirmUser,
+  joinedMemberFilter,
+} from '@/lib/firm-users'
+
+// GET /api/users - List members. ?status=active|inactive|all (default all),
+// ?search= matches name or email
+export const GET = withPermission(
+  PERMISSIONS.USERS.VIEW,
+  async (request: NextRequest, userContext) => {
+    try {
+      const { searchParams } = new URL(request.url)
+      const status = searchParams.get('status')
+      const search = searchParams.get('search')?.trim()
+
+      const where: Prisma.usersWhereInput = {
+        law_firm_id: userContext.lawFirmId,
+        ...joinedMemberFilter,
+      }
+
+      if (status === 'active' || status === 'inactive') {
+        where.isActive = status === 'active'
+      }
+
+      if (search) {
+        where.platform_users = {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { email: { contains: search, mode: 'insensitive' } },
+          ],
+        }
+      }
+
+      const users = await prisma.users.findMany({
+        where,
+        include: firmUserInclude,
+        orderBy: { platform_users: { email: 'asc' } },
+      })
+
+      return NextResponse.json({ users: users.map(formatFirmUser) })
+    } catch (error) {
+      console.error('Error fetching users:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch users' },
+        { status: 500 }
+      )
+    }
+  }
+)
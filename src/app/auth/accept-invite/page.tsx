@@ -0,0 +1,12 @@
+import AcceptInvitationForm from '@/components/auth/AcceptInvitationForm'
+
+interface AcceptInvitePageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+export default async function AcceptInvitePage({
+  searchParams,
+}: AcceptInvitePageProps) {
+  const { token } = await searchParams
+  return <AcceptInvitationForm token={token || ''} />
+}
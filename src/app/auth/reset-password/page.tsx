@@ -0,0 +1,12 @@
+import ResetPasswordForm from '@/components/auth/ResetPasswordForm'
+
+interface ResetPasswordPageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: ResetPasswordPageProps) {
+  const { token } = await searchParams
+  return <ResetPasswordForm token={token || ''} />
+}
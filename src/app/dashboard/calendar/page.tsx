@@ -0,0 +1,65 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { useEffect } from 'react'
+import { ArrowLeft, Calendar } from 'lucide-react'
+import CalendarView from '@/components/dashboard/CalendarView'
+import { PERMISSIONS, ROLE_PERMISSIONS, toRole } from '@/lib/rbac'
+
+export default function CalendarPage() {
+  const { data: session, status } = useSession()
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      redirect('/auth/login')
+    }
+  }, [session, status])
+
+  if (status === 'loading' || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  // UI hint only; the API enforces CALENDAR.CREATE
+  const canCreate =
+    ROLE_PERMISSIONS[toRole(session.user.role)]?.includes(
+      PERMISSIONS.CALENDAR.CREATE
+    ) ?? false
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to dashboard
+        </Link>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-purple-50 rounded-lg flex items-center justify-center">
+              <Calendar className="h-5 w-5 text-purple-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Calendar</h1>
+              <p className="text-sm text-gray-500">
+                Hearings, appointments and deadlines
+              </p>
+            </div>
+          </div>
+
+          <CalendarView allowCreate={canCreate} />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { redirect, useParams } from 'next/navigation'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Scale, User as UserIcon, Briefcase } from 'lucide-react'
+import CaseTimeline from '@/components/dashboard/CaseTimeline'
+import CaseTeam from '@/components/dashboard/CaseTeam'
+import CalendarView from '@/components/dashboard/CalendarView'
+import TaskList from '@/components/dashboard/TaskList'
+import FileUpload from '@/components/dashboard/FileUpload'
+import FileList from '@/components/dashboard/FileList'
+import DocumentSearch from '@/components/dashboard/DocumentSearch'
+import { PERMISSIONS, ROLE_PERMISSIONS, toRole } from '@/lib/rbac'
+
+interface CaseDetails {
+  id: string
+  title: string
+  description?: string | null
+  status: string
+  practiceArea?: string | null
+  clientName?: string | null
+  assignedLawyerName?: string | null
+  createdAt: string
+}
+
+export default function CaseDetailPage() {
+  const { data: session, status } = useSession()
+  const params = useParams<{ id: string }>()
+  const caseId = params.id
+  const [caseDetails, setCaseDetails] = useState<CaseDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [refreshTrigger, setRefreshTrigger] = useState(0)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      redirect('/auth/login')
+      return
+    }
+
+    const loadCase = async () => {
+      try {
+        const response = await fetch(`/api/cases/${encodeURIComponent(caseId)}`)
+        if (!response.ok) {
+          throw new Error(
+            response.status === 404 ? 'Case not found' : 'Failed to load case'
+          )
+        }
+        const data = await response.json()
+        setCaseDetails(data.case)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load case')
+      }
+    }
+
+    loadCase()
+  }, [session, status, caseId])
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900">{error}</h2>
+          <Link
+            href="/dashboard"
+            className="mt-4 inline-block text-blue-600 hover:text-blue-800"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  if (!caseDetails) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  // UI hints only; the API enforces permissions
+  const rolePermissions = session
+    ? ROLE_PERMISSIONS[toRole(session.user.role)] || []
+    : []
+  const canShareDocuments = rolePermissions.includes(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS
+  )
+  const canShareExternally = rolePermissions.includes(
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to dashboard
+        </Link>
+
+        {/* Case Header */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-3">
+              <div className="w-10 h-10 bg-blue-50 rounded-lg flex items-center justify-center">
+                <Scale className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  {caseDetails.title}
+                </h1>
+                {caseDetails.description && (
+                  <p className="text-gray-600 mt-1">
+                    {caseDetails.description}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-3">
+                  {caseDetails.clientName && (
+                    <span className="flex items-center">
+                      <UserIcon className="h-4 w-4 mr-1" />
+                      {caseDetails.clientName}
+                    </span>
+                  )}
+                  {caseDetails.practiceArea && (
+                    <span className="flex items-center">
+                      <Briefcase className="h-4 w-4 mr-1" />
+                      {caseDetails.practiceArea}
+                    </span>
+                  )}
+                  <span>
+                    Lawyer: {caseDetails.assignedLawyerName || 'Unassigned'}
+                  </span>
+                </div>
+              </div>
+            </div>
+            <span className="text-xs font-medium text-blue-700 bg-blue-100 px-2 py-1 rounded">
+              {caseDetails.status.replace('_', ' ')}
+            </span>
+          </div>
+        </div>
+
+        {/* Case Team and Ethical Walls */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <CaseTeam
+            caseId={caseId}
+            onChange={() => setRefreshTrigger(prev => prev + 1)}
+          />
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Timeline */}
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+            <CaseTimeline
+              caseId={caseId}
+              refreshTrigger={refreshTrigger}
+              allowEntries
+            />
+          </div>
+
+          {/* Case Documents */}
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6">
+            <FileUpload
+              caseId={caseId}
+              onUploadComplete={() => setRefreshTrigger(prev => prev + 1)}
+              onUploadError={uploadError =>
+                console.error('Upload error:', uploadError)
+              }
+            />
+            <DocumentSearch caseId={caseId} />
+            <FileList
+              caseId={caseId}
+              refreshTrigger={refreshTrigger}
+              allowSharing={canShareDocuments}
+              allowExternalLinks={canShareExternally}
+            />
+          </div>
+        </div>
+
+        {/* Case Tasks */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <TaskList caseId={caseId} allowCreate />
+        </div>
+
+        {/* Case Calendar */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <CalendarView
+            caseId={caseId}
+            allowCreate
+            onEventCreated={() => setRefreshTrigger(prev => prev + 1)}
+          />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,358 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { redirect, useParams } from 'next/navigation'
+import Link from 'next/link'
+import React, { useCallback, useEffect, useState } from 'react'
+import { ArrowLeft, User as UserIcon, Mail, Phone, Scale } from 'lucide-react'
+import FileList from '@/components/dashboard/FileList'
+import { PERMISSIONS, ROLE_PERMISSIONS, toRole } from '@/lib/rbac'
+
+interface ClientDetails {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+  fullName: string
+  phone?: string | null
+  isActive: boolean
+  createdAt: string
+}
+
+interface ClientCase {
+  id: string
+  title: string
+  status: string
+  practiceArea?: string | null
+  assignedLawyerName?: string | null
+  updatedAt: string
+}
+
+export default function ClientDetailPage() {
+  const { data: session, status } = useSession()
+  const params = useParams<{ id: string }>()
+  const clientId = params.id
+  const [client, setClient] = useState<ClientDetails | null>(null)
+  const [cases, setCases] = useState<ClientCase[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+  })
+
+  const loadClient = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/clients/${encodeURIComponent(clientId)}`
+      )
+      if (!response.ok) {
+        throw new Error(
+          response.status === 404 ? 'Client not found' : 'Failed to load client'
+        )
+      }
+      const data = await response.json()
+      setClient(data.client)
+      setCases(data.cases || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load client')
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      redirect('/auth/login')
+      return
+    }
+
+    loadClient()
+  }, [session, status, loadClient])
+
+  const updateClient = async (changes: Record<string, unknown>) => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(
+        `/api/clients/${encodeURIComponent(clientId)}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(changes),
+        }
+      )
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update client')
+      }
+
+      setClient(result.client)
+      setEditing(false)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update client')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const startEditing = () => {
+    if (!client) return
+    setForm({
+      firstName: client.firstName,
+      lastName: client.lastName,
+      email: client.email,
+      phone: client.phone || '',
+    })
+    setEditing(true)
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateClient({ ...form, phone: form.phone || null })
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900">{error}</h2>
+          <Link
+            href="/dashboard/clients"
+            className="mt-4 inline-block text-blue-600 hover:text-blue-800"
+          >
+            Back to clients
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  if (!client || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  // UI hints only; the API enforces permissions
+  const rolePermissions = ROLE_PERMISSIONS[toRole(session.user.role)] || []
+  const canEdit = rolePermissions.includes(PERMISSIONS.CLIENTS.EDIT)
+  const canDeactivate = rolePermissions.includes(PERMISSIONS.CLIENTS.DELETE)
+  const canShareDocuments = rolePermissions.includes(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS
+  )
+  const canShareExternally = rolePermissions.includes(
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link
+          href="/dashboard/clients"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to clients
+        </Link>
+
+        {/* Client Header */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          {editing ? (
+            <form onSubmit={handleSave} className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  required
+                  value={form.firstName}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, firstName: e.target.value }))
+                  }
+                  placeholder="First name"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="text"
+                  required
+                  value={form.lastName}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, lastName: e.target.value }))
+                  }
+                  placeholder="Last name"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="email"
+                  required
+                  value={form.email}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, email: e.target.value }))
+                  }
+                  placeholder="Email"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, phone: e.target.value }))
+                  }
+                  placeholder="Phone"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setEditing(false)}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-3">
+                <div className="w-10 h-10 bg-green-50 rounded-lg flex items-center justify-center">
+                  <UserIcon className="h-5 w-5 text-green-600" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">
+                    {client.fullName}
+                  </h1>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-2">
+                    <span className="flex items-center">
+                      <Mail className="h-4 w-4 mr-1" />
+                      {client.email}
+                    </span>
+                    {client.phone && (
+                      <span className="flex items-center">
+                        <Phone className="h-4 w-4 mr-1" />
+                        {client.phone}
+                      </span>
+                    )}
+                    <span>
+                      Client since{' '}
+                      {new Date(client.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span
+                  className={`text-xs font-medium px-2 py-1 rounded ${
+                    client.isActive
+                      ? 'text-green-700 bg-green-100'
+                      : 'text-gray-700 bg-gray-100'
+                  }`}
+                >
+                  {client.isActive ? 'Active' : 'Inactive'}
+                </span>
+                {canEdit && (
+                  <button
+                    onClick={startEditing}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                )}
+                {canEdit && !client.isActive && (
+                  <button
+                    onClick={() => updateClient({ isActive: true })}
+                    disabled={saving}
+                    className="text-sm text-green-600 hover:text-green-800"
+                  >
+                    Reactivate
+                  </button>
+                )}
+                {canDeactivate && client.isActive && (
+                  <button
+                    onClick={async () => {
+                      if (!confirm(`Deactivate ${client.fullName}?`)) return
+                      const response = await fetch(
+                        `/api/clients/${encodeURIComponent(clientId)}`,
+                        { method: 'DELETE' }
+                      )
+                      if (response.ok) {
+                        setClient({ ...client, isActive: false })
+                      } else {
+                        alert('Failed to deactivate client')
+                      }
+                    }}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Deactivate
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Client Cases */}
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Cases</h3>
+            {cases.length === 0 ? (
+              <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+                <p className="text-sm text-gray-500">
+                  No cases for this client
+                </p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {cases.map(c => (
+                  <li key={c.id}>
+                    <Link
+                      href={`/dashboard/cases/${c.id}`}
+                      className="flex items-center justify-between py-3 hover:bg-gray-50"
+                    >
+                      <div className="flex items-start space-x-2">
+                        <Scale className="h-4 w-4 text-blue-600 mt-0.5" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {c.title}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {c.practiceArea || 'General'} ·{' '}
+                            {c.assignedLawyerName || 'Unassigned'}
+                          </p>
+                        </div>
+                      </div>
+                      <span className="text-xs font-medium text-blue-700 bg-blue-100 px-2 py-1 rounded">
+                        {c.status.replace('_', ' ')}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Client Documents */}
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+            <FileList
+              clientId={clientId}
+              allowSharing={canShareDocuments}
+              allowExternalLinks={canShareExternally}
+            />
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
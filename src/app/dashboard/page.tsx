@@ -5,6 +5,7 @@ import { redirect } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Dashboard from '@/components/dashboard/Dashboard'
 import { User } from '@/types/user'
+import { ROLES, toRole } from '@/lib/rbac'
 
 export default function DashboardPage() {
   const { data: session, status } = useSession()
@@ -32,6 +33,12 @@ export default function DashboardPage() {
       return
     }
 
+    // Client users only have access to the client portal
+    if (toRole(session.user.role) === ROLES.CLIENT) {
+      redirect('/portal')
+      return
+    }
+
     console.log('✅ Dashboard: Law firm user authenticated, loading dashboard')
     // For law firm users, we have enough info from session
     setUserContext({
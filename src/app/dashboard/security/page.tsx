@@ -0,0 +1,56 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { useEffect } from 'react'
+import { ArrowLeft } from 'lucide-react'
+import SecuritySettings from '@/components/dashboard/SecuritySettings'
+import { PERMISSIONS, ROLE_PERMISSIONS, toRole } from '@/lib/rbac'
+
+export default function SecurityPage() {
+  const { data: session, status } = useSession()
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      redirect('/auth/login')
+    }
+  }, [session, status])
+
+  if (status === 'loading' || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  // UI hint only; the API enforces permissions
+  const rolePermissions = ROLE_PERMISSIONS[toRole(session.user.role)] || []
+  const canManageFirm = rolePermissions.includes(
+    PERMISSIONS.ADMIN.FIRM_SETTINGS
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to dashboard
+        </Link>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <SecuritySettings
+            email={session.user.email || ''}
+            canManageFirm={canManageFirm}
+          />
+        </div>
+      </main>
+    </div>
+  )
+}
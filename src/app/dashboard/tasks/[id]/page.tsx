@@ -0,0 +1,55 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { redirect, useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useEffect } from 'react'
+import { ArrowLeft } from 'lucide-react'
+import TaskDetail from '@/components/dashboard/TaskDetail'
+import { PERMISSIONS, ROLE_PERMISSIONS, toRole } from '@/lib/rbac'
+
+export default function TaskDetailPage() {
+  const { data: session, status } = useSession()
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      redirect('/auth/login')
+    }
+  }, [session, status])
+
+  if (status === 'loading' || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  // UI hints only; the API enforces permissions
+  const rolePermissions = ROLE_PERMISSIONS[toRole(session.user.role)] || []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link
+          href="/dashboard/tasks"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to tasks
+        </Link>
+
+        <TaskDetail
+          taskId={params.id}
+          canEdit={rolePermissions.includes(PERMISSIONS.TASKS.EDIT)}
+          canDelete={rolePermissions.includes(PERMISSIONS.TASKS.DELETE)}
+          onDeleted={() => router.push('/dashboard/tasks')}
+        />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+// Client Portal Layout
+// Purpose: Separate shell for client users, without firm navigation
+
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { signOut, useSession } from 'next-auth/react'
+import { Scale } from 'lucide-react'
+import { ROLES, toRole } from '@/lib/rbac'
+
+interface PortalLayoutProps {
+  children: React.ReactNode
+}
+
+export default function PortalLayout({ children }: PortalLayoutProps) {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const isClient = !!session && toRole(session.user.role) === ROLES.CLIENT
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      router.push('/auth/login')
+    } else if (!isClient) {
+      // Firm staff use the dashboard
+      router.push('/dashboard')
+    }
+  }, [session, status, isClient, router])
+
+  if (status === 'loading' || !isClient) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-3">
+              <div className="w-9 h-9 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
+                <Scale className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-gray-900">
+                  {session.user.lawFirmName}
+                </p>
+                <p className="text-xs text-gray-500">Client Portal</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">
+                {session.user.name || session.user.email}
+              </span>
+              <button
+                onClick={() => signOut({ callbackUrl: '/auth/login' })}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {children}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import ClientPortal from '@/components/portal/ClientPortal'
+
+export default function PortalPage() {
+  return <ClientPortal />
+}
@@ -0,0 +1,10 @@
+import ShareLinkViewer from '@/components/share/ShareLinkViewer'
+
+interface SharePageProps {
+  params: Promise<{ token: string }>
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params
+  return <ShareLinkViewer token={token} />
+}
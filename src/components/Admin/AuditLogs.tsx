@@ -16,12 +16,37 @@ interface AuditLog {
   law_firm_name?: string
   ip_address: string
   created_at: string
+  sequence: number | null
   new_values?: Record<string, unknown>
 }
 
+interface ChainIntegrity {
+  valid: boolean
+  checkedEntries: number
+  unchainedEntries: number
+  firstBrokenLink: {
+    sequence: number
+    entryId: string
+    reason: 'MISSING_ENTRY' | 'PREVIOUS_HASH_MISMATCH' | 'HASH_MISMATCH'
+    createdAt: string
+  } | null
+  verifiedAt: string
+}
+
+const BREAK_REASONS: Record<
+  NonNullable<ChainIntegrity['firstBrokenLink']>['reason'],
+  string
+> = {
+  MISSING_ENTRY: 'entry missing',
+  PREVIOUS_HASH_MISMATCH: 'entry re-linked',
+  HASH_MISMATCH: 'entry modified',
+}
+
 export default function AuditLogs() {
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([])
   const [loading, setLoading] = useState(true)
+  const [integrity, setIntegrity] = useState<ChainIntegrity | null>(null)
+  const [verifying, setVerifying] = useState(true)
   const [filters, setFilters] = useState({
     action: '',
     entityType: '',
@@ -55,6 +80,38 @@ export default function AuditLogs() {
     fetchAuditLogs()
   }, [fetchAuditLogs])
 
+  const verifyChain = useCallback(async () => {
+    setVerifying(true)
+    try {
+      const response = await fetch('/api/admin/audit/verify', {
+        credentials: 'include',
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setIntegrity(data.integrity)
+      } else {
+        setIntegrity(null)
+      }
+    } catch (error) {
+      console.error('Error verifying audit chain:', error)
+      setIntegrity(null)
+    } finally {
+      setVerifying(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    verifyChain()
+  }, [verifyChain])
+
+  const getExportUrl = (format: 'csv' | 'json' | 'ndjson') => {
+    const params = new URLSearchParams({ format })
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value)
+    })
+    return `/api/admin/audit/export?${params}`
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString()
   }
@@ -92,6 +149,46 @@ export default function AuditLogs() {
     }
   }
 
+  let integrityBadge
+  if (verifying) {
+    integrityBadge = (
+      <span className="inline-flex items-center px-3 py-1 text-sm rounded-full bg-gray-100 text-gray-600">
+        Verifying chain…
+      </span>
+    )
+  } else if (!integrity) {
+    integrityBadge = (
+      <span className="inline-flex items-center px-3 py-1 text-sm rounded-full bg-gray-100 text-gray-600">
+        ❔ Integrity unknown
+      </span>
+    )
+  } else if (integrity.valid) {
+    integrityBadge = (
+      <span
+        className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-full bg-green-100 text-green-800"
+        title={`Verified ${formatDate(integrity.verifiedAt)}${
+          integrity.unchainedEntries > 0
+            ? ` • ${integrity.unchainedEntries} older entries predate chaining`
+            : ''
+        }`}
+      >
+        🔒 Chain intact • {integrity.checkedEntries} entries
+      </span>
+    )
+  } else {
+    const broken = integrity.firstBrokenLink
+    integrityBadge = (
+      <span
+        className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-full bg-red-100 text-red-800"
+        title={broken ? `Entry ${broken.entryId}` : undefined}
+      >
+        ⚠️ Chain broken
+        {broken &&
+          ` at #${broken.sequence} (${BREAK_REASONS[broken.reason]}, ${formatDate(broken.createdAt)})`}
+      </span>
+    )
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -103,13 +200,25 @@ export default function AuditLogs() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">
-          Platform Audit Logs
-        </h1>
-        <p className="text-gray-600">
-          Monitor all platform administrative activities
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Platform Audit Logs
+          </h1>
+          <p className="text-gray-600">
+            Monitor all platform administrative activities
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {integrityBadge}
+          <button
+            onClick={verifyChain}
+            disabled={verifying}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Re-verify
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -199,6 +308,19 @@ export default function AuditLogs() {
             </button>
           </div>
         </div>
+
+        <div className="mt-4 flex items-center gap-3 text-sm text-gray-600">
+          <span>Export filtered logs:</span>
+          {(['csv', 'json', 'ndjson'] as const).map(format => (
+            <a
+              key={format}
+              href={getExportUrl(format)}
+              className="font-medium text-blue-600 hover:text-blue-800"
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
       </div>
 
       {/* Audit Logs */}
@@ -235,6 +357,7 @@ export default function AuditLogs() {
                         {log.admin_email || 'unknown@example.com'})
                       </div>
                       <div className="mt-1 text-xs text-gray-500">
+                        {log.sequence !== null && `#${log.sequence} • `}
                         {formatDate(log.created_at)} • IP: {log.ip_address}
                       </div>
                       {log.new_values &&
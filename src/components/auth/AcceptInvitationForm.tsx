@@ -0,0 +1,303 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  Scale,
+  Lock,
+  User,
+  Eye,
+  EyeOff,
+  AlertCircle,
+  CheckCircle,
+  ArrowLeft,
+} from 'lucide-react'
+
+interface InvitationDetails {
+  email: string
+  name: string | null
+  firmName: string
+  roles: string[]
+  expiresAt: string
+  needsPassword: boolean
+}
+
+interface AcceptInvitationFormProps {
+  token: string
+}
+
+export default function AcceptInvitationForm({
+  token,
+}: AcceptInvitationFormProps) {
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [showPassword, setShowPassword] = useState(false)
+  const [loading, setLoading] = useState(!!token)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (!token) return
+
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(
+          `/api/auth/accept-invite?token=${encodeURIComponent(token)}`
+        )
+        const data = await response.json()
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load invitation')
+        } else {
+          setInvitation(data.invitation)
+          setName(data.invitation.name || '')
+        }
+      } catch (error) {
+        console.error('Error loading invitation:', error)
+        setError('Network error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadInvitation()
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (invitation?.needsPassword && password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/auth/accept-invite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password, name }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to accept invitation')
+      } else {
+        setMessage(data.message)
+      }
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      setError('Network error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const errorBox = error && (
+    <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+      <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+      <span className="text-red-700 text-sm">{error}</span>
+    </div>
+  )
+
+  let content
+  if (!token) {
+    content = (
+      <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+        <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+        <span className="text-red-700 text-sm">
+          This invitation link is incomplete. Ask your firm to send a new one.
+        </span>
+      </div>
+    )
+  } else if (loading) {
+    content = (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (message) {
+    content = (
+      <div className="space-y-6">
+        <div className="flex items-start space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+          <span className="text-green-800 text-sm">{message}</span>
+        </div>
+        <Link
+          href="/auth/login"
+          className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          Sign In
+        </Link>
+      </div>
+    )
+  } else if (!invitation) {
+    content = errorBox
+  } else {
+    content = (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="p-4 bg-blue-50 border border-blue-100 rounded-lg text-sm text-gray-700">
+          <p>
+            <span className="font-medium text-gray-900">
+              {invitation.email}
+            </span>{' '}
+            is invited to join{' '}
+            <span className="font-medium text-gray-900">
+              {invitation.firmName}
+            </span>{' '}
+            as {invitation.roles.join(', ')}.
+          </p>
+          <p className="mt-1 text-gray-500">
+            Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+          </p>
+        </div>
+
+        {invitation.needsPassword && (
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Full Name
+            </label>
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                id="name"
+                name="name"
+                type="text"
+                autoComplete="name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
+                placeholder="Your name"
+              />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label
+            htmlFor="password"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            {invitation.needsPassword ? 'Choose a Password' : 'Your Password'}
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              id="password"
+              name="password"
+              type={showPassword ? 'text' : 'password'}
+              required
+              autoComplete={
+                invitation.needsPassword ? 'new-password' : 'current-password'
+              }
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full pl-10 pr-12 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
+              placeholder={
+                invitation.needsPassword
+                  ? 'At least 8 characters, with a letter and a number'
+                  : 'The password you already sign in with'
+              }
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label={showPassword ? 'Hide password' : 'Show password'}
+            >
+              {showPassword ? (
+                <EyeOff className="h-5 w-5" />
+              ) : (
+                <Eye className="h-5 w-5" />
+              )}
+            </button>
+          </div>
+        </div>
+
+        {invitation.needsPassword && (
+          <div>
+            <label
+              htmlFor="confirmPassword"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Confirm Password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+              <input
+                id="confirmPassword"
+                name="confirmPassword"
+                type={showPassword ? 'text' : 'password'}
+                required
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={e => setConfirmPassword(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
+                placeholder="Repeat the password"
+              />
+            </div>
+          </div>
+        )}
+
+        {errorBox}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          {submitting ? (
+            <>
+              <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2"></div>
+              Joining...
+            </>
+          ) : (
+            'Accept Invitation'
+          )}
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-6">
+            <div className="w-16 h-16 bg-gradient-to-br from-blue-600 to-purple-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <Scale className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Join Your Firm
+          </h1>
+          <p className="text-gray-600">
+            Accept the invitation to start using the platform.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl border border-gray-200 p-8">
+          {content}
+        </div>
+
+        <div className="mt-8 text-center">
+          <Link
+            href="/auth/login"
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
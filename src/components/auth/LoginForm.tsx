@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { signIn } from 'next-auth/react'
 import {
   Scale,
@@ -10,7 +11,13 @@ import {
   EyeOff,
   AlertCircle,
   ArrowRight,
+  ShieldCheck,
 } from 'lucide-react'
+import MfaSetup from './MfaSetup'
+
+// Sign-in steps: password, then a code when MFA is on, or enrollment when it
+// is required but not set up yet
+type LoginStep = 'password' | 'mfa' | 'mfa_setup'
 
 export default function LoginForm() {
   const [email, setEmail] = useState('')
@@ -18,10 +25,10 @@ export default function LoginForm() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [showPassword, setShowPassword] = useState(false)
+  const [step, setStep] = useState<LoginStep>('password')
+  const [code, setCode] = useState('')
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
+  const signInWithCode = async (mfaCode?: string) => {
     setLoading(true)
     setError('')
 
@@ -34,6 +41,7 @@ export default function LoginForm() {
       const result = await signIn('credentials', {
         email,
         password,
+        code: mfaCode || '',
         redirect: false,
       })
 
@@ -49,7 +57,15 @@ export default function LoginForm() {
         console.log('❌ Login failed:', result?.error)
 
         // Handle specific error cases
-        if (result?.error === 'CredentialsSignin') {
+        if (result?.error === 'MfaRequired') {
+          setStep('mfa')
+        } else if (result?.error === 'MfaSetupRequired') {
+          setStep('mfa_setup')
+        } else if (result?.error === 'InvalidMfaCode') {
+          setError('Invalid authentication code')
+        } else if (result?.error === 'MfaLocked') {
+          setError('Too many invalid codes. Try again in 15 minutes.')
+        } else if (result?.error === 'CredentialsSignin') {
           setError('Invalid email or password')
         } else if (result?.error) {
           setError('Authentication failed. Please try again.')
@@ -66,6 +82,18 @@ export default function LoginForm() {
     setLoading(false)
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    await signInWithCode(step === 'mfa' ? code : undefined)
+  }
+
+  const resetToPassword = () => {
+    setStep('password')
+    setCode('')
+    setError('')
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="w-full max-w-md">
@@ -86,92 +114,166 @@ export default function LoginForm() {
 
         {/* Sign In Form */}
         <div className="bg-white rounded-2xl shadow-xl border border-gray-200 p-8">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Email Field */}
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Email Address
-              </label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  required
-                  value={email}
-                  onChange={e => setEmail(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
-                  placeholder="Enter your email"
-                />
-              </div>
-            </div>
-
-            {/* Password Field */}
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? 'text' : 'password'}
-                  required
-                  value={password}
-                  onChange={e => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-12 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
-                  placeholder="Enter your password"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 transition-colors"
-                  aria-label={showPassword ? 'Hide password' : 'Show password'}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5" />
-                  ) : (
-                    <Eye className="h-5 w-5" />
-                  )}
-                </button>
+          {step === 'mfa_setup' ? (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-gray-900 font-medium">
+                <ShieldCheck className="h-5 w-5 text-blue-600" />
+                <span>Set up two-factor authentication</span>
               </div>
+              <p className="text-sm text-gray-600">
+                Your account requires a second sign-in step.
+              </p>
+              <MfaSetup
+                email={email}
+                password={password}
+                onComplete={mfaCode => signInWithCode(mfaCode)}
+                onCancel={resetToPassword}
+              />
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+                  <span className="text-red-700 text-sm">{error}</span>
+                </div>
+              )}
             </div>
-
-            {/* Error Message */}
-            {error && (
-              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
-                <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
-                <span className="text-red-700 text-sm">{error}</span>
-              </div>
-            )}
-
-            {/* Submit Button */}
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-            >
-              {loading ? (
-                <>
-                  <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2"></div>
-                  Signing in...
-                </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {step === 'mfa' ? (
+                <div>
+                  <label
+                    htmlFor="code"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Authentication Code
+                  </label>
+                  <div className="relative">
+                    <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                    <input
+                      id="code"
+                      name="code"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                      value={code}
+                      onChange={e => setCode(e.target.value)}
+                      className="w-full pl-10 pr-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
+                      placeholder="6-digit code or recovery code"
+                    />
+                  </div>
+                  <p className="mt-2 text-sm text-gray-500">
+                    Enter the code from your authenticator app, or one of your
+                    recovery codes.{' '}
+                    <button
+                      type="button"
+                      onClick={resetToPassword}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Start over
+                    </button>
+                  </p>
+                </div>
               ) : (
                 <>
-                  Sign In
-                  <ArrowRight className="ml-2 h-5 w-5" />
+                  {/* Email Field */}
+                  <div>
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      Email Address
+                    </label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                      <input
+                        id="email"
+                        name="email"
+                        type="email"
+                        required
+                        value={email}
+                        onChange={e => setEmail(e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
+                        placeholder="Enter your email"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Password Field */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label
+                        htmlFor="password"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Password
+                      </label>
+                      <Link
+                        href="/auth/forgot-password"
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                      <input
+                        id="password"
+                        name="password"
+                        type={showPassword ? 'text' : 'password'}
+                        required
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        className="w-full pl-10 pr-12 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors placeholder-gray-500"
+                        placeholder="Enter your password"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        aria-label={
+                          showPassword ? 'Hide password' : 'Show password'
+                        }
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-5 w-5" />
+                        ) : (
+                          <Eye className="h-5 w-5" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
                 </>
               )}
-            </button>
-          </form>
+
+              {/* Error Message */}
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+                  <span className="text-red-700 text-sm">{error}</span>
+                </div>
+              )}
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2"></div>
+                    Signing in...
+                  </>
+                ) : (
+                  <>
+                    {step === 'mfa' ? 'Verify' : 'Sign In'}
+                    <ArrowRight className="ml-2 h-5 w-5" />
+                  </>
+                )}
+              </button>
+            </form>
+          )}
         </div>
 
         {/* Footer Links */}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, Copy, KeyRound } from 'lucide-react'
+
+interface MfaSetupProps {
+  email: string
+  password: string
+  // Called with the confirming code once the recovery codes were shown
+  onComplete: (code: string) => void
+  onCancel?: () => void
+}
+
+interface SetupDetails {
+  secret: string
+  otpauthUrl: string
+  qrCode: string
+}
+
+export default function MfaSetup({
+  email,
+  password,
+  onComplete,
+  onCancel,
+}: MfaSetupProps) {
+  const [setup, setSetup] = useState<SetupDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  useEffect(() => {
+    const startSetup = async () => {
+      try {
+        const response = await fetch('/api/auth/mfa/setup', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email, password }),
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to start two-factor setup')
+        } else {
+          setSetup(data)
+        }
+      } catch (error) {
+        console.error('Error starting MFA setup:', error)
+        setError('Network error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    startSetup()
+  }, [email, password])
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/mfa/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, code }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to enable two-factor authentication')
+      } else {
+        setRecoveryCodes(data.recoveryCodes)
+      }
+    } catch (error) {
+      console.error('Error enabling MFA:', error)
+      setError('Network error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  let content
+  if (loading) {
+    content = (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (recoveryCodes) {
+    content = (
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2 text-gray-900 font-medium">
+          <KeyRound className="h-5 w-5 text-blue-600" />
+          <span>Save your recovery codes</span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Each code signs you in once if you lose your authenticator. They will
+          not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+          {recoveryCodes.map(recoveryCode => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            navigator.clipboard?.writeText(recoveryCodes.join('\n'))
+          }
+          className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          <Copy className="h-4 w-4 mr-1" />
+          Copy codes
+        </button>
+        <button
+          type="button"
+          onClick={() => onComplete(code)}
+          className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          I&apos;ve saved these codes
+        </button>
+      </div>
+    )
+  } else if (setup) {
+    content = (
+      <form onSubmit={handleConfirm} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Scan this code with an authenticator app, then enter the 6-digit code
+          it shows.
+        </p>
+        <div className="flex justify-center">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={setup.qrCode}
+            alt="Two-factor authentication QR code"
+            className="h-48 w-48"
+          />
+        </div>
+        <p className="text-xs text-gray-500 text-center">
+          Can&apos;t scan it? Enter this key instead:
+          <span className="block mt-1 font-mono text-sm text-gray-900 break-all">
+            {setup.secret}
+          </span>
+        </p>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          required
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          className="w-full px-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-center tracking-widest placeholder-gray-500"
+          placeholder="123456"
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-lg transition-colors duration-200"
+        >
+          {submitting ? 'Verifying...' : 'Verify and enable'}
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {content}
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {onCancel && !recoveryCodes && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="w-full text-sm text-gray-600 hover:text-gray-900"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,575 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  MapPin,
+  Clock,
+  AlertTriangle,
+} from 'lucide-react'
+
+interface CalendarEvent {
+  id: string
+  type: string
+  title: string
+  description?: string | null
+  location?: string | null
+  courtName?: string | null
+  start: string
+  end?: string | null
+  allDay: boolean
+  caseTitle?: string | null
+  clientName?: string | null
+  assignedUserName?: string | null
+}
+
+interface ConflictWarning {
+  type: string
+  message: string
+  eventId: string
+  eventTitle?: string | null
+  start: string
+  end: string
+}
+
+type CalendarMode = 'day' | 'week' | 'month'
+
+interface CalendarViewProps {
+  caseId?: string
+  allowCreate?: boolean
+  onEventCreated?: () => void
+  className?: string
+}
+
+const TYPE_STYLES: Record<string, { color: string; label: string }> = {
+  HEARING: { color: 'bg-red-100 text-red-700', label: 'Hearing' },
+  APPOINTMENT: { color: 'bg-blue-100 text-blue-700', label: 'Appointment' },
+  DEADLINE: { color: 'bg-orange-100 text-orange-700', label: 'Deadline' },
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const EMPTY_FORM = {
+  type: 'APPOINTMENT',
+  title: '',
+  start: '',
+  end: '',
+  location: '',
+  courtName: '',
+  judgeName: '',
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  )
+}
+
+// Visible date range for a mode; months are padded to whole weeks
+function getRange(mode: CalendarMode, cursor: Date) {
+  const day = startOfDay(cursor)
+
+  if (mode === 'day') {
+    return { start: day, end: addDays(day, 1) }
+  }
+
+  if (mode === 'week') {
+    const start = addDays(day, -day.getDay())
+    return { start, end: addDays(start, 7) }
+  }
+
+  const first = new Date(day.getFullYear(), day.getMonth(), 1)
+  const start = addDays(first, -first.getDay())
+  const last = new Date(day.getFullYear(), day.getMonth() + 1, 0)
+  const end = addDays(last, 7 - last.getDay())
+  return { start, end }
+}
+
+export default function CalendarView({
+  caseId,
+  allowCreate = false,
+  onEventCreated,
+  className = '',
+}: CalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>('month')
+  const [cursor, setCursor] = useState(() => new Date())
+  const [events, setEvents] = useState<CalendarEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [conflicts, setConflicts] = useState<ConflictWarning[]>([])
+  const [blocked, setBlocked] = useState(false)
+
+  const { start, end } = getRange(mode, cursor)
+  const rangeStart = start.getTime()
+  const rangeEnd = end.getTime()
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({
+        start: new Date(rangeStart).toISOString(),
+        end: new Date(rangeEnd).toISOString(),
+      })
+      if (caseId) params.set('caseId', caseId)
+
+      const response = await fetch(`/api/calendar?${params}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch events: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setEvents(data.events || [])
+    } catch (err) {
+      console.error('Error loading calendar:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load calendar')
+    } finally {
+      setLoading(false)
+    }
+  }, [rangeStart, rangeEnd, caseId])
+
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
+
+  const move = (direction: 1 | -1) => {
+    if (mode === 'day') setCursor(prev => addDays(prev, direction))
+    if (mode === 'week') setCursor(prev => addDays(prev, 7 * direction))
+    if (mode === 'month') {
+      setCursor(
+        prev => new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+      )
+    }
+  }
+
+  const eventsOn = (day: Date) =>
+    events.filter(event => isSameDay(new Date(event.start), day))
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/calendar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: form.type,
+          title: form.title,
+          start: new Date(form.start).toISOString(),
+          end: form.end ? new Date(form.end).toISOString() : undefined,
+          location: form.location || undefined,
+          courtName: form.courtName || undefined,
+          judgeName: form.judgeName || undefined,
+          caseId,
+        }),
+      })
+
+      const result = await response.json()
+      setConflicts(result.conflicts || [])
+      setBlocked(response.status === 409)
+
+      if (!response.ok) {
+        if (response.status === 409) return
+        throw new Error(result.error || 'Failed to create event')
+      }
+
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      loadEvents()
+      onEventCreated?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create event')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderEventChip = (event: CalendarEvent) => {
+    const style = TYPE_STYLES[event.type] || TYPE_STYLES.APPOINTMENT
+    return (
+      <div
+        key={event.id}
+        title={event.title}
+        className={`text-xs truncate rounded px-1.5 py-0.5 ${style.color}`}
+      >
+        {!event.allDay &&
+          new Date(event.start).toLocaleTimeString([], {
+            hour: 'numeric',
+            minute: '2-digit',
+          }) + ' '}
+        {event.title}
+      </div>
+    )
+  }
+
+  const renderEventRow = (event: CalendarEvent) => {
+    const style = TYPE_STYLES[event.type] || TYPE_STYLES.APPOINTMENT
+    return (
+      <li key={event.id} className="py-3">
+        <div className="flex items-center space-x-2">
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded ${style.color}`}
+          >
+            {style.label}
+          </span>
+          <span className="text-sm font-medium text-gray-900">
+            {event.title}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 mt-1">
+          <span className="flex items-center">
+            <Clock className="h-3 w-3 mr-1" />
+            {event.allDay
+              ? 'All day'
+              : new Date(event.start).toLocaleTimeString([], {
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+            {event.end &&
+              !event.allDay &&
+              ` – ${new Date(event.end).toLocaleTimeString([], {
+                hour: 'numeric',
+                minute: '2-digit',
+              })}`}
+          </span>
+          {(event.courtName || event.location) && (
+            <span className="flex items-center">
+              <MapPin className="h-3 w-3 mr-1" />
+              {event.courtName || event.location}
+            </span>
+          )}
+          {event.caseTitle && <span>Case: {event.caseTitle}</span>}
+          {event.assignedUserName && <span>{event.assignedUserName}</span>}
+        </div>
+      </li>
+    )
+  }
+
+  const title =
+    mode === 'month'
+      ? cursor.toLocaleDateString([], { month: 'long', year: 'numeric' })
+      : mode === 'week'
+        ? `${start.toLocaleDateString()} – ${addDays(end, -1).toLocaleDateString()}`
+        : cursor.toLocaleDateString([], {
+            weekday: 'long',
+            month: 'long',
+            day: 'numeric',
+            year: 'numeric',
+          })
+
+  const days: Date[] = []
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => move(-1)}
+            className="p-1.5 rounded-lg border border-gray-300 hover:bg-gray-50"
+            aria-label="Previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setCursor(new Date())}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => move(1)}
+            className="p-1.5 rounded-lg border border-gray-300 hover:bg-gray-50"
+            aria-label="Next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <h3 className="text-lg font-medium text-gray-900 ml-2">{title}</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {(['day', 'week', 'month'] as CalendarMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1.5 text-sm capitalize ${
+                  mode === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          {allowCreate && (
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Event
+            </button>
+          )}
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div
+          className={`rounded-lg p-4 border ${
+            blocked
+              ? 'bg-red-50 border-red-200'
+              : 'bg-yellow-50 border-yellow-200'
+          }`}
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2">
+              <AlertTriangle
+                className={`h-4 w-4 mt-0.5 ${
+                  blocked ? 'text-red-600' : 'text-yellow-600'
+                }`}
+              />
+              <div>
+                <p
+                  className={`text-sm font-medium ${
+                    blocked ? 'text-red-800' : 'text-yellow-800'
+                  }`}
+                >
+                  {blocked
+                    ? 'Event not saved: it conflicts with existing bookings'
+                    : 'Event saved with scheduling conflicts'}
+                </p>
+                <ul className="mt-1 space-y-1">
+                  {conflicts.map(conflict => (
+                    <li
+                      key={`${conflict.type}-${conflict.eventId}`}
+                      className="text-xs text-gray-700"
+                    >
+                      {conflict.message} ({conflict.eventTitle || 'Busy'},{' '}
+                      {new Date(conflict.start).toLocaleString([], {
+                        dateStyle: 'short',
+                        timeStyle: 'short',
+                      })}
+                      )
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+            <button
+              onClick={() => setConflicts([])}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleCreate}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.type}
+              onChange={e =>
+                setForm(prev => ({ ...prev, type: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="APPOINTMENT">Appointment</option>
+              <option value="HEARING">Hearing</option>
+              <option value="DEADLINE">Deadline</option>
+            </select>
+            <input
+              type="text"
+              required
+              value={form.title}
+              onChange={e =>
+                setForm(prev => ({ ...prev, title: e.target.value }))
+              }
+              placeholder="Title"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm md:col-span-2"
+            />
+            <input
+              type="datetime-local"
+              required
+              value={form.start}
+              onChange={e =>
+                setForm(prev => ({ ...prev, start: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="datetime-local"
+              value={form.end}
+              onChange={e =>
+                setForm(prev => ({ ...prev, end: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              value={form.location}
+              onChange={e =>
+                setForm(prev => ({ ...prev, location: e.target.value }))
+              }
+              placeholder="Location"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            {form.type === 'HEARING' && (
+              <>
+                <input
+                  type="text"
+                  value={form.courtName}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, courtName: e.target.value }))
+                  }
+                  placeholder="Court / courtroom"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="text"
+                  value={form.judgeName}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, judgeName: e.target.value }))
+                  }
+                  placeholder="Judge"
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+            >
+              {saving ? 'Saving...' : 'Save Event'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">
+            Error loading calendar: {error}
+          </p>
+          <button
+            onClick={loadEvents}
+            className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : (
+        <div className={loading ? 'opacity-60' : ''}>
+          {mode === 'month' && (
+            <div className="grid grid-cols-7 border-t border-l border-gray-200">
+              {WEEKDAYS.map(weekday => (
+                <div
+                  key={weekday}
+                  className="border-r border-b border-gray-200 bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500"
+                >
+                  {weekday}
+                </div>
+              ))}
+              {days.map(day => {
+                const dayEvents = eventsOn(day)
+                return (
+                  <button
+                    key={day.toISOString()}
+                    onClick={() => {
+                      setCursor(day)
+                      setMode('day')
+                    }}
+                    className={`border-r border-b border-gray-200 min-h-24 p-1 text-left align-top hover:bg-gray-50 ${
+                      day.getMonth() !== cursor.getMonth() ? 'bg-gray-50' : ''
+                    }`}
+                  >
+                    <span
+                      className={`text-xs ${
+                        isSameDay(day, new Date())
+                          ? 'font-bold text-blue-600'
+                          : 'text-gray-600'
+                      }`}
+                    >
+                      {day.getDate()}
+                    </span>
+                    <div className="space-y-0.5 mt-1">
+                      {dayEvents.slice(0, 3).map(renderEventChip)}
+                      {dayEvents.length > 3 && (
+                        <p className="text-xs text-gray-500">
+                          +{dayEvents.length - 3} more
+                        </p>
+                      )}
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {mode === 'week' && (
+            <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+              {days.map(day => (
+                <div
+                  key={day.toISOString()}
+                  className="border border-gray-200 rounded-lg p-2 min-h-40"
+                >
+                  <p
+                    className={`text-xs font-medium mb-2 ${
+                      isSameDay(day, new Date())
+                        ? 'text-blue-600'
+                        : 'text-gray-500'
+                    }`}
+                  >
+                    {WEEKDAYS[day.getDay()]} {day.getDate()}
+                  </p>
+                  <div className="space-y-1">
+                    {eventsOn(day).map(renderEventChip)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {mode === 'day' &&
+            (eventsOn(cursor).length === 0 ? (
+              <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+                <p className="text-sm text-gray-500">Nothing scheduled</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {eventsOn(cursor).map(renderEventRow)}
+              </ul>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,333 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Users, ShieldOff, Plus, X } from 'lucide-react'
+
+interface CaseMember {
+  id: string
+  userId: string
+  userName?: string | null
+  access: 'MEMBER' | 'DENIED'
+  matterRole?: string | null
+  reason?: string | null
+  addedByName?: string | null
+  createdAt: string
+}
+
+interface FirmUser {
+  id: string
+  name: string
+}
+
+interface CaseTeamData {
+  assignedLawyer: { id: string; name: string } | null
+  members: CaseMember[]
+  walls: CaseMember[]
+  firmUsers: FirmUser[]
+  canManageTeam: boolean
+  canManageWalls: boolean
+}
+
+interface CaseTeamProps {
+  caseId: string
+  onChange?: () => void
+  className?: string
+}
+
+const EMPTY_FORM = { userId: '', access: 'MEMBER', matterRole: '', reason: '' }
+
+export default function CaseTeam({
+  caseId,
+  onChange,
+  className = '',
+}: CaseTeamProps) {
+  const [team, setTeam] = useState<CaseTeamData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const loadTeam = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/members`
+      )
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch case team: ${response.status}`)
+      }
+
+      setTeam(await response.json())
+    } catch (err) {
+      console.error('Error loading case team:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load case team')
+    } finally {
+      setLoading(false)
+    }
+  }, [caseId])
+
+  useEffect(() => {
+    loadTeam()
+  }, [loadTeam])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/members`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            userId: form.userId,
+            access: form.access,
+            matterRole: form.access === 'MEMBER' ? form.matterRole : undefined,
+            reason: form.access === 'DENIED' ? form.reason : undefined,
+          }),
+        }
+      )
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save team member')
+      }
+
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      loadTeam()
+      onChange?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save team member')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (member: CaseMember) => {
+    const prompt =
+      member.access === 'DENIED'
+        ? `Lift the ethical wall for ${member.userName || 'this user'}?`
+        : `Remove ${member.userName || 'this user'} from the case team?`
+    if (!confirm(prompt)) return
+
+    try {
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/members/${encodeURIComponent(member.id)}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to remove team member')
+      }
+
+      loadTeam()
+      onChange?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to remove team member')
+    }
+  }
+
+  let content: React.ReactNode
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error || !team) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">Error loading case team: {error}</p>
+        <button
+          onClick={loadTeam}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else {
+    const canRemove = (member: CaseMember) =>
+      member.access === 'DENIED' ? team.canManageWalls : team.canManageTeam
+
+    content = (
+      <div className="space-y-4">
+        <ul className="divide-y divide-gray-200">
+          <li className="flex items-center justify-between py-2">
+            <span className="text-sm font-medium text-gray-900">
+              {team.assignedLawyer?.name || 'Unassigned'}
+            </span>
+            <span className="text-xs text-gray-500">Assigned lawyer</span>
+          </li>
+          {team.members.map(member => (
+            <li
+              key={member.id}
+              className="flex items-center justify-between py-2"
+            >
+              <span className="text-sm text-gray-900">
+                {member.userName || 'Unknown user'}
+              </span>
+              <span className="flex items-center space-x-2">
+                <span className="text-xs text-gray-500">
+                  {member.matterRole || 'Team member'}
+                </span>
+                {canRemove(member) && (
+                  <button
+                    onClick={() => handleRemove(member)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove from team"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {team.canManageWalls && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 flex items-center mb-2">
+              <ShieldOff className="h-4 w-4 mr-1 text-red-600" />
+              Ethical walls
+            </h4>
+            {team.walls.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Nobody is screened from this case.
+              </p>
+            ) : (
+              <ul className="divide-y divide-red-100 bg-red-50 rounded-lg px-3">
+                {team.walls.map(wall => (
+                  <li
+                    key={wall.id}
+                    className="flex items-start justify-between py-2"
+                  >
+                    <div>
+                      <p className="text-sm text-red-900">
+                        {wall.userName || 'Unknown user'}
+                      </p>
+                      <p className="text-xs text-red-700">
+                        {wall.reason || 'No reason recorded'}
+                        {wall.addedByName && ` · by ${wall.addedByName}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRemove(wall)}
+                      className="text-xs text-red-600 hover:text-red-800 underline"
+                    >
+                      Lift
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Users className="h-5 w-5 mr-2 text-blue-600" />
+          Case Team
+        </h3>
+        {team && (team.canManageTeam || team.canManageWalls) && (
+          <button
+            onClick={() => {
+              setForm({
+                ...EMPTY_FORM,
+                access: team.canManageTeam ? 'MEMBER' : 'DENIED',
+              })
+              setShowForm(!showForm)
+            }}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </button>
+        )}
+      </div>
+
+      {showForm && team && (
+        <form
+          onSubmit={handleAdd}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              required
+              value={form.userId}
+              onChange={e =>
+                setForm(prev => ({ ...prev, userId: e.target.value }))
+              }
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Select a person</option>
+              {team.firmUsers.map(user => (
+                <option key={user.id} value={user.id}>
+                  {user.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.access}
+              onChange={e =>
+                setForm(prev => ({ ...prev, access: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {team.canManageTeam && (
+                <option value="MEMBER">Team member</option>
+              )}
+              {team.canManageWalls && (
+                <option value="DENIED">Wall off from case</option>
+              )}
+            </select>
+          </div>
+          {form.access === 'DENIED' ? (
+            <input
+              type="text"
+              value={form.reason}
+              onChange={e =>
+                setForm(prev => ({ ...prev, reason: e.target.value }))
+              }
+              placeholder="Reason (e.g. conflict with former client)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          ) : (
+            <input
+              type="text"
+              value={form.matterRole}
+              onChange={e =>
+                setForm(prev => ({ ...prev, matterRole: e.target.value }))
+              }
+              placeholder="Role on the matter (e.g. Second chair)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          )}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {content}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Scale,
+  RefreshCw,
+  UserCheck,
+  FileText,
+  StickyNote,
+  Gavel,
+  Pencil,
+  Clock,
+  Plus,
+} from 'lucide-react'
+
+interface TimelineEvent {
+  id: string
+  type: string
+  title: string
+  description?: string | null
+  actorName?: string | null
+  occurredAt: string
+}
+
+interface CaseTimelineProps {
+  caseId: string
+  refreshTrigger?: number
+  allowEntries?: boolean
+  className?: string
+}
+
+const EVENT_STYLES: Record<
+  string,
+  { icon: React.ElementType; color: string; label: string }
+> = {
+  CASE_CREATED: {
+    icon: Scale,
+    color: 'bg-blue-100 text-blue-600',
+    label: 'Opened',
+  },
+  CASE_UPDATED: {
+    icon: Pencil,
+    color: 'bg-gray-100 text-gray-600',
+    label: 'Updated',
+  },
+  STATUS_CHANGED: {
+    icon: RefreshCw,
+    color: 'bg-purple-100 text-purple-600',
+    label: 'Status',
+  },
+  REASSIGNED: {
+    icon: UserCheck,
+    color: 'bg-green-100 text-green-600',
+    label: 'Assignment',
+  },
+  DOCUMENT_UPLOADED: {
+    icon: FileText,
+    color: 'bg-orange-100 text-orange-600',
+    label: 'Document',
+  },
+  NOTE_ADDED: {
+    icon: StickyNote,
+    color: 'bg-yellow-100 text-yellow-700',
+    label: 'Note',
+  },
+  HEARING: { icon: Gavel, color: 'bg-red-100 text-red-600', label: 'Hearing' },
+}
+
+export default function CaseTimeline({
+  caseId,
+  refreshTrigger,
+  allowEntries = false,
+  className = '',
+}: CaseTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [entry, setEntry] = useState({
+    type: 'NOTE_ADDED',
+    title: '',
+    description: '',
+    occurredAt: '',
+  })
+
+  const loadTimeline = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/timeline`
+      )
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch timeline: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setEvents(data.events || [])
+    } catch (err) {
+      console.error('Error loading timeline:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load timeline')
+    } finally {
+      setLoading(false)
+    }
+  }, [caseId])
+
+  useEffect(() => {
+    loadTimeline()
+  }, [loadTimeline, refreshTrigger])
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/timeline`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            type: entry.type,
+            title: entry.title,
+            description: entry.description || undefined,
+            occurredAt: entry.occurredAt || undefined,
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Failed to add entry')
+      }
+
+      setEntry({
+        type: 'NOTE_ADDED',
+        title: '',
+        description: '',
+        occurredAt: '',
+      })
+      setShowForm(false)
+      loadTimeline()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add entry')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Case Timeline</h3>
+        <div className="flex items-center space-x-3">
+          {allowEntries && (
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Entry
+            </button>
+          )}
+          <button
+            onClick={loadTimeline}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleAddEntry}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={entry.type}
+              onChange={e =>
+                setEntry(prev => ({ ...prev, type: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="NOTE_ADDED">Note</option>
+              <option value="HEARING">Hearing</option>
+            </select>
+            <input
+              type="text"
+              required
+              value={entry.title}
+              onChange={e =>
+                setEntry(prev => ({ ...prev, title: e.target.value }))
+              }
+              placeholder="Title"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="datetime-local"
+              value={entry.occurredAt}
+              onChange={e =>
+                setEntry(prev => ({ ...prev, occurredAt: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <textarea
+            value={entry.description}
+            onChange={e =>
+              setEntry(prev => ({ ...prev, description: e.target.value }))
+            }
+            placeholder="Details (optional)"
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+            >
+              {saving ? 'Saving...' : 'Save Entry'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">
+            Error loading timeline: {error}
+          </p>
+          <button
+            onClick={loadTimeline}
+            className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+          <p className="text-sm text-gray-500">No history recorded yet</p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-4">
+          {events.map(event => {
+            const style = EVENT_STYLES[event.type] || EVENT_STYLES.CASE_UPDATED
+            const Icon = style.icon
+
+            return (
+              <li key={event.id} className="mb-6 ml-6">
+                <span
+                  className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ring-4 ring-white ${style.color}`}
+                >
+                  <Icon className="h-4 w-4" />
+                </span>
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs font-medium text-gray-500 uppercase">
+                    {style.label}
+                  </span>
+                  <span className="text-xs text-gray-400 flex items-center">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {new Date(event.occurredAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm font-medium text-gray-900 mt-1">
+                  {event.title}
+                </p>
+                {event.description && (
+                  <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">
+                    {event.description}
+                  </p>
+                )}
+                {event.actorName && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    by {event.actorName}
+                  </p>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Search, UserPlus, Mail, Phone, Briefcase } from 'lucide-react'
+
+interface ClientSummary {
+  id: string
+  email: string
+  fullName: string
+  phone?: string | null
+  isActive: boolean
+  caseCount?: number
+  documentCount?: number
+}
+
+interface ClientDirectoryProps {
+  allowCreate?: boolean
+  className?: string
+}
+
+const EMPTY_FORM = { firstName: '', lastName: '', email: '', phone: '' }
+
+export default function ClientDirectory({
+  allowCreate = false,
+  className = '',
+}: ClientDirectoryProps) {
+  const [clients, setClients] = useState<ClientSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [status, setStatus] = useState('active')
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const loadClients = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ status, page: String(page) })
+      if (search.trim()) {
+        params.set('search', search.trim())
+      }
+
+      const response = await fetch(`/api/clients?${params}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch clients: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setClients(data.clients || [])
+      setPages(data.pagination?.pages || 1)
+    } catch (err) {
+      console.error('Error loading clients:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load clients')
+    } finally {
+      setLoading(false)
+    }
+  }, [search, status, page])
+
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timer = setTimeout(loadClients, 300)
+    return () => clearTimeout(timer)
+  }, [loadClients])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          phone: form.phone || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Failed to create client')
+      }
+
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      loadClients()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create client')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div className="flex items-center gap-3 flex-1">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={e => {
+                setSearch(e.target.value)
+                setPage(1)
+              }}
+              placeholder="Search by name, email or phone"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <select
+            value={status}
+            onChange={e => {
+              setStatus(e.target.value)
+              setPage(1)
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        {allowCreate && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add Client
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleCreate}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              required
+              value={form.firstName}
+              onChange={e =>
+                setForm(prev => ({ ...prev, firstName: e.target.value }))
+              }
+              placeholder="First name"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              required
+              value={form.lastName}
+              onChange={e =>
+                setForm(prev => ({ ...prev, lastName: e.target.value }))
+              }
+              placeholder="Last name"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="email"
+              required
+              value={form.email}
+              onChange={e =>
+                setForm(prev => ({ ...prev, email: e.target.value }))
+              }
+              placeholder="Email"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="tel"
+              value={form.phone}
+              onChange={e =>
+                setForm(prev => ({ ...prev, phone: e.target.value }))
+              }
+              placeholder="Phone (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+            >
+              {saving ? 'Saving...' : 'Create Client'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">Error loading clients: {error}</p>
+          <button
+            onClick={loadClients}
+            className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : clients.length === 0 ? (
+        <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+          <p className="text-sm text-gray-500">No clients found</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+          {clients.map(client => (
+            <li key={client.id}>
+              <Link
+                href={`/dashboard/clients/${client.id}`}
+                className="flex items-center justify-between p-4 hover:bg-gray-50"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="text-sm font-medium text-gray-900">
+                      {client.fullName}
+                    </p>
+                    {!client.isActive && (
+                      <span className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-0.5 rounded">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 mt-1">
+                    <span className="flex items-center">
+                      <Mail className="h-3 w-3 mr-1" />
+                      {client.email}
+                    </span>
+                    {client.phone && (
+                      <span className="flex items-center">
+                        <Phone className="h-3 w-3 mr-1" />
+                        {client.phone}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <span className="flex items-center text-xs text-gray-500">
+                  <Briefcase className="h-3 w-3 mr-1" />
+                  {client.caseCount ?? 0} cases · {client.documentCount ?? 0}{' '}
+                  documents
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-end space-x-3 text-sm">
+          <button
+            onClick={() => setPage(prev => Math.max(prev - 1, 1))}
+            disabled={page === 1}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">
+            Page {page} of {pages}
+          </span>
+          <button
+            onClick={() => setPage(prev => Math.min(prev + 1, pages))}
+            disabled={page === pages}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
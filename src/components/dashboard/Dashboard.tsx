@@ -2,8 +2,13 @@
 
 import { User } from '@/types/user'
 import { useState } from 'react'
+import Link from 'next/link'
 import FileUpload from './FileUpload'
 import FileList from './FileList'
+import DocumentSearch from './DocumentSearch'
+import TaskList from './TaskList'
+import FirmSwitcher from '@/components/ui/FirmSwitcher'
+import { PERMISSIONS, ROLE_PERMISSIONS, toRole } from '@/lib/rbac'
 import {
   Scale,
   Users,
@@ -21,6 +26,9 @@ import {
   Bell,
   Settings,
   ChevronDown,
+  Link2,
+  ShieldCheck,
+  MonitorSmartphone,
 } from 'lucide-react'
 
 interface DashboardProps {
@@ -30,6 +38,16 @@ interface DashboardProps {
 export default function Dashboard({ user }: DashboardProps) {
   const [refreshTrigger, setRefreshTrigger] = useState(0)
 
+  // UI hints only; the API enforces permissions
+  const rolePermissions = ROLE_PERMISSIONS[toRole(user.role)] || []
+  const canShareDocuments = rolePermissions.includes(
+    PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS
+  )
+  const canShareExternally = rolePermissions.includes(
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL
+  )
+  const canViewTeam = rolePermissions.includes(PERMISSIONS.USERS.VIEW)
+
   const handleUploadComplete = (fileKey: string, fileName: string) => {
     setRefreshTrigger(prev => prev + 1)
     console.log('File uploaded:', fileName, 'Key:', fileKey)
@@ -164,16 +182,63 @@ export default function Dashboard({ user }: DashboardProps) {
 
             {/* Right side - Actions and user menu */}
             <div className="flex items-center space-x-4">
+              {/* Firm switcher for members of several firms */}
+              <FirmSwitcher lawFirmId={user.lawFirmId} />
+
               {/* Notifications */}
               <button className="relative p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
                 <Bell className="h-5 w-5" />
                 <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
               </button>
 
+              {/* External share links */}
+              {canShareExternally && (
+                <Link
+                  href="/dashboard/share-links"
+                  title="Share links"
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <Link2 className="h-5 w-5" />
+                </Link>
+              )}
+
+              {/* Team and invitations */}
+              {canViewTeam && (
+                <Link
+                  href="/dashboard/team"
+                  title="Team"
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <Users className="h-5 w-5" />
+                </Link>
+              )}
+
+              {/* Security */}
+              <Link
+                href="/dashboard/security"
+                title="Security"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ShieldCheck className="h-5 w-5" />
+              </Link>
+
+              {/* Sessions */}
+              <Link
+                href="/dashboard/sessions"
+                title="Sessions"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <MonitorSmartphone className="h-5 w-5" />
+              </Link>
+
               {/* Settings */}
-              <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+              <Link
+                href="/dashboard/roles"
+                title="Roles & permissions"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
                 <Settings className="h-5 w-5" />
-              </button>
+              </Link>
 
               {/* User Menu */}
               <div className="relative flex items-center space-x-3">
@@ -338,6 +403,17 @@ export default function Dashboard({ user }: DashboardProps) {
 
             {/* Quick Stats Sidebar */}
             <div className="space-y-6">
+              {/* My Tasks */}
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+                <TaskList assignedToMe limit={5} />
+                <Link
+                  href="/dashboard/tasks"
+                  className="block mt-4 text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  View all tasks
+                </Link>
+              </div>
+
               {/* Upcoming Deadlines */}
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -431,8 +507,16 @@ export default function Dashboard({ user }: DashboardProps) {
                 className="w-full"
               />
 
+              {/* Full-text search */}
+              <DocumentSearch className="w-full" />
+
               {/* File List */}
-              <FileList refreshTrigger={refreshTrigger} className="w-full" />
+              <FileList
+                refreshTrigger={refreshTrigger}
+                allowSharing={canShareDocuments}
+                allowExternalLinks={canShareExternally}
+                className="w-full"
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,177 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Search, X } from 'lucide-react'
+
+interface SearchHit {
+  id: string
+  fileName: string
+  key: string
+  caseId?: string | null
+  caseTitle?: string | null
+  uploadedAt: string
+  // HTML-escaped server side; matches are wrapped in <mark>
+  snippet?: string | null
+}
+
+interface DocumentSearchProps {
+  caseId?: string
+  className?: string
+}
+
+export default function DocumentSearch({
+  caseId,
+  className = '',
+}: DocumentSearchProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchHit[] | null>(null)
+  const [total, setTotal] = useState(0)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!query.trim()) return
+
+    try {
+      setSearching(true)
+      setError(null)
+
+      const params = new URLSearchParams({ q: query.trim() })
+      if (caseId) params.set('caseId', caseId)
+
+      const response = await fetch(`/api/documents/search?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed')
+      }
+
+      setResults(data.results || [])
+      setTotal(data.total || 0)
+    } catch (err) {
+      console.error('Error searching documents:', err)
+      setError(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const clearSearch = () => {
+    setQuery('')
+    setResults(null)
+    setError(null)
+  }
+
+  const handleDownload = async (hit: SearchHit) => {
+    try {
+      const response = await fetch(
+        `/api/documents/download/${encodeURIComponent(hit.key)}`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to generate download link')
+      }
+
+      const result = await response.json()
+      const link = document.createElement('a')
+      link.href = result.download?.downloadUrl
+      link.download = hit.fileName
+      link.click()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Download failed')
+    }
+  }
+
+  return (
+    <div className={`${className} space-y-3`}>
+      <form onSubmit={handleSearch} className="flex space-x-2">
+        <div className="relative flex-1">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search document contents..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={searching || !query.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+        >
+          {searching ? 'Searching...' : 'Search'}
+        </button>
+        {results && (
+          <button
+            type="button"
+            onClick={clearSearch}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {results &&
+        (results.length === 0 ? (
+          <div className="text-center p-6 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+            <p className="text-sm text-gray-500">No documents match</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <p className="px-4 py-2 text-xs text-gray-500 border-b border-gray-200">
+              {total} result{total === 1 ? '' : 's'}
+            </p>
+            <ul className="divide-y divide-gray-200">
+              {results.map(hit => (
+                <li key={hit.id} className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {hit.fileName}
+                      </p>
+                      <div className="flex items-center space-x-3 text-xs text-gray-500 mt-0.5">
+                        <span>
+                          {new Date(hit.uploadedAt).toLocaleDateString()}
+                        </span>
+                        {hit.caseId && !caseId && (
+                          <Link
+                            href={`/dashboard/cases/${hit.caseId}`}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {hit.caseTitle}
+                          </Link>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleDownload(hit)}
+                      className="ml-4 text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Download
+                    </button>
+                  </div>
+                  {hit.snippet && (
+                    <p
+                      className="text-xs text-gray-600 mt-2 [&_mark]:bg-yellow-100 [&_mark]:text-gray-900"
+                      dangerouslySetInnerHTML={{ __html: hit.snippet }}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Lock, X } from 'lucide-react'
+
+interface DocumentGrant {
+  id: string
+  granteeType: 'USER' | 'ROLE' | 'CLIENT'
+  granteeId: string | null
+  granteeName?: string | null
+  expiresAt?: string | null
+  expired: boolean
+  grantedByName?: string | null
+}
+
+interface Grantee {
+  id: string
+  name: string
+}
+
+interface DocumentShareDialogProps {
+  documentId: string
+  fileName: string
+  onClose: () => void
+  onChange?: () => void
+}
+
+const GRANTEE_LABELS: Record<DocumentGrant['granteeType'], string> = {
+  USER: 'Person',
+  ROLE: 'Role',
+  CLIENT: 'Client',
+}
+
+const EMPTY_FORM = { granteeType: 'USER', granteeId: '', expiresAt: '' }
+
+export default function DocumentShareDialog({
+  documentId,
+  fileName,
+  onClose,
+  onChange,
+}: DocumentShareDialogProps) {
+  const [grants, setGrants] = useState<DocumentGrant[]>([])
+  const [grantees, setGrantees] = useState<{
+    users: Grantee[]
+    roles: Grantee[]
+    clients: Grantee[]
+  }>({ users: [], roles: [], clients: [] })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const permissionsUrl = `/api/documents/${encodeURIComponent(documentId)}/permissions`
+
+  const loadGrants = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(permissionsUrl)
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to load sharing settings')
+      }
+
+      const data = await response.json()
+      setGrants(data.grants || [])
+      setGrantees(data.grantees)
+    } catch (err) {
+      console.error('Error loading document permissions:', err)
+      setError(
+        err instanceof Error ? err.message : 'Failed to load sharing settings'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [permissionsUrl])
+
+  useEffect(() => {
+    loadGrants()
+  }, [loadGrants])
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(permissionsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          granteeType: form.granteeType,
+          granteeId: form.granteeId,
+          // Access lasts through the chosen day
+          expiresAt: form.expiresAt
+            ? new Date(`${form.expiresAt}T23:59:59`).toISOString()
+            : undefined,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to share document')
+      }
+
+      setForm(prev => ({ ...EMPTY_FORM, granteeType: prev.granteeType }))
+      loadGrants()
+      onChange?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to share document')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (grant: DocumentGrant) => {
+    try {
+      const response = await fetch(
+        `${permissionsUrl}/${encodeURIComponent(grant.id)}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to revoke access')
+      }
+
+      loadGrants()
+      onChange?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revoke access')
+    }
+  }
+
+  const options =
+    form.granteeType === 'ROLE'
+      ? grantees.roles
+      : form.granteeType === 'CLIENT'
+        ? grantees.clients
+        : grantees.users
+  const restricted = grants.some(grant => grant.granteeType !== 'CLIENT')
+
+  let content: React.ReactNode
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadGrants}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else {
+    content = (
+      <div className="space-y-4">
+        <p className="text-xs text-gray-600">
+          {restricted
+            ? 'Only the people and roles below (plus the uploader) can open this document.'
+            : 'Everyone who can see the case can open this document. Sharing with a person or role restricts it to them.'}
+        </p>
+
+        {grants.length === 0 ? (
+          <div className="text-center p-6 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+            <p className="text-sm text-gray-500">Not shared with anyone</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {grants.map(grant => (
+              <li
+                key={grant.id}
+                className="flex items-center justify-between py-2"
+              >
+                <div className={grant.expired ? 'opacity-50' : ''}>
+                  <p className="text-sm text-gray-900">
+                    {grant.granteeName || 'Unknown'}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {GRANTEE_LABELS[grant.granteeType]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {grant.expiresAt
+                      ? `${grant.expired ? 'Expired' : 'Until'} ${new Date(grant.expiresAt).toLocaleDateString()}`
+                      : 'No expiry'}
+                    {grant.grantedByName && ` · by ${grant.grantedByName}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(grant)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label="Revoke access"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          onSubmit={handleShare}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={form.granteeType}
+              onChange={e =>
+                setForm(prev => ({
+                  ...prev,
+                  granteeType: e.target.value,
+                  granteeId: '',
+                }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="USER">Person</option>
+              <option value="ROLE">Role</option>
+              <option value="CLIENT">Client</option>
+            </select>
+            <select
+              required
+              value={form.granteeId}
+              onChange={e =>
+                setForm(prev => ({ ...prev, granteeId: e.target.value }))
+              }
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Select...</option>
+              {options.map(option => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-xs text-gray-600">Expires</label>
+            <input
+              type="date"
+              value={form.expiresAt}
+              onChange={e =>
+                setForm(prev => ({ ...prev, expiresAt: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="ml-auto px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+            >
+              {saving ? 'Sharing...' : 'Share'}
+            </button>
+          </div>
+        </form>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Lock className="h-5 w-5 text-blue-600" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Document access
+              </h3>
+              <p className="text-sm text-gray-600 truncate">{fileName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">{content}</div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,16 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Link2,
+  Tag,
+  Trash2,
+} from 'lucide-react'
+import DocumentShareDialog from './DocumentShareDialog'
+import ShareLinkDialog from './ShareLinkDialog'
 
 interface FileItem {
   id: string
@@ -11,29 +21,154 @@ interface FileItem {
   mimeType: string
   uploadedAt: string
   uploadedBy: string
+  caseId?: string | null
+  clientId?: string | null
   caseTitle?: string
   clientName?: string
+  sharedWithClient?: boolean
+  restricted?: boolean
+  version?: number
+  category?: FileCategory | null
+  folderId?: string | null
+  tags?: string[]
+}
+
+interface FileCategory {
+  id: string
+  name: string
+  color?: string | null
+}
+
+interface FolderNode {
+  id: string
+  name: string
+  parentId: string | null
+  documentCount: number
+  children: FolderNode[]
+}
+
+interface FileVersion {
+  id: string
+  version: number
+  key: string
+  fileName: string
+  fileSize: number
+  uploadedByName?: string | null
+  uploadedAt: string
+  isCurrent: boolean
+}
+
+interface OrganizeForm {
+  categoryId: string
+  folderId: string
+  tags: string
+}
+
+// 'all' shows every file of the case, 'none' only files outside any folder
+type FolderSelection = 'all' | 'none' | string
+
+// Flatten the folder tree into indented options for a <select>
+function flattenFolders(
+  folders: FolderNode[],
+  depth = 0
+): { id: string; name: string; depth: number }[] {
+  return folders.flatMap(folder => [
+    { id: folder.id, name: folder.name, depth },
+    ...flattenFolders(folder.children, depth + 1),
+  ])
 }
 
 interface FileListProps {
   refreshTrigger?: number
+  caseId?: string
+  clientId?: string
+  allowSharing?: boolean
+  allowExternalLinks?: boolean
   className?: string
 }
 
 export default function FileList({
   refreshTrigger,
+  caseId,
+  clientId,
+  allowSharing = false,
+  allowExternalLinks = false,
   className = '',
 }: FileListProps) {
   const [files, setFiles] = useState<FileItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [versions, setVersions] = useState<FileVersion[]>([])
+  const [uploadingVersionFor, setUploadingVersionFor] = useState<string | null>(
+    null
+  )
+  const [categories, setCategories] = useState<FileCategory[]>([])
+  const [folders, setFolders] = useState<FolderNode[]>([])
+  const [unfiledCount, setUnfiledCount] = useState(0)
+  const [totalCount, setTotalCount] = useState(0)
+  const [selectedFolder, setSelectedFolder] = useState<FolderSelection>('all')
+  const [categoryFilter, setCategoryFilter] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+  const [organizeFor, setOrganizeFor] = useState<string | null>(null)
+  const [sharingFile, setSharingFile] = useState<FileItem | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [linkDocuments, setLinkDocuments] = useState<
+    { id: string; fileName: string }[] | null
+  >(null)
+  const [organizeForm, setOrganizeForm] = useState<OrganizeForm>({
+    categoryId: '',
+    folderId: '',
+    tags: '',
+  })
+
+  const loadFolders = useCallback(async () => {
+    if (!caseId) return
+
+    try {
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/folders`
+      )
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch folders: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setFolders(data.folders || [])
+      setUnfiledCount(data.unfiledCount || 0)
+      setTotalCount(data.totalCount || 0)
+    } catch (err) {
+      console.error('Error loading folders:', err)
+    }
+  }, [caseId])
+
+  useEffect(() => {
+    fetch('/api/documents/categories')
+      .then(response => (response.ok ? response.json() : { categories: [] }))
+      .then(data => setCategories(data.categories || []))
+      .catch(err => console.error('Error loading categories:', err))
+  }, [])
+
+  useEffect(() => {
+    loadFolders()
+  }, [loadFolders, refreshTrigger])
 
-  const loadFiles = async () => {
+  const loadFiles = useCallback(async () => {
     try {
       setLoading(true)
       setError(null)
 
-      const response = await fetch('/api/documents')
+      const params = new URLSearchParams()
+      if (caseId) params.set('caseId', caseId)
+      if (clientId) params.set('clientId', clientId)
+      if (caseId && selectedFolder !== 'all') {
+        params.set('folderId', selectedFolder)
+      }
+      if (categoryFilter) params.set('categoryId', categoryFilter)
+      if (tagFilter.trim()) params.set('tag', tagFilter.trim())
+
+      const response = await fetch(`/api/documents?${params}`)
 
       if (!response.ok) {
         throw new Error(`Failed to fetch documents: ${response.status}`)
@@ -47,11 +182,11 @@ export default function FileList({
     } finally {
       setLoading(false)
     }
-  }
+  }, [caseId, clientId, selectedFolder, categoryFilter, tagFilter])
 
   useEffect(() => {
     loadFiles()
-  }, [refreshTrigger])
+  }, [loadFiles, refreshTrigger])
 
   const handleDownload = async (fileKey: string, fileName: string) => {
     try {
@@ -81,6 +216,194 @@ export default function FileList({
     }
   }
 
+  const loadVersions = async (fileId: string) => {
+    try {
+      const response = await fetch(
+        `/api/documents/${encodeURIComponent(fileId)}/versions`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to load version history')
+      }
+
+      const result = await response.json()
+      setVersions(result.versions || [])
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load history')
+    }
+  }
+
+  const handleToggleHistory = (file: FileItem) => {
+    if (historyFor === file.id) {
+      setHistoryFor(null)
+      return
+    }
+
+    setVersions([])
+    setHistoryFor(file.id)
+    loadVersions(file.id)
+  }
+
+  const handleUploadVersion = async (file: FileItem, upload: File) => {
+    setUploadingVersionFor(file.id)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', upload)
+      formData.append('documentId', file.id)
+
+      const response = await fetch('/api/documents/upload', {
+        method: 'POST',
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || 'Failed to upload new version')
+      }
+
+      await loadFiles()
+      if (historyFor === file.id) {
+        loadVersions(file.id)
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Version upload failed')
+    } finally {
+      setUploadingVersionFor(null)
+    }
+  }
+
+  const handleToggleClientShare = async (file: FileItem) => {
+    try {
+      const response = await fetch(
+        `/api/documents/${encodeURIComponent(file.id)}/client-share`,
+        { method: file.sharedWithClient ? 'DELETE' : 'POST' }
+      )
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update sharing')
+      }
+
+      loadFiles()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update sharing')
+    }
+  }
+
+  const handleCreateFolder = async () => {
+    if (!caseId) return
+
+    const name = prompt('Folder name')
+    if (!name?.trim()) return
+
+    try {
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/folders`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name,
+            // New folders go inside the selected folder
+            parentId:
+              selectedFolder === 'all' || selectedFolder === 'none'
+                ? null
+                : selectedFolder,
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || 'Failed to create folder')
+      }
+
+      loadFolders()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create folder')
+    }
+  }
+
+  const handleDeleteFolder = async (folder: FolderNode) => {
+    if (
+      !caseId ||
+      !confirm(
+        `Delete folder "${folder.name}" and its subfolders? Files inside are kept and become unfiled.`
+      )
+    ) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/cases/${encodeURIComponent(caseId)}/folders/${encodeURIComponent(folder.id)}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || 'Failed to delete folder')
+      }
+
+      if (selectedFolder === folder.id) {
+        setSelectedFolder('all')
+      }
+      loadFolders()
+      loadFiles()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete folder')
+    }
+  }
+
+  const handleToggleOrganize = (file: FileItem) => {
+    if (organizeFor === file.id) {
+      setOrganizeFor(null)
+      return
+    }
+
+    setOrganizeForm({
+      categoryId: file.category?.id || '',
+      folderId: file.folderId || '',
+      tags: (file.tags || []).join(', '),
+    })
+    setOrganizeFor(file.id)
+  }
+
+  const handleSaveOrganize = async (file: FileItem) => {
+    try {
+      const response = await fetch(
+        `/api/documents/${encodeURIComponent(file.id)}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            categoryId: organizeForm.categoryId || null,
+            // Folders only exist inside the case being viewed
+            ...(caseId && file.caseId === caseId
+              ? { folderId: organizeForm.folderId || null }
+              : {}),
+            tags: organizeForm.tags
+              .split(',')
+              .map(tag => tag.trim())
+              .filter(Boolean),
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || 'Failed to update document')
+      }
+
+      setOrganizeFor(null)
+      loadFiles()
+      loadFolders()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update document')
+    }
+  }
+
   const handleDelete = async (fileId: string, fileName: string) => {
     // Confirm deletion
     if (
@@ -115,6 +438,17 @@ export default function FileList({
     }
   }
 
+  const toggleSelected = (fileId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(fileId)
+        ? prev.filter(id => id !== fileId)
+        : [...prev, fileId]
+    )
+  }
+
+  // Selections survive filtering, but only files still listed are shared
+  const selectedFiles = files.filter(file => selectedIds.includes(file.id))
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 B'
     const k = 1024
@@ -131,22 +465,63 @@ export default function FileList({
     return '📎'
   }
 
+  const folderOptions = flattenFolders(folders)
+  const hasFilters = Boolean(
+    categoryFilter || tagFilter.trim() || (caseId && selectedFolder !== 'all')
+  )
+
+  const folderButtonClass = (selected: boolean) =>
+    `flex-1 flex items-center min-w-0 px-2 py-1 rounded text-left ${
+      selected ? 'bg-blue-50 text-blue-700 font-medium' : 'hover:bg-gray-50'
+    }`
+
+  const renderFolder = (folder: FolderNode, depth: number): React.ReactNode => (
+    <li key={folder.id}>
+      <div
+        className="group flex items-center text-sm text-gray-700"
+        style={{ paddingLeft: depth * 12 }}
+      >
+        <button
+          onClick={() => setSelectedFolder(folder.id)}
+          className={folderButtonClass(selectedFolder === folder.id)}
+        >
+          {selectedFolder === folder.id ? (
+            <FolderOpen className="h-4 w-4 mr-1.5 shrink-0 text-blue-600" />
+          ) : (
+            <Folder className="h-4 w-4 mr-1.5 shrink-0 text-gray-400" />
+          )}
+          <span className="truncate">{folder.name}</span>
+          <span className="ml-auto pl-2 text-xs text-gray-400">
+            {folder.documentCount}
+          </span>
+        </button>
+        <button
+          onClick={() => handleDeleteFolder(folder)}
+          className="opacity-0 group-hover:opacity-100 ml-1 text-gray-400 hover:text-red-600"
+          aria-label={`Delete folder ${folder.name}`}
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      </div>
+      {folder.children.length > 0 && (
+        <ul>{folder.children.map(child => renderFolder(child, depth + 1))}</ul>
+      )}
+    </li>
+  )
+
+  let content: React.ReactNode
   if (loading) {
-    return (
-      <div className={`${className} flex items-center justify-center p-8`}>
+    content = (
+      <div className="flex items-center justify-center p-8">
         <div className="text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
           <p className="text-sm text-gray-500">Loading files...</p>
         </div>
       </div>
     )
-  }
-
-  if (error) {
-    return (
-      <div
-        className={`${className} bg-red-50 border border-red-200 rounded-lg p-4`}
-      >
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
         <div className="flex">
           <div className="text-red-400">
             <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
@@ -169,13 +544,9 @@ export default function FileList({
         </div>
       </div>
     )
-  }
-
-  if (files.length === 0) {
-    return (
-      <div
-        className={`${className} text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200`}
-      >
+  } else if (files.length === 0) {
+    content = (
+      <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
         <div className="text-gray-400 mb-4">
           <svg
             className="mx-auto h-12 w-12"
@@ -192,27 +563,17 @@ export default function FileList({
           </svg>
         </div>
         <h3 className="text-lg font-medium text-gray-900 mb-2">
-          No files uploaded
+          {hasFilters ? 'No matching files' : 'No files uploaded'}
         </h3>
         <p className="text-sm text-gray-500">
-          Start by uploading documents using the upload area above
+          {hasFilters
+            ? 'Try another folder, category or tag'
+            : 'Start by uploading documents using the upload area above'}
         </p>
       </div>
     )
-  }
-
-  return (
-    <div className={`${className} space-y-2`}>
-      <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-medium text-gray-900">Uploaded Files</h3>
-        <button
-          onClick={loadFiles}
-          className="text-sm text-blue-600 hover:text-blue-800"
-        >
-          Refresh
-        </button>
-      </div>
-
+  } else {
+    content = (
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="divide-y divide-gray-200">
           {files.map(file => (
@@ -222,13 +583,55 @@ export default function FileList({
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center min-w-0 flex-1">
+                  {allowExternalLinks && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(file.id)}
+                      onChange={() => toggleSelected(file.id)}
+                      className="mr-3"
+                      aria-label={`Select ${file.fileName}`}
+                    />
+                  )}
                   <div className="text-2xl mr-3">
                     {getFileIcon(file.mimeType)}
                   </div>
                   <div className="min-w-0 flex-1">
                     <p className="text-sm font-medium text-gray-900 truncate">
                       {file.fileName}
+                      {file.version && file.version > 1 && (
+                        <span className="ml-2 text-xs font-medium text-gray-600 bg-gray-100 px-1.5 py-0.5 rounded">
+                          v{file.version}
+                        </span>
+                      )}
+                      {file.category && (
+                        <span
+                          className="ml-2 text-xs font-medium text-indigo-700 bg-indigo-50 px-1.5 py-0.5 rounded"
+                          style={
+                            file.category.color
+                              ? {
+                                  color: file.category.color,
+                                  backgroundColor: `${file.category.color}1a`,
+                                }
+                              : undefined
+                          }
+                        >
+                          {file.category.name}
+                        </span>
+                      )}
                     </p>
+                    {file.tags && file.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {file.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => setTagFilter(tag)}
+                            className="text-xs text-gray-600 bg-gray-100 hover:bg-gray-200 px-1.5 py-0.5 rounded"
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     {file.description && (
                       <p className="text-xs text-gray-600 truncate mt-0.5">
                         {file.description}
@@ -257,11 +660,68 @@ export default function FileList({
                           </span>
                         </>
                       )}
+                      {file.sharedWithClient && (
+                        <>
+                          <span>•</span>
+                          <span className="text-purple-600">
+                            Shared with client
+                          </span>
+                        </>
+                      )}
+                      {file.restricted && (
+                        <>
+                          <span>•</span>
+                          <span className="text-amber-600">Restricted</span>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
 
                 <div className="flex items-center space-x-2 ml-4">
+                  {allowSharing && (
+                    <button
+                      onClick={() => setSharingFile(file)}
+                      className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      Access
+                    </button>
+                  )}
+                  {allowSharing && (file.caseId || file.clientId) && (
+                    <button
+                      onClick={() => handleToggleClientShare(file)}
+                      className="inline-flex items-center px-3 py-1 border border-purple-300 shadow-sm text-xs font-medium rounded-md text-purple-700 bg-white hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
+                    >
+                      {file.sharedWithClient ? 'Unshare' : 'Share with client'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleToggleOrganize(file)}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    Organize
+                  </button>
+                  <button
+                    onClick={() => handleToggleHistory(file)}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    History
+                  </button>
+                  <label className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                    {uploadingVersionFor === file.id
+                      ? 'Uploading...'
+                      : 'New version'}
+                    <input
+                      type="file"
+                      className="hidden"
+                      disabled={uploadingVersionFor !== null}
+                      onChange={e => {
+                        const upload = e.target.files?.[0]
+                        e.target.value = ''
+                        if (upload) handleUploadVersion(file, upload)
+                      }}
+                    />
+                  </label>
                   <button
                     onClick={() => handleDownload(file.key, file.fileName)}
                     className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -302,10 +762,261 @@ export default function FileList({
                   </button>
                 </div>
               </div>
+
+              {organizeFor === file.id && (
+                <div className="mt-3 ml-10 border-l-2 border-gray-200 pl-4">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <select
+                      value={organizeForm.categoryId}
+                      onChange={e =>
+                        setOrganizeForm(prev => ({
+                          ...prev,
+                          categoryId: e.target.value,
+                        }))
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                    >
+                      <option value="">No category</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                    {caseId && file.caseId === caseId && (
+                      <select
+                        value={organizeForm.folderId}
+                        onChange={e =>
+                          setOrganizeForm(prev => ({
+                            ...prev,
+                            folderId: e.target.value,
+                          }))
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                      >
+                        <option value="">Unfiled</option>
+                        {folderOptions.map(folder => (
+                          <option key={folder.id} value={folder.id}>
+                            {'\u00a0\u00a0'.repeat(folder.depth)}
+                            {folder.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <input
+                      type="text"
+                      value={organizeForm.tags}
+                      onChange={e =>
+                        setOrganizeForm(prev => ({
+                          ...prev,
+                          tags: e.target.value,
+                        }))
+                      }
+                      placeholder="Tags, comma separated"
+                      className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                    />
+                    <button
+                      onClick={() => handleSaveOrganize(file)}
+                      className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {historyFor === file.id && (
+                <div className="mt-3 ml-10 border-l-2 border-gray-200 pl-4">
+                  <p className="text-xs font-medium text-gray-700 mb-2">
+                    Version history
+                  </p>
+                  {versions.length === 0 ? (
+                    <p className="text-xs text-gray-500">Loading...</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {versions.map(version => (
+                        <li
+                          key={version.id}
+                          className="flex items-center justify-between text-xs"
+                        >
+                          <div className="min-w-0">
+                            <span className="font-medium text-gray-900">
+                              v{version.version}
+                            </span>
+                            <span className="text-gray-600">
+                              {' '}
+                              · {version.fileName} ·{' '}
+                              {formatFileSize(version.fileSize)}
+                            </span>
+                            <span className="text-gray-500">
+                              {' '}
+                              · {version.uploadedByName || 'Unknown'},{' '}
+                              {new Date(version.uploadedAt).toLocaleString()}
+                            </span>
+                            {version.isCurrent && (
+                              <span className="ml-2 text-green-700 bg-green-100 px-1.5 py-0.5 rounded">
+                                Current
+                              </span>
+                            )}
+                          </div>
+                          <button
+                            onClick={() =>
+                              handleDownload(version.key, version.fileName)
+                            }
+                            className="ml-4 text-blue-600 hover:text-blue-800"
+                          >
+                            Download
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
       </div>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-2`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Uploaded Files</h3>
+        <div className="flex items-center space-x-4">
+          {allowExternalLinks && selectedFiles.length > 0 && (
+            <button
+              onClick={() =>
+                setLinkDocuments(
+                  selectedFiles.map(file => ({
+                    id: file.id,
+                    fileName: file.fileName,
+                  }))
+                )
+              }
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Link2 className="h-4 w-4 mr-1" />
+              Share link ({selectedFiles.length})
+            </button>
+          )}
+          <button
+            onClick={() => {
+              loadFiles()
+              loadFolders()
+            }}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <select
+          value={categoryFilter}
+          onChange={e => setCategoryFilter(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">All categories</option>
+          <option value="none">Uncategorized</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <div className="relative">
+          <Tag className="h-4 w-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={tagFilter}
+            onChange={e => setTagFilter(e.target.value)}
+            placeholder="Filter by tag"
+            className="pl-8 pr-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setCategoryFilter('')
+              setTagFilter('')
+              setSelectedFolder('all')
+            }}
+            className="text-xs text-gray-600 hover:text-gray-900 underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {caseId ? (
+        <div className="flex gap-4">
+          {/* Folder tree */}
+          <aside className="w-56 shrink-0">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                Folders
+              </span>
+              <button
+                onClick={handleCreateFolder}
+                className="text-gray-400 hover:text-blue-600"
+                aria-label="New folder"
+                title="New folder"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </button>
+            </div>
+            <ul className="space-y-0.5 text-sm text-gray-700">
+              <li className="flex">
+                <button
+                  onClick={() => setSelectedFolder('all')}
+                  className={folderButtonClass(selectedFolder === 'all')}
+                >
+                  All files
+                  <span className="ml-auto pl-2 text-xs text-gray-400">
+                    {totalCount}
+                  </span>
+                </button>
+              </li>
+              <li className="flex">
+                <button
+                  onClick={() => setSelectedFolder('none')}
+                  className={folderButtonClass(selectedFolder === 'none')}
+                >
+                  Unfiled
+                  <span className="ml-auto pl-2 text-xs text-gray-400">
+                    {unfiledCount}
+                  </span>
+                </button>
+              </li>
+              {folders.map(folder => renderFolder(folder, 0))}
+            </ul>
+          </aside>
+          <div className="flex-1 min-w-0">{content}</div>
+        </div>
+      ) : (
+        content
+      )}
+
+      {sharingFile && (
+        <DocumentShareDialog
+          documentId={sharingFile.id}
+          fileName={sharingFile.fileName}
+          onClose={() => setSharingFile(null)}
+          onChange={loadFiles}
+        />
+      )}
+
+      {linkDocuments && (
+        <ShareLinkDialog
+          documents={linkDocuments}
+          onClose={() => setLinkDocuments(null)}
+          onCreated={() => setSelectedIds([])}
+        />
+      )}
     </div>
   )
 }
@@ -7,6 +7,7 @@ interface FileUploadProps {
   onUploadError?: (error: string) => void
   maxFileSize?: number
   acceptedTypes?: string[]
+  caseId?: string
   className?: string
 }
 
@@ -30,6 +31,7 @@ export default function FileUpload({
     'image/png',
     'image/gif',
   ],
+  caseId,
   className = '',
 }: FileUploadProps) {
   const [uploads, setUploads] = useState<UploadProgress[]>([])
@@ -62,6 +64,9 @@ export default function FileUpload({
       // Create FormData for server-side upload
       const formData = new FormData()
       formData.append('file', file)
+      if (caseId) {
+        formData.append('caseId', caseId)
+      }
 
       console.log('Uploading file to server:', file.name)
 
@@ -0,0 +1,275 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Mail, UserPlus } from 'lucide-react'
+
+type InvitationStatus = 'PENDING' | 'EXPIRED' | 'ACCEPTED' | 'REVOKED'
+
+interface Invitation {
+  id: string
+  email: string
+  name: string | null
+  roles: { id: string; name: string }[]
+  status: InvitationStatus
+  expiresAt: string
+  lastSentAt: string
+}
+
+interface RoleOption {
+  id: string
+  name: string
+}
+
+interface InvitationManagerProps {
+  canInvite: boolean
+  className?: string
+}
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  PENDING: 'text-blue-700 bg-blue-50',
+  EXPIRED: 'text-gray-600 bg-gray-100',
+  ACCEPTED: 'text-green-700 bg-green-50',
+  REVOKED: 'text-red-700 bg-red-50',
+}
+
+export default function InvitationManager({
+  canInvite,
+  className = '',
+}: InvitationManagerProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [roles, setRoles] = useState<RoleOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [name, setName] = useState('')
+  const [roleId, setRoleId] = useState('')
+  const [sending, setSending] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [invitationsResponse, rolesResponse] = await Promise.all([
+        fetch('/api/users/invitations'),
+        fetch('/api/roles'),
+      ])
+      if (!invitationsResponse.ok) {
+        const result = await invitationsResponse.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to load invitations')
+      }
+
+      const data = await invitationsResponse.json()
+      setInvitations(data.invitations || [])
+
+      if (rolesResponse.ok) {
+        const rolesData = await rolesResponse.json()
+        setRoles(rolesData.roles || [])
+      }
+    } catch (err) {
+      console.error('Error loading invitations:', err)
+      setError(
+        err instanceof Error ? err.message : 'Failed to load invitations'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadInvitations()
+  }, [loadInvitations])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSending(true)
+    setNotice(null)
+
+    try {
+      const response = await fetch('/api/users/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, name, roleId }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send invitation')
+      }
+
+      setNotice(result.message)
+      setEmail('')
+      setName('')
+      loadInvitations()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to send invitation')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      const response = await fetch(
+        `/api/users/invitations/${encodeURIComponent(invitation.id)}/resend`,
+        { method: 'POST' }
+      )
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to resend invitation')
+      }
+
+      setNotice(result.message)
+      loadInvitations()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to resend invitation')
+    }
+  }
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return
+
+    try {
+      const response = await fetch(
+        `/api/users/invitations/${encodeURIComponent(invitation.id)}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to revoke invitation')
+      }
+
+      loadInvitations()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revoke invitation')
+    }
+  }
+
+  let content: React.ReactNode
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadInvitations}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else if (invitations.length === 0) {
+    content = (
+      <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+        <p className="text-sm text-gray-500">No pending invitations.</p>
+      </div>
+    )
+  } else {
+    content = (
+      <ul className="divide-y divide-gray-200">
+        {invitations.map(invitation => (
+          <li key={invitation.id} className="py-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center">
+                  {invitation.name || invitation.email}
+                  <span
+                    className={`ml-2 text-xs font-medium px-1.5 py-0.5 rounded ${STATUS_STYLES[invitation.status]}`}
+                  >
+                    {invitation.status.toLowerCase()}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {invitation.name && `${invitation.email} · `}
+                  {invitation.roles.map(role => role.name).join(', ')}
+                  {` · sent ${new Date(invitation.lastSentAt).toLocaleDateString()}`}
+                  {` · expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {canInvite && (
+                <div className="flex items-center space-x-2 shrink-0">
+                  <button
+                    onClick={() => handleResend(invitation)}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Resend
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(invitation)}
+                    className="inline-flex items-center px-3 py-1 border border-red-300 shadow-sm text-xs font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <Mail className="h-5 w-5 mr-2 text-blue-600" />
+        Invitations
+      </h3>
+
+      {canInvite && (
+        <form
+          onSubmit={handleInvite}
+          className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end"
+        >
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="colleague@example.com"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          <select
+            required
+            value={roleId}
+            onChange={e => setRoleId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+          >
+            <option value="">Select a role</option>
+            {roles.map(role => (
+              <option key={role.id} value={role.id}>
+                {role.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={sending}
+            className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            {sending ? 'Sending...' : 'Invite'}
+          </button>
+        </form>
+      )}
+
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+      {content}
+    </div>
+  )
+}
@@ -0,0 +1,459 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Copy, Lock, Plus, Save, Shield, Trash2 } from 'lucide-react'
+import { FIRM_PERMISSION_GROUPS } from '@/lib/rbac'
+import { CUSTOM_ROLE_BASES } from '@/lib/roles'
+
+interface FirmRole {
+  id: string
+  name: string
+  description?: string | null
+  isSystem: boolean
+  baseRole?: string | null
+  permissions: string[]
+  userCount: number
+}
+
+interface RoleDraft {
+  name: string
+  description: string
+  baseRole: string
+  permissions: string[]
+}
+
+interface RoleManagerProps {
+  canManage?: boolean
+  className?: string
+}
+
+const NEW_ROLE = 'new'
+
+const emptyDraft: RoleDraft = {
+  name: '',
+  description: '',
+  baseRole: 'junior_lawyer',
+  permissions: [],
+}
+
+function toDraft(role: FirmRole): RoleDraft {
+  return {
+    name: role.name,
+    description: role.description || '',
+    baseRole: role.baseRole || emptyDraft.baseRole,
+    permissions: role.permissions,
+  }
+}
+
+// "cases.view_all" -> "View all"
+function permissionLabel(permission: string): string {
+  const action = permission.split('.').slice(1).join(' ').replace(/_/g, ' ')
+  return action.charAt(0).toUpperCase() + action.slice(1)
+}
+
+function formatRoleName(role: string): string {
+  return role.replace(/_/g, ' ')
+}
+
+export default function RoleManager({
+  canManage = false,
+  className = '',
+}: RoleManagerProps) {
+  const [roles, setRoles] = useState<FirmRole[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<RoleDraft>(emptyDraft)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/roles')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load roles')
+      }
+
+      setRoles(data.roles || [])
+    } catch (err) {
+      console.error('Error fetching roles:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load roles')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRoles()
+  }, [fetchRoles])
+
+  const selectedRole = roles.find(role => role.id === selectedId) || null
+  const isNew = selectedId === NEW_ROLE
+  const readOnly = !canManage || (selectedRole?.isSystem ?? false)
+
+  const selectRole = (role: FirmRole) => {
+    setSelectedId(role.id)
+    setDraft(toDraft(role))
+    setFormError(null)
+  }
+
+  const startNewRole = () => {
+    setSelectedId(NEW_ROLE)
+    setDraft(emptyDraft)
+    setFormError(null)
+  }
+
+  const togglePermission = (permission: string) => {
+    setDraft(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(p => p !== permission)
+        : [...prev.permissions, permission],
+    }))
+  }
+
+  const toggleGroup = (permissions: string[], checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      permissions: checked
+        ? Array.from(new Set([...prev.permissions, ...permissions]))
+        : prev.permissions.filter(p => !permissions.includes(p)),
+    }))
+  }
+
+  const saveRole = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const response = await fetch(
+        isNew ? '/api/roles' : `/api/roles/${selectedId}`,
+        {
+          method: isNew ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft),
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save role')
+      }
+
+      await fetchRoles()
+      selectRole(data.role)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save role')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const cloneRole = async (role: FirmRole) => {
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const response = await fetch('/api/roles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: `${role.name} (copy)`,
+          cloneFromId: role.id,
+          // Clones of owner-level roles need a rank a custom role may have
+          ...(role.baseRole &&
+            !(CUSTOM_ROLE_BASES as string[]).includes(role.baseRole) && {
+              baseRole: CUSTOM_ROLE_BASES[0],
+            }),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clone role')
+      }
+
+      await fetchRoles()
+      selectRole(data.role)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to clone role')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteRole = async (role: FirmRole) => {
+    if (!confirm(`Delete the role "${role.name}"?`)) return
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const response = await fetch(`/api/roles/${role.id}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete role')
+      }
+
+      setSelectedId(null)
+      await fetchRoles()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to delete role')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  let content: React.ReactNode
+
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">Loading roles...</span>
+      </div>
+    )
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">{error}</p>
+        <button
+          onClick={fetchRoles}
+          className="mt-2 text-sm text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else {
+    content = (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200 self-start">
+          {roles.map(role => (
+            <li key={role.id}>
+              <button
+                onClick={() => selectRole(role)}
+                className={
+                  role.id === selectedId
+                    ? 'w-full text-left px-4 py-3 bg-blue-50'
+                    : 'w-full text-left px-4 py-3 hover:bg-gray-50'
+                }
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900 truncate">
+                    {role.name}
+                  </span>
+                  {role.isSystem && (
+                    <Lock className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {role.userCount} user{role.userCount === 1 ? '' : 's'} ·{' '}
+                  {role.permissions.length} permissions
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="md:col-span-2">
+          {!selectedId ? (
+            <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+              <Shield className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-sm text-gray-500">
+                Select a role to see its permissions
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={saveRole} className="space-y-4">
+              {selectedRole?.isSystem && (
+                <p className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 flex items-center">
+                  <Lock className="h-3.5 w-3.5 mr-2" />
+                  Built-in roles cannot be changed. Clone this role to customise
+                  it.
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={e =>
+                      setDraft(prev => ({ ...prev, name: e.target.value }))
+                    }
+                    disabled={readOnly}
+                    required
+                    placeholder="e.g. Paralegal – Litigation"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Ranks as
+                  </label>
+                  <select
+                    value={draft.baseRole}
+                    onChange={e =>
+                      setDraft(prev => ({ ...prev, baseRole: e.target.value }))
+                    }
+                    disabled={readOnly}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm capitalize disabled:bg-gray-50"
+                  >
+                    {(selectedRole?.isSystem
+                      ? [draft.baseRole]
+                      : CUSTOM_ROLE_BASES
+                    ).map(base => (
+                      <option key={base} value={base}>
+                        {formatRoleName(base)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={e =>
+                    setDraft(prev => ({ ...prev, description: e.target.value }))
+                  }
+                  disabled={readOnly}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm disabled:bg-gray-50"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {FIRM_PERMISSION_GROUPS.map(group => {
+                  const allChecked = group.permissions.every(permission =>
+                    draft.permissions.includes(permission)
+                  )
+
+                  return (
+                    <fieldset
+                      key={group.category}
+                      className="border border-gray-200 rounded-lg p-3"
+                    >
+                      <legend className="px-1 text-sm font-medium text-gray-900 capitalize">
+                        {group.category}
+                      </legend>
+                      {!readOnly && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            toggleGroup(group.permissions, !allChecked)
+                          }
+                          className="text-xs text-blue-600 hover:text-blue-800 mb-1"
+                        >
+                          {allChecked ? 'Clear all' : 'Select all'}
+                        </button>
+                      )}
+                      {group.permissions.map(permission => (
+                        <label
+                          key={permission}
+                          className="flex items-center space-x-2 text-sm text-gray-700 py-0.5"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={draft.permissions.includes(permission)}
+                            onChange={() => togglePermission(permission)}
+                            disabled={readOnly}
+                            className="rounded border-gray-300"
+                          />
+                          <span>{permissionLabel(permission)}</span>
+                        </label>
+                      ))}
+                    </fieldset>
+                  )
+                })}
+              </div>
+
+              {formError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-sm text-red-800">{formError}</p>
+                </div>
+              )}
+
+              {canManage && (
+                <div className="flex items-center justify-end space-x-2">
+                  {selectedRole && (
+                    <button
+                      type="button"
+                      onClick={() => cloneRole(selectedRole)}
+                      disabled={saving}
+                      className="inline-flex items-center px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      <Copy className="h-4 w-4 mr-1" />
+                      Clone
+                    </button>
+                  )}
+                  {selectedRole && !selectedRole.isSystem && (
+                    <button
+                      type="button"
+                      onClick={() => deleteRole(selectedRole)}
+                      disabled={saving}
+                      className="inline-flex items-center px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </button>
+                  )}
+                  {!readOnly && (
+                    <button
+                      type="submit"
+                      disabled={saving || !draft.name.trim()}
+                      className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      {saving ? 'Saving...' : isNew ? 'Create role' : 'Save'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Roles</h2>
+          <p className="text-sm text-gray-500">
+            Built-in roles are fixed; create or clone roles to tailor access
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={startNewRole}
+            className="inline-flex items-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New role
+          </button>
+        )}
+      </div>
+      {content}
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { KeyRound, ShieldCheck, ShieldOff } from 'lucide-react'
+import MfaSetup from '@/components/auth/MfaSetup'
+
+interface MfaStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+type MfaAction = 'setup' | 'recovery-codes' | 'disable'
+
+interface SecuritySettingsProps {
+  email: string
+  canManageFirm?: boolean
+}
+
+export default function SecuritySettings({
+  email,
+  canManageFirm = false,
+}: SecuritySettingsProps) {
+  const [status, setStatus] = useState<MfaStatus | null>(null)
+  const [requireMfa, setRequireMfa] = useState<boolean | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [action, setAction] = useState<MfaAction | null>(null)
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [setupPassword, setSetupPassword] = useState<string | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/auth/mfa')
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to load security settings')
+      }
+      const data = await response.json()
+      setStatus(data.mfa)
+
+      if (canManageFirm) {
+        const firmResponse = await fetch('/api/settings/security')
+        if (firmResponse.ok) {
+          const firmData = await firmResponse.json()
+          setRequireMfa(firmData.security.requireMfa)
+        }
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to load security settings'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [canManageFirm])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const closeAction = () => {
+    setAction(null)
+    setPassword('')
+    setCode('')
+    setSetupPassword(null)
+    setActionError(null)
+  }
+
+  const handleAction = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (action === 'setup') {
+      setSetupPassword(password)
+      return
+    }
+
+    setSaving(true)
+    setActionError(null)
+    try {
+      const response = await fetch(`/api/auth/mfa/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, code }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setActionError(data.error || 'Request failed')
+        return
+      }
+
+      if (data.recoveryCodes) setRecoveryCodes(data.recoveryCodes)
+      closeAction()
+      await loadStatus()
+    } catch (error) {
+      console.error('Error updating two-factor settings:', error)
+      setActionError('Network error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleRequireMfa = async () => {
+    if (requireMfa === null) return
+    setSaving(true)
+    try {
+      const response = await fetch('/api/settings/security', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requireMfa: !requireMfa }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update security settings')
+      }
+      setRequireMfa(data.security.requireMfa)
+      await loadStatus()
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to update security settings'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  let content
+  if (loading && !status) {
+    content = (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error && !status) {
+    content = (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+        {error}
+        <button
+          onClick={loadStatus}
+          className="ml-2 font-medium underline hover:no-underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else if (status) {
+    content = (
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4 p-4 border border-gray-200 rounded-lg">
+          <div className="flex items-start space-x-3">
+            {status.enabled ? (
+              <ShieldCheck className="h-6 w-6 text-green-600 flex-shrink-0" />
+            ) : (
+              <ShieldOff className="h-6 w-6 text-gray-400 flex-shrink-0" />
+            )}
+            <div>
+              <p className="font-medium text-gray-900">
+                Two-factor authentication {status.enabled ? 'is on' : 'is off'}
+              </p>
+              <p className="text-sm text-gray-600">
+                {status.enabled
+                  ? `${status.recoveryCodesRemaining} recovery codes left${
+                      status.enabledAt
+                        ? ` • on since ${new Date(status.enabledAt).toLocaleDateString()}`
+                        : ''
+                    }`
+                  : 'Sign-ins only need your password.'}
+                {status.required && ' Required for your account.'}
+              </p>
+            </div>
+          </div>
+          {!action && (
+            <div className="flex flex-shrink-0 gap-2">
+              {status.enabled ? (
+                <>
+                  <button
+                    onClick={() => setAction('recovery-codes')}
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    New recovery codes
+                  </button>
+                  {!status.required && (
+                    <button
+                      onClick={() => setAction('disable')}
+                      className="px-3 py-2 text-sm border border-red-200 rounded-lg text-red-700 hover:bg-red-50"
+                    >
+                      Turn off
+                    </button>
+                  )}
+                </>
+              ) : (
+                <button
+                  onClick={() => setAction('setup')}
+                  className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+                >
+                  Set up
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {recoveryCodes && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+            <div className="flex items-center space-x-2 font-medium text-amber-900">
+              <KeyRound className="h-5 w-5" />
+              <span>New recovery codes. They will not be shown again.</span>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm text-gray-900">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <button
+              onClick={() => setRecoveryCodes(null)}
+              className="text-sm font-medium text-amber-900 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {action === 'setup' && setupPassword !== null && (
+          <div className="max-w-sm">
+            <MfaSetup
+              email={email}
+              password={setupPassword}
+              onComplete={() => {
+                closeAction()
+                loadStatus()
+              }}
+              onCancel={closeAction}
+            />
+          </div>
+        )}
+
+        {action && !(action === 'setup' && setupPassword !== null) && (
+          <form onSubmit={handleAction} className="max-w-sm space-y-3">
+            <p className="text-sm text-gray-600">
+              Confirm your password
+              {action !== 'setup' &&
+                ' and enter a current authentication or recovery code'}
+              .
+            </p>
+            <input
+              type="password"
+              required
+              autoComplete="current-password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder="Password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            {action !== 'setup' && (
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                placeholder="Authentication code"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+              />
+            )}
+            {actionError && (
+              <p className="text-sm text-red-700">{actionError}</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className={`px-4 py-2 text-sm text-white rounded-lg disabled:opacity-50 ${
+                  action === 'disable'
+                    ? 'bg-red-600 hover:bg-red-700'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {action === 'setup'
+                  ? 'Continue'
+                  : action === 'disable'
+                    ? 'Turn off two-factor'
+                    : 'Generate new codes'}
+              </button>
+              <button
+                type="button"
+                onClick={closeAction}
+                className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {canManageFirm && requireMfa !== null && (
+          <div className="pt-6 border-t border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              Firm policy
+            </h3>
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={requireMfa}
+                disabled={saving}
+                onChange={toggleRequireMfa}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">
+                Require two-factor authentication for every member. Members
+                without it are asked to set it up at their next sign-in.
+              </span>
+            </label>
+            {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Security</h2>
+        <p className="text-sm text-gray-600">
+          Protect your account with a second sign-in step
+        </p>
+      </div>
+      {content}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { signOut } from 'next-auth/react'
+import { MonitorSmartphone } from 'lucide-react'
+
+interface UserSession {
+  id: string
+  device: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string | null
+  current: boolean
+}
+
+interface SessionManagerProps {
+  className?: string
+}
+
+export default function SessionManager({
+  className = '',
+}: SessionManagerProps) {
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/auth/sessions')
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to load sessions')
+      }
+
+      const data = await response.json()
+      setSessions(data.sessions || [])
+    } catch (err) {
+      console.error('Error loading sessions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (session: UserSession) => {
+    if (
+      session.current &&
+      !confirm('Sign out this device? You will need to sign in again.')
+    ) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/auth/sessions/${encodeURIComponent(session.id)}`,
+        { method: 'DELETE' }
+      )
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to sign out session')
+      }
+
+      if (session.current) {
+        signOut({ callbackUrl: '/auth/login' })
+        return
+      }
+      setSessions(prev => prev.filter(item => item.id !== session.id))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to sign out session')
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out every other device?')) return
+
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to sign out other sessions')
+      }
+      setSessions(prev => prev.filter(session => session.current))
+    } catch (err) {
+      alert(
+        err instanceof Error ? err.message : 'Failed to sign out other sessions'
+      )
+    }
+  }
+
+  const hasOthers = sessions.some(session => !session.current)
+
+  let content: React.ReactNode
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadSessions}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else {
+    content = (
+      <ul className="divide-y divide-gray-200">
+        {sessions.map(session => (
+          <li
+            key={session.id}
+            className="py-4 flex items-start justify-between gap-4"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 flex items-center">
+                {session.device || 'Unknown device'}
+                {session.current && (
+                  <span className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded text-green-700 bg-green-50">
+                    this device
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {session.ipAddress || 'Unknown IP'} · signed in{' '}
+                {new Date(session.createdAt).toLocaleString()} · last active{' '}
+                {new Date(session.lastSeenAt).toLocaleString()}
+              </p>
+              {session.userAgent && (
+                <p
+                  className="text-xs text-gray-400 mt-1 truncate"
+                  title={session.userAgent}
+                >
+                  {session.userAgent}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => handleRevoke(session)}
+              className="inline-flex items-center px-3 py-1 border border-red-300 shadow-sm text-xs font-medium rounded-md text-red-700 bg-white hover:bg-red-50 shrink-0"
+            >
+              Sign out
+            </button>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <MonitorSmartphone className="h-5 w-5 mr-2 text-blue-600" />
+          Sessions
+        </h3>
+        {hasOthers && (
+          <button
+            onClick={handleRevokeOthers}
+            className="inline-flex items-center px-3 py-1.5 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+          >
+            Sign out other devices
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500">
+        Devices currently signed in to your account. Sign out any you do not
+        recognize.
+      </p>
+      {content}
+    </div>
+  )
+}
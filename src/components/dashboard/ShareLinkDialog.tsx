@@ -0,0 +1,236 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Check, Copy, Link2, X } from 'lucide-react'
+
+interface ShareLinkDocument {
+  id: string
+  fileName: string
+}
+
+interface ShareLinkDialogProps {
+  documents: ShareLinkDocument[]
+  onClose: () => void
+  onCreated?: () => void
+}
+
+const DEFAULT_DAYS = 7
+
+function getDefaultExpiry() {
+  const date = new Date()
+  date.setDate(date.getDate() + DEFAULT_DAYS)
+  return date.toISOString().slice(0, 10)
+}
+
+export default function ShareLinkDialog({
+  documents,
+  onClose,
+  onCreated,
+}: ShareLinkDialogProps) {
+  const [form, setForm] = useState({
+    label: '',
+    recipientEmail: '',
+    password: '',
+    expiresAt: getDefaultExpiry(),
+    maxDownloads: '',
+    watermark: true,
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [url, setUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/share-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          documentIds: documents.map(doc => doc.id),
+          label: form.label || undefined,
+          recipientEmail: form.recipientEmail || undefined,
+          password: form.password || undefined,
+          // Links last through the chosen day
+          expiresAt: new Date(`${form.expiresAt}T23:59:59`).toISOString(),
+          maxDownloads: form.maxDownloads
+            ? parseInt(form.maxDownloads)
+            : undefined,
+          watermark: form.watermark && !!form.recipientEmail,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create share link')
+      }
+
+      setUrl(result.url)
+      onCreated?.()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to create share link'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!url) return
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  const content = url ? (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Send this link to the recipient. It is only shown once; revoke it from
+        the share links page if it is sent to the wrong person.
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          readOnly
+          value={url}
+          onFocus={e => e.target.select()}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+        />
+        <button
+          onClick={handleCopy}
+          className="inline-flex items-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg"
+        >
+          {copied ? (
+            <Check className="h-4 w-4 mr-1" />
+          ) : (
+            <Copy className="h-4 w-4 mr-1" />
+          )}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  ) : (
+    <form onSubmit={handleCreate} className="space-y-4">
+      <ul className="text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 max-h-32 overflow-y-auto">
+        {documents.map(doc => (
+          <li key={doc.id} className="truncate">
+            {doc.fileName}
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={form.label}
+        onChange={e => setForm(prev => ({ ...prev, label: e.target.value }))}
+        placeholder="Label (e.g. Discovery for opposing counsel)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <input
+        type="email"
+        value={form.recipientEmail}
+        onChange={e =>
+          setForm(prev => ({ ...prev, recipientEmail: e.target.value }))
+        }
+        placeholder="Recipient email"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <input
+        type="password"
+        value={form.password}
+        onChange={e => setForm(prev => ({ ...prev, password: e.target.value }))}
+        placeholder="Password (optional)"
+        autoComplete="new-password"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-xs text-gray-600">Expires</label>
+        <input
+          type="date"
+          required
+          value={form.expiresAt}
+          onChange={e =>
+            setForm(prev => ({ ...prev, expiresAt: e.target.value }))
+          }
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <label className="text-xs text-gray-600">Max downloads</label>
+        <input
+          type="number"
+          min={1}
+          value={form.maxDownloads}
+          onChange={e =>
+            setForm(prev => ({ ...prev, maxDownloads: e.target.value }))
+          }
+          placeholder="Unlimited"
+          className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </div>
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={form.watermark}
+          disabled={!form.recipientEmail}
+          onChange={e =>
+            setForm(prev => ({ ...prev, watermark: e.target.checked }))
+          }
+          className="mr-2"
+        />
+        Watermark with the recipient&apos;s email
+        <span className="ml-1 text-xs text-gray-500">
+          (PDFs and images only; other files are not marked)
+        </span>
+      </label>
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+        >
+          {saving ? 'Creating...' : 'Create link'}
+        </button>
+      </div>
+    </form>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[95vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Link2 className="h-5 w-5 text-blue-600" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900">
+                External share link
+              </h3>
+              <p className="text-sm text-gray-600 truncate">
+                {documents.length === 1
+                  ? documents[0].fileName
+                  : `${documents.length} documents`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">{content}</div>
+      </div>
+    </div>
+  )
+}
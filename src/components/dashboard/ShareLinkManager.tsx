@@ -0,0 +1,258 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Link2, Lock } from 'lucide-react'
+
+type ShareLinkStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED' | 'EXHAUSTED'
+
+interface ShareLink {
+  id: string
+  label?: string | null
+  recipientEmail?: string | null
+  passwordProtected: boolean
+  expiresAt: string
+  maxDownloads: number | null
+  downloadCount: number
+  watermark: boolean
+  status: ShareLinkStatus
+  documents: { id: string; fileName: string; watermarked: boolean }[]
+  accessCount?: number
+  createdByName?: string | null
+  createdAt: string
+}
+
+interface AccessLogEntry {
+  id: string
+  action: 'VIEW' | 'DOWNLOAD' | 'DENIED'
+  reason?: string | null
+  fileName?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+  createdAt: string
+}
+
+interface ShareLinkManagerProps {
+  className?: string
+}
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  ACTIVE: 'text-green-700 bg-green-50',
+  EXPIRED: 'text-gray-600 bg-gray-100',
+  REVOKED: 'text-red-700 bg-red-50',
+  EXHAUSTED: 'text-amber-700 bg-amber-50',
+}
+
+const ACTION_STYLES: Record<AccessLogEntry['action'], string> = {
+  VIEW: 'text-blue-700',
+  DOWNLOAD: 'text-green-700',
+  DENIED: 'text-red-700',
+}
+
+export default function ShareLinkManager({
+  className = '',
+}: ShareLinkManagerProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [logFor, setLogFor] = useState<string | null>(null)
+  const [accessLog, setAccessLog] = useState<AccessLogEntry[]>([])
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/share-links')
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to load share links')
+      }
+
+      const data = await response.json()
+      setLinks(data.links || [])
+    } catch (err) {
+      console.error('Error loading share links:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load links')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  const handleToggleLog = async (link: ShareLink) => {
+    if (logFor === link.id) {
+      setLogFor(null)
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/share-links/${encodeURIComponent(link.id)}`
+      )
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load access log')
+      }
+
+      setAccessLog(result.accessLog || [])
+      setLogFor(link.id)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load access log')
+    }
+  }
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? The recipient will lose access.')) return
+
+    try {
+      const response = await fetch(
+        `/api/share-links/${encodeURIComponent(link.id)}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to revoke link')
+      }
+
+      loadLinks()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revoke link')
+    }
+  }
+
+  let content: React.ReactNode
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadLinks}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else if (links.length === 0) {
+    content = (
+      <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+        <p className="text-sm text-gray-500">
+          No share links yet. Select documents in a file list to create one.
+        </p>
+      </div>
+    )
+  } else {
+    content = (
+      <ul className="divide-y divide-gray-200">
+        {links.map(link => (
+          <li key={link.id} className="py-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center">
+                  {link.label ||
+                    link.documents.map(doc => doc.fileName).join(', ')}
+                  {link.passwordProtected && (
+                    <Lock className="h-3 w-3 ml-2 text-gray-400" />
+                  )}
+                  <span
+                    className={`ml-2 text-xs font-medium px-1.5 py-0.5 rounded ${STATUS_STYLES[link.status]}`}
+                  >
+                    {link.status.toLowerCase()}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {link.recipientEmail || 'Anyone with the link'}
+                  {` · ${link.documents.length} document${link.documents.length === 1 ? '' : 's'}`}
+                  {` · ${link.downloadCount}${link.maxDownloads ? `/${link.maxDownloads}` : ''} downloads`}
+                  {` · expires ${new Date(link.expiresAt).toLocaleDateString()}`}
+                  {link.createdByName && ` · by ${link.createdByName}`}
+                </p>
+                {link.watermark &&
+                  link.documents.some(doc => !doc.watermarked) && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      Not watermarked (only PDFs and images can be marked):{' '}
+                      {link.documents
+                        .filter(doc => !doc.watermarked)
+                        .map(doc => doc.fileName)
+                        .join(', ')}
+                    </p>
+                  )}
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                <button
+                  onClick={() => handleToggleLog(link)}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Access log
+                  {link.accessCount !== undefined && ` (${link.accessCount})`}
+                </button>
+                {link.status !== 'REVOKED' && (
+                  <button
+                    onClick={() => handleRevoke(link)}
+                    className="inline-flex items-center px-3 py-1 border border-red-300 shadow-sm text-xs font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {logFor === link.id && (
+              <div className="mt-3 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                {accessLog.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    The link has not been opened yet.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {accessLog.map(entry => (
+                      <li key={entry.id} className="text-xs text-gray-600">
+                        <span className="text-gray-500">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>{' '}
+                        <span
+                          className={`font-medium ${ACTION_STYLES[entry.action]}`}
+                        >
+                          {entry.action.toLowerCase()}
+                        </span>
+                        {entry.fileName && ` ${entry.fileName}`}
+                        {entry.reason &&
+                          ` (${entry.reason.replace(/_/g, ' ')})`}
+                        {` · ${entry.ipAddress || 'unknown IP'}`}
+                        {entry.userAgent && (
+                          <span className="block truncate text-gray-400">
+                            {entry.userAgent}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <Link2 className="h-5 w-5 mr-2 text-blue-600" />
+        External Share Links
+      </h3>
+      {content}
+    </div>
+  )
+}
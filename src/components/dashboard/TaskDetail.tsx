@@ -0,0 +1,407 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import {
+  CheckSquare,
+  Square,
+  Trash2,
+  MessageSquare,
+  Clock,
+  Scale,
+  User as UserIcon,
+} from 'lucide-react'
+
+interface ChecklistItem {
+  id: string
+  title: string
+  done: boolean
+}
+
+interface TaskDetails {
+  id: string
+  title: string
+  description?: string | null
+  priority: string
+  status: string
+  dueDate?: string | null
+  overdue: boolean
+  caseId?: string | null
+  caseTitle?: string | null
+  assignedUserName?: string | null
+  createdByName?: string | null
+  checklist: ChecklistItem[]
+}
+
+interface TaskComment {
+  id: string
+  body: string
+  authorName?: string | null
+  createdAt: string
+}
+
+interface TaskDetailProps {
+  taskId: string
+  canEdit?: boolean
+  canDelete?: boolean
+  onDeleted?: () => void
+}
+
+const STATUS_OPTIONS = [
+  { value: 'TODO', label: 'To do' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'BLOCKED', label: 'Blocked' },
+  { value: 'DONE', label: 'Done' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+]
+
+const PRIORITY_OPTIONS = ['LOW', 'MEDIUM', 'HIGH', 'URGENT']
+
+export default function TaskDetail({
+  taskId,
+  canEdit = false,
+  canDelete = false,
+  onDeleted,
+}: TaskDetailProps) {
+  const [task, setTask] = useState<TaskDetails | null>(null)
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [newItem, setNewItem] = useState('')
+  const [newComment, setNewComment] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const taskUrl = `/api/tasks/${encodeURIComponent(taskId)}`
+
+  const loadTask = useCallback(async () => {
+    try {
+      setError(null)
+
+      const [taskResponse, commentsResponse] = await Promise.all([
+        fetch(taskUrl),
+        fetch(`${taskUrl}/comments`),
+      ])
+
+      if (!taskResponse.ok) {
+        throw new Error(
+          taskResponse.status === 404 ? 'Task not found' : 'Failed to load task'
+        )
+      }
+
+      const taskData = await taskResponse.json()
+      const commentsData = commentsResponse.ok
+        ? await commentsResponse.json()
+        : { comments: [] }
+      setTask(taskData.task)
+      setComments(commentsData.comments || [])
+    } catch (err) {
+      console.error('Error loading task:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load task')
+    }
+  }, [taskUrl])
+
+  useEffect(() => {
+    loadTask()
+  }, [loadTask])
+
+  // Send a request and reload the task, alerting on failure
+  const mutate = async (url: string, init: RequestInit, fallback: string) => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || fallback)
+      }
+
+      await loadTask()
+      return true
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallback)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateTask = (changes: Record<string, unknown>) =>
+    mutate(
+      taskUrl,
+      { method: 'PATCH', body: JSON.stringify(changes) },
+      'Failed to update task'
+    )
+
+  const addChecklistItem = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const added = await mutate(
+      `${taskUrl}/checklist`,
+      { method: 'POST', body: JSON.stringify({ title: newItem }) },
+      'Failed to add checklist item'
+    )
+    if (added) setNewItem('')
+  }
+
+  const addComment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const added = await mutate(
+      `${taskUrl}/comments`,
+      { method: 'POST', body: JSON.stringify({ body: newComment }) },
+      'Failed to add comment'
+    )
+    if (added) setNewComment('')
+  }
+
+  const handleDelete = async () => {
+    if (!task || !confirm(`Delete "${task.title}"?`)) return
+
+    const response = await fetch(taskUrl, { method: 'DELETE' })
+    if (response.ok) {
+      onDeleted?.()
+    } else {
+      alert('Failed to delete task')
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadTask}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  if (!task) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Task Header */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{task.title}</h1>
+            {task.description && (
+              <p className="text-gray-600 mt-1 whitespace-pre-wrap">
+                {task.description}
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-3">
+              <span className="flex items-center">
+                <UserIcon className="h-4 w-4 mr-1" />
+                {task.assignedUserName || 'Unassigned'}
+              </span>
+              {task.dueDate && (
+                <span
+                  className={`flex items-center ${
+                    task.overdue ? 'text-red-600 font-medium' : ''
+                  }`}
+                >
+                  <Clock className="h-4 w-4 mr-1" />
+                  Due {new Date(task.dueDate).toLocaleDateString()}
+                </span>
+              )}
+              {task.caseId && (
+                <Link
+                  href={`/dashboard/cases/${task.caseId}`}
+                  className="flex items-center text-blue-600 hover:text-blue-800"
+                >
+                  <Scale className="h-4 w-4 mr-1" />
+                  {task.caseTitle}
+                </Link>
+              )}
+              {task.createdByName && (
+                <span>Created by {task.createdByName}</span>
+              )}
+            </div>
+          </div>
+          {canDelete && (
+            <button
+              onClick={handleDelete}
+              className="text-gray-400 hover:text-red-600"
+              aria-label="Delete task"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={task.status}
+            disabled={!canEdit || saving}
+            onChange={e => updateTask({ status: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={task.priority}
+            disabled={!canEdit || saving}
+            onChange={e => updateTask({ priority: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {PRIORITY_OPTIONS.map(priority => (
+              <option key={priority} value={priority}>
+                {priority.charAt(0) + priority.slice(1).toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            disabled={!canEdit || saving}
+            value={task.dueDate ? task.dueDate.slice(0, 10) : ''}
+            onChange={e =>
+              updateTask({
+                dueDate: e.target.value
+                  ? new Date(e.target.value).toISOString()
+                  : null,
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Checklist */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Checklist</h3>
+          {task.checklist.length === 0 ? (
+            <p className="text-sm text-gray-500">No checklist items</p>
+          ) : (
+            <ul className="space-y-2">
+              {task.checklist.map(item => (
+                <li key={item.id} className="flex items-center group">
+                  <button
+                    disabled={!canEdit || saving}
+                    onClick={() =>
+                      mutate(
+                        `${taskUrl}/checklist/${item.id}`,
+                        {
+                          method: 'PATCH',
+                          body: JSON.stringify({ done: !item.done }),
+                        },
+                        'Failed to update checklist item'
+                      )
+                    }
+                    className="mr-2 text-gray-400 hover:text-green-600"
+                  >
+                    {item.done ? (
+                      <CheckSquare className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Square className="h-4 w-4" />
+                    )}
+                  </button>
+                  <span
+                    className={`flex-1 text-sm ${
+                      item.done ? 'text-gray-400 line-through' : 'text-gray-900'
+                    }`}
+                  >
+                    {item.title}
+                  </span>
+                  {canEdit && (
+                    <button
+                      onClick={() =>
+                        mutate(
+                          `${taskUrl}/checklist/${item.id}`,
+                          { method: 'DELETE' },
+                          'Failed to delete checklist item'
+                        )
+                      }
+                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                      aria-label="Remove item"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canEdit && (
+            <form onSubmit={addChecklistItem} className="flex space-x-2">
+              <input
+                type="text"
+                required
+                value={newItem}
+                onChange={e => setNewItem(e.target.value)}
+                placeholder="Add an item"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+              >
+                Add
+              </button>
+            </form>
+          )}
+        </div>
+
+        {/* Comments */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <MessageSquare className="h-5 w-5 mr-2 text-gray-600" />
+            Comments
+          </h3>
+          {comments.length === 0 ? (
+            <p className="text-sm text-gray-500">No comments yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {comments.map(comment => (
+                <li key={comment.id} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap">
+                    {comment.body}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {comment.authorName || 'Unknown'} ·{' '}
+                    {new Date(comment.createdAt).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={addComment} className="space-y-2">
+            <textarea
+              required
+              rows={3}
+              value={newComment}
+              onChange={e => setNewComment(e.target.value)}
+              placeholder="Write a comment"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+              >
+                Comment
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
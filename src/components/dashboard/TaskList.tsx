@@ -0,0 +1,304 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { CheckSquare, Square, Plus, Clock, ListChecks } from 'lucide-react'
+
+interface Task {
+  id: string
+  title: string
+  priority: string
+  status: string
+  dueDate?: string | null
+  overdue: boolean
+  caseTitle?: string | null
+  assignedUserName?: string | null
+  checklist: { id: string }[]
+  checklistDone: number
+}
+
+interface TaskListProps {
+  assignedToMe?: boolean
+  caseId?: string
+  allowCreate?: boolean
+  limit?: number
+  className?: string
+}
+
+const PRIORITY_STYLES: Record<string, string> = {
+  LOW: 'text-gray-700 bg-gray-100',
+  MEDIUM: 'text-blue-700 bg-blue-100',
+  HIGH: 'text-orange-700 bg-orange-100',
+  URGENT: 'text-red-700 bg-red-100',
+}
+
+const STATUS_FILTERS = [
+  { value: 'open', label: 'Open' },
+  { value: 'DONE', label: 'Done' },
+  { value: '', label: 'All' },
+]
+
+const EMPTY_FORM = { title: '', priority: 'MEDIUM', dueDate: '' }
+
+export default function TaskList({
+  assignedToMe = false,
+  caseId,
+  allowCreate = false,
+  limit = 20,
+  className = '',
+}: TaskListProps) {
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState('open')
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const loadTasks = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ limit: String(limit) })
+      if (status) params.set('status', status)
+      if (assignedToMe) params.set('assignee', 'me')
+      if (caseId) params.set('caseId', caseId)
+
+      const response = await fetch(`/api/tasks?${params}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tasks: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setTasks(data.tasks || [])
+    } catch (err) {
+      console.error('Error loading tasks:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load tasks')
+    } finally {
+      setLoading(false)
+    }
+  }, [status, assignedToMe, caseId, limit])
+
+  useEffect(() => {
+    loadTasks()
+  }, [loadTasks])
+
+  const toggleDone = async (task: Task) => {
+    try {
+      const response = await fetch(
+        `/api/tasks/${encodeURIComponent(task.id)}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            status: task.status === 'DONE' ? 'TODO' : 'DONE',
+          }),
+        }
+      )
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to update task')
+      }
+
+      loadTasks()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update task')
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/tasks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: form.title,
+          priority: form.priority,
+          dueDate: form.dueDate
+            ? new Date(form.dueDate).toISOString()
+            : undefined,
+          caseId,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create task')
+      }
+
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      loadTasks()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create task')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <ListChecks className="h-5 w-5 mr-2 text-green-600" />
+          {assignedToMe ? 'My Tasks' : 'Tasks'}
+        </h3>
+        <div className="flex items-center space-x-3">
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+          >
+            {STATUS_FILTERS.map(filter => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+          {allowCreate && (
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Task
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleCreate}
+          className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <input
+            type="text"
+            required
+            value={form.title}
+            onChange={e =>
+              setForm(prev => ({ ...prev, title: e.target.value }))
+            }
+            placeholder="What needs to be done?"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={form.priority}
+              onChange={e =>
+                setForm(prev => ({ ...prev, priority: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="LOW">Low</option>
+              <option value="MEDIUM">Medium</option>
+              <option value="HIGH">High</option>
+              <option value="URGENT">Urgent</option>
+            </select>
+            <input
+              type="date"
+              value={form.dueDate}
+              onChange={e =>
+                setForm(prev => ({ ...prev, dueDate: e.target.value }))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="ml-auto px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+            >
+              {saving ? 'Saving...' : 'Add Task'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">Error loading tasks: {error}</p>
+          <button
+            onClick={loadTasks}
+            className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : tasks.length === 0 ? (
+        <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+          <p className="text-sm text-gray-500">No tasks</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {tasks.map(task => (
+            <li key={task.id} className="flex items-start py-3">
+              <button
+                onClick={() => toggleDone(task)}
+                className="mt-0.5 mr-3 text-gray-400 hover:text-green-600"
+                aria-label={
+                  task.status === 'DONE' ? 'Mark as not done' : 'Mark as done'
+                }
+              >
+                {task.status === 'DONE' ? (
+                  <CheckSquare className="h-4 w-4 text-green-600" />
+                ) : (
+                  <Square className="h-4 w-4" />
+                )}
+              </button>
+              <div className="flex-1 min-w-0">
+                <Link
+                  href={`/dashboard/tasks/${task.id}`}
+                  className={`text-sm font-medium hover:text-blue-700 ${
+                    task.status === 'DONE'
+                      ? 'text-gray-400 line-through'
+                      : 'text-gray-900'
+                  }`}
+                >
+                  {task.title}
+                </Link>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-1">
+                  {task.dueDate && (
+                    <span
+                      className={`flex items-center ${
+                        task.overdue ? 'text-red-600 font-medium' : ''
+                      }`}
+                    >
+                      <Clock className="h-3 w-3 mr-1" />
+                      {new Date(task.dueDate).toLocaleDateString()}
+                    </span>
+                  )}
+                  {task.checklist.length > 0 && (
+                    <span>
+                      {task.checklistDone}/{task.checklist.length} done
+                    </span>
+                  )}
+                  {task.caseTitle && <span>{task.caseTitle}</span>}
+                  {!assignedToMe && (
+                    <span>{task.assignedUserName || 'Unassigned'}</span>
+                  )}
+                </div>
+              </div>
+              <span
+                className={`text-xs font-medium px-2 py-0.5 rounded ml-2 ${
+                  PRIORITY_STYLES[task.priority] || PRIORITY_STYLES.MEDIUM
+                }`}
+              >
+                {task.priority}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,325 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Users, X } from 'lucide-react'
+
+interface FirmUserRole {
+  id: string
+  name: string
+  baseRole: string | null
+}
+
+interface FirmUser {
+  id: string
+  email: string
+  name: string | null
+  isActive: boolean
+  role: string | null
+  roles: FirmUserRole[]
+  joinedAt: string | null
+}
+
+interface RoleOption {
+  id: string
+  name: string
+}
+
+type StatusFilter = 'all' | 'active' | 'inactive'
+
+interface UserManagerProps {
+  currentUserId: string
+  canEdit: boolean
+  canManageRoles: boolean
+  className?: string
+}
+
+export default function UserManager({
+  currentUserId,
+  canEdit,
+  canManageRoles,
+  className = '',
+}: UserManagerProps) {
+  const [users, setUsers] = useState<FirmUser[]>([])
+  const [roles, setRoles] = useState<RoleOption[]>([])
+  const [status, setStatus] = useState<StatusFilter>('all')
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ status })
+      if (search.trim()) params.set('search', search.trim())
+
+      const [usersResponse, rolesResponse] = await Promise.all([
+        fetch(`/api/users?${params}`),
+        fetch('/api/roles'),
+      ])
+      if (!usersResponse.ok) {
+        const result = await usersResponse.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to load users')
+      }
+
+      const data = await usersResponse.json()
+      setUsers(data.users || [])
+
+      if (rolesResponse.ok) {
+        const rolesData = await rolesResponse.json()
+        setRoles(rolesData.roles || [])
+      }
+    } catch (err) {
+      console.error('Error loading users:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }, [status, search])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  // Replace one member in the list with the API's updated copy
+  const applyUpdate = (updated: FirmUser) => {
+    setUsers(prev =>
+      prev.map(user => (user.id === updated.id ? updated : user))
+    )
+  }
+
+  const updateUser = async (
+    url: string,
+    init: RequestInit,
+    fallback: string
+  ) => {
+    try {
+      const response = await fetch(url, init)
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || fallback)
+      }
+      if (result.user) applyUpdate(result.user)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallback)
+    }
+  }
+
+  const handleToggleActive = (user: FirmUser) => {
+    if (
+      user.isActive &&
+      !confirm(`Deactivate ${user.name || user.email}? They lose access.`)
+    ) {
+      return
+    }
+
+    updateUser(
+      `/api/users/${encodeURIComponent(user.id)}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !user.isActive }),
+      },
+      'Failed to update user'
+    )
+  }
+
+  const handleRevokeSessions = async (user: FirmUser) => {
+    if (!confirm(`Sign ${user.name || user.email} out of every device?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/users/${encodeURIComponent(user.id)}/sessions`,
+        { method: 'DELETE' }
+      )
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revoke sessions')
+      }
+      alert(
+        result.revoked === 1
+          ? 'Signed out of 1 session'
+          : `Signed out of ${result.revoked} sessions`
+      )
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revoke sessions')
+    }
+  }
+
+  const handleAddRole = (user: FirmUser, roleId: string) => {
+    if (!roleId) return
+    updateUser(
+      `/api/users/${encodeURIComponent(user.id)}/roles`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roleId }),
+      },
+      'Failed to assign role'
+    )
+  }
+
+  const handleRemoveRole = (user: FirmUser, role: FirmUserRole) => {
+    if (
+      !confirm(`Remove the ${role.name} role from ${user.name || user.email}?`)
+    )
+      return
+
+    updateUser(
+      `/api/users/${encodeURIComponent(user.id)}/roles/${encodeURIComponent(role.id)}`,
+      { method: 'DELETE' },
+      'Failed to remove role'
+    )
+  }
+
+  let content: React.ReactNode
+  if (loading && users.length === 0) {
+    content = (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (error) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadUsers}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  } else if (users.length === 0) {
+    content = (
+      <div className="text-center p-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+        <p className="text-sm text-gray-500">No members match.</p>
+      </div>
+    )
+  } else {
+    content = (
+      <ul className="divide-y divide-gray-200">
+        {users.map(user => {
+          const assignable = roles.filter(
+            role => !user.roles.some(userRole => userRole.id === role.id)
+          )
+
+          return (
+            <li key={user.id} className="py-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 flex items-center">
+                    {user.name || user.email}
+                    {user.id === currentUserId && (
+                      <span className="ml-2 text-xs text-gray-500">(you)</span>
+                    )}
+                    {!user.isActive && (
+                      <span className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded text-gray-600 bg-gray-100">
+                        inactive
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {user.name && `${user.email} · `}
+                    {user.joinedAt
+                      ? `joined ${new Date(user.joinedAt).toLocaleDateString()}`
+                      : 'join date unknown'}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    {user.roles.map(role => (
+                      <span
+                        key={role.id}
+                        className="inline-flex items-center text-xs font-medium px-2 py-0.5 rounded-full bg-blue-50 text-blue-700"
+                      >
+                        {role.name}
+                        {canManageRoles && user.roles.length > 1 && (
+                          <button
+                            onClick={() => handleRemoveRole(user, role)}
+                            className="ml-1 text-blue-400 hover:text-blue-700"
+                            aria-label={`Remove ${role.name}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                    {canManageRoles && assignable.length > 0 && (
+                      <select
+                        value=""
+                        onChange={e => handleAddRole(user, e.target.value)}
+                        className="text-xs border border-gray-300 rounded-md px-2 py-0.5 text-gray-700 bg-white"
+                      >
+                        <option value="">Add role…</option>
+                        {assignable.map(role => (
+                          <option key={role.id} value={role.id}>
+                            {role.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+                {canEdit && user.id !== currentUserId && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    {user.isActive && (
+                      <button
+                        onClick={() => handleRevokeSessions(user)}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        Sign out everywhere
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleToggleActive(user)}
+                      className={`inline-flex items-center px-3 py-1 border shadow-sm text-xs font-medium rounded-md bg-white ${
+                        user.isActive
+                          ? 'border-red-300 text-red-700 hover:bg-red-50'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {user.isActive ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    )
+  }
+
+  return (
+    <div className={`${className} space-y-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Users className="h-5 w-5 mr-2 text-blue-600" />
+          Members
+        </h3>
+        <div className="flex items-center gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search name or email"
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as StatusFilter)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+          >
+            <option value="all">All</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+          </select>
+        </div>
+      </div>
+      {content}
+    </div>
+  )
+}
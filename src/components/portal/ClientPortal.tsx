@@ -0,0 +1,241 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Scale, FileText, Gavel, Download, Clock } from 'lucide-react'
+
+interface PortalCase {
+  id: string
+  title: string
+  status: string
+  practiceArea?: string | null
+  lawyerName?: string | null
+  updatedAt: string
+}
+
+interface CourtDate {
+  id: string
+  title: string
+  date: string
+  allDay: boolean
+  courtName?: string | null
+  location?: string | null
+  caseTitle?: string | null
+}
+
+interface SharedDocument {
+  id: string
+  fileName: string
+  fileSize: number
+  caseTitle?: string | null
+  sharedAt: string
+}
+
+interface PortalOverview {
+  client: { fullName: string; email: string; lawFirmName: string | null }
+  cases: PortalCase[]
+  courtDates: CourtDate[]
+}
+
+export default function ClientPortal() {
+  const [overview, setOverview] = useState<PortalOverview | null>(null)
+  const [documents, setDocuments] = useState<SharedDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPortal = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [overviewResponse, documentsResponse] = await Promise.all([
+        fetch('/api/portal'),
+        fetch('/api/portal/documents'),
+      ])
+
+      if (!overviewResponse.ok || !documentsResponse.ok) {
+        const failed = overviewResponse.ok
+          ? documentsResponse
+          : overviewResponse
+        const result = await failed.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to load your portal')
+      }
+
+      const overviewData = await overviewResponse.json()
+      const documentsData = await documentsResponse.json()
+      setOverview(overviewData)
+      setDocuments(documentsData.documents || [])
+    } catch (err) {
+      console.error('Error loading portal:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load portal')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPortal()
+  }, [loadPortal])
+
+  const handleDownload = async (doc: SharedDocument) => {
+    try {
+      const response = await fetch(
+        `/api/portal/documents/${encodeURIComponent(doc.id)}/download`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to generate download link')
+      }
+
+      const result = await response.json()
+      const link = document.createElement('a')
+      link.href = result.download.downloadUrl
+      link.download = doc.fileName
+      link.click()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Download failed')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+        <button
+          onClick={loadPortal}
+          className="mt-2 text-xs text-red-600 hover:text-red-800 underline"
+        >
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">
+          Welcome, {overview.client.fullName}
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Your matters with {overview.client.lawFirmName || 'your law firm'}
+        </p>
+      </div>
+
+      {/* Upcoming Court Dates */}
+      <section className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          Upcoming Court Dates
+        </h2>
+        {overview.courtDates.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming court dates</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {overview.courtDates.map(courtDate => (
+              <li key={courtDate.id} className="flex items-start py-3">
+                <Gavel className="h-4 w-4 text-red-600 mt-0.5 mr-3" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {courtDate.title}
+                  </p>
+                  <p className="text-xs text-gray-500 flex items-center mt-1">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {courtDate.allDay
+                      ? new Date(courtDate.date).toLocaleDateString()
+                      : new Date(courtDate.date).toLocaleString()}
+                    {(courtDate.courtName || courtDate.location) &&
+                      ` · ${courtDate.courtName || courtDate.location}`}
+                    {courtDate.caseTitle && ` · ${courtDate.caseTitle}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Cases */}
+        <section className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">My Cases</h2>
+          {overview.cases.length === 0 ? (
+            <p className="text-sm text-gray-500">No cases yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {overview.cases.map(c => (
+                <li
+                  key={c.id}
+                  className="flex items-start justify-between py-3"
+                >
+                  <div className="flex items-start space-x-2">
+                    <Scale className="h-4 w-4 text-blue-600 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {c.title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {c.practiceArea || 'General'}
+                        {c.lawyerName && ` · ${c.lawyerName}`}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-xs font-medium text-blue-700 bg-blue-100 px-2 py-1 rounded">
+                    {c.status.replace('_', ' ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Shared Documents */}
+        <section className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">
+            Shared Documents
+          </h2>
+          {documents.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No documents have been shared with you yet
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {documents.map(doc => (
+                <li
+                  key={doc.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div className="flex items-start space-x-2 min-w-0">
+                    <FileText className="h-4 w-4 text-orange-600 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {doc.fileName}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Shared {new Date(doc.sharedAt).toLocaleDateString()}
+                        {doc.caseTitle && ` · ${doc.caseTitle}`}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDownload(doc)}
+                    className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800 ml-4"
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    Download
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
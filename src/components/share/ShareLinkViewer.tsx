@@ -0,0 +1,285 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Scale, FileText, Download, Lock, Clock } from 'lucide-react'
+
+interface SharedDocument {
+  id: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  watermarked: boolean
+}
+
+interface ShareDetails {
+  label?: string | null
+  recipientEmail?: string | null
+  watermark: boolean
+  expiresAt: string
+  downloadsRemaining: number | null
+  canDownload: boolean
+}
+
+interface ShareLinkViewerProps {
+  token: string
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+export default function ShareLinkViewer({ token }: ShareLinkViewerProps) {
+  const [share, setShare] = useState<ShareDetails | null>(null)
+  const [documents, setDocuments] = useState<SharedDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [password, setPassword] = useState('')
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+
+  const shareUrl = `/api/share/${encodeURIComponent(token)}`
+
+  const openLink = useCallback(
+    async (linkPassword?: string) => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await fetch(shareUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password: linkPassword || undefined }),
+        })
+
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          setPasswordRequired(!!result.passwordRequired)
+          // The first visit to a protected link only asks for the password
+          throw new Error(
+            result.passwordRequired && !linkPassword
+              ? ''
+              : result.error || 'Failed to open link'
+          )
+        }
+
+        setPasswordRequired(false)
+        setShare(result.share)
+        setDocuments(result.documents || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to open link')
+      } finally {
+        setLoading(false)
+      }
+    },
+    [shareUrl]
+  )
+
+  useEffect(() => {
+    openLink()
+  }, [openLink])
+
+  const handleDownload = async (doc: SharedDocument) => {
+    setDownloadingId(doc.id)
+
+    try {
+      const response = await fetch(`${shareUrl}/download`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          documentId: doc.id,
+          password: password || undefined,
+        }),
+      })
+
+      const isJson = response.headers
+        .get('Content-Type')
+        ?.includes('application/json')
+
+      if (!response.ok) {
+        const result = isJson ? await response.json() : {}
+        throw new Error(result.error || 'Failed to generate download link')
+      }
+
+      // Watermarked files come back as the response body, others as a URL
+      const link = document.createElement('a')
+      if (isJson) {
+        const result = await response.json()
+        link.href = result.download.downloadUrl
+        link.download = result.metadata.fileName
+        link.click()
+      } else {
+        const url = URL.createObjectURL(await response.blob())
+        link.href = url
+        link.download = doc.fileName
+        link.click()
+        setTimeout(() => URL.revokeObjectURL(url), 1000)
+      }
+
+      setShare(prev => {
+        if (!prev || prev.downloadsRemaining === null) return prev
+        const downloadsRemaining = Math.max(prev.downloadsRemaining - 1, 0)
+        return {
+          ...prev,
+          downloadsRemaining,
+          canDownload: downloadsRemaining > 0,
+        }
+      })
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Download failed')
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  let content: React.ReactNode
+  if (loading && !share) {
+    content = (
+      <div className="flex items-center justify-center p-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  } else if (passwordRequired) {
+    content = (
+      <form
+        onSubmit={e => {
+          e.preventDefault()
+          openLink(password)
+        }}
+        className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4"
+      >
+        <div className="flex items-center space-x-2">
+          <Lock className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-medium text-gray-900">
+            This link is password protected
+          </h2>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <input
+          type="password"
+          required
+          autoFocus
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          placeholder="Password"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+        >
+          {loading ? 'Opening...' : 'Open'}
+        </button>
+      </form>
+    )
+  } else if (error || !share) {
+    content = (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-sm text-red-800">{error}</p>
+      </div>
+    )
+  } else {
+    const watermark = share.watermark && share.recipientEmail
+
+    content = (
+      <section className="relative overflow-hidden bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+        {watermark && (
+          <div
+            aria-hidden="true"
+            className="pointer-events-none absolute inset-0 flex items-center justify-center"
+          >
+            <span className="text-4xl font-bold text-gray-100 -rotate-12 select-none whitespace-nowrap">
+              {share.recipientEmail}
+            </span>
+          </div>
+        )}
+
+        <div className="relative space-y-4">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">
+              {share.label || 'Shared documents'}
+            </h1>
+            <p className="text-xs text-gray-500 mt-1 flex items-center">
+              <Clock className="h-3 w-3 mr-1" />
+              Available until {new Date(share.expiresAt).toLocaleString()}
+              {share.downloadsRemaining !== null &&
+                ` · ${share.downloadsRemaining} download${share.downloadsRemaining === 1 ? '' : 's'} left`}
+            </p>
+          </div>
+
+          {watermark && (
+            <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+              Shared with {share.recipientEmail}. PDF and image downloads are
+              marked with this address; other files download without a
+              watermark. Every access is logged.
+            </p>
+          )}
+
+          {!share.canDownload && (
+            <p className="text-sm text-red-600">
+              This link has reached its download limit.
+            </p>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {documents.map(doc => (
+              <li
+                key={doc.id}
+                className="flex items-center justify-between py-3"
+              >
+                <div className="flex items-center min-w-0">
+                  <FileText className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {doc.fileName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(doc.fileSize)}
+                      {watermark &&
+                        (doc.watermarked
+                          ? ' · watermarked'
+                          : ' · no watermark')}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDownload(doc)}
+                  disabled={!share.canDownload || downloadingId === doc.id}
+                  className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  {downloadingId === doc.id ? 'Preparing...' : 'Download'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-3">
+            <div className="w-9 h-9 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
+              <Scale className="h-5 w-5 text-white" />
+            </div>
+            <p className="text-sm font-semibold text-gray-900">
+              Secure document share
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {content}
+      </main>
+    </div>
+  )
+}
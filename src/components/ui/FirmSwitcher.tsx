@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { Building2 } from 'lucide-react'
+
+interface Firm {
+  id: string
+  name: string
+  slug: string
+}
+
+interface FirmSwitcherProps {
+  lawFirmId: string
+  className?: string
+}
+
+// Picker for the active firm, shown only when the account belongs to several.
+// Switching re-issues the session for the chosen firm, then reloads the
+// dashboard so nothing from the previous firm stays on screen.
+export default function FirmSwitcher({
+  lawFirmId,
+  className = '',
+}: FirmSwitcherProps) {
+  const { update } = useSession()
+  const [firms, setFirms] = useState<Firm[]>([])
+  const [switching, setSwitching] = useState(false)
+
+  useEffect(() => {
+    const loadFirms = async () => {
+      try {
+        const response = await fetch('/api/auth/firms')
+        if (!response.ok) return
+        const data = await response.json()
+        setFirms(data.firms || [])
+      } catch (err) {
+        console.error('Error loading firms:', err)
+      }
+    }
+
+    loadFirms()
+  }, [lawFirmId])
+
+  const handleSwitch = async (targetId: string) => {
+    if (!targetId || targetId === lawFirmId) return
+
+    setSwitching(true)
+    try {
+      const session = await update({ lawFirmId: targetId })
+      if (session?.user?.lawFirmId !== targetId) {
+        throw new Error('Failed to switch firm')
+      }
+      window.location.href = '/dashboard'
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to switch firm')
+      setSwitching(false)
+    }
+  }
+
+  if (firms.length < 2) return null
+
+  return (
+    <label className={`inline-flex items-center ${className}`}>
+      <Building2 className="h-4 w-4 mr-1.5 text-gray-400 shrink-0" />
+      <span className="sr-only">Active firm</span>
+      <select
+        value={lawFirmId}
+        disabled={switching}
+        onChange={e => handleSwitch(e.target.value)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white disabled:opacity-50"
+      >
+        {firms.map(firm => (
+          <option key={firm.id} value={firm.id}>
+            {firm.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -3,6 +3,7 @@
 import { signOut } from 'next-auth/react'
 import Link from 'next/link'
 import { User } from '@/types/user'
+import FirmSwitcher from './FirmSwitcher'
 
 interface NavbarProps {
   user: User | null
@@ -34,6 +35,7 @@ export default function Navbar({ user }: NavbarProps) {
                 <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
                   {user.lawFirmName}
                 </span>
+                {user.lawFirmId && <FirmSwitcher lawFirmId={user.lawFirmId} />}
                 <button
                   onClick={handleLogout}
                   className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
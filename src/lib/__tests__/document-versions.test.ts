@@ -0,0 +1,169 @@
+// Document Version Tests
+// Purpose: Check that concurrent version adds get distinct, sequential numbers
+//
+// Requires a Postgres database. Seeds a throwaway firm and document through
+// the shared client and removes them after.
+
+import { randomUUID } from 'crypto'
+import { prisma } from '../db'
+import { addDocumentVersion, recordInitialVersion } from '../document-versions'
+
+interface VersionTestResult {
+  description: string
+  passed: boolean
+  error?: string
+}
+
+interface SeededDocument {
+  lawFirmId: string
+  documentId: string
+}
+
+const UPLOADER_ID = 'version-test-uploader'
+
+async function seedDocument(): Promise<SeededDocument> {
+  const lawFirmId = randomUUID()
+  const documentId = randomUUID()
+  const key = `${lawFirmId}/documents/${documentId}/v1.txt`
+
+  await prisma.law_firms.create({
+    data: {
+      id: lawFirmId,
+      name: 'Version Test',
+      slug: `version-test-${lawFirmId}`,
+      updatedAt: new Date(),
+    },
+  })
+
+  const document = await prisma.documents.create({
+    data: {
+      id: documentId,
+      law_firm_id: lawFirmId,
+      name: 'version-test.txt',
+      file_path: key,
+      file_size: BigInt(1),
+      mime_type: 'text/plain',
+      uploaded_by: UPLOADER_ID,
+      updatedAt: new Date(),
+    },
+  })
+
+  await recordInitialVersion(document, {
+    key,
+    fileName: document.name,
+    fileSize: 1,
+    mimeType: 'text/plain',
+    uploadedBy: UPLOADER_ID,
+  })
+
+  return { lawFirmId, documentId }
+}
+
+async function cleanupDocument(seeded: SeededDocument) {
+  // Documents and versions cascade from the firm
+  await prisma.law_firms.delete({ where: { id: seeded.lawFirmId } })
+}
+
+async function runCheck(
+  description: string,
+  check: () => Promise<boolean>
+): Promise<VersionTestResult> {
+  try {
+    return { description, passed: await check() }
+  } catch (error) {
+    return {
+      description,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+// Two version adds for the same document at once must both succeed, as
+// versions 2 and 3, with the document pointing at the last one
+export async function testConcurrentVersionAdds(seeded: SeededDocument) {
+  const document = { id: seeded.documentId, law_firm_id: seeded.lawFirmId }
+  const addVersion = (label: string) =>
+    prisma.$transaction(tx =>
+      addDocumentVersion(
+        document,
+        {
+          key: `${seeded.lawFirmId}/documents/${seeded.documentId}/${label}.txt`,
+          fileName: `${label}.txt`,
+          fileSize: 1,
+          mimeType: 'text/plain',
+          uploadedBy: UPLOADER_ID,
+        },
+        tx
+      )
+    )
+
+  const outcomes = await Promise.allSettled([
+    addVersion('concurrent-a'),
+    addVersion('concurrent-b'),
+  ])
+
+  return Promise.all([
+    runCheck('concurrent version adds both succeed', async () =>
+      outcomes.every(outcome => outcome.status === 'fulfilled')
+    ),
+    runCheck('concurrent version adds get sequential numbers', async () => {
+      const versions = await prisma.document_versions.findMany({
+        where: { document_id: seeded.documentId },
+        orderBy: { version_number: 'asc' },
+        select: { version_number: true },
+      })
+      return (
+        versions.map(version => version.version_number).join(',') === '1,2,3'
+      )
+    }),
+    runCheck('document points at the newest version', async () => {
+      const current = await prisma.documents.findUnique({
+        where: { id: seeded.documentId },
+        select: { current_version: true },
+      })
+      return current?.current_version === 3
+    }),
+  ])
+}
+
+// Run all tests
+export async function runAllDocumentVersionTests() {
+  console.log('📚 Running Document Version Tests...\n')
+
+  const seeded = await seedDocument()
+
+  try {
+    console.log('🔀 Testing Concurrent Version Adds...')
+    const concurrency = await testConcurrentVersionAdds(seeded)
+
+    const passed = concurrency.filter(test => test.passed).length
+
+    for (const test of concurrency.filter(result => !result.passed)) {
+      console.log(
+        `  ❌ ${test.description}${test.error ? `: ${test.error}` : ''}`
+      )
+    }
+
+    const allPassed = passed === concurrency.length
+    console.log(`\n📈 Version Tests: ${passed}/${concurrency.length} passed`)
+    console.log(
+      `\n${allPassed ? '✅' : '❌'} Overall: ${allPassed ? 'ALL TESTS PASSED' : 'SOME TESTS FAILED'}`
+    )
+
+    return {
+      concurrency,
+      summary: { allPassed, passed, total: concurrency.length },
+    }
+  } finally {
+    await cleanupDocument(seeded)
+  }
+}
+
+// Export for use in actual test framework
+const documentVersionTestExports = {
+  testConcurrentVersionAdds,
+  runAllDocumentVersionTests,
+}
+
+export default documentVersionTestExports
@@ -0,0 +1,179 @@
+// Two-Factor Authentication Tests
+// Purpose: Check TOTP codes, replay protection, secret storage, MFA policy
+// and lockout
+
+import {
+  decryptMfaSecret,
+  encryptMfaSecret,
+  generateMfaSecret,
+  generateTotp,
+  hashRecoveryCode,
+  isMfaLocked,
+  isMfaRequired,
+  verifyTotp,
+} from '../mfa'
+
+interface MfaTestResult {
+  description: string
+  passed: boolean
+}
+
+// RFC 6238 appendix B: ASCII "12345678901234567890" as base32, SHA-1
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+]
+
+export function testTotpVectors(): MfaTestResult[] {
+  return RFC_VECTORS.map(([seconds, expected]) => ({
+    description: `TOTP at T=${seconds} is ${expected}`,
+    passed: generateTotp(RFC_SECRET, Math.floor(seconds / 30)) === expected,
+  }))
+}
+
+export function testTotpVerification(): MfaTestResult[] {
+  const secret = generateMfaSecret()
+  const now = Date.now()
+  const step = Math.floor(now / 1000 / 30)
+  const code = generateTotp(secret, step)
+
+  return [
+    {
+      description: 'current code is accepted',
+      passed: verifyTotp(secret, code, null, now) === step,
+    },
+    {
+      description: 'previous step is accepted for clock drift',
+      passed:
+        verifyTotp(secret, generateTotp(secret, step - 1), null, now) ===
+        step - 1,
+    },
+    {
+      description: 'codes two steps old are refused',
+      passed:
+        verifyTotp(secret, generateTotp(secret, step - 2), null, now) === null,
+    },
+    {
+      description: 'a code cannot be replayed after its step was used',
+      passed: verifyTotp(secret, code, step, now) === null,
+    },
+    {
+      description: 'malformed codes are refused',
+      passed: verifyTotp(secret, 'abcdef', null, now) === null,
+    },
+  ]
+}
+
+export function testSecretStorage(): MfaTestResult[] {
+  const secret = generateMfaSecret()
+  const stored = encryptMfaSecret(secret)
+
+  return [
+    {
+      description: 'stored secret is not the plain secret',
+      passed: !stored.includes(secret),
+    },
+    {
+      description: 'stored secret decrypts to the original',
+      passed: decryptMfaSecret(stored) === secret,
+    },
+    {
+      description: 'recovery codes match regardless of case and dashes',
+      passed:
+        hashRecoveryCode('ABCDE-12345') === hashRecoveryCode('abcde12345'),
+    },
+  ]
+}
+
+export function testMfaPolicy(): MfaTestResult[] {
+  const member = (requireMfa: boolean, isActive = true) => ({
+    isActive,
+    law_firms: { isActive: true, settings: { security: { requireMfa } } },
+  })
+
+  return [
+    {
+      description: 'super admins always require MFA',
+      passed: isMfaRequired({ users: [] }),
+    },
+    {
+      description: 'members of a firm without the setting do not',
+      passed: !isMfaRequired({ users: [member(false)] }),
+    },
+    {
+      description: 'members of any firm requiring MFA do',
+      passed: isMfaRequired({ users: [member(false), member(true)] }),
+    },
+    {
+      description: 'inactive memberships do not impose MFA',
+      passed: !isMfaRequired({ users: [member(true, false)] }),
+    },
+  ]
+}
+
+export function testMfaLockout(): MfaTestResult[] {
+  const now = new Date()
+  const user = (lockedUntil: Date | null) => ({
+    id: 'user-1',
+    mfa_secret: null,
+    mfa_enabled_at: now,
+    mfa_last_used_step: null,
+    mfa_locked_until: lockedUntil,
+  })
+
+  return [
+    {
+      description: 'accounts without a lock are not locked',
+      passed: !isMfaLocked(user(null), now),
+    },
+    {
+      description: 'accounts are locked until the lock expires',
+      passed: isMfaLocked(user(new Date(now.getTime() + 60_000)), now),
+    },
+    {
+      description: 'expired locks no longer apply',
+      passed: !isMfaLocked(user(new Date(now.getTime() - 1)), now),
+    },
+  ]
+}
+
+export function runAllMfaTests() {
+  const results = [
+    ...testTotpVectors(),
+    ...testTotpVerification(),
+    ...testSecretStorage(),
+    ...testMfaPolicy(),
+    ...testMfaLockout(),
+  ]
+  const passed = results.filter(result => result.passed).length
+
+  console.log('🔐 MFA Tests')
+  results.forEach(result =>
+    console.log(`  ${result.passed ? '✅' : '❌'} ${result.description}`)
+  )
+  console.log(`\n📈 ${passed}/${results.length} passed`)
+
+  return {
+    results,
+    summary: {
+      allPassed: passed === results.length,
+      passed,
+      total: results.length,
+    },
+  }
+}
+
+// Export for use in actual test framework
+const mfaTestExports = {
+  testTotpVectors,
+  testTotpVerification,
+  testSecretStorage,
+  testMfaPolicy,
+  testMfaLockout,
+  runAllMfaTests,
+}
+
+export default mfaTestExports
@@ -0,0 +1,175 @@
+// Text Extraction Tests
+// Purpose: Check DOCX and PDF extraction, and that decompression bombs are
+// refused rather than inflated
+
+import { deflateRawSync, deflateSync } from 'zlib'
+import {
+  ExtractionLimitError,
+  MAX_INFLATED_PART_SIZE,
+  MAX_INFLATED_TOTAL_SIZE,
+  extractText,
+} from '../text-extraction'
+
+interface ExtractionTestResult {
+  description: string
+  passed: boolean
+}
+
+const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+// Minimal ZIP archive with deflated entries
+function buildZip(entries: [string, Buffer][]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of entries) {
+    const nameBytes = Buffer.from(name, 'utf8')
+    const data = deflateRawSync(content)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, nameBytes, data)
+    centrals.push(central, nameBytes)
+    offset += local.length + nameBytes.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(entries.length, 8)
+  eocd.writeUInt16LE(entries.length, 10)
+  eocd.writeUInt32LE(directory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, eocd])
+}
+
+// Minimal PDF with one Flate-compressed content stream
+function buildPdf(content: Buffer): Buffer {
+  const data = deflateSync(content)
+  return Buffer.concat([
+    Buffer.from(
+      `%PDF-1.4\n1 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`,
+      'latin1'
+    ),
+    data,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ])
+}
+
+const wordXml = (text: string) =>
+  Buffer.from(
+    `<w:document><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:document>`
+  )
+
+// Whether extraction refused the file for exceeding the inflate caps
+function isRefused(extract: () => unknown): boolean {
+  try {
+    extract()
+    return false
+  } catch (error) {
+    return error instanceof ExtractionLimitError
+  }
+}
+
+export function testExtraction(): ExtractionTestResult[] {
+  const docx = buildZip([['word/document.xml', wordXml('Settlement terms')]])
+  const pdf = buildPdf(Buffer.from('BT /F1 12 Tf (Settlement terms) Tj ET'))
+
+  return [
+    {
+      description: 'DOCX body text is extracted',
+      passed: extractText(docx, DOCX_MIME_TYPE) === 'Settlement terms',
+    },
+    {
+      description: 'PDF content stream text is extracted',
+      passed: extractText(pdf, 'application/pdf') === 'Settlement terms',
+    },
+  ]
+}
+
+export function testDecompressionLimits(): ExtractionTestResult[] {
+  // A few KB compressed, past the per-part cap once inflated
+  const oversized = Buffer.alloc(MAX_INFLATED_PART_SIZE + 1, ' ')
+  // Each part under the per-part cap, together past the per-file cap
+  const partSize = MAX_INFLATED_PART_SIZE - 1024
+  const partCount = Math.ceil(MAX_INFLATED_TOTAL_SIZE / partSize) + 1
+  const part = Buffer.alloc(partSize, ' ')
+
+  return [
+    {
+      description: 'DOCX entry inflating past the per-entry cap is refused',
+      passed: isRefused(() =>
+        extractText(
+          buildZip([['word/document.xml', oversized]]),
+          DOCX_MIME_TYPE
+        )
+      ),
+    },
+    {
+      description: 'DOCX entries inflating past the per-file cap are refused',
+      passed: isRefused(() =>
+        extractText(
+          buildZip([
+            ['word/document.xml', wordXml('Body')],
+            ...Array.from({ length: partCount }, (_, i): [string, Buffer] => [
+              `word/header${i + 1}.xml`,
+              part,
+            ]),
+          ]),
+          DOCX_MIME_TYPE
+        )
+      ),
+    },
+    {
+      description: 'PDF stream inflating past the per-stream cap is refused',
+      passed: isRefused(() =>
+        extractText(buildPdf(oversized), 'application/pdf')
+      ),
+    },
+  ]
+}
+
+export function runAllTextExtractionTests() {
+  const results = [...testExtraction(), ...testDecompressionLimits()]
+  const passed = results.filter(result => result.passed).length
+
+  console.log('📄 Text Extraction Tests')
+  results.forEach(result =>
+    console.log(`  ${result.passed ? '✅' : '❌'} ${result.description}`)
+  )
+  console.log(`\n📈 ${passed}/${results.length} passed`)
+
+  return {
+    results,
+    summary: {
+      allPassed: passed === results.length,
+      passed,
+      total: results.length,
+    },
+  }
+}
+
+// Export for use in actual test framework
+const textExtractionTestExports = {
+  testExtraction,
+  testDecompressionLimits,
+  runAllTextExtractionTests,
+}
+
+export default textExtractionTestExports
@@ -55,7 +55,7 @@ export class APIMiddleware {
     return uuidv4()
   }
 
-  private static createRequestContext(request: NextRequest): RequestContext {
+  public static createRequestContext(request: NextRequest): RequestContext {
     return {
       requestId: this.generateRequestId(),
       startTime: Date.now(),
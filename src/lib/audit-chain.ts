@@ -0,0 +1,317 @@
+// Audit Hash Chain
+// Purpose: Make audit rows tamper-evident by chaining each to the previous one
+//
+// Every row stores a sequence number, the previous row's hash and its own
+// hash over its contents plus that previous hash. Editing a row breaks its
+// hash, deleting one leaves a gap in the sequence and re-linking breaks the
+// next row's previous_hash. Firm rows form one chain per firm; platform rows
+// form a single platform-wide chain. Truncating the newest rows cannot be
+// detected from the chain alone.
+
+import { createHash, randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+const VERIFY_BATCH_SIZE = 500
+
+// JSON with sorted keys, so values read back from jsonb (which reorders keys)
+// hash the same as the values that were written
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, nested]) => nested !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries
+      .map(([key, nested]) => `${JSON.stringify(key)}:${canonicalJson(nested)}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function computeAuditHash(
+  previousHash: string | null,
+  fields: Record<string, unknown>
+): string {
+  return createHash('sha256')
+    .update(`${previousHash ?? ''}|${canonicalJson(fields)}`)
+    .digest('hex')
+}
+
+// Columns covered by the hash. Keep scripts/verify-audit-chain.js in step.
+function firmHashFields(row: {
+  id: string
+  law_firm_id: string
+  sequence: number | null
+  actor_id: string | null
+  action: string
+  entity_type: string
+  entity_id: string | null
+  old_values: unknown
+  new_values: unknown
+  ip_address: string | null
+  user_agent: string | null
+  request_id: string | null
+  createdAt: Date
+}) {
+  return {
+    id: row.id,
+    law_firm_id: row.law_firm_id,
+    sequence: row.sequence,
+    actor_id: row.actor_id,
+    action: row.action,
+    entity_type: row.entity_type,
+    entity_id: row.entity_id,
+    old_values: row.old_values,
+    new_values: row.new_values,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    request_id: row.request_id,
+    created_at: row.createdAt,
+  }
+}
+
+function platformHashFields(row: {
+  id: string
+  sequence: number | null
+  platform_user_id: string | null
+  law_firm_id: string | null
+  action: string
+  entity_type: string
+  entity_id: string | null
+  old_values: unknown
+  new_values: unknown
+  ip_address: string | null
+  user_agent: string | null
+  created_at: Date
+}) {
+  return {
+    id: row.id,
+    sequence: row.sequence,
+    platform_user_id: row.platform_user_id,
+    law_firm_id: row.law_firm_id,
+    action: row.action,
+    entity_type: row.entity_type,
+    entity_id: row.entity_id,
+    old_values: row.old_values,
+    new_values: row.new_values,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    created_at: row.created_at,
+  }
+}
+
+// Appends are serialized per chain with a transaction-scoped advisory lock so
+// two writers cannot claim the same sequence number
+async function lockChain(tx: Prisma.TransactionClient, chain: string) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${chain}))`
+}
+
+type JsonColumn = Prisma.InputJsonValue | null
+
+export interface FirmAuditInput {
+  law_firm_id: string
+  actor_id: string | null
+  action: string
+  entity_type: string
+  entity_id: string | null
+  old_values: JsonColumn
+  new_values: JsonColumn
+  ip_address: string | null
+  user_agent: string | null
+  request_id: string | null
+}
+
+export async function appendFirmAuditLog(input: FirmAuditInput) {
+  return prisma.$transaction(async tx => {
+    await lockChain(tx, `audit_logs:${input.law_firm_id}`)
+
+    const last = await tx.audit_logs.findFirst({
+      where: { law_firm_id: input.law_firm_id, sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    })
+
+    const row = {
+      ...input,
+      id: randomUUID(),
+      sequence: (last?.sequence ?? 0) + 1,
+      createdAt: new Date(),
+    }
+    const previousHash = last?.hash ?? null
+
+    return tx.audit_logs.create({
+      data: {
+        ...row,
+        old_values: row.old_values ?? Prisma.DbNull,
+        new_values: row.new_values ?? Prisma.DbNull,
+        previous_hash: previousHash,
+        hash: computeAuditHash(previousHash, firmHashFields(row)),
+      },
+    })
+  })
+}
+
+export interface PlatformAuditInput {
+  platform_user_id: string | null
+  law_firm_id: string | null
+  action: string
+  entity_type: string
+  entity_id: string | null
+  old_values: JsonColumn
+  new_values: JsonColumn
+  ip_address: string | null
+  user_agent: string | null
+}
+
+export async function appendPlatformAuditLog(input: PlatformAuditInput) {
+  return prisma.$transaction(async tx => {
+    await lockChain(tx, 'platform_audit_logs')
+
+    const last = await tx.platform_audit_logs.findFirst({
+      where: { sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    })
+
+    const row = {
+      ...input,
+      id: randomUUID(),
+      sequence: (last?.sequence ?? 0) + 1,
+      created_at: new Date(),
+    }
+    const previousHash = last?.hash ?? null
+
+    return tx.platform_audit_logs.create({
+      data: {
+        ...row,
+        old_values: row.old_values ?? Prisma.DbNull,
+        new_values: row.new_values ?? Prisma.DbNull,
+        previous_hash: previousHash,
+        hash: computeAuditHash(previousHash, platformHashFields(row)),
+      },
+    })
+  })
+}
+
+export type AuditChainBreak =
+  | 'MISSING_ENTRY'
+  | 'PREVIOUS_HASH_MISMATCH'
+  | 'HASH_MISMATCH'
+
+export interface AuditChainReport {
+  valid: boolean
+  checkedEntries: number
+  // Rows written before chaining was introduced; not covered by the chain
+  unchainedEntries: number
+  lastSequence: number | null
+  firstBrokenLink: {
+    sequence: number
+    entryId: string
+    reason: AuditChainBreak
+    createdAt: string
+  } | null
+  verifiedAt: string
+}
+
+interface ChainRow {
+  id: string
+  sequence: number | null
+  previous_hash: string | null
+  hash: string | null
+  createdAt: Date
+}
+
+// Walk a chain in sequence order, a batch at a time, and stop at the first
+// row that does not follow from the one before it
+async function verifyChain<T extends ChainRow>(
+  fetchBatch: (afterSequence: number, take: number) => Promise<T[]>,
+  hashRow: (row: T) => string,
+  unchainedEntries: number
+): Promise<AuditChainReport> {
+  let expectedSequence = 1
+  let previousHash: string | null = null
+  let firstBrokenLink: AuditChainReport['firstBrokenLink'] = null
+
+  while (!firstBrokenLink) {
+    const rows = await fetchBatch(expectedSequence - 1, VERIFY_BATCH_SIZE)
+
+    for (const row of rows) {
+      const reason: AuditChainBreak | null =
+        row.sequence !== expectedSequence
+          ? 'MISSING_ENTRY'
+          : row.previous_hash !== previousHash
+            ? 'PREVIOUS_HASH_MISMATCH'
+            : row.hash !== hashRow(row)
+              ? 'HASH_MISMATCH'
+              : null
+
+      if (reason) {
+        firstBrokenLink = {
+          sequence: expectedSequence,
+          entryId: row.id,
+          reason,
+          createdAt: row.createdAt.toISOString(),
+        }
+        break
+      }
+
+      previousHash = row.hash
+      expectedSequence += 1
+    }
+
+    if (rows.length < VERIFY_BATCH_SIZE) break
+  }
+
+  const checkedEntries = expectedSequence - 1
+  return {
+    valid: !firstBrokenLink,
+    checkedEntries,
+    unchainedEntries,
+    lastSequence: checkedEntries > 0 ? checkedEntries : null,
+    firstBrokenLink,
+    verifiedAt: new Date().toISOString(),
+  }
+}
+
+export async function verifyFirmAuditChain(
+  lawFirmId: string
+): Promise<AuditChainReport> {
+  const unchained = await prisma.audit_logs.count({
+    where: { law_firm_id: lawFirmId, sequence: null },
+  })
+
+  return verifyChain(
+    (afterSequence, take) =>
+      prisma.audit_logs.findMany({
+        where: { law_firm_id: lawFirmId, sequence: { gt: afterSequence } },
+        orderBy: { sequence: 'asc' },
+        take,
+      }),
+    row => computeAuditHash(row.previous_hash, firmHashFields(row)),
+    unchained
+  )
+}
+
+export async function verifyPlatformAuditChain(): Promise<AuditChainReport> {
+  const unchained = await prisma.platform_audit_logs.count({
+    where: { sequence: null },
+  })
+
+  return verifyChain(
+    async (afterSequence, take) => {
+      const rows = await prisma.platform_audit_logs.findMany({
+        where: { sequence: { gt: afterSequence } },
+        orderBy: { sequence: 'asc' },
+        take,
+      })
+      return rows.map(row => ({ ...row, createdAt: row.created_at }))
+    },
+    row => computeAuditHash(row.previous_hash, platformHashFields(row)),
+    unchained
+  )
+}
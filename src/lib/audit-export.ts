@@ -0,0 +1,94 @@
+// Audit Log Export
+// Purpose: Stream audit rows as CSV, JSON or NDJSON a batch at a time
+
+export const AUDIT_EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number]
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+}
+
+export function isAuditExportFormat(
+  value: string | null
+): value is AuditExportFormat {
+  return AUDIT_EXPORT_FORMATS.includes(value as AuditExportFormat)
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value)
+
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsvRow(values: unknown[]): string {
+  return `${values.map(toCsvCell).join(',')}\r\n`
+}
+
+// Build a response body that pulls one batch per read, so only a batch of
+// rows is held in memory however large the export. nextBatch returns an
+// empty array once the rows run out.
+export function createAuditExportStream(
+  format: AuditExportFormat,
+  columns: readonly string[],
+  nextBatch: () => Promise<Record<string, unknown>[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let started = false
+  let rowCount = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        let chunk = ''
+        if (!started) {
+          started = true
+          if (format === 'csv') chunk += toCsvRow([...columns])
+          if (format === 'json') chunk += '['
+        }
+
+        const rows = await nextBatch()
+
+        for (const row of rows) {
+          const record = Object.fromEntries(
+            columns.map(column => [column, row[column] ?? null])
+          )
+          if (format === 'csv') {
+            chunk += toCsvRow(columns.map(column => record[column]))
+          } else if (format === 'ndjson') {
+            chunk += `${JSON.stringify(record)}\n`
+          } else {
+            chunk += `${rowCount > 0 ? ',' : ''}\n${JSON.stringify(record)}`
+          }
+          rowCount += 1
+        }
+
+        if (rows.length === 0) {
+          if (format === 'json') chunk += '\n]\n'
+          if (chunk) controller.enqueue(encoder.encode(chunk))
+          controller.close()
+          return
+        }
+
+        controller.enqueue(encoder.encode(chunk))
+      } catch (error) {
+        console.error('Error streaming audit export:', error)
+        controller.error(error)
+      }
+    },
+  })
+}
@@ -0,0 +1,186 @@
+// Firm Audit Trail
+// Purpose: Record who changed what inside a law firm, with before/after values
+
+import { NextRequest } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { UserContext } from './rbac'
+import { APIMiddleware } from './api-middleware'
+import { appendFirmAuditLog, appendPlatformAuditLog } from './audit-chain'
+
+// Actions recorded in the firm audit trail
+export const AUDIT_ACTIONS = {
+  CREATE: 'CREATE',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+  GRANT_ACCESS: 'GRANT_ACCESS',
+  REVOKE_ACCESS: 'REVOKE_ACCESS',
+  SHARE: 'SHARE',
+  UNSHARE: 'UNSHARE',
+} as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS]
+
+// Audit entry input
+export interface AuditEntry {
+  action: AuditAction
+  entityType: string
+  entityId?: string | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+type AuditValues = Record<string, Prisma.InputJsonValue | null>
+
+// Dates, BigInts and nested objects are stored as plain JSON
+function toJsonValue(value: unknown): Prisma.InputJsonValue | null {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'bigint') return value.toString()
+  return JSON.parse(
+    JSON.stringify(value, (_, nested) =>
+      typeof nested === 'bigint' ? nested.toString() : nested
+    )
+  )
+}
+
+function toAuditValues(
+  values: Record<string, unknown>,
+  keys: string[]
+): AuditValues {
+  return Object.fromEntries(keys.map(key => [key, toJsonValue(values[key])]))
+}
+
+// Snapshot selected columns of a row for an audit entry
+export function pickAuditFields<T extends object, K extends keyof T & string>(
+  record: T,
+  fields: readonly K[]
+): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, record[field]]))
+}
+
+// Reduce before/after snapshots to the fields that changed. Creates and
+// deletes keep the full snapshot they were given.
+export function diffAuditValues(
+  before?: Record<string, unknown> | null,
+  after?: Record<string, unknown> | null
+): { oldValues: AuditValues | null; newValues: AuditValues | null } {
+  if (!before || !after) {
+    return {
+      oldValues: before ? toAuditValues(before, Object.keys(before)) : null,
+      newValues: after ? toAuditValues(after, Object.keys(after)) : null,
+    }
+  }
+
+  const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => key !== 'updatedAt')
+    .filter(
+      key =>
+        JSON.stringify(toJsonValue(before[key])) !==
+        JSON.stringify(toJsonValue(after[key]))
+    )
+
+  return {
+    oldValues: toAuditValues(before, changed),
+    newValues: toAuditValues(after, changed),
+  }
+}
+
+// Record an action taken by a firm user. IP address and user agent come from
+// the request. A failed write is logged but never fails the action itself.
+export async function recordAuditLog(
+  request: NextRequest,
+  userContext: UserContext,
+  entry: AuditEntry
+): Promise<void> {
+  try {
+    const context = APIMiddleware.createRequestContext(request)
+    const { oldValues, newValues } = diffAuditValues(entry.before, entry.after)
+
+    await appendFirmAuditLog({
+      law_firm_id: userContext.lawFirmId,
+      actor_id: userContext.id,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId ?? null,
+      old_values: oldValues,
+      new_values: newValues,
+      ip_address: context.ip,
+      user_agent: context.userAgent,
+      request_id: context.requestId,
+    })
+  } catch (error) {
+    console.error('Error recording audit log:', error)
+  }
+}
+
+// Platform audit entry input for super-admin actions
+export interface PlatformAuditEntry {
+  action: string
+  entityType: string
+  entityId?: string | null
+  lawFirmId?: string | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+// Record a super-admin action in the platform-wide audit trail. Unlike firm
+// entries these are written as given, and a failed write fails the action.
+export async function recordPlatformAuditLog(
+  request: NextRequest,
+  platformUserId: string,
+  entry: PlatformAuditEntry
+): Promise<void> {
+  const context = APIMiddleware.createRequestContext(request)
+
+  await appendPlatformAuditLog({
+    platform_user_id: platformUserId,
+    law_firm_id: entry.lawFirmId ?? null,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId ?? null,
+    old_values: entry.before
+      ? toAuditValues(entry.before, Object.keys(entry.before))
+      : null,
+    new_values: entry.after
+      ? toAuditValues(entry.after, Object.keys(entry.after))
+      : null,
+    ip_address: context.ip,
+    user_agent: context.userAgent,
+  })
+}
+
+// Audit row shape used by the formatter
+export interface AuditLogRecord {
+  id: string
+  actor_id: string | null
+  action: string
+  entity_type: string
+  entity_id: string | null
+  old_values: Prisma.JsonValue
+  new_values: Prisma.JsonValue
+  ip_address: string | null
+  user_agent: string | null
+  createdAt: Date
+}
+
+// Format an audit row for API responses
+export function formatAuditLog(
+  log: AuditLogRecord,
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const actor = log.actor_id ? users?.get(log.actor_id) : undefined
+
+  return {
+    id: log.id,
+    action: log.action,
+    entityType: log.entity_type,
+    entityId: log.entity_id,
+    before: log.old_values,
+    after: log.new_values,
+    actorId: log.actor_id,
+    actorName: actor ? actor.name || actor.email : null,
+    ipAddress: log.ip_address,
+    userAgent: log.user_agent,
+    createdAt: log.createdAt.toISOString(),
+  }
+}
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserWithPermissions } from './user-context'
+import { isSessionRevoked } from './sessions'
 import {
   UserContext,
   requirePermission,
@@ -70,10 +71,25 @@ export async function getUserContext(
       return null
     }
 
+    // Only sessions active in the session registry are accepted
+    const sessionId = token.sessionId as string | undefined
+    if (
+      await isSessionRevoked(
+        token.platformUserId as string | undefined,
+        token.tokenVersion as number | undefined,
+        sessionId
+      )
+    ) {
+      return null
+    }
+
     // For super admin (platform users without law firm)
     if (token.role === 'super_admin') {
       const { getPlatformUserContext } = await import('./user-context')
-      return await getPlatformUserContext(token.platformUserId as string)
+      const userContext = await getPlatformUserContext(
+        token.platformUserId as string
+      )
+      return userContext && { ...userContext, sessionId }
     }
 
     // For regular users, get context with law firm
@@ -82,7 +98,7 @@ export async function getUserContext(
         token.sub,
         token.lawFirmId as string
       )
-      return userContext
+      return userContext && { ...userContext, sessionId }
     }
 
     return null
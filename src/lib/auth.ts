@@ -20,18 +20,25 @@ export interface TokenPayload {
   platformUserId: string
   lawFirmId: string
   role: string
+  sessionId?: string
   iat?: number
   exp?: number
 }
 
+// Lifetime of tokens from generateToken
+export const TOKEN_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+// Tokens must name a registered session (see createUserSession) so they can
+// be revoked before they expire
 export function generateToken(payload: {
   userId: string
   platformUserId: string
   lawFirmId: string
   role: string
+  sessionId: string
   [key: string]: unknown // Allow additional properties for impersonation, etc.
 }): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' })
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: TOKEN_MAX_AGE_SECONDS })
 }
 
 export function verifyToken(token: string): TokenPayload | null {
@@ -0,0 +1,238 @@
+// Calendar Conflict Detection
+// Purpose: Find double-bookings of lawyers and courtrooms before an event is saved
+
+import { CalendarEventType } from '@prisma/client'
+import { prisma } from './prisma'
+import { UserContext } from './rbac'
+import { canViewEvent } from './calendar'
+
+export type ConflictType = 'LAWYER_OVERLAP' | 'LOCATION_OVERLAP' | 'TRAVEL_TIME'
+
+export type ConflictMode = 'warn' | 'block'
+
+// Calendar section of law_firms.settings
+export interface CalendarConflictSettings {
+  conflictMode: ConflictMode
+  travelBufferMinutes: number
+}
+
+export const DEFAULT_CONFLICT_SETTINGS: CalendarConflictSettings = {
+  conflictMode: 'warn',
+  travelBufferMinutes: 30,
+}
+
+// Assumed length of events saved without an end time
+const DEFAULT_EVENT_MINUTES = 60
+
+// Deadlines mark a due date, not time anyone has to be somewhere
+const TIMED_EVENT_TYPES: CalendarEventType[] = ['HEARING', 'APPOINTMENT']
+
+export interface ConflictCandidate {
+  id?: string
+  eventType: CalendarEventType
+  start: Date
+  end: Date | null
+  allDay: boolean
+  assignedUserId: string | null
+  location: string | null
+  courtName: string | null
+}
+
+export interface CalendarConflict {
+  type: ConflictType
+  message: string
+  eventId: string
+  // Null when the caller is not allowed to see the other event
+  eventTitle: string | null
+  start: string
+  end: string
+  assignedUserId: string | null
+}
+
+// Read the firm's conflict settings, falling back to warn-only defaults
+export async function getConflictSettings(
+  lawFirmId: string
+): Promise<CalendarConflictSettings> {
+  const firm = await prisma.law_firms.findUnique({
+    where: { id: lawFirmId },
+    select: { settings: true },
+  })
+
+  const settings = firm?.settings as {
+    calendar?: Partial<CalendarConflictSettings>
+  } | null
+  const calendar = settings?.calendar || {}
+
+  return {
+    conflictMode:
+      calendar.conflictMode === 'block'
+        ? 'block'
+        : DEFAULT_CONFLICT_SETTINGS.conflictMode,
+    travelBufferMinutes:
+      typeof calendar.travelBufferMinutes === 'number' &&
+      calendar.travelBufferMinutes >= 0
+        ? calendar.travelBufferMinutes
+        : DEFAULT_CONFLICT_SETTINGS.travelBufferMinutes,
+  }
+}
+
+// Time span an event blocks. All-day events block the whole day.
+function getEventSpan(event: {
+  start: Date
+  end: Date | null
+  allDay: boolean
+}): { start: Date; end: Date } {
+  if (event.allDay) {
+    const start = new Date(event.start)
+    start.setHours(0, 0, 0, 0)
+    const end = new Date(start)
+    end.setDate(end.getDate() + 1)
+    return { start, end }
+  }
+
+  return {
+    start: event.start,
+    end:
+      event.end && event.end > event.start
+        ? event.end
+        : new Date(event.start.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000),
+  }
+}
+
+// Case, spacing and punctuation do not tell places apart:
+// "Courtroom 4B" and "courtroom  4-B." are the same room
+function normalizePlace(value: string | null): string | null {
+  const normalized = value?.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+  return normalized || null
+}
+
+// Two events are in the same room when their locations match and their
+// courts do not contradict each other
+function isSamePlace(
+  a: { location: string | null; courtName: string | null },
+  b: { location: string | null; courtName: string | null }
+): boolean {
+  const locationA = normalizePlace(a.location)
+  const locationB = normalizePlace(b.location)
+  if (!locationA || locationA !== locationB) return false
+
+  const courtA = normalizePlace(a.courtName)
+  const courtB = normalizePlace(b.courtName)
+  return !courtA || !courtB || courtA === courtB
+}
+
+// Find events that clash with a new or moved event
+export async function findCalendarConflicts(
+  userContext: UserContext,
+  candidate: ConflictCandidate,
+  settings: CalendarConflictSettings
+): Promise<CalendarConflict[]> {
+  if (!TIMED_EVENT_TYPES.includes(candidate.eventType)) return []
+
+  const location = normalizePlace(candidate.location)
+  if (!candidate.assignedUserId && !location) return []
+
+  const span = getEventSpan(candidate)
+  const bufferMs = settings.travelBufferMinutes * 60 * 1000
+  const windowStart = new Date(span.start.getTime() - bufferMs)
+  const windowEnd = new Date(span.end.getTime() + bufferMs)
+
+  // Events that end inside the window, plus any starting up to a day before
+  // it so all-day and open-ended events are caught. Exact spans and
+  // normalized locations are compared below.
+  const nearby = await prisma.calendar_events.findMany({
+    where: {
+      law_firm_id: userContext.lawFirmId,
+      id: candidate.id ? { not: candidate.id } : undefined,
+      event_type: { in: TIMED_EVENT_TYPES },
+      start_time: { lt: windowEnd },
+      AND: [
+        {
+          OR: [
+            { end_time: { gt: windowStart } },
+            {
+              start_time: {
+                gte: new Date(windowStart.getTime() - 24 * 60 * 60 * 1000),
+              },
+            },
+          ],
+        },
+        {
+          OR: [
+            ...(candidate.assignedUserId
+              ? [{ assigned_user_id: candidate.assignedUserId }]
+              : []),
+            ...(location ? [{ location: { not: null } }] : []),
+          ],
+        },
+      ],
+    },
+    // Flag events on cases the user is walled off from so their titles stay hidden
+    include: {
+      cases: {
+        select: {
+          case_members: {
+            where: { user_id: userContext.id, access: 'DENIED' },
+            select: { id: true },
+          },
+        },
+      },
+    },
+    orderBy: { start_time: 'asc' },
+  })
+
+  const conflicts: CalendarConflict[] = []
+
+  for (const event of nearby) {
+    const other = getEventSpan({
+      start: event.start_time,
+      end: event.end_time,
+      allDay: event.all_day,
+    })
+    const overlaps = other.start < span.end && other.end > span.start
+    const withinBuffer =
+      other.start < windowEnd && other.end > windowStart && !overlaps
+
+    const sameLawyer =
+      !!candidate.assignedUserId &&
+      event.assigned_user_id === candidate.assignedUserId
+    const samePlace = isSamePlace(candidate, {
+      location: event.location,
+      courtName: event.court_name,
+    })
+    // Travel time only matters between two known, different places
+    const elsewhere =
+      !!location && !!normalizePlace(event.location) && !samePlace
+
+    let type: ConflictType | null = null
+    let message = ''
+
+    if (sameLawyer && overlaps) {
+      type = 'LAWYER_OVERLAP'
+      message = 'The assigned lawyer is already booked at this time'
+    } else if (samePlace && overlaps) {
+      type = 'LOCATION_OVERLAP'
+      message = 'This courtroom or location is already booked at this time'
+    } else if (sameLawyer && withinBuffer && elsewhere) {
+      type = 'TRAVEL_TIME'
+      message = `Less than ${settings.travelBufferMinutes} minutes between this and another booking at a different location`
+    }
+
+    if (!type) continue
+
+    conflicts.push({
+      type,
+      message,
+      eventId: event.id,
+      eventTitle:
+        canViewEvent(userContext, event) && !event.cases?.case_members.length
+          ? event.title
+          : null,
+      start: other.start.toISOString(),
+      end: other.end.toISOString(),
+      assignedUserId: event.assigned_user_id,
+    })
+  }
+
+  return conflicts
+}
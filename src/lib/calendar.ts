@@ -0,0 +1,293 @@
+// Calendar Helpers
+// Purpose: Scope calendar queries, shape event responses and schedule court reminders
+
+import { randomUUID } from 'crypto'
+import { CalendarEventType, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { UserContext, PERMISSIONS, hasPermission } from './rbac'
+import {
+  getCaseWallFilter,
+  getFirmUserSummaries,
+  getLinkedCaseWallFilter,
+} from './cases'
+import { sendCourtReminder } from './email'
+import { env } from './env'
+
+// Valid event types (mirrors the CalendarEventType enum)
+export const CALENDAR_EVENT_TYPES: CalendarEventType[] = [
+  'HEARING',
+  'APPOINTMENT',
+  'DEADLINE',
+]
+
+export function isValidEventType(type: unknown): type is CalendarEventType {
+  return (
+    typeof type === 'string' &&
+    CALENDAR_EVENT_TYPES.includes(type as CalendarEventType)
+  )
+}
+
+// Hours before a hearing that reminder emails go out (one week, one day)
+export const COURT_REMINDER_OFFSETS_HOURS = [24 * 7, 24]
+
+// Build the base where clause for the events a user may see.
+// CALENDAR.VIEW_ALL sees the whole firm calendar, CALENDAR.VIEW only events
+// the user is assigned to or created. Events on walled-off cases are hidden.
+export function getCalendarAccessFilter(
+  userContext: UserContext
+): Prisma.calendar_eventsWhereInput {
+  const where: Prisma.calendar_eventsWhereInput = {
+    law_firm_id: userContext.lawFirmId,
+    AND: [getLinkedCaseWallFilter(userContext)],
+  }
+
+  if (!hasPermission(userContext, PERMISSIONS.CALENDAR.VIEW_ALL)) {
+    where.OR = [
+      { assigned_user_id: userContext.id },
+      { created_by: userContext.id },
+    ]
+  }
+
+  return where
+}
+
+// Check whether a user may see a single event
+export function canViewEvent(
+  userContext: UserContext,
+  event: {
+    law_firm_id: string
+    assigned_user_id: string | null
+    created_by: string
+  }
+): boolean {
+  if (event.law_firm_id !== userContext.lawFirmId) return false
+  if (hasPermission(userContext, PERMISSIONS.CALENDAR.VIEW_ALL)) return true
+  return (
+    hasPermission(userContext, PERMISSIONS.CALENDAR.VIEW) &&
+    (event.assigned_user_id === userContext.id ||
+      event.created_by === userContext.id)
+  )
+}
+
+// Validate the case/client an event links to. A case implies its client.
+// Returns null when either does not belong to the firm, or the user is
+// walled off from the case.
+export async function resolveEventLinks(
+  userContext: UserContext,
+  caseId?: string | null,
+  clientId?: string | null
+): Promise<{ caseId: string | null; clientId: string | null } | null> {
+  const lawFirmId = userContext.lawFirmId
+  let resolvedClientId = clientId || null
+
+  if (caseId) {
+    const caseRecord = await prisma.cases.findFirst({
+      where: {
+        id: caseId,
+        law_firm_id: lawFirmId,
+        ...getCaseWallFilter(userContext),
+      },
+      select: { client_id: true },
+    })
+    if (!caseRecord) return null
+    resolvedClientId = resolvedClientId || caseRecord.client_id
+  }
+
+  if (resolvedClientId) {
+    const client = await prisma.clients.findFirst({
+      where: { id: resolvedClientId, law_firm_id: lawFirmId },
+      select: { id: true },
+    })
+    if (!client) return null
+  }
+
+  return { caseId: caseId || null, clientId: resolvedClientId }
+}
+
+// Replace the pending reminders of an event.
+// Only hearings get reminders; other types just have theirs cancelled.
+export async function scheduleCourtReminders(
+  event: {
+    id: string
+    law_firm_id: string
+    event_type: CalendarEventType
+    start_time: Date
+  },
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  await client.calendar_reminders.updateMany({
+    where: { event_id: event.id, status: 'PENDING' },
+    data: { status: 'CANCELLED' },
+  })
+
+  if (event.event_type !== 'HEARING') return 0
+
+  const now = Date.now()
+  const sendTimes = COURT_REMINDER_OFFSETS_HOURS.map(
+    hours => new Date(event.start_time.getTime() - hours * 60 * 60 * 1000)
+  ).filter(sendAt => sendAt.getTime() > now)
+
+  // Hearings booked at short notice still get one reminder straight away
+  if (sendTimes.length === 0 && event.start_time.getTime() > now) {
+    sendTimes.push(new Date(now))
+  }
+
+  if (sendTimes.length === 0) return 0
+
+  await client.calendar_reminders.createMany({
+    data: sendTimes.map(sendAt => ({
+      id: randomUUID(),
+      law_firm_id: event.law_firm_id,
+      event_id: event.id,
+      send_at: sendAt,
+    })),
+  })
+
+  return sendTimes.length
+}
+
+// Send every court reminder that is due. Called by the reminders cron route.
+export async function processDueReminders(now: Date = new Date(), limit = 50) {
+  const due = await prisma.calendar_reminders.findMany({
+    where: {
+      status: 'PENDING',
+      send_at: { lte: now },
+    },
+    include: {
+      calendar_events: {
+        include: {
+          cases: { select: { title: true } },
+          law_firms: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { send_at: 'asc' },
+    take: limit,
+  })
+
+  const result = { processed: due.length, sent: 0, failed: 0, skipped: 0 }
+
+  for (const reminder of due) {
+    const event = reminder.calendar_events
+    const recipientId = event.assigned_user_id || event.created_by
+    const recipient = (
+      await getFirmUserSummaries(event.law_firm_id, [recipientId])
+    ).get(recipientId)
+
+    // Nothing to remind about once the hearing has started
+    if (!recipient || event.start_time <= now) {
+      await prisma.calendar_reminders.update({
+        where: { id: reminder.id },
+        data: {
+          status: 'CANCELLED',
+          error: recipient ? 'Event already started' : 'No recipient',
+        },
+      })
+      result.skipped++
+      continue
+    }
+
+    const emailResult = await sendCourtReminder(
+      { email: recipient.email, name: recipient.name || undefined },
+      {
+        lawyerName: recipient.name || recipient.email,
+        caseTitle: event.cases?.title || event.title,
+        courtDate: event.start_time.toLocaleDateString('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }),
+        courtTime: event.all_day
+          ? 'All day'
+          : event.start_time.toLocaleTimeString('en-US', {
+              hour: 'numeric',
+              minute: '2-digit',
+            }),
+        courtName: event.court_name || event.location || 'TBD',
+        judgeName: event.judge_name || 'TBD',
+        caseUrl: event.case_id
+          ? `${env.NEXTAUTH_URL}/dashboard/cases/${event.case_id}`
+          : `${env.NEXTAUTH_URL}/dashboard/calendar`,
+        firmName: event.law_firms.name,
+      }
+    )
+
+    await prisma.calendar_reminders.update({
+      where: { id: reminder.id },
+      data: emailResult.success
+        ? { status: 'SENT', sent_at: new Date(), error: null }
+        : { status: 'FAILED', error: emailResult.error || 'Send failed' },
+    })
+
+    if (emailResult.success) {
+      result.sent++
+    } else {
+      result.failed++
+    }
+  }
+
+  return result
+}
+
+// Relations loaded alongside events for formatting
+export const calendarEventInclude = {
+  cases: { select: { title: true } },
+  clients: { select: { first_name: true, last_name: true } },
+} satisfies Prisma.calendar_eventsInclude
+
+// Event record shape used by the formatter
+export interface CalendarEventRecord {
+  id: string
+  event_type: CalendarEventType
+  title: string
+  description: string | null
+  location: string | null
+  court_name: string | null
+  judge_name: string | null
+  start_time: Date
+  end_time: Date | null
+  all_day: boolean
+  case_id: string | null
+  client_id: string | null
+  assigned_user_id: string | null
+  created_by: string
+  createdAt: Date
+  updatedAt: Date
+  cases?: { title: string } | null
+  clients?: { first_name: string; last_name: string } | null
+}
+
+// Format an event row for API responses
+export function formatCalendarEvent(
+  event: CalendarEventRecord,
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const assignee = event.assigned_user_id
+    ? users?.get(event.assigned_user_id)
+    : undefined
+
+  return {
+    id: event.id,
+    type: event.event_type,
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    courtName: event.court_name,
+    judgeName: event.judge_name,
+    start: event.start_time.toISOString(),
+    end: event.end_time?.toISOString() ?? null,
+    allDay: event.all_day,
+    caseId: event.case_id,
+    caseTitle: event.cases?.title ?? null,
+    clientId: event.client_id,
+    clientName: event.clients
+      ? `${event.clients.first_name} ${event.clients.last_name}`
+      : null,
+    assignedUserId: event.assigned_user_id,
+    assignedUserName: assignee ? assignee.name || assignee.email : null,
+    createdBy: event.created_by,
+    createdAt: event.createdAt.toISOString(),
+    updatedAt: event.updatedAt.toISOString(),
+  }
+}
@@ -0,0 +1,186 @@
+// Case Timeline Events
+// Purpose: Record and read the history of a case (status changes, assignments, documents, notes, hearings)
+
+import { randomUUID } from 'crypto'
+import { CaseEventType, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { getFirmUserSummaries } from './cases'
+
+// Event input
+export interface CaseEventInput {
+  lawFirmId: string
+  caseId: string
+  eventType: CaseEventType
+  title: string
+  description?: string | null
+  metadata?: Record<string, unknown>
+  actorId?: string | null
+  occurredAt?: Date
+}
+
+// Event types users can add by hand (the rest are written by the system)
+export const MANUAL_CASE_EVENT_TYPES: CaseEventType[] = [
+  'NOTE_ADDED',
+  'HEARING',
+]
+
+// Human-readable case status labels
+const STATUS_LABELS: Record<string, string> = {
+  OPEN: 'Open',
+  IN_PROGRESS: 'In Progress',
+  CLOSED: 'Closed',
+  ARCHIVED: 'Archived',
+}
+
+// Record a single timeline event
+export async function recordCaseEvent(
+  input: CaseEventInput,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.case_events.create({
+    data: {
+      id: randomUUID(),
+      law_firm_id: input.lawFirmId,
+      case_id: input.caseId,
+      event_type: input.eventType,
+      title: input.title,
+      description: input.description ?? null,
+      metadata: (input.metadata as Prisma.InputJsonValue) ?? undefined,
+      actor_id: input.actorId ?? null,
+      occurredAt: input.occurredAt ?? new Date(),
+    },
+  })
+}
+
+// Case fields tracked on update
+interface TrackedCaseFields {
+  id: string
+  law_firm_id: string
+  title: string
+  description: string | null
+  status: string
+  practice_area: string | null
+  assigned_lawyer_id: string | null
+  client_id: string
+}
+
+// Compare a case before and after an update and write the matching events
+export async function recordCaseUpdateEvents(
+  before: TrackedCaseFields,
+  after: TrackedCaseFields,
+  actorId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const events: CaseEventInput[] = []
+  const base = {
+    lawFirmId: after.law_firm_id,
+    caseId: after.id,
+    actorId,
+  }
+
+  if (before.status !== after.status) {
+    events.push({
+      ...base,
+      eventType: 'STATUS_CHANGED',
+      title: `Status changed from ${STATUS_LABELS[before.status] || before.status} to ${STATUS_LABELS[after.status] || after.status}`,
+      metadata: { from: before.status, to: after.status },
+    })
+  }
+
+  if (before.assigned_lawyer_id !== after.assigned_lawyer_id) {
+    const lawyers = await getFirmUserSummaries(after.law_firm_id, [
+      before.assigned_lawyer_id || '',
+      after.assigned_lawyer_id || '',
+    ])
+    const nameOf = (id: string | null) => {
+      if (!id) return 'Unassigned'
+      const lawyer = lawyers.get(id)
+      return lawyer ? lawyer.name || lawyer.email : 'Unknown user'
+    }
+
+    events.push({
+      ...base,
+      eventType: 'REASSIGNED',
+      title: after.assigned_lawyer_id
+        ? `Case assigned to ${nameOf(after.assigned_lawyer_id)}`
+        : 'Case unassigned',
+      description: before.assigned_lawyer_id
+        ? `Previously assigned to ${nameOf(before.assigned_lawyer_id)}`
+        : null,
+      metadata: {
+        from: before.assigned_lawyer_id,
+        to: after.assigned_lawyer_id,
+      },
+    })
+  }
+
+  // Other field edits are grouped into one event
+  const changedFields = (
+    ['title', 'description', 'practice_area', 'client_id'] as const
+  ).filter(field => before[field] !== after[field])
+
+  if (changedFields.length > 0) {
+    const changes: Record<string, { from: unknown; to: unknown }> = {}
+    changedFields.forEach(field => {
+      changes[field] = { from: before[field], to: after[field] }
+    })
+
+    events.push({
+      ...base,
+      eventType: 'CASE_UPDATED',
+      title: `Case details updated (${changedFields.join(', ')})`,
+      metadata: { changes },
+    })
+  }
+
+  for (const event of events) {
+    await recordCaseEvent(event, client)
+  }
+}
+
+// Fetch a case timeline, newest first
+export async function getCaseTimeline(
+  lawFirmId: string,
+  caseId: string,
+  options: { limit?: number; before?: Date; types?: CaseEventType[] } = {}
+) {
+  const where: Prisma.case_eventsWhereInput = {
+    law_firm_id: lawFirmId,
+    case_id: caseId,
+  }
+
+  if (options.before) {
+    where.occurredAt = { lt: options.before }
+  }
+
+  if (options.types && options.types.length > 0) {
+    where.event_type = { in: options.types }
+  }
+
+  const events = await prisma.case_events.findMany({
+    where,
+    orderBy: { occurredAt: 'desc' },
+    take: options.limit ?? 100,
+  })
+
+  const actors = await getFirmUserSummaries(
+    lawFirmId,
+    events.map(event => event.actor_id || '')
+  )
+
+  return events.map(event => {
+    const actor = event.actor_id ? actors.get(event.actor_id) : undefined
+
+    return {
+      id: event.id,
+      type: event.event_type,
+      title: event.title,
+      description: event.description,
+      metadata: event.metadata,
+      actorId: event.actor_id,
+      actorName: actor ? actor.name || actor.email : null,
+      occurredAt: event.occurredAt.toISOString(),
+      createdAt: event.createdAt.toISOString(),
+    }
+  })
+}
@@ -0,0 +1,293 @@
+// Case Management Helpers
+// Purpose: Scope case queries to the caller's visibility and shape API responses
+
+import { Prisma, CaseAccessType, CaseStatus } from '@prisma/client'
+import { prisma } from './prisma'
+import { UserContext, PERMISSIONS, hasPermission } from './rbac'
+import {
+  RESTRICTING_GRANT_FILTER,
+  getUserGrantFilter,
+} from './document-permissions'
+
+// Valid case statuses (mirrors the CaseStatus enum)
+export const CASE_STATUSES: CaseStatus[] = [
+  'OPEN',
+  'IN_PROGRESS',
+  'CLOSED',
+  'ARCHIVED',
+]
+
+// Case columns captured in the firm audit trail
+export const CASE_AUDIT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'practice_area',
+  'assigned_lawyer_id',
+  'client_id',
+] as const
+
+export function isValidCaseStatus(status: unknown): status is CaseStatus {
+  return (
+    typeof status === 'string' && CASE_STATUSES.includes(status as CaseStatus)
+  )
+}
+
+// Exclude cases the user is screened from by an ethical wall.
+// Walls apply whatever the user's permissions, including VIEW_ALL.
+export function getCaseWallFilter(
+  userContext: UserContext
+): Prisma.casesWhereInput {
+  return {
+    case_members: { none: { user_id: userContext.id, access: 'DENIED' } },
+  }
+}
+
+// Build the base where clause for the cases a user may see.
+// CASES.VIEW_ALL sees every case in the firm, CASES.VIEW only cases they are
+// assigned to or on the team of. Ethical walls override both.
+export function getCaseAccessFilter(
+  userContext: UserContext
+): Prisma.casesWhereInput {
+  const where: Prisma.casesWhereInput = {
+    law_firm_id: userContext.lawFirmId,
+    ...getCaseWallFilter(userContext),
+  }
+
+  if (!hasPermission(userContext, PERMISSIONS.CASES.VIEW_ALL)) {
+    where.OR = [
+      { assigned_lawyer_id: userContext.id },
+      {
+        case_members: {
+          some: { user_id: userContext.id, access: 'MEMBER' },
+        },
+      },
+    ]
+  }
+
+  return where
+}
+
+// Documents filed to a case follow the case's visibility; documents not
+// filed to a case are visible to everyone with DOCUMENTS.VIEW. Documents with
+// user or role grants are limited to their grantees and uploader (a grant
+// also reaches grantees outside the case team). DOCUMENTS.MANAGE_PERMISSIONS
+// sees past grants; nothing sees past an ethical wall.
+export function getDocumentAccessFilter(
+  userContext: UserContext
+): Prisma.documentsWhereInput {
+  const caseVisible: Prisma.documentsWhereInput = {
+    OR: [
+      { case_id: null },
+      { cases: { is: getCaseAccessFilter(userContext) } },
+    ],
+  }
+
+  if (hasPermission(userContext, PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS)) {
+    return { law_firm_id: userContext.lawFirmId, ...caseVisible }
+  }
+
+  return {
+    law_firm_id: userContext.lawFirmId,
+    OR: [
+      {
+        AND: [
+          caseVisible,
+          {
+            OR: [
+              { uploaded_by: userContext.id },
+              { document_permissions: { none: RESTRICTING_GRANT_FILTER } },
+            ],
+          },
+        ],
+      },
+      {
+        AND: [
+          getLinkedCaseWallFilter(userContext),
+          { document_permissions: { some: getUserGrantFilter(userContext) } },
+        ],
+      },
+    ],
+  }
+}
+
+// Hide records linked to a case (calendar events, tasks) the user is
+// walled off from. Combine with the record's own filter under AND.
+export function getLinkedCaseWallFilter(userContext: UserContext) {
+  return {
+    OR: [{ case_id: null }, { cases: { is: getCaseWallFilter(userContext) } }],
+  }
+}
+
+// Check whether a user is screened from a case by an ethical wall
+export async function isWalledOff(
+  caseId: string,
+  userId: string
+): Promise<boolean> {
+  const wall = await prisma.case_members.findFirst({
+    where: { case_id: caseId, user_id: userId, access: 'DENIED' },
+    select: { id: true },
+  })
+
+  return !!wall
+}
+
+// Valid team access types (mirrors the CaseAccessType enum)
+export const CASE_ACCESS_TYPES: CaseAccessType[] = ['MEMBER', 'DENIED']
+
+export const MAX_MATTER_ROLE_LENGTH = 100
+export const MAX_WALL_REASON_LENGTH = 500
+
+// Team and wall columns captured in the firm audit trail
+export const CASE_MEMBER_AUDIT_FIELDS = [
+  'case_id',
+  'user_id',
+  'access',
+  'matter_role',
+  'reason',
+] as const
+
+export function isValidCaseAccess(access: unknown): access is CaseAccessType {
+  return (
+    typeof access === 'string' &&
+    CASE_ACCESS_TYPES.includes(access as CaseAccessType)
+  )
+}
+
+// Staffing a matter needs CASES.ASSIGN; putting up or lifting an ethical
+// wall is a firm-level decision and needs ADMIN.FIRM_SETTINGS
+export function getCaseAccessPermission(access: CaseAccessType): string {
+  return access === 'DENIED'
+    ? PERMISSIONS.ADMIN.FIRM_SETTINGS
+    : PERMISSIONS.CASES.ASSIGN
+}
+
+// Format a case_members row for API responses
+export function formatCaseMember(
+  member: {
+    id: string
+    user_id: string
+    access: CaseAccessType
+    matter_role: string | null
+    reason: string | null
+    added_by: string
+    createdAt: Date
+  },
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const user = users?.get(member.user_id)
+  const addedBy = users?.get(member.added_by)
+
+  return {
+    id: member.id,
+    userId: member.user_id,
+    userName: user ? user.name || user.email : null,
+    userEmail: user?.email ?? null,
+    access: member.access,
+    matterRole: member.matter_role,
+    reason: member.reason,
+    addedById: member.added_by,
+    addedByName: addedBy ? addedBy.name || addedBy.email : null,
+    createdAt: member.createdAt.toISOString(),
+  }
+}
+
+// Resolve firm users (lawyers) to display names
+export async function getFirmUserSummaries(
+  lawFirmId: string,
+  userIds: string[]
+): Promise<Map<string, { id: string; name: string | null; email: string }>> {
+  const uniqueIds = [...new Set(userIds.filter(Boolean))]
+  const summaries = new Map<
+    string,
+    { id: string; name: string | null; email: string }
+  >()
+
+  if (uniqueIds.length === 0) return summaries
+
+  const users = await prisma.users.findMany({
+    where: {
+      id: { in: uniqueIds },
+      law_firm_id: lawFirmId,
+    },
+    select: {
+      id: true,
+      platform_users: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  })
+
+  users.forEach(user => {
+    summaries.set(user.id, {
+      id: user.id,
+      name: user.platform_users.name,
+      email: user.platform_users.email,
+    })
+  })
+
+  return summaries
+}
+
+// Verify an assignee is an active member of the firm
+export async function isActiveFirmUser(
+  lawFirmId: string,
+  userId: string
+): Promise<boolean> {
+  const user = await prisma.users.findFirst({
+    where: {
+      id: userId,
+      law_firm_id: lawFirmId,
+      isActive: true,
+    },
+    select: { id: true },
+  })
+
+  return !!user
+}
+
+// Case record shape used by the formatter
+export interface CaseRecord {
+  id: string
+  title: string
+  description: string | null
+  status: CaseStatus
+  practice_area: string | null
+  assigned_lawyer_id: string | null
+  client_id: string
+  createdAt: Date
+  updatedAt: Date
+  clients?: { first_name: string; last_name: string; email: string } | null
+  _count?: { documents: number }
+}
+
+// Format a case row for API responses
+export function formatCase(
+  caseRecord: CaseRecord,
+  lawyers?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const lawyer = caseRecord.assigned_lawyer_id
+    ? lawyers?.get(caseRecord.assigned_lawyer_id)
+    : undefined
+
+  return {
+    id: caseRecord.id,
+    title: caseRecord.title,
+    description: caseRecord.description,
+    status: caseRecord.status,
+    practiceArea: caseRecord.practice_area,
+    clientId: caseRecord.client_id,
+    clientName: caseRecord.clients
+      ? `${caseRecord.clients.first_name} ${caseRecord.clients.last_name}`
+      : null,
+    clientEmail: caseRecord.clients?.email ?? null,
+    assignedLawyerId: caseRecord.assigned_lawyer_id,
+    assignedLawyerName: lawyer ? lawyer.name || lawyer.email : null,
+    documentCount: caseRecord._count?.documents,
+    createdAt: caseRecord.createdAt.toISOString(),
+    updatedAt: caseRecord.updatedAt.toISOString(),
+  }
+}
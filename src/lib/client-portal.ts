@@ -0,0 +1,241 @@
+// Client Portal Helpers
+// Purpose: Map a client login to its clients record and read only client-safe data
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { withPermission } from './auth-guards'
+import { UserContext, PERMISSIONS } from './rbac'
+import { getFirmUserSummaries } from './cases'
+import { getClientGrantFilter } from './document-permissions'
+
+// Client record behind a portal login
+export interface PortalClient {
+  id: string
+  law_firm_id: string
+  email: string
+  first_name: string
+  last_name: string
+}
+
+type PortalHandler<T extends unknown[]> = (
+  request: NextRequest,
+  userContext: UserContext,
+  client: PortalClient,
+  ...args: T
+) => Promise<NextResponse>
+
+const portalClientSelect = {
+  id: true,
+  law_firm_id: true,
+  email: true,
+  first_name: true,
+  last_name: true,
+} as const
+
+// Resolve the clients record for a portal user.
+// Uses the explicit clients.user_id link; on first access an unlinked client
+// with the same email as the login is linked automatically.
+export async function getPortalClient(
+  userContext: UserContext
+): Promise<PortalClient | null> {
+  const linked = await prisma.clients.findFirst({
+    where: {
+      user_id: userContext.id,
+      law_firm_id: userContext.lawFirmId,
+      isActive: true,
+    },
+    select: portalClientSelect,
+  })
+
+  if (linked) return linked
+
+  const user = await prisma.users.findFirst({
+    where: {
+      id: userContext.id,
+      law_firm_id: userContext.lawFirmId,
+    },
+    select: { platform_users: { select: { email: true } } },
+  })
+
+  if (!user) return null
+
+  const match = await prisma.clients.findFirst({
+    where: {
+      law_firm_id: userContext.lawFirmId,
+      email: user.platform_users.email.toLowerCase(),
+      user_id: null,
+      isActive: true,
+    },
+    select: portalClientSelect,
+  })
+
+  if (!match) return null
+
+  await prisma.clients.update({
+    where: { id: match.id },
+    data: { user_id: userContext.id, updatedAt: new Date() },
+  })
+
+  return match
+}
+
+// Portal guard - requires PORTAL.ACCESS and a linked, active client record
+export function withPortalClient<T extends unknown[]>(
+  handler: PortalHandler<T>
+): (request: NextRequest, ...args: T) => Promise<NextResponse> {
+  return withPermission(
+    PERMISSIONS.PORTAL.ACCESS,
+    async (request: NextRequest, userContext: UserContext, ...args: T) => {
+      const client = await getPortalClient(userContext)
+
+      if (!client) {
+        return NextResponse.json(
+          { error: 'No client record is linked to this account' },
+          { status: 403 }
+        )
+      }
+
+      return handler(request, userContext, client, ...args)
+    }
+  )
+}
+
+// Cases belonging to the client. Descriptions are firm-internal and omitted.
+export async function getPortalCases(client: PortalClient) {
+  const cases = await prisma.cases.findMany({
+    where: {
+      law_firm_id: client.law_firm_id,
+      client_id: client.id,
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      practice_area: true,
+      assigned_lawyer_id: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+  const lawyers = await getFirmUserSummaries(
+    client.law_firm_id,
+    cases.map(c => c.assigned_lawyer_id || '')
+  )
+
+  return cases.map(c => {
+    const lawyer = c.assigned_lawyer_id
+      ? lawyers.get(c.assigned_lawyer_id)
+      : undefined
+
+    return {
+      id: c.id,
+      title: c.title,
+      status: c.status,
+      practiceArea: c.practice_area,
+      lawyerName: lawyer ? lawyer.name || lawyer.email : null,
+      createdAt: c.createdAt.toISOString(),
+      updatedAt: c.updatedAt.toISOString(),
+    }
+  })
+}
+
+// Where clause for documents the firm has explicitly shared with the client:
+// the client's own documents flagged for the portal, plus any document with
+// an active grant to the client
+function sharedDocumentsWhere(
+  client: PortalClient
+): Prisma.documentsWhereInput {
+  return {
+    law_firm_id: client.law_firm_id,
+    OR: [
+      {
+        shared_with_client: true,
+        OR: [{ client_id: client.id }, { cases: { client_id: client.id } }],
+      },
+      { document_permissions: { some: getClientGrantFilter(client.id) } },
+    ],
+  }
+}
+
+// Documents shared with the client (storage keys are not exposed)
+export async function getSharedDocuments(
+  client: PortalClient,
+  options: { caseId?: string } = {}
+) {
+  const documents = await prisma.documents.findMany({
+    where: {
+      ...sharedDocumentsWhere(client),
+      case_id: options.caseId,
+    },
+    select: {
+      id: true,
+      name: true,
+      file_size: true,
+      mime_type: true,
+      case_id: true,
+      shared_at: true,
+      createdAt: true,
+      cases: { select: { title: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return documents.map(doc => ({
+    id: doc.id,
+    fileName: doc.name,
+    fileSize: Number(doc.file_size),
+    mimeType: doc.mime_type,
+    caseId: doc.case_id,
+    caseTitle: doc.cases?.title ?? null,
+    sharedAt: (doc.shared_at ?? doc.createdAt).toISOString(),
+  }))
+}
+
+// Look up a single shared document for download
+export async function findSharedDocument(
+  client: PortalClient,
+  documentId: string
+) {
+  return prisma.documents.findFirst({
+    where: { ...sharedDocumentsWhere(client), id: documentId },
+    select: { id: true, name: true, file_path: true },
+  })
+}
+
+// Upcoming hearings for the client (date and place only, no internal notes)
+export async function getUpcomingCourtDates(client: PortalClient, limit = 20) {
+  const hearings = await prisma.calendar_events.findMany({
+    where: {
+      law_firm_id: client.law_firm_id,
+      event_type: 'HEARING',
+      start_time: { gte: new Date() },
+      OR: [{ client_id: client.id }, { cases: { client_id: client.id } }],
+    },
+    select: {
+      id: true,
+      title: true,
+      start_time: true,
+      all_day: true,
+      court_name: true,
+      location: true,
+      case_id: true,
+      cases: { select: { title: true } },
+    },
+    orderBy: { start_time: 'asc' },
+    take: limit,
+  })
+
+  return hearings.map(hearing => ({
+    id: hearing.id,
+    title: hearing.title,
+    date: hearing.start_time.toISOString(),
+    allDay: hearing.all_day,
+    courtName: hearing.court_name,
+    location: hearing.location,
+    caseId: hearing.case_id,
+    caseTitle: hearing.cases?.title ?? null,
+  }))
+}
@@ -0,0 +1,123 @@
+// Client Directory Helpers
+// Purpose: Validate client input and shape client API responses
+
+import { Prisma } from '@prisma/client'
+
+// Postal address stored in clients.address
+export interface ClientAddress {
+  street?: string
+  city?: string
+  state?: string
+  postalCode?: string
+  country?: string
+}
+
+const ADDRESS_FIELDS: (keyof ClientAddress)[] = [
+  'street',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+]
+
+// Client columns captured in the firm audit trail
+export const CLIENT_AUDIT_FIELDS = [
+  'email',
+  'first_name',
+  'last_name',
+  'phone',
+  'address',
+  'user_id',
+  'isActive',
+] as const
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === 'string' && EMAIL_REGEX.test(email)
+}
+
+// Keep only known address fields; returns null for empty input
+export function normalizeAddress(address: unknown): ClientAddress | null {
+  if (!address || typeof address !== 'object') return null
+
+  const normalized: ClientAddress = {}
+  ADDRESS_FIELDS.forEach(field => {
+    const value = (address as Record<string, unknown>)[field]
+    if (typeof value === 'string' && value.trim()) {
+      normalized[field] = value.trim()
+    }
+  })
+
+  return Object.keys(normalized).length > 0 ? normalized : null
+}
+
+// Address value for a Prisma create/update (DbNull clears the column)
+export function toAddressInput(
+  address: unknown
+): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  const normalized = normalizeAddress(address)
+  return normalized ? (normalized as Prisma.InputJsonValue) : Prisma.DbNull
+}
+
+// Build the search clause for name/email/phone lookups
+export function buildClientSearchFilter(
+  search: string
+): Prisma.clientsWhereInput {
+  const terms = search.trim().split(/\s+/).filter(Boolean)
+
+  // "Jane Doe" should match first + last name together
+  if (terms.length > 1) {
+    return {
+      AND: terms.map(term => ({
+        OR: [
+          { first_name: { contains: term, mode: 'insensitive' } },
+          { last_name: { contains: term, mode: 'insensitive' } },
+        ],
+      })),
+    }
+  }
+
+  return {
+    OR: [
+      { first_name: { contains: search, mode: 'insensitive' } },
+      { last_name: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } },
+      { phone: { contains: search } },
+    ],
+  }
+}
+
+// Client record shape used by the formatter
+export interface ClientRecord {
+  id: string
+  email: string
+  first_name: string
+  last_name: string
+  phone: string | null
+  address: Prisma.JsonValue | null
+  user_id?: string | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count?: { cases: number; documents: number }
+}
+
+// Format a client row for API responses
+export function formatClient(client: ClientRecord) {
+  return {
+    id: client.id,
+    email: client.email,
+    firstName: client.first_name,
+    lastName: client.last_name,
+    fullName: `${client.first_name} ${client.last_name}`,
+    phone: client.phone,
+    address: client.address as ClientAddress | null,
+    portalUserId: client.user_id ?? null,
+    isActive: client.isActive,
+    caseCount: client._count?.cases,
+    documentCount: client._count?.documents,
+    createdAt: client.createdAt.toISOString(),
+    updatedAt: client.updatedAt.toISOString(),
+  }
+}
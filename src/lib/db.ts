@@ -1,90 +1,87 @@
-import { PrismaClient } from '@prisma/client'
+// Tenant-Scoped Database Access
+// Purpose: Run queries under Postgres row-level security for one law firm
+//
+// Every tenant query runs inside its own transaction that first applies the
+// tenant settings with set_config(..., true), the parameterised form of
+// SET LOCAL. The settings and the query therefore always share one pooled
+// connection and vanish at commit, so nothing leaks to the next request.
+// The transaction also switches to the non-owner tenant role, because table
+// owners (the role the application connects as) bypass RLS policies.
+// All tenant clients are extensions of the one shared PrismaClient.
+
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
 import { env } from './env'
 
-export class TenantAwarePrisma extends PrismaClient {
-  constructor() {
-    super({
-      datasources: {
-        db: {
-          url: env.DATABASE_URL,
-        },
-      },
-    })
-  }
+type TenantSettingsClient = Pick<Prisma.TransactionClient, '$executeRaw'>
 
-  async setTenantContext(lawFirmId: string, userRole: string = 'user') {
-    // Set the tenant context using PostgreSQL session variables
-    await this.$executeRaw`SELECT set_tenant_context(${lawFirmId}, ${userRole})`
-  }
+// Apply the variables read by the policies in prisma/migrations/enable_rls.sql
+function applyTenantSettings(
+  client: TenantSettingsClient,
+  lawFirmId: string,
+  userRole: string
+) {
+  return client.$executeRaw`
+    SELECT
+      set_config('app.current_law_firm_id', ${lawFirmId}, true),
+      set_config('app.current_user_role', ${userRole}, true),
+      set_config('role', ${env.DATABASE_TENANT_ROLE}, true)
+  `
+}
 
-  async clearTenantContext() {
-    await this.$executeRaw`SELECT clear_tenant_context()`
+function createTenantClient(lawFirmId: string, userRole: string) {
+  if (!lawFirmId) {
+    throw new Error('A law firm is required for tenant-scoped queries')
   }
 
-  // Create a tenant-aware instance
-  forTenant(lawFirmId: string, userRole: string = 'user') {
-    const client = new TenantAwarePrisma()
-
-    // Wrap all query methods to automatically set context
-    const originalMethods = [
-      'findFirst',
-      'findFirstOrThrow',
-      'findUnique',
-      'findUniqueOrThrow',
-      'findMany',
-      'create',
-      'createMany',
-      'update',
-      'updateMany',
-      'upsert',
-      'delete',
-      'deleteMany',
-      'count',
-      'aggregate',
-      'groupBy',
-      'findRaw',
-      'aggregateRaw',
-    ]
+  return prisma.$extends(
+    Prisma.defineExtension(client =>
+      client.$extends({
+        name: 'tenant-isolation',
+        query: {
+          async $allOperations({ args, query }) {
+            const [, result] = await client.$transaction([
+              applyTenantSettings(client, lawFirmId, userRole),
+              query(args),
+            ])
+            return result
+          },
+        },
+      })
+    )
+  )
+}
 
-    // Intercept all model operations
-    Object.keys(client).forEach(modelName => {
-      const model = (client as unknown as Record<string, unknown>)[modelName]
-      if (model && typeof model === 'object') {
-        originalMethods.forEach(method => {
-          if (
-            typeof (model as Record<string, unknown>)[method] === 'function'
-          ) {
-            const originalMethod = (
-              (model as Record<string, unknown>)[method] as (
-                ...args: unknown[]
-              ) => Promise<unknown>
-            ).bind(model)
-            ;(model as Record<string, unknown>)[method] = async (
-              ...args: unknown[]
-            ) => {
-              await client.setTenantContext(lawFirmId, userRole)
-              try {
-                return await originalMethod(...args)
-              } finally {
-                // Keep context for the duration of the request
-                // It will be cleared by middleware or manually
-              }
-            }
-          }
-        })
-      }
-    })
+export type TenantPrismaClient = ReturnType<typeof createTenantClient>
 
-    return client
+export class TenantAwarePrisma {
+  // Client whose every model and raw query runs under the firm's RLS context.
+  // Each call is its own transaction; use transaction() below when several
+  // statements must commit together.
+  static forTenant(
+    lawFirmId: string,
+    userRole: string = 'user'
+  ): TenantPrismaClient {
+    return createTenantClient(lawFirmId, userRole)
   }
-}
-
-const globalForPrisma = globalThis as unknown as {
-  prisma: TenantAwarePrisma | undefined
-}
 
-export const prisma = globalForPrisma.prisma ?? new TenantAwarePrisma()
+  // Run several statements in one transaction under the firm's RLS context
+  static async transaction<T>(
+    lawFirmId: string,
+    userRole: string,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options?: { maxWait?: number; timeout?: number }
+  ): Promise<T> {
+    if (!lawFirmId) {
+      throw new Error('A law firm is required for tenant-scoped queries')
+    }
 
-if (env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
+    return prisma.$transaction(async tx => {
+      await applyTenantSettings(tx, lawFirmId, userRole)
+      return fn(tx)
+    }, options)
+  }
+}
 
+export { prisma }
 export default prisma
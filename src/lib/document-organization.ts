@@ -0,0 +1,196 @@
+// Document Organization Helpers
+// Purpose: Firm-configurable categories, free-form tags and per-case folders
+
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+// Categories every new firm starts with; firms can rename or extend them
+export const DEFAULT_DOCUMENT_CATEGORIES = [
+  'Pleadings',
+  'Evidence',
+  'Contracts',
+  'Correspondence',
+  'Court Orders',
+  'Discovery',
+]
+
+export const MAX_TAGS_PER_DOCUMENT = 20
+export const MAX_TAG_LENGTH = 50
+export const MAX_FOLDER_DEPTH = 8
+
+// Seed the default categories for a firm (safe to run more than once)
+export async function createDefaultDocumentCategories(
+  lawFirmId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.document_categories.createMany({
+    data: DEFAULT_DOCUMENT_CATEGORIES.map((name, position) => ({
+      id: randomUUID(),
+      law_firm_id: lawFirmId,
+      name,
+      position,
+      updatedAt: new Date(),
+    })),
+    skipDuplicates: true,
+  })
+}
+
+// Tags are stored trimmed and lower-cased so filters match regardless of
+// how they were typed. Returns null when the input is not a list of strings.
+export function normalizeTags(input: unknown): string[] | null {
+  if (!Array.isArray(input)) return null
+  if (input.some(tag => typeof tag !== 'string')) return null
+
+  const tags = new Set<string>()
+  for (const tag of input as string[]) {
+    const normalized = tag.trim().replace(/\s+/g, ' ').toLowerCase()
+    if (normalized) tags.add(normalized.slice(0, MAX_TAG_LENGTH))
+  }
+
+  return [...tags]
+}
+
+interface FolderRow {
+  id: string
+  parent_id: string | null
+  name: string
+}
+
+export interface FolderNode {
+  id: string
+  name: string
+  parentId: string | null
+  documentCount: number
+  children: FolderNode[]
+}
+
+// Load every folder of a case (folders are virtual; files never move in R2)
+export async function getCaseFolders(lawFirmId: string, caseId: string) {
+  return prisma.document_folders.findMany({
+    where: { law_firm_id: lawFirmId, case_id: caseId },
+    select: { id: true, parent_id: true, name: true },
+    orderBy: { name: 'asc' },
+  })
+}
+
+// Collect a folder and everything nested below it
+export function getDescendantFolderIds(
+  folders: FolderRow[],
+  rootId: string
+): string[] {
+  const ids = [rootId]
+  for (let i = 0; i < ids.length; i++) {
+    folders
+      .filter(folder => folder.parent_id === ids[i])
+      .forEach(folder => ids.push(folder.id))
+  }
+  return ids
+}
+
+// Depth of a folder counted from the case root (root-level folders are 1)
+export function getFolderDepth(folders: FolderRow[], folderId: string): number {
+  const byId = new Map(folders.map(folder => [folder.id, folder]))
+  let depth = 0
+  let current = byId.get(folderId)
+  while (current && depth <= folders.length) {
+    depth++
+    current = current.parent_id ? byId.get(current.parent_id) : undefined
+  }
+  return depth
+}
+
+// Nest flat folder rows into a tree, with document counts per folder
+export function buildFolderTree(
+  folders: FolderRow[],
+  documentCounts: Map<string, number>
+): FolderNode[] {
+  const nodes = new Map<string, FolderNode>(
+    folders.map(folder => [
+      folder.id,
+      {
+        id: folder.id,
+        name: folder.name,
+        parentId: folder.parent_id,
+        documentCount: documentCounts.get(folder.id) || 0,
+        children: [],
+      },
+    ])
+  )
+
+  const roots: FolderNode[] = []
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  return roots
+}
+
+// Sibling folders must have distinct names (case-insensitive)
+export function hasSiblingNamed(
+  folders: FolderRow[],
+  parentId: string | null,
+  name: string,
+  excludeId?: string
+): boolean {
+  const lowered = name.toLowerCase()
+  return folders.some(
+    folder =>
+      folder.id !== excludeId &&
+      folder.parent_id === parentId &&
+      folder.name.toLowerCase() === lowered
+  )
+}
+
+// Check that a category and folder can be applied to a document of the
+// given case. Returns an error message, or null when the placement is valid.
+export async function validateDocumentPlacement(
+  lawFirmId: string,
+  caseId: string | null,
+  placement: { categoryId?: string | null; folderId?: string | null }
+): Promise<string | null> {
+  if (placement.categoryId) {
+    const category = await prisma.document_categories.findFirst({
+      where: { id: placement.categoryId, law_firm_id: lawFirmId },
+      select: { id: true },
+    })
+    if (!category) return 'Category not found'
+  }
+
+  if (placement.folderId) {
+    const folder = await prisma.document_folders.findFirst({
+      where: { id: placement.folderId, law_firm_id: lawFirmId },
+      select: { case_id: true },
+    })
+    if (!folder) return 'Folder not found'
+    if (folder.case_id !== caseId) {
+      return 'Folder belongs to a different case'
+    }
+  }
+
+  return null
+}
+
+// Format a category row for API responses
+export function formatDocumentCategory(
+  category: {
+    id: string
+    name: string
+    color: string | null
+    position: number
+  },
+  documentCount?: number
+) {
+  return {
+    id: category.id,
+    name: category.name,
+    color: category.color,
+    position: category.position,
+    ...(documentCount !== undefined && { documentCount }),
+  }
+}
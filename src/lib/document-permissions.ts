@@ -0,0 +1,151 @@
+// Document Permission Helpers
+// Purpose: Per-document access grants to users, roles and clients
+
+import { DocumentGranteeType, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { UserContext } from './rbac'
+
+// Valid grantee types (mirrors the DocumentGranteeType enum)
+export const DOCUMENT_GRANTEE_TYPES: DocumentGranteeType[] = [
+  'USER',
+  'ROLE',
+  'CLIENT',
+]
+
+export function isValidGranteeType(type: unknown): type is DocumentGranteeType {
+  return (
+    typeof type === 'string' &&
+    DOCUMENT_GRANTEE_TYPES.includes(type as DocumentGranteeType)
+  )
+}
+
+// Grants that limit a document to its grantees inside the firm. Client
+// grants only publish to the portal and leave firm access unchanged.
+export const RESTRICTING_GRANT_FILTER: Prisma.document_permissionsWhereInput = {
+  grantee_type: { in: ['USER', 'ROLE'] },
+}
+
+// Grants without an expiry or expiring in the future
+export function getActiveGrantFilter(
+  now = new Date()
+): Prisma.document_permissionsWhereInput {
+  return { OR: [{ expires_at: null }, { expires_at: { gt: now } }] }
+}
+
+// Active grants made to the user directly or to one of their roles
+export function getUserGrantFilter(
+  userContext: UserContext
+): Prisma.document_permissionsWhereInput {
+  return {
+    law_firm_id: userContext.lawFirmId,
+    AND: [
+      getActiveGrantFilter(),
+      {
+        OR: [
+          { grantee_type: 'USER', user_id: userContext.id },
+          {
+            grantee_type: 'ROLE',
+            roles: {
+              is: { user_roles: { some: { user_id: userContext.id } } },
+            },
+          },
+        ],
+      },
+    ],
+  }
+}
+
+// Active grants publishing documents to a client's portal
+export function getClientGrantFilter(
+  clientId: string
+): Prisma.document_permissionsWhereInput {
+  return {
+    grantee_type: 'CLIENT',
+    client_id: clientId,
+    ...getActiveGrantFilter(),
+  }
+}
+
+// Check that a grantee exists in the firm (active users and clients only).
+// Returns a display name, or null when the grantee is not valid.
+export async function resolveGranteeName(
+  lawFirmId: string,
+  granteeType: DocumentGranteeType,
+  granteeId: string
+): Promise<string | null> {
+  if (granteeType === 'USER') {
+    const user = await prisma.users.findFirst({
+      where: { id: granteeId, law_firm_id: lawFirmId, isActive: true },
+      select: { platform_users: { select: { name: true, email: true } } },
+    })
+    return user ? user.platform_users.name || user.platform_users.email : null
+  }
+
+  if (granteeType === 'ROLE') {
+    const role = await prisma.roles.findFirst({
+      where: { id: granteeId, law_firm_id: lawFirmId },
+      select: { name: true },
+    })
+    return role?.name ?? null
+  }
+
+  const client = await prisma.clients.findFirst({
+    where: { id: granteeId, law_firm_id: lawFirmId, isActive: true },
+    select: { first_name: true, last_name: true },
+  })
+  return client ? `${client.first_name} ${client.last_name}` : null
+}
+
+// Relations loaded alongside grants for formatting
+export const documentPermissionInclude = {
+  users: {
+    select: { platform_users: { select: { name: true, email: true } } },
+  },
+  roles: { select: { name: true } },
+  clients: { select: { first_name: true, last_name: true } },
+} satisfies Prisma.document_permissionsInclude
+
+// Grant record shape used by the formatter
+export interface DocumentPermissionRecord {
+  id: string
+  grantee_type: DocumentGranteeType
+  user_id: string | null
+  role_id: string | null
+  client_id: string | null
+  expires_at: Date | null
+  granted_by: string
+  createdAt: Date
+  users?: { platform_users: { name: string | null; email: string } } | null
+  roles?: { name: string } | null
+  clients?: { first_name: string; last_name: string } | null
+}
+
+// Format a grant row for API responses
+export function formatDocumentPermission(
+  grant: DocumentPermissionRecord,
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  let granteeName: string | null = null
+  if (grant.users) {
+    granteeName =
+      grant.users.platform_users.name || grant.users.platform_users.email
+  } else if (grant.roles) {
+    granteeName = grant.roles.name
+  } else if (grant.clients) {
+    granteeName = `${grant.clients.first_name} ${grant.clients.last_name}`
+  }
+
+  const grantedBy = users?.get(grant.granted_by)
+
+  return {
+    id: grant.id,
+    granteeType: grant.grantee_type,
+    granteeId: grant.user_id ?? grant.role_id ?? grant.client_id,
+    granteeName,
+    expiresAt: grant.expires_at?.toISOString() ?? null,
+    expired: !!grant.expires_at && grant.expires_at <= new Date(),
+    grantedById: grant.granted_by,
+    grantedByName: grantedBy ? grantedBy.name || grantedBy.email : null,
+    createdAt: grant.createdAt.toISOString(),
+  }
+}
@@ -0,0 +1,306 @@
+// Document Search Helpers
+// Purpose: Index extracted document text and run ranked full-text queries
+
+import { randomUUID } from 'crypto'
+import { DocumentIndexStatus, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { PERMISSIONS, UserContext, hasPermission } from './rbac'
+import { storageService } from './storage'
+import { extractText, isExtractableType } from './text-extraction'
+
+// Larger files are listed by name only
+export const MAX_INDEXABLE_FILE_SIZE = 25 * 1024 * 1024 // 25MB
+
+export const MIN_SEARCH_QUERY_LENGTH = 2
+export const MAX_SEARCH_QUERY_LENGTH = 200
+
+// Markers ts_headline wraps around matches; swapped for <mark> after escaping
+const HIGHLIGHT_START = '⟦hl⟧'
+const HIGHLIGHT_END = '⟦/hl⟧'
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`
+
+// Extract and store the text of a document's current version.
+// Runs after the upload response is sent, so it logs instead of throwing.
+export async function indexDocumentText(documentId: string): Promise<void> {
+  try {
+    const document = await prisma.documents.findUnique({
+      where: { id: documentId },
+      select: {
+        id: true,
+        law_firm_id: true,
+        file_path: true,
+        file_size: true,
+        mime_type: true,
+        current_version: true,
+      },
+    })
+
+    if (!document) return
+
+    let status: DocumentIndexStatus = 'INDEXED'
+    let content: string | null = null
+    let error: string | null = null
+
+    if (!isExtractableType(document.mime_type)) {
+      status = 'UNSUPPORTED'
+    } else if (Number(document.file_size) > MAX_INDEXABLE_FILE_SIZE) {
+      status = 'UNSUPPORTED'
+      error = 'File too large to index'
+    } else {
+      try {
+        const buffer = await storageService.getFileContent(
+          document.file_path,
+          document.law_firm_id
+        )
+        content = extractText(buffer, document.mime_type)
+      } catch (extractionError) {
+        status = 'FAILED'
+        error =
+          extractionError instanceof Error
+            ? extractionError.message
+            : 'Text extraction failed'
+      }
+    }
+
+    // A newer version may have been uploaded while this one was being read
+    const latest = await prisma.documents.findUnique({
+      where: { id: documentId },
+      select: { current_version: true },
+    })
+    if (!latest || latest.current_version !== document.current_version) return
+
+    const data = {
+      version_number: document.current_version,
+      status,
+      content,
+      error,
+      indexed_at: new Date(),
+      updatedAt: new Date(),
+    }
+
+    await prisma.document_text_index.upsert({
+      where: { document_id: documentId },
+      create: {
+        id: randomUUID(),
+        law_firm_id: document.law_firm_id,
+        document_id: documentId,
+        ...data,
+      },
+      update: data,
+    })
+  } catch (error) {
+    console.error('Error indexing document text:', error)
+  }
+}
+
+// Index documents that were never indexed or whose last attempt failed
+export async function indexPendingDocuments(lawFirmId: string, limit = 25) {
+  const where: Prisma.documentsWhereInput = {
+    law_firm_id: lawFirmId,
+    OR: [
+      { document_text_index: null },
+      { document_text_index: { status: { in: ['PENDING', 'FAILED'] } } },
+    ],
+  }
+
+  const documents = await prisma.documents.findMany({
+    where,
+    select: { id: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+
+  // One at a time: each extraction holds a whole file in memory
+  for (const document of documents) {
+    await indexDocumentText(document.id)
+  }
+
+  const remaining = await prisma.documents.count({ where })
+
+  return { processed: documents.length, remaining }
+}
+
+interface SearchRow {
+  id: string
+  name: string
+  file_path: string
+  file_size: bigint
+  mime_type: string
+  case_id: string | null
+  client_id: string | null
+  current_version: number
+  createdAt: Date
+  case_title: string | null
+  rank: number
+  snippet: string | null
+}
+
+// Escape the snippet for HTML, then turn the match markers into <mark> tags
+export function formatSnippet(snippet: string | null): string | null {
+  if (!snippet) return null
+
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START)
+    .join('<mark>')
+    .split(HIGHLIGHT_END)
+    .join('</mark>')
+}
+
+// SQL counterpart of getDocumentAccessFilter: case documents follow the
+// case's visibility and ethical walls, unfiled documents are firm-wide, and
+// user or role grants limit a document to its grantees and uploader
+function documentAccessSql(userContext: UserContext): Prisma.Sql {
+  const wall = Prisma.sql`
+    (
+      d.case_id IS NULL
+      OR NOT EXISTS (
+        SELECT 1 FROM case_members w
+        WHERE w.case_id = d.case_id
+          AND w.user_id = ${userContext.id}
+          AND w.access = 'DENIED'
+      )
+    )
+  `
+
+  const caseVisible = hasPermission(userContext, PERMISSIONS.CASES.VIEW_ALL)
+    ? wall
+    : Prisma.sql`
+        (
+          d.case_id IS NULL
+          OR (
+            ${wall}
+            AND EXISTS (
+              SELECT 1 FROM cases vc
+              WHERE vc.id = d.case_id
+                AND (
+                  vc.assigned_lawyer_id = ${userContext.id}
+                  OR EXISTS (
+                    SELECT 1 FROM case_members m
+                    WHERE m.case_id = vc.id
+                      AND m.user_id = ${userContext.id}
+                      AND m.access = 'MEMBER'
+                  )
+                )
+            )
+          )
+        )
+      `
+
+  if (hasPermission(userContext, PERMISSIONS.DOCUMENTS.MANAGE_PERMISSIONS)) {
+    return Prisma.sql`AND ${caseVisible}`
+  }
+
+  return Prisma.sql`
+    AND (
+      (
+        ${caseVisible}
+        AND (
+          d.uploaded_by = ${userContext.id}
+          OR NOT EXISTS (
+            SELECT 1 FROM document_permissions r
+            WHERE r.document_id = d.id
+              AND r.grantee_type IN ('USER', 'ROLE')
+          )
+        )
+      )
+      OR (
+        ${wall}
+        AND EXISTS (
+          SELECT 1 FROM document_permissions g
+          WHERE g.document_id = d.id
+            AND (g.expires_at IS NULL OR g.expires_at > ${new Date()})
+            AND (
+              (g.grantee_type = 'USER' AND g.user_id = ${userContext.id})
+              OR (
+                g.grantee_type = 'ROLE'
+                AND EXISTS (
+                  SELECT 1 FROM user_roles ur
+                  WHERE ur.role_id = g.role_id
+                    AND ur.user_id = ${userContext.id}
+                )
+              )
+            )
+        )
+      )
+    )
+  `
+}
+
+// Run a ranked full-text query over the documents a user may see.
+// Document names are matched too (weighted above body text) so files that
+// could not be extracted are still found.
+export async function searchDocuments(
+  userContext: UserContext,
+  query: string,
+  options: { caseId?: string | null; limit: number; offset: number }
+) {
+  const caseFilter = options.caseId
+    ? Prisma.sql`AND d.case_id = ${options.caseId}`
+    : Prisma.empty
+
+  const nameVector = Prisma.sql`to_tsvector('english', regexp_replace(d.name, '[_.-]+', ' ', 'g'))`
+  const matches = Prisma.sql`
+    FROM documents d
+    CROSS JOIN (SELECT websearch_to_tsquery('english', ${query}) AS query) q
+    LEFT JOIN document_text_index i ON i.document_id = d.id
+    WHERE d.law_firm_id = ${userContext.lawFirmId}
+      AND (i.search_vector @@ q.query OR ${nameVector} @@ q.query)
+      ${caseFilter}
+      ${documentAccessSql(userContext)}
+  `
+
+  const [rows, countRows] = await Promise.all([
+    // Rank and page first, then build headlines only for the returned page
+    prisma.$queryRaw<SearchRow[]>`
+      SELECT
+        hits.id, hits.name, hits.file_path, hits.file_size, hits.mime_type,
+        hits.case_id, hits.client_id, hits.current_version, hits."createdAt",
+        c.title AS case_title,
+        hits.rank,
+        CASE WHEN hits.content_match THEN
+          ts_headline('english', i.content, websearch_to_tsquery('english', ${query}), ${HEADLINE_OPTIONS})
+        END AS snippet
+      FROM (
+        SELECT
+          d.id, d.name, d.file_path, d.file_size, d.mime_type, d.case_id,
+          d.client_id, d.current_version, d."createdAt",
+          coalesce(i.search_vector @@ q.query, false) AS content_match,
+          (
+            coalesce(ts_rank_cd(i.search_vector, q.query, 32), 0)
+            + CASE WHEN ${nameVector} @@ q.query THEN 1 ELSE 0 END
+          )::float8 AS rank
+        ${matches}
+        ORDER BY rank DESC, d."createdAt" DESC
+        LIMIT ${options.limit} OFFSET ${options.offset}
+      ) hits
+      LEFT JOIN document_text_index i ON i.document_id = hits.id
+      LEFT JOIN cases c ON c.id = hits.case_id
+      ORDER BY hits.rank DESC, hits."createdAt" DESC
+    `,
+    prisma.$queryRaw<{ total: bigint }[]>`
+      SELECT count(*) AS total ${matches}
+    `,
+  ])
+
+  return {
+    total: Number(countRows[0]?.total ?? 0),
+    results: rows.map(row => ({
+      id: row.id,
+      fileName: row.name,
+      key: row.file_path,
+      fileSize: Number(row.file_size),
+      mimeType: row.mime_type,
+      caseId: row.case_id,
+      clientId: row.client_id,
+      caseTitle: row.case_title,
+      version: row.current_version,
+      uploadedAt: row.createdAt.toISOString(),
+      score: Number(row.rank.toFixed(4)),
+      snippet: formatSnippet(row.snippet),
+    })),
+  }
+}
@@ -0,0 +1,135 @@
+// Document Version Helpers
+// Purpose: Record numbered, immutable file versions behind each document
+
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+export interface DocumentVersionInput {
+  key: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  uploadedBy: string
+}
+
+// Record version 1 for a document that was just created
+export async function recordInitialVersion(
+  document: { id: string; law_firm_id: string },
+  input: DocumentVersionInput,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.document_versions.create({
+    data: {
+      id: randomUUID(),
+      law_firm_id: document.law_firm_id,
+      document_id: document.id,
+      version_number: 1,
+      file_path: input.key,
+      file_name: input.fileName,
+      file_size: BigInt(input.fileSize),
+      mime_type: input.mimeType,
+      uploaded_by: input.uploadedBy,
+    },
+  })
+}
+
+// Add a new version and make it the document's current file.
+// Earlier versions keep their storage keys and stay downloadable.
+// Must run inside a transaction: the document row stays locked until it
+// ends, so concurrent adds take the next number in turn.
+export async function addDocumentVersion(
+  document: { id: string; law_firm_id: string },
+  input: DocumentVersionInput,
+  client: Prisma.TransactionClient
+) {
+  await client.$executeRaw`SELECT 1 FROM documents WHERE id = ${document.id} FOR UPDATE`
+
+  const latest = await client.document_versions.findFirst({
+    where: { document_id: document.id },
+    orderBy: { version_number: 'desc' },
+    select: { version_number: true },
+  })
+  const versionNumber = (latest?.version_number ?? 0) + 1
+
+  const version = await client.document_versions.create({
+    data: {
+      id: randomUUID(),
+      law_firm_id: document.law_firm_id,
+      document_id: document.id,
+      version_number: versionNumber,
+      file_path: input.key,
+      file_name: input.fileName,
+      file_size: BigInt(input.fileSize),
+      mime_type: input.mimeType,
+      uploaded_by: input.uploadedBy,
+    },
+  })
+
+  const updated = await client.documents.update({
+    where: { id: document.id },
+    data: {
+      file_path: input.key,
+      file_size: BigInt(input.fileSize),
+      mime_type: input.mimeType,
+      current_version: versionNumber,
+      updatedAt: new Date(),
+    },
+  })
+
+  return { document: updated, version }
+}
+
+// Find the document (and specific version) a storage key belongs to.
+// documentFilter scopes the lookup to documents the caller may see.
+export async function findDocumentByKey(
+  documentFilter: Prisma.documentsWhereInput,
+  key: string
+) {
+  const version = await prisma.document_versions.findFirst({
+    where: { file_path: key, documents: documentFilter },
+    include: { documents: true },
+  })
+
+  if (version) {
+    return { document: version.documents, version }
+  }
+
+  // Documents uploaded before versioning may not have a version row yet
+  const document = await prisma.documents.findFirst({
+    where: { file_path: key, ...documentFilter },
+  })
+
+  return document ? { document, version: null } : null
+}
+
+// Format a version row for API responses
+export function formatDocumentVersion(
+  version: {
+    id: string
+    version_number: number
+    file_path: string
+    file_name: string
+    file_size: bigint
+    mime_type: string
+    uploaded_by: string
+    createdAt: Date
+  },
+  currentVersion: number,
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const uploader = users?.get(version.uploaded_by)
+
+  return {
+    id: version.id,
+    version: version.version_number,
+    key: version.file_path,
+    fileName: version.file_name,
+    fileSize: Number(version.file_size),
+    mimeType: version.mime_type,
+    uploadedBy: version.uploaded_by,
+    uploadedByName: uploader ? uploader.name || uploader.email : null,
+    uploadedAt: version.createdAt.toISOString(),
+    isCurrent: version.version_number === currentVersion,
+  }
+}
@@ -589,6 +589,43 @@ This link will expire in 1 hour for security reasons.
 
 If you didn't request this password reset, please ignore this email.
 
+This email was sent from {{firmName}} Law Management Platform.`,
+    },
+
+    invitation: {
+      subject: "You've been invited to join {{firmName}}",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #1f2937;">Join {{firmName}}</h1>
+          <p>Hello {{inviteeName}},</p>
+          <p>{{inviterName}} has invited you to join {{firmName}} on the Law Management Platform as <strong>{{roleName}}</strong>.</p>
+          <p>
+            <a href="{{acceptUrl}}" style="background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+              Accept Invitation
+            </a>
+          </p>
+          <p style="color: #6b7280; font-size: 14px;">
+            This invitation expires in {{expiresInDays}} days and can only be used once.
+          </p>
+          <p>If you weren't expecting this invitation, you can ignore this email.</p>
+          <hr style="margin: 24px 0; border: none; border-top: 1px solid #e5e7eb;">
+          <p style="color: #6b7280; font-size: 14px;">
+            This email was sent from {{firmName}} Law Management Platform.
+          </p>
+        </div>
+      `,
+      text: `Join {{firmName}}
+
+Hello {{inviteeName}},
+
+{{inviterName}} has invited you to join {{firmName}} on the Law Management Platform as {{roleName}}.
+
+Accept the invitation: {{acceptUrl}}
+
+This invitation expires in {{expiresInDays}} days and can only be used once.
+
+If you weren't expecting this invitation, you can ignore this email.
+
 This email was sent from {{firmName}} Law Management Platform.`,
     },
 
@@ -672,6 +709,15 @@ export interface PasswordResetVariables extends TemplateVariables {
   firmName: string
 }
 
+export interface InvitationEmailVariables extends TemplateVariables {
+  inviteeName: string
+  inviterName: string
+  firmName: string
+  roleName: string
+  acceptUrl: string
+  expiresInDays: number
+}
+
 export interface TaskAssignmentVariables extends TemplateVariables {
   assigneeName: string
   taskTitle: string
@@ -712,6 +758,13 @@ export async function sendPasswordReset(
   return emailService.sendTemplate('password_reset', to, variables)
 }
 
+export async function sendInvitation(
+  to: EmailAddress,
+  variables: InvitationEmailVariables
+): Promise<EmailResult> {
+  return emailService.sendTemplate('invitation', to, variables)
+}
+
 export async function sendTaskAssignment(
   to: EmailAddress,
   variables: TaskAssignmentVariables
@@ -5,6 +5,12 @@ const envSchema = z.object({
     .enum(['development', 'production', 'test'])
     .default('development'),
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
+  // Role tenant-scoped transactions switch to so RLS policies apply
+  // (created by prisma/migrations/enable_rls.sql)
+  DATABASE_TENANT_ROLE: z
+    .string()
+    .regex(/^[a-z_][a-z0-9_]*$/, 'Must be a plain Postgres role name')
+    .default('app_tenant'),
   JWT_SECRET: z.string().min(1, 'JWT_SECRET is required'),
   NEXTAUTH_SECRET: z.string().min(1, 'NEXTAUTH_SECRET is required'),
   NEXTAUTH_URL: z.string().url().default('http://localhost:3000'),
@@ -24,6 +30,9 @@ const envSchema = z.object({
   R2_SECRET_ACCESS_KEY: z.string().optional(),
   R2_BUCKET_NAME: z.string().optional(),
   R2_ENDPOINT: z.string().optional(),
+
+  // Scheduled jobs (sent as a Bearer token by the cron runner)
+  CRON_SECRET: z.string().optional(),
 })
 
 function validateEnv() {
@@ -0,0 +1,116 @@
+// Firm Member Helpers
+// Purpose: List firm members with their roles and guard status and role changes
+
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { ROLE_HIERARCHY, ROLES, Role, UserContext } from './rbac'
+import { resolveRoleKey } from './roles'
+
+// Relations loaded for the users API
+export const firmUserInclude = {
+  platform_users: { select: { email: true, name: true } },
+  user_roles: {
+    select: {
+      assignedAt: true,
+      assigned_by: true,
+      roles: { select: { id: true, name: true, base_role: true } },
+    },
+    orderBy: { assignedAt: 'asc' },
+  },
+} satisfies Prisma.usersInclude
+
+type FirmUserRecord = Prisma.usersGetPayload<{
+  include: typeof firmUserInclude
+}>
+
+// Pending and revoked invitations leave inactive rows that never joined;
+// those are listed with the invitations instead
+export const joinedMemberFilter = {
+  OR: [{ joinedAt: { not: null } }, { isActive: true }],
+} satisfies Prisma.usersWhereInput
+
+// Highest built-in rank among a member's roles
+export function getHighestRole(
+  roles: { name: string; base_role: string | null }[]
+): Role | null {
+  return roles
+    .map(resolveRoleKey)
+    .filter((role): role is Role => role !== null)
+    .reduce<Role | null>(
+      (highest, role) =>
+        !highest || ROLE_HIERARCHY[role] > ROLE_HIERARCHY[highest]
+          ? role
+          : highest,
+      null
+    )
+}
+
+// Nobody may change the status or roles of a member ranked above them
+export function canManageUser(
+  userContext: UserContext,
+  user: Pick<FirmUserRecord, 'user_roles'>
+): boolean {
+  const role = getHighestRole(user.user_roles.map(userRole => userRole.roles))
+  return !role || ROLE_HIERARCHY[role] <= ROLE_HIERARCHY[userContext.role]
+}
+
+export function formatFirmUser(user: FirmUserRecord) {
+  return {
+    id: user.id,
+    email: user.platform_users.email,
+    name: user.platform_users.name,
+    isActive: user.isActive,
+    role: getHighestRole(user.user_roles.map(userRole => userRole.roles)),
+    roles: user.user_roles.map(userRole => ({
+      id: userRole.roles.id,
+      name: userRole.roles.name,
+      baseRole: resolveRoleKey(userRole.roles),
+      assignedAt: userRole.assignedAt.toISOString(),
+      assignedBy: userRole.assigned_by,
+    })),
+    invitedAt: user.invitedAt.toISOString(),
+    joinedAt: user.joinedAt?.toISOString() ?? null,
+  }
+}
+
+// Owner changes are serialized per firm with a transaction-scoped advisory
+// lock, so two owners demoting each other at once cannot both succeed
+export async function lockFirmOwners(
+  tx: Prisma.TransactionClient,
+  lawFirmId: string
+) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`firm_owners:${lawFirmId}`}))`
+}
+
+// Number of active members holding the owner role. `without` leaves a member
+// out entirely, or only one of their role assignments when roleId is given,
+// to check a change before making it.
+export async function countActiveOwners(
+  lawFirmId: string,
+  without?: { userId: string; roleId?: string },
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const assignments = await client.user_roles.findMany({
+    where: { law_firm_id: lawFirmId, users: { isActive: true } },
+    select: {
+      user_id: true,
+      role_id: true,
+      roles: { select: { name: true, base_role: true } },
+    },
+  })
+
+  const owners = new Set(
+    assignments
+      .filter(
+        assignment =>
+          !(
+            assignment.user_id === without?.userId &&
+            (!without.roleId || assignment.role_id === without.roleId)
+          )
+      )
+      .filter(assignment => resolveRoleKey(assignment.roles) === ROLES.OWNER)
+      .map(assignment => assignment.user_id)
+  )
+
+  return owners.size
+}
@@ -0,0 +1,219 @@
+// Firm Invitation Helpers
+// Purpose: One-time, expiring links inviting a colleague to join a law firm
+
+import { createHash, randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { env } from './env'
+import { sendInvitation } from './email'
+import { UserContext } from './rbac'
+
+// Matches the expiry promised in the invitation email
+export const INVITATION_TTL_DAYS = 7
+// Minimum gap between two emails for the same invitation
+export const INVITATION_RESEND_COOLDOWN_SECONDS = 60
+
+export type InvitationStatus = 'PENDING' | 'EXPIRED' | 'ACCEPTED' | 'REVOKED'
+
+// Only the SHA-256 of a token is stored, so a database leak cannot be used to
+// accept invitations
+export function generateInvitationToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function getInvitationUrl(token: string): string {
+  return `${env.NEXTAUTH_URL}/auth/accept-invite?token=${encodeURIComponent(token)}`
+}
+
+export function getInvitationExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+}
+
+export function getInvitationStatus(
+  invitation: {
+    accepted_at: Date | null
+    revoked_at: Date | null
+    expires_at: Date
+  },
+  now = new Date()
+): InvitationStatus {
+  if (invitation.accepted_at) return 'ACCEPTED'
+  if (invitation.revoked_at) return 'REVOKED'
+  if (invitation.expires_at <= now) return 'EXPIRED'
+  return 'PENDING'
+}
+
+// Relations loaded when listing invitations
+export const invitationInclude = {
+  users: {
+    select: {
+      platform_users: { select: { email: true, name: true } },
+      user_roles: { select: { roles: { select: { id: true, name: true } } } },
+    },
+  },
+} satisfies Prisma.user_invitationsInclude
+
+type InvitationRecord = Prisma.user_invitationsGetPayload<{
+  include: typeof invitationInclude
+}>
+
+export function formatInvitation(invitation: InvitationRecord) {
+  return {
+    id: invitation.id,
+    userId: invitation.user_id,
+    email: invitation.users.platform_users.email,
+    name: invitation.users.platform_users.name,
+    roles: invitation.users.user_roles.map(userRole => userRole.roles),
+    status: getInvitationStatus(invitation),
+    invitedBy: invitation.invited_by,
+    expiresAt: invitation.expires_at.toISOString(),
+    lastSentAt: invitation.last_sent_at.toISOString(),
+    acceptedAt: invitation.accepted_at?.toISOString() ?? null,
+    revokedAt: invitation.revoked_at?.toISOString() ?? null,
+    createdAt: invitation.createdAt.toISOString(),
+  }
+}
+
+// Firm and sender names shown in the invitation email
+export async function getInvitationSender(userContext: UserContext) {
+  const inviter = await prisma.users.findFirst({
+    where: { id: userContext.id, law_firm_id: userContext.lawFirmId },
+    select: {
+      platform_users: { select: { name: true, email: true } },
+      law_firms: { select: { name: true } },
+    },
+  })
+
+  return {
+    firmName: inviter?.law_firms.name || 'your law firm',
+    inviterName:
+      inviter?.platform_users.name ||
+      inviter?.platform_users.email ||
+      'A colleague',
+  }
+}
+
+// Email the accept link. A failed send is logged and reported back so the
+// owner can resend, but never undoes the invitation.
+export async function sendInvitationEmail(
+  invitation: InvitationRecord,
+  token: string,
+  details: { firmName: string; inviterName: string }
+): Promise<boolean> {
+  const { email, name } = invitation.users.platform_users
+
+  try {
+    const result = await sendInvitation(
+      { email, name: name || undefined },
+      {
+        inviteeName: name || email,
+        inviterName: details.inviterName,
+        firmName: details.firmName,
+        roleName: invitation.users.user_roles
+          .map(userRole => userRole.roles.name)
+          .join(', '),
+        acceptUrl: getInvitationUrl(token),
+        expiresInDays: INVITATION_TTL_DAYS,
+      }
+    )
+
+    if (!result.success) {
+      console.error('Failed to send invitation email:', result.error)
+    }
+    return result.success
+  } catch (error) {
+    console.error('Error sending invitation email:', error)
+    return false
+  }
+}
+
+// Find an invitation while it can still be accepted
+export async function findUsableInvitation(token: string) {
+  const invitation = await prisma.user_invitations.findUnique({
+    where: { token_hash: hashInvitationToken(token) },
+    include: {
+      law_firms: { select: { name: true, isActive: true } },
+      users: {
+        select: {
+          platform_users: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              password: true,
+              isActive: true,
+              users: { select: { joinedAt: true } },
+            },
+          },
+          user_roles: { select: { roles: { select: { name: true } } } },
+        },
+      },
+    },
+  })
+
+  if (
+    !invitation ||
+    getInvitationStatus(invitation) !== 'PENDING' ||
+    !invitation.law_firms.isActive ||
+    !invitation.users.platform_users.isActive
+  ) {
+    return null
+  }
+
+  return invitation
+}
+
+// Accounts created by an invitation have never joined a firm and still need
+// a password; people already working at another firm keep theirs
+export function needsNewPassword(
+  invitation: NonNullable<Awaited<ReturnType<typeof findUsableInvitation>>>
+): boolean {
+  return !invitation.users.platform_users.users.some(
+    membership => membership.joinedAt !== null
+  )
+}
+
+// Activate the membership and use up the invitation in one transaction. The
+// conditional claim keeps an invitation from being accepted twice, or after
+// it was revoked. Returns false when it was no longer usable.
+export async function acceptInvitation(
+  invitation: { id: string; user_id: string; platform_user_id: string },
+  account: { passwordHash?: string; name?: string } = {}
+): Promise<boolean> {
+  const now = new Date()
+
+  return prisma.$transaction(async tx => {
+    const claimed = await tx.user_invitations.updateMany({
+      where: {
+        id: invitation.id,
+        accepted_at: null,
+        revoked_at: null,
+        expires_at: { gt: now },
+      },
+      data: { accepted_at: now, updatedAt: now },
+    })
+    if (claimed.count !== 1) return false
+
+    await tx.users.update({
+      where: { id: invitation.user_id },
+      data: { isActive: true, joinedAt: now, updatedAt: now },
+    })
+
+    if (account.passwordHash || account.name) {
+      await tx.platform_users.update({
+        where: { id: invitation.platform_user_id },
+        data: {
+          ...(account.passwordHash && { password: account.passwordHash }),
+          ...(account.name && { name: account.name }),
+          updatedAt: now,
+        },
+      })
+    }
+
+    return true
+  })
+}
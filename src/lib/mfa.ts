@@ -0,0 +1,438 @@
+// Two-Factor Authentication
+// Purpose: TOTP (RFC 6238) second factor and recovery codes for platform users
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { env } from './env'
+import { verifyPassword } from './auth'
+import { SessionClient } from './sessions'
+import { appendPlatformAuditLog } from './audit-chain'
+
+export const MFA_ISSUER = 'Law Firm Platform'
+export const RECOVERY_CODE_COUNT = 10
+
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+// Accept the previous and next code as well, for clock drift
+const TOTP_WINDOW = 1
+
+// Wrong codes allowed in a row before code checks are locked for a while
+export const MFA_MAX_FAILED_ATTEMPTS = 5
+export const MFA_LOCKOUT_MINUTES = 15
+
+// Errors authorize() raises for the login form's second step
+export const MFA_ERRORS = {
+  REQUIRED: 'MfaRequired',
+  SETUP_REQUIRED: 'MfaSetupRequired',
+  INVALID_CODE: 'InvalidMfaCode',
+  LOCKED: 'MfaLocked',
+} as const
+
+export type MfaError = (typeof MFA_ERRORS)[keyof typeof MFA_ERRORS]
+
+// Security section of law_firms.settings
+export interface FirmSecuritySettings {
+  requireMfa: boolean
+}
+
+export function getFirmSecuritySettings(
+  settings: Prisma.JsonValue | null
+): FirmSecuritySettings {
+  const security = (settings as { security?: Partial<FirmSecuritySettings> })
+    ?.security
+  return { requireMfa: security?.requireMfa === true }
+}
+
+// Super admins (platform users with no firm memberships) always need MFA;
+// firm members need it when any firm they are active in requires it
+export function isMfaRequired(platformUser: {
+  users: {
+    isActive: boolean
+    law_firms: { isActive: boolean; settings: Prisma.JsonValue | null }
+  }[]
+}): boolean {
+  if (platformUser.users.length === 0) return true
+
+  return platformUser.users.some(
+    user =>
+      user.isActive &&
+      user.law_firms.isActive &&
+      getFirmSecuritySettings(user.law_firms.settings).requireMfa
+  )
+}
+
+// ---------------------------------------------------------------------------
+// TOTP
+// ---------------------------------------------------------------------------
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 secret')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+export function generateMfaSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+function getTotpStep(time = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS)
+}
+
+export function generateTotp(secret: string, step = getTotpStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+// Returns the matching time step, or null. Steps at or before lastUsedStep
+// are refused so a code cannot be replayed.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null,
+  time = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+
+  const current = getTotpStep(time)
+  for (
+    let step = current - TOTP_WINDOW;
+    step <= current + TOTP_WINDOW;
+    step++
+  ) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue
+    const expected = generateTotp(secret, step)
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step
+    }
+  }
+  return null
+}
+
+export function getOtpAuthUrl(secret: string, email: string): string {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params}`
+}
+
+// ---------------------------------------------------------------------------
+// Secret storage
+// ---------------------------------------------------------------------------
+
+// Secrets are encrypted with a key derived from NEXTAUTH_SECRET, so a
+// database leak alone does not reveal them. Rotating NEXTAUTH_SECRET means
+// users have to enroll again.
+function getSecretKey(): Buffer {
+  return createHash('sha256').update(`mfa:${env.NEXTAUTH_SECRET}`).digest()
+}
+
+export function encryptMfaSecret(secret: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getSecretKey(), iv)
+  const encrypted = Buffer.concat([
+    cipher.update(secret, 'utf8'),
+    cipher.final(),
+  ])
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map(part => part.toString('base64url'))
+    .join('.')
+}
+
+export function decryptMfaSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored
+    .split('.')
+    .map(part => Buffer.from(part, 'base64url'))
+  const decipher = createDecipheriv('aes-256-gcm', getSecretKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8'
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Recovery codes
+// ---------------------------------------------------------------------------
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex')
+}
+
+// Replace the user's recovery codes with a fresh set and return them. They
+// are only ever shown once.
+export async function regenerateRecoveryCodes(
+  platformUserId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+
+  await client.mfa_recovery_codes.deleteMany({
+    where: { platform_user_id: platformUserId },
+  })
+  await client.mfa_recovery_codes.createMany({
+    data: codes.map(code => ({
+      id: randomUUID(),
+      platform_user_id: platformUserId,
+      code_hash: hashRecoveryCode(code),
+    })),
+  })
+
+  return codes
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+interface MfaUser {
+  id: string
+  mfa_secret: string | null
+  mfa_enabled_at: Date | null
+  mfa_last_used_step: number | null
+  mfa_locked_until: Date | null
+}
+
+export function isMfaLocked(user: MfaUser, now = new Date()): boolean {
+  return !!user.mfa_locked_until && user.mfa_locked_until > now
+}
+
+// Count a wrong code and lock code checks once the limit is reached. Each
+// failure is written to the platform audit trail. Returns whether the
+// account is now locked.
+async function recordFailedMfaAttempt(
+  user: MfaUser,
+  client: SessionClient
+): Promise<boolean> {
+  const now = new Date()
+  const { mfa_failed_attempts: failedAttempts } =
+    await prisma.platform_users.update({
+      where: { id: user.id },
+      data: { mfa_failed_attempts: { increment: 1 }, updatedAt: now },
+      select: { mfa_failed_attempts: true },
+    })
+
+  const lockedUntil =
+    failedAttempts >= MFA_MAX_FAILED_ATTEMPTS
+      ? new Date(now.getTime() + MFA_LOCKOUT_MINUTES * 60 * 1000)
+      : null
+  if (lockedUntil) {
+    await prisma.platform_users.update({
+      where: { id: user.id },
+      data: {
+        mfa_failed_attempts: 0,
+        mfa_locked_until: lockedUntil,
+        updatedAt: now,
+      },
+    })
+  }
+
+  try {
+    await appendPlatformAuditLog({
+      platform_user_id: user.id,
+      law_firm_id: null,
+      action: 'MFA_FAILED',
+      entity_type: 'platform_user',
+      entity_id: user.id,
+      old_values: null,
+      new_values: {
+        failedAttempts,
+        lockedUntil: lockedUntil?.toISOString() ?? null,
+      },
+      ip_address: client.ipAddress ?? null,
+      user_agent: client.userAgent ?? null,
+    })
+  } catch (error) {
+    console.error('Error recording audit log:', error)
+  }
+
+  return lockedUntil !== null
+}
+
+// Sign-in code check outcome
+type MfaAttempt = 'VALID' | 'INVALID' | 'LOCKED'
+
+// Only claim codes while the account is unlocked, so guesses racing a new
+// lock cannot get through
+function unlockedFilter(now: Date): Prisma.platform_usersWhereInput {
+  return {
+    OR: [{ mfa_locked_until: null }, { mfa_locked_until: { lte: now } }],
+  }
+}
+
+// Consume a current TOTP code or an unused recovery code. Both are claimed
+// with conditional updates so concurrent attempts cannot reuse the same code.
+async function consumeMfaCode(user: MfaUser, code: string): Promise<boolean> {
+  if (!user.mfa_secret) return false
+
+  const now = new Date()
+  const step = verifyTotp(
+    decryptMfaSecret(user.mfa_secret),
+    code,
+    user.mfa_last_used_step
+  )
+
+  if (step !== null) {
+    const claimed = await prisma.platform_users.updateMany({
+      where: {
+        id: user.id,
+        AND: [
+          unlockedFilter(now),
+          {
+            OR: [
+              { mfa_last_used_step: null },
+              { mfa_last_used_step: { lt: step } },
+            ],
+          },
+        ],
+      },
+      data: { mfa_last_used_step: step },
+    })
+    return claimed.count === 1
+  }
+
+  const used = await prisma.mfa_recovery_codes.updateMany({
+    where: {
+      platform_user_id: user.id,
+      code_hash: hashRecoveryCode(code),
+      used_at: null,
+      platform_users: unlockedFilter(now),
+    },
+    data: { used_at: now },
+  })
+  return used.count === 1
+}
+
+async function attemptMfaCode(
+  user: MfaUser,
+  code: string,
+  client: SessionClient
+): Promise<MfaAttempt> {
+  if (!user.mfa_secret || !user.mfa_enabled_at) return 'INVALID'
+  if (isMfaLocked(user)) return 'LOCKED'
+
+  if (await consumeMfaCode(user, code)) {
+    await prisma.platform_users.updateMany({
+      where: { id: user.id, mfa_failed_attempts: { gt: 0 } },
+      data: { mfa_failed_attempts: 0 },
+    })
+    return 'VALID'
+  }
+
+  return (await recordFailedMfaAttempt(user, client)) ? 'LOCKED' : 'INVALID'
+}
+
+// Check a code for an MFA-protected action. Always false while the account
+// is locked; wrong codes count towards the lock and a right one clears the
+// count.
+export async function verifyMfaCode(
+  user: MfaUser,
+  code: string,
+  client: SessionClient = {}
+): Promise<boolean> {
+  return (await attemptMfaCode(user, code, client)) === 'VALID'
+}
+
+// Decide the second step of a sign-in once the password has checked out.
+// Returns null when the sign-in may proceed.
+export async function checkSecondFactor(
+  user: MfaUser & Parameters<typeof isMfaRequired>[0],
+  code: string | undefined,
+  client: SessionClient = {}
+): Promise<MfaError | null> {
+  if (!user.mfa_enabled_at) {
+    return isMfaRequired(user) ? MFA_ERRORS.SETUP_REQUIRED : null
+  }
+
+  if (!code) return MFA_ERRORS.REQUIRED
+
+  const attempt = await attemptMfaCode(user, code, client)
+  if (attempt === 'LOCKED') return MFA_ERRORS.LOCKED
+  return attempt === 'VALID' ? null : MFA_ERRORS.INVALID_CODE
+}
+
+// Re-check a user's email and password before changing their MFA settings.
+// Used during sign-in enrollment, before a session exists.
+export async function findPlatformUserByCredentials(
+  email: unknown,
+  password: unknown
+) {
+  if (typeof email !== 'string' || typeof password !== 'string') return null
+
+  const platformUser = await prisma.platform_users.findUnique({
+    where: { email: email.trim() },
+    include: {
+      users: {
+        select: {
+          isActive: true,
+          law_firms: { select: { isActive: true, settings: true } },
+        },
+      },
+    },
+  })
+
+  if (
+    !platformUser?.isActive ||
+    !(await verifyPassword(password, platformUser.password))
+  ) {
+    return null
+  }
+
+  return platformUser
+}
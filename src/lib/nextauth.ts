@@ -1,19 +1,32 @@
 import { NextAuthOptions } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
+import { Prisma } from '@prisma/client'
 import { prisma } from './prisma'
 import { verifyPassword } from './auth'
 import { env } from './env'
+import {
+  SESSION_MAX_AGE_SECONDS,
+  createUserSession,
+  getSessionClient,
+  isSessionRevoked,
+  revokeSession,
+  setSessionLawFirm,
+} from './sessions'
+import { MFA_ERRORS, checkSecondFactor } from './mfa'
+import { getFirmSessionUser } from './user-context'
 
 // Define proper types for the database entities
 interface UserRole {
   roles: {
     name: string
+    base_role: string | null
   }
 }
 
 interface LawFirm {
   name: string
   isActive: boolean
+  settings: Prisma.JsonValue | null
 }
 
 interface User {
@@ -30,6 +43,10 @@ interface PlatformUser {
   name: string | null
   password: string
   isActive: boolean
+  mfa_secret: string | null
+  mfa_enabled_at: Date | null
+  mfa_last_used_step: number | null
+  mfa_locked_until: Date | null
   users: User[]
 }
 
@@ -41,6 +58,7 @@ interface CustomUser {
   lawFirmId: string
   lawFirmName: string
   role: string
+  sessionId: string
 }
 
 export const authOptions: NextAuthOptions = {
@@ -50,8 +68,9 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        code: { label: 'Authentication code', type: 'text' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
@@ -97,6 +116,17 @@ export const authOptions: NextAuthOptions = {
             return null
           }
 
+          // Second factor. The error names tell LoginForm which step to show.
+          const mfaError = await checkSecondFactor(
+            platformUser,
+            credentials.code || undefined,
+            getSessionClient(req?.headers)
+          )
+          if (mfaError) {
+            console.log('🔐 NextAuth: Second factor needed:', mfaError)
+            throw new Error(mfaError)
+          }
+
           // Check if this is a super admin (platform user without law firm users)
           if (platformUser.users.length === 0) {
             const superAdminUser: CustomUser = {
@@ -107,6 +137,10 @@ export const authOptions: NextAuthOptions = {
               lawFirmId: '',
               lawFirmName: 'Platform Administration',
               role: 'super_admin',
+              sessionId: await createUserSession({
+                platformUserId: platformUser.id,
+                ...getSessionClient(req?.headers),
+              }),
             }
 
             console.log(
@@ -150,17 +184,33 @@ export const authOptions: NextAuthOptions = {
             roles: primaryUser.user_roles.map((ur: UserRole) => ur.roles.name),
           })
 
-          // Get primary role
-          const primaryRole = primaryUser.user_roles[0]?.roles.name || 'user'
+          // Same membership lookup the firm switcher uses, so the session
+          // carries the member's highest role in either case
+          const membership = await getFirmSessionUser(
+            platformUser.id,
+            primaryUser.law_firm_id
+          )
+
+          if (!membership) {
+            console.log('❌ NextAuth: Primary membership unavailable')
+            return null
+          }
+
+          const primaryRole = membership.role
 
           const userObject: CustomUser = {
-            id: primaryUser.id,
+            id: membership.id,
             email: platformUser.email,
             name: platformUser.name || undefined,
             platformUserId: platformUser.id,
-            lawFirmId: primaryUser.law_firm_id,
-            lawFirmName: primaryUser.law_firms.name,
+            lawFirmId: membership.lawFirmId,
+            lawFirmName: membership.lawFirmName,
             role: primaryRole,
+            sessionId: await createUserSession({
+              platformUserId: platformUser.id,
+              lawFirmId: membership.lawFirmId,
+              ...getSessionClient(req?.headers),
+            }),
           }
 
           console.log(
@@ -178,6 +228,12 @@ export const authOptions: NextAuthOptions = {
             return null
           }
         } catch (error) {
+          if (
+            error instanceof Error &&
+            (Object.values(MFA_ERRORS) as string[]).includes(error.message)
+          ) {
+            throw error
+          }
           console.error('💥 NextAuth error:', error)
           if (error instanceof Error) {
             console.error('💥 Error details:', {
@@ -194,9 +250,10 @@ export const authOptions: NextAuthOptions = {
   ],
   session: {
     strategy: 'jwt',
+    maxAge: SESSION_MAX_AGE_SECONDS,
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         console.log('🔄 JWT callback - received user:', {
           id: user.id,
@@ -213,6 +270,7 @@ export const authOptions: NextAuthOptions = {
         token.lawFirmName = (user as CustomUser).lawFirmName
         token.role = (user as CustomUser).role
         token.tokenVersion = tokenVersion
+        token.sessionId = (user as CustomUser).sessionId
 
         console.log(
           '🔄 JWT callback - token updated with role:',
@@ -220,9 +278,47 @@ export const authOptions: NextAuthOptions = {
         )
       }
 
-      // Validate token version for old tokens
-      if (token.email && !token.tokenVersion) {
-        console.log('⚠️ Old token detected without version, forcing reauth')
+      // Firm switcher: useSession().update({ lawFirmId }) re-issues the token
+      // for the account's membership in that firm. Requests for a firm the
+      // account does not belong to leave the token as it was.
+      if (
+        trigger === 'update' &&
+        typeof session?.lawFirmId === 'string' &&
+        token.platformUserId &&
+        token.role !== 'super_admin'
+      ) {
+        const membership = await getFirmSessionUser(
+          token.platformUserId as string,
+          session.lawFirmId
+        )
+
+        if (membership) {
+          console.log('🔄 JWT callback - switching firm:', {
+            from: token.lawFirmId,
+            to: membership.lawFirmId,
+          })
+          token.sub = membership.id
+          token.lawFirmId = membership.lawFirmId
+          token.lawFirmName = membership.lawFirmName
+          token.role = membership.role
+          if (token.sessionId) {
+            await setSessionLawFirm(token.sessionId, membership.lawFirmId)
+          }
+        }
+      }
+
+      // Validate token version for old tokens, and drop sessions that are
+      // missing from the session registry or were revoked there
+      if (
+        (token.email && !token.tokenVersion) ||
+        (!user &&
+          (await isSessionRevoked(
+            token.platformUserId as string | undefined,
+            token.tokenVersion as number | undefined,
+            token.sessionId as string | undefined
+          )))
+      ) {
+        console.log('⚠️ Old or revoked token detected, forcing reauth')
         // Instead of returning null, clear the token properties to force reauth
         return {
           ...token,
@@ -231,6 +327,7 @@ export const authOptions: NextAuthOptions = {
           lawFirmName: '',
           role: '',
           tokenVersion: undefined,
+          sessionId: undefined,
         }
       }
 
@@ -253,6 +350,14 @@ export const authOptions: NextAuthOptions = {
       return newSession
     },
   },
+  events: {
+    // Signing out ends the session in the registry too
+    async signOut({ token }) {
+      if (token?.platformUserId && token.sessionId) {
+        await revokeSession(token.platformUserId, token.sessionId)
+      }
+    },
+  },
   secret: env.NEXTAUTH_SECRET,
   pages: {
     signIn: '/auth/login',
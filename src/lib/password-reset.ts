@@ -0,0 +1,123 @@
+// Password Reset Helpers
+// Purpose: Single-use, expiring password reset tokens for platform users
+
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { prisma } from './prisma'
+import { env } from './env'
+import { hashPassword } from './auth'
+import { revokeUserSessions } from './sessions'
+
+// Matches the expiry promised in the password_reset email template
+export const PASSWORD_RESET_TTL_MINUTES = 60
+export const MIN_PASSWORD_LENGTH = 8
+
+export function generateResetToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+// Only the SHA-256 of a token is stored, so a database leak cannot be used to
+// reset passwords
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function getPasswordResetUrl(token: string): string {
+  return `${env.NEXTAUTH_URL}/auth/reset-password?token=${encodeURIComponent(token)}`
+}
+
+// Returns an error message when the password is too weak, otherwise null
+export function validateNewPassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain at least one letter and one number'
+  }
+  return null
+}
+
+// Issue a new token. Earlier unused tokens for the user stop working, so only
+// the most recent email's link can be used.
+export async function createPasswordResetToken(
+  platformUserId: string,
+  requestedIp: string | null
+): Promise<string> {
+  const token = generateResetToken()
+  const now = new Date()
+
+  await prisma.$transaction([
+    prisma.password_reset_tokens.updateMany({
+      where: { platform_user_id: platformUserId, used_at: null },
+      data: { used_at: now },
+    }),
+    prisma.password_reset_tokens.create({
+      data: {
+        id: randomUUID(),
+        platform_user_id: platformUserId,
+        token_hash: hashResetToken(token),
+        expires_at: new Date(
+          now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+        ),
+        requested_ip: requestedIp,
+      },
+    }),
+  ])
+
+  return token
+}
+
+// Find the user a token belongs to while it is still usable
+export async function findUsablePasswordResetToken(token: string) {
+  const record = await prisma.password_reset_tokens.findUnique({
+    where: { token_hash: hashResetToken(token) },
+    include: {
+      platform_users: { select: { id: true, email: true, isActive: true } },
+    },
+  })
+
+  if (
+    !record ||
+    record.used_at ||
+    record.expires_at <= new Date() ||
+    !record.platform_users.isActive
+  ) {
+    return null
+  }
+
+  return record
+}
+
+// Set the new password and use up the token in one transaction. The
+// conditional claim keeps a token from being used twice concurrently.
+// Returns the platform user id, or null when the token was not usable.
+export async function resetPasswordWithToken(
+  token: string,
+  newPassword: string
+): Promise<string | null> {
+  const record = await findUsablePasswordResetToken(token)
+  if (!record) return null
+
+  const passwordHash = await hashPassword(newPassword)
+  const now = new Date()
+
+  return prisma.$transaction(async tx => {
+    const claimed = await tx.password_reset_tokens.updateMany({
+      where: { id: record.id, used_at: null, expires_at: { gt: now } },
+      data: { used_at: now },
+    })
+    if (claimed.count !== 1) return null
+
+    await tx.password_reset_tokens.updateMany({
+      where: { platform_user_id: record.platform_user_id, used_at: null },
+      data: { used_at: now },
+    })
+
+    await tx.platform_users.update({
+      where: { id: record.platform_user_id },
+      data: { password: passwordHash, updatedAt: now },
+    })
+    await revokeUserSessions(record.platform_user_id, tx)
+
+    return record.platform_user_id
+  })
+}
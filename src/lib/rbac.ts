@@ -14,6 +14,16 @@ export const ROLES = {
 
 export type Role = (typeof ROLES)[keyof typeof ROLES]
 
+// Map a role name as stored in the roles table (e.g. "Senior Lawyer") to its key
+export function toRole(roleName: string): Role {
+  return roleName.toLowerCase().replace(/\s+/g, '_') as Role
+}
+
+// Check whether a name is one of the built-in roles
+export function isRole(roleName: string): roleName is Role {
+  return (Object.values(ROLES) as string[]).includes(roleName)
+}
+
 // Role hierarchy levels (for permission checking)
 export const ROLE_HIERARCHY: Record<Role, number> = {
   [ROLES.SUPER_ADMIN]: 1000, // Platform level
@@ -29,6 +39,8 @@ export const ROLE_HIERARCHY: Record<Role, number> = {
 export const PERMISSION_CATEGORIES = {
   PLATFORM: 'platform',
   USERS: 'users',
+  CLIENTS: 'clients',
+  PORTAL: 'portal',
   CASES: 'cases',
   DOCUMENTS: 'documents',
   CALENDAR: 'calendar',
@@ -55,6 +67,19 @@ export const PERMISSIONS = {
     MANAGE_ROLES: 'users.manage_roles',
   },
 
+  // Client directory permissions
+  CLIENTS: {
+    VIEW: 'clients.view',
+    CREATE: 'clients.create',
+    EDIT: 'clients.edit',
+    DELETE: 'clients.delete',
+  },
+
+  // Client portal permissions (a client's own matters only)
+  PORTAL: {
+    ACCESS: 'portal.access',
+  },
+
   // Case management permissions
   CASES: {
     VIEW: 'cases.view',
@@ -72,6 +97,7 @@ export const PERMISSIONS = {
     EDIT: 'documents.edit',
     DELETE: 'documents.delete',
     MANAGE_PERMISSIONS: 'documents.manage_permissions',
+    SHARE_EXTERNAL: 'documents.share_external',
   },
 
   // Calendar permissions
@@ -100,6 +126,21 @@ export const PERMISSIONS = {
   },
 } as const
 
+// Permissions a firm can put in its own roles, grouped by category.
+// Platform permissions are reserved for super admins.
+export const FIRM_PERMISSION_GROUPS = (
+  Object.keys(PERMISSIONS) as (keyof typeof PERMISSIONS)[]
+)
+  .filter(category => category !== 'PLATFORM')
+  .map(category => ({
+    category: PERMISSION_CATEGORIES[category],
+    permissions: Object.values(PERMISSIONS[category]) as string[],
+  }))
+
+export const FIRM_PERMISSIONS = FIRM_PERMISSION_GROUPS.flatMap(
+  group => group.permissions
+)
+
 // Role permission mappings
 export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   [ROLES.SUPER_ADMIN]: [
@@ -110,6 +151,7 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
     PERMISSIONS.PLATFORM.SUPPORT_ACCESS,
     // All law firm permissions
     ...Object.values(PERMISSIONS.USERS),
+    ...Object.values(PERMISSIONS.CLIENTS),
     ...Object.values(PERMISSIONS.CASES),
     ...Object.values(PERMISSIONS.DOCUMENTS),
     ...Object.values(PERMISSIONS.CALENDAR),
@@ -120,6 +162,7 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   [ROLES.OWNER]: [
     // Full firm access
     ...Object.values(PERMISSIONS.USERS),
+    ...Object.values(PERMISSIONS.CLIENTS),
     ...Object.values(PERMISSIONS.CASES),
     ...Object.values(PERMISSIONS.DOCUMENTS),
     ...Object.values(PERMISSIONS.CALENDAR),
@@ -128,6 +171,9 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   ],
 
   [ROLES.SENIOR_LAWYER]: [
+    PERMISSIONS.CLIENTS.VIEW,
+    PERMISSIONS.CLIENTS.CREATE,
+    PERMISSIONS.CLIENTS.EDIT,
     PERMISSIONS.CASES.VIEW_ALL,
     PERMISSIONS.CASES.CREATE,
     PERMISSIONS.CASES.EDIT,
@@ -136,6 +182,7 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
     PERMISSIONS.DOCUMENTS.UPLOAD,
     PERMISSIONS.DOCUMENTS.EDIT,
     PERMISSIONS.DOCUMENTS.DELETE,
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL,
     PERMISSIONS.CALENDAR.VIEW_ALL,
     PERMISSIONS.CALENDAR.CREATE,
     PERMISSIONS.CALENDAR.EDIT,
@@ -147,11 +194,13 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   ],
 
   [ROLES.JUNIOR_LAWYER]: [
+    PERMISSIONS.CLIENTS.VIEW,
     PERMISSIONS.CASES.VIEW,
     PERMISSIONS.CASES.EDIT,
     PERMISSIONS.DOCUMENTS.VIEW,
     PERMISSIONS.DOCUMENTS.UPLOAD,
     PERMISSIONS.DOCUMENTS.EDIT,
+    PERMISSIONS.DOCUMENTS.SHARE_EXTERNAL,
     PERMISSIONS.CALENDAR.VIEW,
     PERMISSIONS.CALENDAR.CREATE,
     PERMISSIONS.CALENDAR.EDIT,
@@ -161,9 +210,13 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   ],
 
   [ROLES.ASSISTANT]: [
+    PERMISSIONS.CLIENTS.VIEW,
+    PERMISSIONS.CLIENTS.CREATE,
+    PERMISSIONS.CLIENTS.EDIT,
     PERMISSIONS.CASES.VIEW,
     PERMISSIONS.DOCUMENTS.VIEW,
     PERMISSIONS.DOCUMENTS.UPLOAD,
+    PERMISSIONS.DOCUMENTS.EDIT,
     PERMISSIONS.CALENDAR.VIEW,
     PERMISSIONS.CALENDAR.CREATE,
     PERMISSIONS.CALENDAR.EDIT,
@@ -172,6 +225,8 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   ],
 
   [ROLES.SECRETARY]: [
+    PERMISSIONS.CLIENTS.VIEW,
+    PERMISSIONS.CLIENTS.CREATE,
     PERMISSIONS.CASES.VIEW,
     PERMISSIONS.DOCUMENTS.VIEW,
     PERMISSIONS.CALENDAR.VIEW,
@@ -179,11 +234,9 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
     PERMISSIONS.TASKS.VIEW,
   ],
 
-  [ROLES.CLIENT]: [
-    PERMISSIONS.CASES.VIEW,
-    PERMISSIONS.DOCUMENTS.VIEW,
-    PERMISSIONS.CALENDAR.VIEW,
-  ],
+  // Clients never get firm-wide permissions; their cases, shared documents
+  // and court dates are served through the client portal
+  [ROLES.CLIENT]: [PERMISSIONS.PORTAL.ACCESS],
 }
 
 // User context interface
@@ -193,6 +246,8 @@ export interface UserContext {
   role: Role
   permissions: string[]
   isActive: boolean
+  // Registry id of the session the request was made with
+  sessionId?: string
 }
 
 // Check if user has specific permission
@@ -315,6 +370,14 @@ export function requireAnyPermission(
 export function getAuthorizedRoutes(userContext: UserContext): string[] {
   const routes: string[] = ['/dashboard']
 
+  if (hasPermission(userContext, PERMISSIONS.CLIENTS.VIEW)) {
+    routes.push('/clients')
+  }
+
+  if (hasPermission(userContext, PERMISSIONS.PORTAL.ACCESS)) {
+    routes.push('/portal')
+  }
+
   if (hasPermission(userContext, PERMISSIONS.CASES.VIEW)) {
     routes.push('/cases')
   }
@@ -357,6 +420,16 @@ export interface NavItem {
 export function getAuthorizedNavItems(userContext: UserContext): NavItem[] {
   const allNavItems: NavItem[] = [
     { label: 'Dashboard', href: '/dashboard' },
+    {
+      label: 'Clients',
+      href: '/clients',
+      permission: PERMISSIONS.CLIENTS.VIEW,
+    },
+    {
+      label: 'My Portal',
+      href: '/portal',
+      permission: PERMISSIONS.PORTAL.ACCESS,
+    },
     { label: 'Cases', href: '/cases', permission: PERMISSIONS.CASES.VIEW },
     {
       label: 'Documents',
@@ -0,0 +1,146 @@
+// Firm Role Helpers
+// Purpose: Resolve, validate and format built-in and custom firm roles
+
+import {
+  FIRM_PERMISSIONS,
+  ROLE_HIERARCHY,
+  ROLE_PERMISSIONS,
+  ROLES,
+  Role,
+  UserContext,
+  hasPermission,
+  isRole,
+  toRole,
+} from './rbac'
+
+export const MAX_ROLE_NAME_LENGTH = 60
+export const MAX_ROLE_DESCRIPTION_LENGTH = 500
+
+// Role columns captured in the firm audit trail
+export const ROLE_AUDIT_FIELDS = [
+  'name',
+  'description',
+  'permissions',
+  'base_role',
+] as const
+
+// Built-in roles a custom role may rank as. Owner level stays built-in only.
+export const CUSTOM_ROLE_BASES: Role[] = Object.values(ROLES).filter(
+  role => ROLE_HIERARCHY[role] < ROLE_HIERARCHY[ROLES.OWNER]
+)
+
+interface StoredRole {
+  name: string
+  permissions: unknown
+  base_role: string | null
+}
+
+// Built-in role a stored role ranks as: the default roles map by name,
+// custom roles use the base role chosen when they were created
+export function resolveRoleKey(
+  role: Pick<StoredRole, 'name' | 'base_role'>
+): Role | null {
+  const key = toRole(role.name)
+  if (isRole(key)) return key
+  return role.base_role && isRole(role.base_role) ? role.base_role : null
+}
+
+function storedPermissions(permissions: unknown): string[] {
+  return Array.isArray(permissions)
+    ? permissions.filter(
+        (permission): permission is string => typeof permission === 'string'
+      )
+    : []
+}
+
+// Effective permissions of a stored role. Built-in roles keep the defaults
+// from ROLE_PERMISSIONS plus anything stored; custom roles grant exactly
+// what is stored. The Client role ignores stored permissions so an older
+// firm-wide grant can never reach a portal user.
+export function getRolePermissions(
+  role: Pick<StoredRole, 'name' | 'permissions'>
+): string[] {
+  const key = toRole(role.name)
+  const stored = storedPermissions(role.permissions)
+
+  if (key === ROLES.CLIENT) {
+    return [...ROLE_PERMISSIONS[ROLES.CLIENT]]
+  }
+
+  if (isRole(key)) {
+    return Array.from(new Set([...(ROLE_PERMISSIONS[key] || []), ...stored]))
+  }
+
+  return stored
+}
+
+// Custom roles cannot reuse a built-in name ("Owner", "senior lawyer", ...)
+export function isReservedRoleName(name: string): boolean {
+  return isRole(toRole(name.trim()))
+}
+
+// Validate a permission list from a request body.
+// Returns the de-duplicated list, or null if anything is not a firm permission.
+export function normalizePermissions(input: unknown): string[] | null {
+  if (!Array.isArray(input)) return null
+  if (
+    !input.every(
+      permission =>
+        typeof permission === 'string' && FIRM_PERMISSIONS.includes(permission)
+    )
+  ) {
+    return null
+  }
+
+  return FIRM_PERMISSIONS.filter(permission => input.includes(permission))
+}
+
+// Permissions in the list the acting user does not hold themselves
+export function getUngrantablePermissions(
+  userContext: UserContext,
+  permissions: string[]
+): string[] {
+  return permissions.filter(
+    permission => !hasPermission(userContext, permission)
+  )
+}
+
+// Whether the acting user may give someone this role: it must not rank above
+// their own role or grant permissions they do not hold themselves
+export function canAssignRole(
+  userContext: UserContext,
+  role: StoredRole
+): boolean {
+  const roleKey = resolveRoleKey(role)
+  if (roleKey && ROLE_HIERARCHY[roleKey] > ROLE_HIERARCHY[userContext.role]) {
+    return false
+  }
+
+  return (
+    getUngrantablePermissions(userContext, getRolePermissions(role)).length ===
+    0
+  )
+}
+
+export function formatRole(
+  role: StoredRole & {
+    id: string
+    description: string | null
+    isSystem: boolean
+    createdAt: Date
+    updatedAt: Date
+  },
+  userCount = 0
+) {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    isSystem: role.isSystem,
+    baseRole: resolveRoleKey(role),
+    permissions: getRolePermissions(role),
+    userCount,
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString(),
+  }
+}
@@ -0,0 +1,230 @@
+// Session Registry and Revocation
+// Purpose: Track every sign-in server-side so sessions can be listed and
+// revoked, e.g. from the Sessions page or after a password reset
+
+import { randomUUID } from 'crypto'
+import { Prisma, user_sessions } from '@prisma/client'
+import { prisma } from './prisma'
+
+// NextAuth session lifetime. Sessions slide: each use pushes expiry out again.
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+// How stale last_seen_at may get before a request refreshes it
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000
+
+// Where a sign-in came from
+export interface SessionClient {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export interface CreateSessionInput extends SessionClient {
+  platformUserId: string
+  lawFirmId?: string | null
+  // Overrides the label derived from the user agent
+  device?: string
+  // For fixed-lifetime tokens; omitted for sliding NextAuth sessions
+  expiresAt?: Date
+}
+
+// User agent patterns for device labels, most specific first
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//],
+]
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/],
+]
+
+// Short "Browser on OS" label for a user agent
+export function describeDevice(userAgent?: string | null): string {
+  if (!userAgent) return 'Unknown device'
+
+  const match = (patterns: [string, RegExp][]) =>
+    patterns.find(([, pattern]) => pattern.test(userAgent))?.[0]
+
+  return `${match(BROWSERS) ?? 'Unknown browser'} on ${match(OPERATING_SYSTEMS) ?? 'unknown OS'}`
+}
+
+// Client details from raw request headers, as NextAuth's authorize receives
+// them. Mirrors the IP resolution in APIMiddleware.
+export function getSessionClient(
+  headers: Record<string, string | string[] | undefined> | undefined
+): SessionClient {
+  const header = (name: string) => {
+    const value = headers?.[name]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  return {
+    ipAddress:
+      header('x-forwarded-for')?.split(',')[0].trim() ||
+      header('x-real-ip') ||
+      null,
+    userAgent: header('user-agent') || null,
+  }
+}
+
+// Register a new sign-in and return its session id
+export async function createUserSession(
+  input: CreateSessionInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<string> {
+  const now = new Date()
+  const session = await client.user_sessions.create({
+    data: {
+      id: randomUUID(),
+      platform_user_id: input.platformUserId,
+      law_firm_id: input.lawFirmId || null,
+      device: input.device ?? describeDevice(input.userAgent),
+      ip_address: input.ipAddress ?? null,
+      user_agent: input.userAgent ?? null,
+      expires_at: input.expiresAt ?? null,
+      last_seen_at: now,
+      updatedAt: now,
+    },
+  })
+  return session.id
+}
+
+// Sessions that are neither revoked nor expired
+export function activeSessionFilter(
+  now = new Date()
+): Prisma.user_sessionsWhereInput {
+  return {
+    revoked_at: null,
+    OR: [
+      { expires_at: { gt: now } },
+      {
+        expires_at: null,
+        last_seen_at: {
+          gt: new Date(now.getTime() - SESSION_MAX_AGE_SECONDS * 1000),
+        },
+      },
+    ],
+  }
+}
+
+export async function listActiveSessions(platformUserId: string) {
+  return prisma.user_sessions.findMany({
+    where: { platform_user_id: platformUserId, ...activeSessionFilter() },
+    orderBy: { last_seen_at: 'desc' },
+  })
+}
+
+export function formatSession(
+  session: user_sessions,
+  currentSessionId?: string
+) {
+  return {
+    id: session.id,
+    device: session.device,
+    ipAddress: session.ip_address,
+    userAgent: session.user_agent,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.last_seen_at.toISOString(),
+    expiresAt: session.expires_at?.toISOString() ?? null,
+    current: session.id === currentSessionId,
+  }
+}
+
+// Follow the firm switcher so firm-scoped revocation finds the session
+export async function setSessionLawFirm(sessionId: string, lawFirmId: string) {
+  await prisma.user_sessions.updateMany({
+    where: { id: sessionId, revoked_at: null },
+    data: { law_firm_id: lawFirmId, updatedAt: new Date() },
+  })
+}
+
+// Revoke one of the user's sessions. Returns false when it was not theirs or
+// already revoked.
+export async function revokeSession(
+  platformUserId: string,
+  sessionId: string
+): Promise<boolean> {
+  const now = new Date()
+  const result = await prisma.user_sessions.updateMany({
+    where: {
+      id: sessionId,
+      platform_user_id: platformUserId,
+      revoked_at: null,
+    },
+    data: { revoked_at: now, updatedAt: now },
+  })
+  return result.count > 0
+}
+
+// Revoke the user's sessions and return how many were active. With no
+// options every session ends, including any signed in before the registry
+// existed. lawFirmId limits it to sessions working in that firm, and
+// exceptSessionId keeps the caller's own session.
+export async function revokeUserSessions(
+  platformUserId: string,
+  client: Prisma.TransactionClient = prisma,
+  options: { lawFirmId?: string; exceptSessionId?: string } = {}
+): Promise<number> {
+  const now = new Date()
+
+  const result = await client.user_sessions.updateMany({
+    where: {
+      platform_user_id: platformUserId,
+      revoked_at: null,
+      ...(options.lawFirmId && { law_firm_id: options.lawFirmId }),
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+    },
+    data: { revoked_at: now, updatedAt: now },
+  })
+
+  if (!options.lawFirmId && !options.exceptSessionId) {
+    await client.platform_users.update({
+      where: { id: platformUserId },
+      data: { sessions_revoked_at: now, updatedAt: now },
+    })
+  }
+
+  return result.count
+}
+
+// A session is accepted only while its registry row is active and was issued
+// after the user's revocation cut-off. Tokens without a registered session
+// predate the registry and are rejected. Accepted sessions have their
+// last-seen time refreshed.
+export async function isSessionRevoked(
+  platformUserId: string | undefined,
+  issuedAt: number | undefined,
+  sessionId: string | undefined
+): Promise<boolean> {
+  if (!platformUserId || !sessionId) return true
+
+  const now = new Date()
+  const session = await prisma.user_sessions.findFirst({
+    where: {
+      id: sessionId,
+      platform_user_id: platformUserId,
+      ...activeSessionFilter(now),
+    },
+    include: { platform_users: { select: { sessions_revoked_at: true } } },
+  })
+
+  if (!session) return true
+
+  const cutOff = session.platform_users.sessions_revoked_at
+  if (cutOff && (!issuedAt || issuedAt < cutOff.getTime())) return true
+
+  if (now.getTime() - session.last_seen_at.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.user_sessions.updateMany({
+      where: { id: sessionId },
+      data: { last_seen_at: now },
+    })
+  }
+
+  return false
+}
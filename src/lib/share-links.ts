@@ -0,0 +1,255 @@
+// Share Link Helpers
+// Purpose: Tokenized, expiring public links to documents for external recipients
+
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { Prisma, ShareLinkAccessAction } from '@prisma/client'
+import { prisma } from './prisma'
+import { env } from './env'
+import { verifyPassword } from './auth'
+import type { RequestContext } from './api-middleware'
+import { isWatermarkableType } from './watermark'
+
+export const DEFAULT_SHARE_LINK_DAYS = 7
+export const MAX_SHARE_LINK_DAYS = 90
+export const MAX_SHARE_LINK_DOCUMENTS = 50
+export const MAX_SHARE_LINK_LABEL_LENGTH = 200
+export const MIN_SHARE_LINK_PASSWORD_LENGTH = 6
+
+// Presigned URLs handed to recipients are short-lived; the share link itself
+// is the long-lived credential and is re-checked on every download
+export const SHARE_DOWNLOAD_URL_TTL = 5 * 60
+
+export type ShareLinkStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED' | 'EXHAUSTED'
+
+// Only the SHA-256 of a token is stored, so a database leak cannot be
+// replayed as working links
+export function generateShareToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function getShareLinkUrl(token: string): string {
+  return `${env.NEXTAUTH_URL}/share/${encodeURIComponent(token)}`
+}
+
+export function getShareLinkStatus(
+  link: {
+    revoked_at: Date | null
+    expires_at: Date
+    max_downloads: number | null
+    download_count: number
+  },
+  now = new Date()
+): ShareLinkStatus {
+  if (link.revoked_at) return 'REVOKED'
+  if (link.expires_at <= now) return 'EXPIRED'
+  if (
+    link.max_downloads !== null &&
+    link.download_count >= link.max_downloads
+  ) {
+    return 'EXHAUSTED'
+  }
+  return 'ACTIVE'
+}
+
+const STATUS_MESSAGES: Record<Exclude<ShareLinkStatus, 'ACTIVE'>, string> = {
+  REVOKED: 'This link has been revoked',
+  EXPIRED: 'This link has expired',
+  EXHAUSTED: 'This link has reached its download limit',
+}
+
+// Relations loaded when a recipient opens a link
+export const shareLinkInclude = {
+  share_link_documents: {
+    include: {
+      documents: {
+        select: {
+          id: true,
+          name: true,
+          file_path: true,
+          file_size: true,
+          mime_type: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.share_linksInclude
+
+// Share link record shape used by the helpers and formatter
+export interface ShareLinkRecord {
+  id: string
+  law_firm_id: string
+  label: string | null
+  recipient_email: string | null
+  password_hash: string | null
+  expires_at: Date
+  max_downloads: number | null
+  download_count: number
+  watermark: boolean
+  revoked_at: Date | null
+  created_by: string
+  createdAt: Date
+  share_link_documents: {
+    documents: {
+      id: string
+      name: string
+      file_path: string
+      file_size: bigint
+      mime_type: string
+    }
+  }[]
+  _count?: { share_link_access_logs: number }
+}
+
+export async function findShareLinkByToken(
+  token: string
+): Promise<ShareLinkRecord | null> {
+  return prisma.share_links.findUnique({
+    where: { token_hash: hashShareToken(token) },
+    include: shareLinkInclude,
+  })
+}
+
+export interface ShareLinkDenial {
+  error: string
+  reason: string
+  status: number
+  passwordRequired?: boolean
+}
+
+// Check a link's status and password. Returns null when access is allowed.
+// Exhausted links can still be opened so the recipient sees why downloads
+// stopped; downloads check the count separately.
+export async function checkShareLinkAccess(
+  link: ShareLinkRecord,
+  password: unknown,
+  { allowExhausted = false } = {}
+): Promise<ShareLinkDenial | null> {
+  const status = getShareLinkStatus(link)
+  if (status !== 'ACTIVE' && !(status === 'EXHAUSTED' && allowExhausted)) {
+    return {
+      error: STATUS_MESSAGES[status],
+      reason: status.toLowerCase(),
+      status: 410,
+    }
+  }
+
+  if (link.password_hash) {
+    if (typeof password !== 'string' || !password) {
+      return {
+        error: 'This link is password protected',
+        reason: 'password_required',
+        status: 401,
+        passwordRequired: true,
+      }
+    }
+
+    if (!(await verifyPassword(password, link.password_hash))) {
+      return {
+        error: 'Incorrect password',
+        reason: 'wrong_password',
+        status: 401,
+        passwordRequired: true,
+      }
+    }
+  }
+
+  return null
+}
+
+// Count a download against the link's limit. The conditional update keeps
+// concurrent downloads from going over max_downloads.
+export async function claimShareLinkDownload(linkId: string): Promise<boolean> {
+  const now = new Date()
+  const result = await prisma.share_links.updateMany({
+    where: {
+      id: linkId,
+      revoked_at: null,
+      expires_at: { gt: now },
+      OR: [
+        { max_downloads: null },
+        { download_count: { lt: prisma.share_links.fields.max_downloads } },
+      ],
+    },
+    data: { download_count: { increment: 1 }, updatedAt: now },
+  })
+
+  return result.count === 1
+}
+
+// Every open, download and refusal is logged against the link
+export async function recordShareLinkAccess(
+  link: { id: string; law_firm_id: string },
+  context: RequestContext,
+  action: ShareLinkAccessAction,
+  details: { documentId?: string; reason?: string } = {}
+) {
+  await prisma.share_link_access_logs.create({
+    data: {
+      id: randomUUID(),
+      law_firm_id: link.law_firm_id,
+      share_link_id: link.id,
+      document_id: details.documentId ?? null,
+      action,
+      reason: details.reason ?? null,
+      ip_address: context.ip,
+      user_agent: context.userAgent,
+    },
+  })
+}
+
+// The recipient email to stamp into a document's content, or null when the
+// link has no watermark or the type cannot be marked (see lib/watermark)
+export function getWatermarkText(
+  link: Pick<ShareLinkRecord, 'watermark' | 'recipient_email'>,
+  mimeType: string
+): string | null {
+  if (!link.watermark || !link.recipient_email) return null
+  return isWatermarkableType(mimeType) ? link.recipient_email : null
+}
+
+// Format a link's documents for the public share page. watermarked says
+// whether the download will carry the recipient's email.
+export function formatSharedDocuments(link: ShareLinkRecord) {
+  return link.share_link_documents.map(({ documents: document }) => ({
+    id: document.id,
+    fileName: document.name,
+    fileSize: Number(document.file_size),
+    mimeType: document.mime_type,
+    watermarked: getWatermarkText(link, document.mime_type) !== null,
+  }))
+}
+
+// Format a share link for firm API responses
+export function formatShareLink(
+  link: ShareLinkRecord,
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const createdBy = users?.get(link.created_by)
+
+  return {
+    id: link.id,
+    label: link.label,
+    recipientEmail: link.recipient_email,
+    passwordProtected: !!link.password_hash,
+    expiresAt: link.expires_at.toISOString(),
+    maxDownloads: link.max_downloads,
+    downloadCount: link.download_count,
+    watermark: link.watermark,
+    revokedAt: link.revoked_at?.toISOString() ?? null,
+    status: getShareLinkStatus(link),
+    documents: link.share_link_documents.map(({ documents: document }) => ({
+      id: document.id,
+      fileName: document.name,
+      watermarked: getWatermarkText(link, document.mime_type) !== null,
+    })),
+    accessCount: link._count?.share_link_access_logs,
+    createdById: link.created_by,
+    createdByName: createdBy ? createdBy.name || createdBy.email : null,
+    createdAt: link.createdAt.toISOString(),
+  }
+}
@@ -211,6 +211,29 @@ export class StorageService {
     }
   }
 
+  // Read a file's bytes on the server (used for text extraction)
+  async getFileContent(key: string, lawFirmId: string): Promise<Buffer> {
+    try {
+      // Verify file exists and check tenant access
+      await this.verifyFileAccess(key, lawFirmId)
+
+      const command = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      })
+
+      const response = await this.s3Client.send(command)
+      if (!response.Body) {
+        throw new Error('Empty response body')
+      }
+
+      return Buffer.from(await response.Body.transformToByteArray())
+    } catch (error) {
+      console.error('Error reading file content:', error)
+      throw new Error('Failed to read file content')
+    }
+  }
+
   // Get file metadata
   async getFileMetadata(key: string): Promise<FileMetadata> {
     try {
@@ -0,0 +1,239 @@
+// Task Helpers
+// Purpose: Scope task queries, shape task responses and notify assignees
+
+import { Prisma, TaskPriority, TaskStatus } from '@prisma/client'
+import { prisma } from './prisma'
+import { UserContext, PERMISSIONS, hasPermission } from './rbac'
+import { getFirmUserSummaries, getLinkedCaseWallFilter } from './cases'
+import { sendTaskAssignment } from './email'
+import { env } from './env'
+
+// Valid priorities and statuses (mirror the TaskPriority/TaskStatus enums)
+export const TASK_PRIORITIES: TaskPriority[] = [
+  'LOW',
+  'MEDIUM',
+  'HIGH',
+  'URGENT',
+]
+
+export const TASK_STATUSES: TaskStatus[] = [
+  'TODO',
+  'IN_PROGRESS',
+  'BLOCKED',
+  'DONE',
+  'CANCELLED',
+]
+
+// Statuses that still need work
+export const OPEN_TASK_STATUSES: TaskStatus[] = [
+  'TODO',
+  'IN_PROGRESS',
+  'BLOCKED',
+]
+
+export function isValidTaskPriority(value: unknown): value is TaskPriority {
+  return (
+    typeof value === 'string' && TASK_PRIORITIES.includes(value as TaskPriority)
+  )
+}
+
+export function isValidTaskStatus(value: unknown): value is TaskStatus {
+  return (
+    typeof value === 'string' && TASK_STATUSES.includes(value as TaskStatus)
+  )
+}
+
+// Build the base where clause for the tasks a user may see.
+// TASKS.ASSIGN (people who delegate work) sees every task in the firm,
+// everyone else only tasks assigned to or created by them.
+export function getTaskAccessFilter(
+  userContext: UserContext
+): Prisma.tasksWhereInput {
+  const where: Prisma.tasksWhereInput = {
+    law_firm_id: userContext.lawFirmId,
+    AND: [getLinkedCaseWallFilter(userContext)],
+  }
+
+  if (!hasPermission(userContext, PERMISSIONS.TASKS.ASSIGN)) {
+    where.OR = [
+      { assigned_user_id: userContext.id },
+      { created_by: userContext.id },
+    ]
+  }
+
+  return where
+}
+
+// Check whether a user may see a single task
+export function canViewTask(
+  userContext: UserContext,
+  task: {
+    law_firm_id: string
+    assigned_user_id: string | null
+    created_by: string
+  }
+): boolean {
+  if (task.law_firm_id !== userContext.lawFirmId) return false
+  if (hasPermission(userContext, PERMISSIONS.TASKS.ASSIGN)) return true
+  return (
+    task.assigned_user_id === userContext.id ||
+    task.created_by === userContext.id
+  )
+}
+
+// Relations loaded alongside tasks for formatting
+export const taskInclude = {
+  cases: { select: { title: true } },
+  task_checklist_items: { orderBy: { position: 'asc' } },
+  _count: { select: { task_comments: true } },
+} satisfies Prisma.tasksInclude
+
+// Task record shape used by the formatter
+export interface TaskRecord {
+  id: string
+  title: string
+  description: string | null
+  priority: TaskPriority
+  status: TaskStatus
+  due_date: Date | null
+  case_id: string | null
+  assigned_user_id: string | null
+  created_by: string
+  completed_at: Date | null
+  createdAt: Date
+  updatedAt: Date
+  cases?: { title: string } | null
+  task_checklist_items?: {
+    id: string
+    title: string
+    is_done: boolean
+    position: number
+  }[]
+  _count?: { task_comments: number }
+}
+
+// Format a task row for API responses
+export function formatTask(
+  task: TaskRecord,
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const assignee = task.assigned_user_id
+    ? users?.get(task.assigned_user_id)
+    : undefined
+  const creator = users?.get(task.created_by)
+  const checklist = (task.task_checklist_items || []).map(item => ({
+    id: item.id,
+    title: item.title,
+    done: item.is_done,
+    position: item.position,
+  }))
+
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: task.status,
+    dueDate: task.due_date?.toISOString() ?? null,
+    overdue:
+      !!task.due_date &&
+      task.due_date < new Date() &&
+      OPEN_TASK_STATUSES.includes(task.status),
+    caseId: task.case_id,
+    caseTitle: task.cases?.title ?? null,
+    assignedUserId: task.assigned_user_id,
+    assignedUserName: assignee ? assignee.name || assignee.email : null,
+    createdBy: task.created_by,
+    createdByName: creator ? creator.name || creator.email : null,
+    completedAt: task.completed_at?.toISOString() ?? null,
+    checklist,
+    checklistDone: checklist.filter(item => item.done).length,
+    commentCount: task._count?.task_comments ?? 0,
+    createdAt: task.createdAt.toISOString(),
+    updatedAt: task.updatedAt.toISOString(),
+  }
+}
+
+// Format a task comment for API responses
+export function formatTaskComment(
+  comment: { id: string; author_id: string; body: string; createdAt: Date },
+  users?: Map<string, { id: string; name: string | null; email: string }>
+) {
+  const author = users?.get(comment.author_id)
+
+  return {
+    id: comment.id,
+    body: comment.body,
+    authorId: comment.author_id,
+    authorName: author ? author.name || author.email : null,
+    createdAt: comment.createdAt.toISOString(),
+  }
+}
+
+// Email the assignee about a task. Self-assignments are not announced.
+// Failures are logged, never thrown, so they cannot undo the assignment.
+export async function notifyTaskAssignment(
+  task: {
+    id: string
+    law_firm_id: string
+    title: string
+    description: string | null
+    priority: TaskPriority
+    due_date: Date | null
+    assigned_user_id: string | null
+  },
+  assignerId: string
+): Promise<boolean> {
+  if (!task.assigned_user_id || task.assigned_user_id === assignerId) {
+    return false
+  }
+
+  try {
+    const [users, firm] = await Promise.all([
+      getFirmUserSummaries(task.law_firm_id, [
+        task.assigned_user_id,
+        assignerId,
+      ]),
+      prisma.law_firms.findUnique({
+        where: { id: task.law_firm_id },
+        select: { name: true },
+      }),
+    ])
+
+    const assignee = users.get(task.assigned_user_id)
+    const assigner = users.get(assignerId)
+    if (!assignee) return false
+
+    const result = await sendTaskAssignment(
+      { email: assignee.email, name: assignee.name || undefined },
+      {
+        assigneeName: assignee.name || assignee.email,
+        taskTitle: task.title,
+        taskDescription: task.description || 'No description',
+        dueDate: task.due_date
+          ? task.due_date.toLocaleDateString('en-US', {
+              weekday: 'long',
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })
+          : 'No due date',
+        priority: task.priority,
+        assignerName: assigner
+          ? assigner.name || assigner.email
+          : 'A colleague',
+        taskUrl: `${env.NEXTAUTH_URL}/dashboard/tasks/${task.id}`,
+        firmName: firm?.name || 'your law firm',
+      }
+    )
+
+    if (!result.success) {
+      console.error('Task assignment email failed:', result.error)
+    }
+
+    return result.success
+  } catch (error) {
+    console.error('Error sending task assignment email:', error)
+    return false
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server'
 import { verifyToken } from './auth'
-import { TenantAwarePrisma } from './db'
+import { isSessionRevoked } from './sessions'
+import { TenantAwarePrisma, TenantPrismaClient } from './db'
 
 export interface TenantContext {
   lawFirmId: string
@@ -29,6 +30,17 @@ export async function extractTenantContext(
       return null
     }
 
+    // The token's session must still be active in the session registry
+    if (
+      await isSessionRevoked(
+        payload.platformUserId,
+        payload.iat ? payload.iat * 1000 : undefined,
+        payload.sessionId
+      )
+    ) {
+      return null
+    }
+
     // For now, return the context from token
     // In a full implementation, you'd fetch this from the database
     return {
@@ -43,9 +55,12 @@ export async function extractTenantContext(
   }
 }
 
+// Wrap a handler so it receives a client scoped to the caller's law firm.
+// The client shares the application's connection pool, so there is nothing
+// to disconnect or clear afterwards.
 export function withTenantContext<T extends unknown[], R>(
   handler: (
-    prisma: TenantAwarePrisma,
+    prisma: TenantPrismaClient,
     context: TenantContext,
     ...args: T
   ) => Promise<R>
@@ -57,34 +72,28 @@ export function withTenantContext<T extends unknown[], R>(
       throw new Error('No tenant context available')
     }
 
-    const prisma = new TenantAwarePrisma()
-    const tenantPrisma = prisma.forTenant(context.lawFirmId, context.userRole)
+    const tenantPrisma = TenantAwarePrisma.forTenant(
+      context.lawFirmId,
+      context.userRole
+    )
 
-    try {
-      return await handler(tenantPrisma, context, ...args)
-    } finally {
-      await tenantPrisma.clearTenantContext()
-      await tenantPrisma.$disconnect()
-    }
+    return handler(tenantPrisma, context, ...args)
   }
 }
 
 // Helper to get tenant-aware Prisma client from headers
 export async function getTenantPrisma(request: NextRequest): Promise<{
-  prisma: TenantAwarePrisma
+  prisma: TenantPrismaClient
   context: TenantContext
 } | null> {
   const context = await extractTenantContext(request)
 
-  if (!context) {
+  if (!context?.lawFirmId) {
     return null
   }
 
-  const prisma = new TenantAwarePrisma()
-  const tenantPrisma = prisma.forTenant(context.lawFirmId, context.userRole)
-
   return {
-    prisma: tenantPrisma,
+    prisma: TenantAwarePrisma.forTenant(context.lawFirmId, context.userRole),
     context,
   }
 }
@@ -0,0 +1,379 @@
+// Document Text Extraction
+// Purpose: Pull plain text out of PDF, DOCX and TXT files for the search index
+//
+// Extraction is intentionally dependency-free: DOCX is a ZIP of XML parts and
+// PDF text lives in (usually Flate-compressed) content streams, both of which
+// can be read with Node's zlib. Scanned PDFs and exotic font encodings yield
+// little or no text; those documents stay findable by name only.
+//
+// Decompression is capped per ZIP entry or PDF stream and across the whole
+// file, so a small archive that inflates to gigabytes fails extraction
+// instead of exhausting memory.
+
+import { constants, inflateRawSync, inflateSync } from 'zlib'
+
+export const EXTRACTABLE_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+]
+
+// Cap on stored text so a single huge file cannot bloat the index
+export const MAX_EXTRACTED_TEXT_LENGTH = 500_000
+
+// Inflated size caps: per ZIP entry or PDF stream, and per file
+export const MAX_INFLATED_PART_SIZE = 8 * 1024 * 1024 // 8MB
+export const MAX_INFLATED_TOTAL_SIZE = 32 * 1024 * 1024 // 32MB
+
+// Thrown when a file decompresses past the caps above
+export class ExtractionLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExtractionLimitError'
+  }
+}
+
+export function isExtractableType(mimeType: string): boolean {
+  return EXTRACTABLE_MIME_TYPES.includes(mimeType)
+}
+
+// Extract searchable text from a file, or null when the type is unsupported.
+// Throws ExtractionLimitError for files that decompress past the caps.
+export function extractText(buffer: Buffer, mimeType: string): string | null {
+  let text: string
+
+  switch (mimeType) {
+    case 'text/plain':
+      text = buffer.toString('utf8').replace(/^\uFEFF/, '')
+      break
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      text = extractDocxText(buffer)
+      break
+    case 'application/pdf':
+      text = extractPdfText(buffer)
+      break
+    default:
+      return null
+  }
+
+  return normalizeWhitespace(text).slice(0, MAX_EXTRACTED_TEXT_LENGTH)
+}
+
+// Running total of inflated bytes for one file
+interface InflateBudget {
+  used: number
+}
+
+// Inflate one ZIP entry or PDF stream within the per-part and per-file caps
+function inflateWithinBudget(
+  inflate: () => Buffer,
+  budget: InflateBudget
+): Buffer {
+  let data: Buffer
+  try {
+    data = inflate()
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new ExtractionLimitError(
+        'Compressed content expands beyond the extraction limit'
+      )
+    }
+    throw error
+  }
+
+  budget.used += data.length
+  if (budget.used > MAX_INFLATED_TOTAL_SIZE) {
+    throw new ExtractionLimitError(
+      'Compressed content expands beyond the extraction limit'
+    )
+  }
+  return data
+}
+
+function normalizeWhitespace(text: string): string {
+  return (
+    text
+      // Postgres text columns cannot hold NUL bytes
+      .replace(/\u0000/g, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t\f\v]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  )
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+// Read the entries of a ZIP archive whose names match the filter
+function readZipEntries(
+  buffer: Buffer,
+  filter: (name: string) => boolean
+): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>()
+  const budget: InflateBudget = { used: 0 }
+
+  // End of central directory record sits at the end, before an optional comment
+  let eocd = -1
+  for (
+    let i = buffer.length - 22;
+    i >= Math.max(0, buffer.length - 65557);
+    i--
+  ) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive')
+
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    if (filter(name)) {
+      const localNameLength = buffer.readUInt16LE(localOffset + 26)
+      const localExtraLength = buffer.readUInt16LE(localOffset + 28)
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+
+      if (method === 0) {
+        entries.set(name, data)
+      } else if (method === 8) {
+        entries.set(
+          name,
+          inflateWithinBudget(
+            () =>
+              inflateRawSync(data, { maxOutputLength: MAX_INFLATED_PART_SIZE }),
+            budget
+          )
+        )
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+// Turn a WordprocessingML part into text, keeping paragraph breaks
+function wordXmlToText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      // Field instructions (e.g. HYPERLINK "...") are not visible text
+      .replace(/<w:instrText[^>]*>[\s\S]*?<\/w:instrText>/g, '')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+function extractDocxText(buffer: Buffer): string {
+  const parts = readZipEntries(buffer, name =>
+    /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/.test(name)
+  )
+
+  const body = parts.get('word/document.xml')
+  if (!body) throw new Error('DOCX file has no document body')
+
+  // Body first, then headers, footers and notes
+  return [
+    body,
+    ...[...parts.entries()]
+      .filter(([name]) => name !== 'word/document.xml')
+      .map(([, part]) => part),
+  ]
+    .map(part => wordXmlToText(part.toString('utf8')))
+    .join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+// Decode the body of a PDF literal string (the part between the parentheses)
+function decodePdfLiteral(raw: string): string {
+  let result = ''
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (char !== '\\') {
+      result += char
+      continue
+    }
+
+    const next = raw[++i]
+    if (next === undefined) break
+
+    if (/[0-7]/.test(next)) {
+      let octal = next
+      while (octal.length < 3 && /[0-7]/.test(raw[i + 1] || '')) {
+        octal += raw[++i]
+      }
+      result += String.fromCharCode(parseInt(octal, 8) & 0xff)
+    } else if (next === '\r' || next === '\n') {
+      // Escaped line break continues the string
+      if (next === '\r' && raw[i + 1] === '\n') i++
+    } else {
+      result += { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[next] ?? next
+    }
+  }
+
+  return result
+}
+
+// Decode a PDF hex string; UTF-16BE when it starts with a byte order mark
+function decodePdfHex(raw: string): string {
+  const hex = raw.replace(/[^0-9a-fA-F]/g, '')
+  const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex')
+
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return bytes.subarray(2).swap16().toString('utf16le')
+  }
+
+  const text = bytes.toString('latin1')
+  // Two-byte glyph ids (CID fonts) are not readable without the font's
+  // ToUnicode map; drop them rather than indexing garbage
+  return /^[\x20-\x7e\xa0-\xff\s]*$/.test(text) ? text : ''
+}
+
+// Pull the text operators out of a decoded content stream
+function extractTextOperators(content: string): string {
+  const output: string[] = []
+  const blocks = content.match(/\bBT\b[\s\S]*?\bET\b/g) || []
+
+  for (const block of blocks) {
+    let pending = ''
+    let i = 0
+
+    while (i < block.length) {
+      const char = block[i]
+
+      if (char === '(') {
+        // Literal string with balanced, possibly escaped, parentheses
+        let depth = 1
+        let j = i + 1
+        while (j < block.length && depth > 0) {
+          if (block[j] === '\\') j++
+          else if (block[j] === '(') depth++
+          else if (block[j] === ')') depth--
+          j++
+        }
+        pending += decodePdfLiteral(block.slice(i + 1, j - 1))
+        i = j
+      } else if (char === '<' && block[i + 1] !== '<') {
+        const end = block.indexOf('>', i)
+        if (end < 0) break
+        pending += decodePdfHex(block.slice(i + 1, end))
+        i = end + 1
+      } else if (char === '-' || (char >= '0' && char <= '9')) {
+        // Large negative kerning inside a TJ array separates words
+        const match = /^-?\d*\.?\d+/.exec(block.slice(i, i + 16))
+        if (match && parseFloat(match[0]) < -200 && pending) pending += ' '
+        i += match ? match[0].length : 1
+      } else if (/[A-Za-z'"*]/.test(char)) {
+        const match = /^[A-Za-z'"*]+/.exec(block.slice(i, i + 8))
+        const operator = match ? match[0] : char
+        if (['T*', "'", '"', 'Td', 'TD', 'Tm'].includes(operator)) {
+          pending += '\n'
+        } else if (operator === 'Tj' || operator === 'TJ') {
+          pending += ' '
+        }
+        i += operator.length
+      } else {
+        i++
+      }
+    }
+
+    output.push(pending)
+  }
+
+  return output.join('\n')
+}
+
+function extractPdfText(buffer: Buffer): string {
+  if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    throw new Error('Not a PDF file')
+  }
+
+  // latin1 keeps a 1:1 mapping between bytes and string characters
+  const source = buffer.toString('latin1')
+  const streamPattern = /stream\r?\n/g
+  const texts: string[] = []
+  const budget: InflateBudget = { used: 0 }
+  let match: RegExpExecArray | null
+
+  while ((match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length
+    const end = source.indexOf('endstream', start)
+    if (end < 0) break
+
+    // The stream dictionary precedes the "stream" keyword
+    const dictStart = source.lastIndexOf('obj', match.index)
+    const dictionary = source.slice(Math.max(dictStart, 0), match.index)
+    streamPattern.lastIndex = end + 'endstream'.length
+
+    // Images, fonts and other binary streams carry no page text
+    if (/\/Subtype\s*\/Image|\/Length1|\/FontFile|\/XRef/.test(dictionary)) {
+      continue
+    }
+
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1]
+    if (filters && filters.replace(/\/FlateDecode|[\s[\]]/g, '') !== '') {
+      continue
+    }
+
+    let data = buffer.subarray(start, end)
+    if (filters) {
+      try {
+        const compressed = data
+        data = inflateWithinBudget(
+          () =>
+            // Tolerate streams whose declared length is slightly off
+            inflateSync(compressed, {
+              finishFlush: constants.Z_SYNC_FLUSH,
+              maxOutputLength: MAX_INFLATED_PART_SIZE,
+            }),
+          budget
+        )
+      } catch (error) {
+        if (error instanceof ExtractionLimitError) throw error
+        continue
+      }
+    }
+
+    const text = extractTextOperators(data.toString('latin1'))
+    if (text.trim()) texts.push(text)
+  }
+
+  return texts.join('\n')
+}
@@ -3,6 +3,7 @@
 
 import { prisma } from './prisma'
 import { UserContext, Role, ROLE_PERMISSIONS } from './rbac'
+import { getRolePermissions, resolveRoleKey } from './roles'
 
 // Get user with their current permissions
 export async function getUserWithPermissions(
@@ -24,6 +25,7 @@ export async function getUserWithPermissions(
               select: {
                 name: true,
                 permissions: true,
+                base_role: true,
               },
             },
           },
@@ -40,13 +42,10 @@ export async function getUserWithPermissions(
       return null
     }
 
-    // Get primary role (highest level role)
+    // Get primary role (highest level role); custom roles rank as their base
     const userRoles = user.user_roles
-      .map(
-        (ur: { roles: { name: string } }) =>
-          ur.roles.name.toLowerCase().replace(/\s+/g, '_') as Role
-      )
-      .filter(Boolean)
+      .map(userRole => resolveRoleKey(userRole.roles))
+      .filter((role): role is Role => role !== null)
 
     const primaryRole = getPrimaryRole(userRoles)
 
@@ -54,27 +53,16 @@ export async function getUserWithPermissions(
       return null
     }
 
-    // Combine permissions from all roles
+    // Combine permissions from all roles: built-in defaults plus the
+    // permissions stored on each role in the database
     const allPermissions = new Set<string>()
 
-    // Add permissions from role definitions
-    userRoles.forEach((role: Role) => {
-      const rolePermissions = ROLE_PERMISSIONS[role] || []
-      rolePermissions.forEach((permission: string) =>
+    user.user_roles.forEach(userRole => {
+      getRolePermissions(userRole.roles).forEach(permission =>
         allPermissions.add(permission)
       )
     })
 
-    // Add custom permissions from database roles
-    user.user_roles.forEach(
-      (userRole: { roles: { permissions?: unknown } }) => {
-        const customPermissions = (userRole.roles.permissions as string[]) || []
-        customPermissions.forEach((permission: string) =>
-          allPermissions.add(permission)
-        )
-      }
-    )
-
     return {
       id: user.id,
       lawFirmId: user.law_firm_id,
@@ -126,6 +114,20 @@ export async function getPlatformUserContext(
   }
 }
 
+// Platform account behind a user context. Super admin contexts already carry
+// the platform user id.
+export async function getPlatformUserId(
+  userContext: UserContext
+): Promise<string | null> {
+  if (userContext.role === 'super_admin') return userContext.id
+
+  const user = await prisma.users.findFirst({
+    where: { id: userContext.id, law_firm_id: userContext.lawFirmId },
+    select: { platform_user_id: true },
+  })
+  return user?.platform_user_id ?? null
+}
+
 // Determine primary role from multiple roles
 function getPrimaryRole(roles: Role[]): Role | null {
   if (roles.length === 0) return null
@@ -180,9 +182,11 @@ export async function canAccessLawFirm(
   }
 }
 
-// Get user's accessible law firms (for super admin who can access multiple firms)
+// Get the law firms a platform account can work in. Super admins can access
+// every firm; everyone else gets the firms where they are an active member,
+// which is what the firm switcher offers.
 export async function getUserAccessibleLawFirms(
-  userId: string,
+  platformUserId: string,
   isPlatformUser = false
 ): Promise<{ id: string; name: string; slug: string }[]> {
   try {
@@ -200,11 +204,11 @@ export async function getUserAccessibleLawFirms(
       return lawFirms
     }
 
-    // Regular users can only access their own law firm
-    const user = await prisma.users.findFirst({
+    const users = await prisma.users.findMany({
       where: {
-        id: userId,
+        platform_user_id: platformUserId,
         isActive: true,
+        law_firms: { isActive: true },
       },
       include: {
         law_firms: {
@@ -215,15 +219,76 @@ export async function getUserAccessibleLawFirms(
           },
         },
       },
+      orderBy: { law_firms: { name: 'asc' } },
     })
 
-    return user?.law_firms ? [user.law_firms] : []
+    return users.map(user => user.law_firms)
   } catch (error) {
     console.error('Error getting accessible law firms:', error)
     return []
   }
 }
 
+// Membership details carried in the session for a platform account in one
+// firm. Returns null unless the membership and the firm are both active.
+export async function getFirmSessionUser(
+  platformUserId: string,
+  law_firm_id: string
+): Promise<{
+  id: string
+  lawFirmId: string
+  lawFirmName: string
+  role: string
+} | null> {
+  try {
+    const user = await prisma.users.findFirst({
+      where: {
+        platform_user_id: platformUserId,
+        law_firm_id: law_firm_id,
+        isActive: true,
+      },
+      include: {
+        user_roles: {
+          include: {
+            roles: {
+              select: {
+                name: true,
+                base_role: true,
+              },
+            },
+          },
+        },
+        law_firms: {
+          select: {
+            name: true,
+            isActive: true,
+          },
+        },
+      },
+    })
+
+    if (!user || !user.law_firms?.isActive) {
+      return null
+    }
+
+    const primaryRole = getPrimaryRole(
+      user.user_roles
+        .map(userRole => resolveRoleKey(userRole.roles))
+        .filter((role): role is Role => role !== null)
+    )
+
+    return {
+      id: user.id,
+      lawFirmId: user.law_firm_id,
+      lawFirmName: user.law_firms.name,
+      role: primaryRole || user.user_roles[0]?.roles.name || 'user',
+    }
+  } catch (error) {
+    console.error('Error getting firm session user:', error)
+    return null
+  }
+}
+
 // Refresh user permissions (call after role changes)
 export async function refreshUserPermissions(
   userId: string,
@@ -0,0 +1,125 @@
+// Document Watermarking
+// Purpose: Stamp a share recipient's email into the content of PDFs and
+// images before they leave the firm
+//
+// PDFs get a faint diagonal mark and a footer line on every page (pdf-lib).
+// Images get the same diagonal mark tiled across them (sharp). Other types
+// cannot be marked and are served unchanged; callers must say so.
+
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib'
+import sharp from 'sharp'
+
+export const WATERMARKABLE_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+]
+
+export function isWatermarkableType(mimeType: string): boolean {
+  return WATERMARKABLE_MIME_TYPES.includes(mimeType)
+}
+
+// Stamp text into a file's content, or null when the type is unsupported.
+// Throws when the file cannot be parsed (e.g. an encrypted PDF), so nothing
+// unmarked is served by mistake.
+export async function watermarkFile(
+  buffer: Buffer,
+  mimeType: string,
+  text: string
+): Promise<Buffer | null> {
+  switch (mimeType) {
+    case 'application/pdf':
+      return watermarkPdf(buffer, text)
+    case 'image/jpeg':
+    case 'image/png':
+    case 'image/webp':
+      return watermarkImage(buffer, text)
+    default:
+      return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+async function watermarkPdf(buffer: Buffer, text: string): Promise<Buffer> {
+  const pdf = await PDFDocument.load(buffer)
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  // The standard fonts only encode Latin-1
+  const mark = text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize()
+    const size = Math.max(Math.min(width, height) / 18, 12)
+    const textWidth = font.widthOfTextAtSize(mark, size)
+
+    // Centered along the page diagonal
+    const angle = Math.atan2(height, width)
+    page.drawText(mark, {
+      x: width / 2 - (textWidth / 2) * Math.cos(angle),
+      y: height / 2 - (textWidth / 2) * Math.sin(angle),
+      size,
+      font,
+      rotate: degrees((angle * 180) / Math.PI),
+      color: rgb(0.5, 0.5, 0.5),
+      opacity: 0.2,
+    })
+
+    page.drawText(mark, {
+      x: 24,
+      y: 12,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    })
+  }
+
+  return Buffer.from(await pdf.save())
+}
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+async function watermarkImage(buffer: Buffer, text: string): Promise<Buffer> {
+  const metadata = await sharp(buffer).metadata()
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Unreadable image dimensions')
+  }
+
+  // rotate() applies EXIF orientation so the overlay matches what is shown;
+  // orientations 5-8 swap width and height
+  const swapped = (metadata.orientation ?? 1) >= 5
+  const width = swapped ? metadata.height : metadata.width
+  const height = swapped ? metadata.width : metadata.height
+  const image = sharp(buffer).rotate()
+
+  const size = Math.max(Math.round(Math.min(width, height) / 20), 10)
+  const step = size * 6
+  const rows: string[] = []
+  for (let y = -height; y < height * 2; y += step) {
+    rows.push(
+      `<text x="${-width}" y="${y}">${escapeXml(`${text}    `.repeat(40))}</text>`
+    )
+  }
+
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <g transform="rotate(-30 ${width / 2} ${height / 2})" font-family="sans-serif" font-size="${size}" fill="#808080" fill-opacity="0.25">
+    ${rows.join('\n    ')}
+  </g>
+</svg>`
+
+  return image
+    .composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+    .toBuffer()
+}
@@ -22,6 +22,7 @@ declare module 'next-auth' {
     lawFirmId: string
     lawFirmName: string
     role: string
+    sessionId?: string
   }
 }
 
@@ -31,5 +32,6 @@ declare module 'next-auth/jwt' {
     lawFirmId: string
     lawFirmName: string
     role: string
+    sessionId?: string
   }
 }